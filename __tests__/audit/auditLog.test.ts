@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for lib/audit/auditLog.ts
+ *
+ * Tests:
+ * - Snapshots of audited node fields
+ * - Field-level diff with secret redaction
+ * - Request source detection
+ * - Audit writes never throw
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('@/lib/db/models/AuditEvent', () => ({
+    __esModule: true,
+    default: { create: jest.fn() },
+}));
+jest.mock('@/lib/auth/session', () => ({
+    getSessionUser: jest.fn(),
+}));
+
+import AuditEventModel from '@/lib/db/models/AuditEvent';
+import { getSessionUser } from '@/lib/auth/session';
+import { logger } from '@/lib/utils/logger';
+import {
+    REDACTED,
+    diffSnapshots,
+    getAuditContext,
+    getAuditSource,
+    recordAuditEvent,
+    toAuditSnapshot,
+} from '@/lib/audit/auditLog';
+
+describe('toAuditSnapshot', () => {
+    it('keeps configuration fields only', () => {
+        const snapshot = toAuditSnapshot({
+            name: 'API',
+            url: 'https://api.example.com',
+            status: 'DOWN',
+            latency: 120,
+            checkIntervalSeconds: 60,
+        });
+
+        expect(snapshot).toEqual({ name: 'API', url: 'https://api.example.com', checkIntervalSeconds: 60 });
+    });
+
+    it('uses toObject on documents and stringifies ids', () => {
+        const doc = {
+            toObject: () => ({ name: 'API', dependencies: [{ toJSON: () => 'abc' }] }),
+        };
+
+        expect(toAuditSnapshot(doc)).toEqual({ name: 'API', dependencies: ['abc'] });
+    });
+
+    it('returns an empty snapshot for missing documents', () => {
+        expect(toAuditSnapshot(null)).toEqual({});
+    });
+});
+
+describe('diffSnapshots', () => {
+    it('lists changed nested fields by dotted path', () => {
+        const changes = diffSnapshots(
+            { name: 'API', checkPolicy: { warningLatencyMs: 500, method: 'HEAD' } },
+            { name: 'API', checkPolicy: { warningLatencyMs: 800, method: 'HEAD' } }
+        );
+
+        expect(changes).toEqual([{ field: 'checkPolicy.warningLatencyMs', before: 500, after: 800 }]);
+    });
+
+    it('compares arrays as a whole', () => {
+        const changes = diffSnapshots({ dependencies: ['a'] }, { dependencies: ['a', 'b'] });
+
+        expect(changes).toEqual([{ field: 'dependencies', before: ['a'], after: ['a', 'b'] }]);
+    });
+
+    it('redacts secrets but still detects replaced values', () => {
+        const changes = diffSnapshots(
+            { authConfig: { type: 'BASIC', username: 'ops', password: 'enc:v1:k:old' } },
+            { authConfig: { type: 'BASIC', username: 'ops', password: 'enc:v1:k:new' } }
+        );
+
+        expect(changes).toEqual([{ field: 'authConfig.password', before: REDACTED, after: REDACTED }]);
+        expect(JSON.stringify(changes)).not.toContain('enc:v1');
+    });
+
+    it('redacts transaction fill values inside the step list', () => {
+        const changes = diffSnapshots(
+            { transaction: { steps: [{ action: 'fill', selector: '#pw', value: 'old-pass' }] } },
+            { transaction: { steps: [{ action: 'fill', selector: '#pw', value: 'new-pass' }] } }
+        );
+
+        expect(changes).toEqual([{
+            field: 'transaction.steps',
+            before: [{ action: 'fill', selector: '#pw', value: REDACTED }],
+            after: [{ action: 'fill', selector: '#pw', value: REDACTED }],
+        }]);
+    });
+
+    it('records removed secrets as null', () => {
+        const changes = diffSnapshots(
+            { authConfig: { type: 'BEARER', token: 'secret-token' } },
+            { authConfig: { type: 'NONE' } }
+        );
+
+        expect(changes).toEqual([
+            { field: 'authConfig.token', before: REDACTED, after: null },
+            { field: 'authConfig.type', before: 'BEARER', after: 'NONE' },
+        ]);
+    });
+
+    it('treats missing and null values as equal', () => {
+        expect(diffSnapshots({ checkIntervalSeconds: null }, {})).toEqual([]);
+    });
+});
+
+describe('getAuditSource / getAuditContext', () => {
+    it('detects dashboard requests by Sec-Fetch-Site', () => {
+        expect(getAuditSource(new Request('http://localhost/api/nodes', { headers: { 'sec-fetch-site': 'same-origin' } }))).toBe('ui');
+        expect(getAuditSource(new Request('http://localhost/api/nodes'))).toBe('api');
+    });
+
+    it('uses the session user as actor', async () => {
+        (getSessionUser as jest.Mock).mockResolvedValueOnce({ id: '1', name: 'budi', role: 'admin' });
+        await expect(getAuditContext(new Request('http://localhost/api/nodes'))).resolves.toEqual({ actor: 'budi', source: 'api' });
+
+        (getSessionUser as jest.Mock).mockResolvedValueOnce(null);
+        await expect(getAuditContext(new Request('http://localhost/api/nodes'))).resolves.toEqual({ actor: 'anonymous', source: 'api' });
+    });
+});
+
+describe('recordAuditEvent', () => {
+    const event = {
+        actor: 'budi',
+        source: 'ui' as const,
+        action: 'node.delete' as const,
+        targetType: 'node' as const,
+        targetId: 'abc',
+        targetName: 'API',
+    };
+
+    it('stores the event with an empty change list by default', async () => {
+        await recordAuditEvent(event);
+
+        expect(AuditEventModel.create).toHaveBeenCalledWith({ ...event, changes: [] });
+    });
+
+    it('logs instead of throwing when the write fails', async () => {
+        (AuditEventModel.create as jest.Mock).mockRejectedValueOnce(new Error('db down'));
+
+        await expect(recordAuditEvent(event)).resolves.toBeUndefined();
+        expect(logger.error).toHaveBeenCalledWith('Failed to record audit event', expect.any(Error), expect.objectContaining({ action: 'node.delete' }));
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Integration Test for POST /api/cron/check
+ *
+ * Tests:
+ * - Refuses every request while CRON_SECRET is not set
+ * - Wrong or missing bearer token -> 401
+ * - Matching token runs the scheduled checks
+ *
+ * @jest-environment node
+ *
+ * @see app/api/cron/check/route.ts
+ */
+
+jest.mock('@/lib/db/mongoose');
+jest.mock('@/lib/monitoring/scheduler', () => ({
+    runScheduledChecks: jest.fn(),
+}));
+
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/cron/check/route';
+import connectDB from '@/lib/db/mongoose';
+import { runScheduledChecks } from '@/lib/monitoring/scheduler';
+
+const request = (authorization?: string) =>
+    POST(new NextRequest('http://localhost:3000/api/cron/check', {
+        method: 'POST',
+        headers: authorization ? { authorization } : {},
+    }));
+
+describe('POST /api/cron/check', () => {
+    const env = { ...process.env };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        (connectDB as jest.Mock).mockResolvedValue(true);
+        (runScheduledChecks as jest.Mock).mockResolvedValue({
+            results: {},
+            run: { due: 0, remaining: 0, budgetExhausted: false, elapsedMs: 1, cursor: null },
+        });
+    });
+
+    afterEach(() => {
+        process.env = { ...env };
+        jest.restoreAllMocks();
+    });
+
+    it('should refuse every request without CRON_SECRET', async () => {
+        delete process.env.CRON_SECRET;
+
+        const response = await request('Bearer ');
+
+        expect(response.status).toBe(503);
+        expect(runScheduledChecks).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong or missing token', async () => {
+        process.env.CRON_SECRET = 'cron-secret';
+
+        expect((await request('Bearer wrong')).status).toBe(401);
+        expect((await request()).status).toBe(401);
+        expect(runScheduledChecks).not.toHaveBeenCalled();
+    });
+
+    it('should run the checks with the matching token', async () => {
+        process.env.CRON_SECRET = 'cron-secret';
+
+        const response = await request('Bearer cron-secret');
+
+        expect(response.status).toBe(200);
+        expect(runScheduledChecks).toHaveBeenCalled();
+    });
+});
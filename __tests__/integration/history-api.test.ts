@@ -0,0 +1,91 @@
+/**
+ * Integration Test for GET /api/nodes/[id]/history
+ *
+ * Tests:
+ * - Default range (last 24 hours) at the finest retained resolution
+ * - Explicit resolution
+ * - Invalid ranges and resolutions -> 400, unknown node -> 404
+ *
+ * @jest-environment node
+ *
+ * @see app/api/nodes/[id]/history/route.ts
+ */
+
+jest.mock('@/lib/db/mongoose');
+jest.mock('@/lib/db/models/Node');
+jest.mock('@/lib/monitoring/checkHistory', () => ({
+    ...jest.requireActual('@/lib/monitoring/checkHistory'),
+    getCheckHistory: jest.fn(),
+}));
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { NextRequest } from 'next/server';
+import { GET } from '@/app/api/nodes/[id]/history/route';
+import NodeModel from '@/lib/db/models/Node';
+import connectDB from '@/lib/db/mongoose';
+import { getCheckHistory } from '@/lib/monitoring/checkHistory';
+
+const nodeId = '507f1f77bcf86cd799439011';
+
+const request = (query = '') =>
+    GET(new NextRequest(`http://localhost:3000/api/nodes/${nodeId}/history${query}`), { params: { id: nodeId } });
+
+describe('GET /api/nodes/[id]/history', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (connectDB as jest.Mock).mockResolvedValue(true);
+        (NodeModel.findById as jest.Mock).mockReturnValue({
+            select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue({ _id: nodeId }) }),
+        });
+        (getCheckHistory as jest.Mock).mockResolvedValue([{ status: 'STABLE', latency: 90 }]);
+    });
+
+    it('should return raw points of the last 24 hours by default', async () => {
+        const response = await request();
+        const body = await response.json();
+
+        expect(response.status).toBe(200);
+        expect(body.data).toMatchObject({ nodeId, resolution: 'raw', points: [{ status: 'STABLE', latency: 90 }] });
+
+        const [, from, to, resolution] = (getCheckHistory as jest.Mock).mock.calls[0];
+        expect(to.getTime() - from.getTime()).toBe(24 * 60 * 60 * 1000);
+        expect(resolution).toBe('raw');
+    });
+
+    it('should use the requested range and resolution', async () => {
+        const response = await request('?from=2026-01-01T00:00:00Z&to=2026-02-01T00:00:00Z&resolution=day');
+
+        expect(response.status).toBe(200);
+        expect(getCheckHistory).toHaveBeenCalledWith(
+            nodeId,
+            new Date('2026-01-01T00:00:00Z'),
+            new Date('2026-02-01T00:00:00Z'),
+            'day'
+        );
+    });
+
+    it('should reject invalid ranges and resolutions', async () => {
+        expect((await request('?from=yesterday')).status).toBe(400);
+        expect((await request('?from=2026-02-01T00:00:00Z&to=2026-01-01T00:00:00Z')).status).toBe(400);
+
+        const response = await request('?resolution=minute');
+        expect(response.status).toBe(400);
+        expect((await response.json()).field).toBe('resolution');
+        expect(getCheckHistory).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown nodes', async () => {
+        (NodeModel.findById as jest.Mock).mockReturnValue({
+            select: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(null) }),
+        });
+
+        expect((await request()).status).toBe(404);
+    });
+});
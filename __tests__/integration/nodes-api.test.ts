@@ -20,6 +20,10 @@ import { APIResponse } from '@/lib/utils/api-helpers';
 // Mock dependencies before imports
 jest.mock('@/lib/db/mongoose');
 jest.mock('@/lib/db/models/Node');
+jest.mock('@/lib/db/models/AuditEvent');
+jest.mock('@/lib/auth/session', () => ({
+    getSessionUser: jest.fn().mockResolvedValue(null),
+}));
 jest.mock('@/lib/utils/logger', () => ({
     logger: {
         info: jest.fn(),
@@ -359,6 +363,38 @@ describe('Integration Test: API /api/nodes', () => {
             expect(responseData.data[0].name).toBe('API 1');
         });
 
+        /**
+         * Transaction fill values are secrets: only admins get them
+         */
+        it('should redact transaction fill values for non-admin readers', async () => {
+            (NodeModel.find as jest.Mock).mockReturnValue({
+                select: jest.fn().mockReturnThis(),
+                sort: jest.fn().mockReturnThis(),
+                lean: jest.fn().mockResolvedValue([{
+                    _id: '507f1f77bcf86cd799439013',
+                    name: 'Portal',
+                    url: 'https://portal.example.com',
+                    group: 'website',
+                    dependencies: [],
+                    status: 'STABLE',
+                    latency: 300,
+                    history: [],
+                    lastChecked: new Date('2026-02-09T10:00:00Z'),
+                    transaction: {
+                        steps: [
+                            { action: 'fill', selector: '#otp', value: 'enc:v1:v1:abc:def' },
+                            { action: 'fill', selector: '#pw', value: '{password}' },
+                        ],
+                    },
+                }]),
+            });
+
+            const response = await GET(new NextRequest('http://localhost:3000/api/nodes', { method: 'GET' }));
+            const responseData: APIResponse = await response.json();
+
+            expect(responseData.data[0].transaction.steps.map((step: any) => step.value)).toEqual(['[redacted]', '{password}']);
+        });
+
         /**
          * SCENARIO 8: GET when MongoDB is not configured
          */
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for lib/layouts/TopologyLayout.ts
+ *
+ * Tests:
+ * - Upstream dependencies are ranked above their dependents
+ * - Nodes without dependency links go to a grid below the graph
+ * - Unknown dependency ids and self links are ignored
+ * - Edge health follows the upstream node, failure depth counts failing hops
+ * - No NaN coordinates
+ *
+ * @jest-environment node
+ */
+
+import { calculateTopologyLayout, getEdgeHealth } from '@/lib/layouts/TopologyLayout';
+import { NodeData, NodeStatus } from '@/types';
+
+const node = (id: string, status: NodeStatus = 'STABLE', dependencies: string[] = []): NodeData => ({
+    id,
+    name: id.toUpperCase(),
+    url: `https://${id}.example.com`,
+    group: 'service',
+    dependencies,
+    status,
+    latency: 0,
+    history: [],
+    lastChecked: new Date(0).toISOString(),
+});
+
+describe('TopologyLayout', () => {
+    it('returns nothing for an empty node list', () => {
+        const { positions, edges } = calculateTopologyLayout([]);
+
+        expect(positions.size).toBe(0);
+        expect(edges).toEqual([]);
+    });
+
+    it('places dependencies above their dependents', () => {
+        const nodes = [
+            node('web', 'STABLE', ['api']),
+            node('api', 'STABLE', ['db']),
+            node('db'),
+        ];
+
+        const { positions, edges } = calculateTopologyLayout(nodes);
+
+        expect(positions.get('db')!.y).toBeGreaterThan(positions.get('api')!.y);
+        expect(positions.get('api')!.y).toBeGreaterThan(positions.get('web')!.y);
+        expect(edges.map((edge) => `${edge.source}->${edge.target}`).sort()).toEqual(['api->web', 'db->api']);
+        edges.forEach((edge) => expect(edge.path!.length).toBeGreaterThanOrEqual(2));
+    });
+
+    it('puts unlinked nodes in a grid below the graph', () => {
+        const nodes = [
+            node('api', 'STABLE', ['db']),
+            node('db'),
+            node('lonely-1'),
+            node('lonely-2'),
+        ];
+
+        const { positions } = calculateTopologyLayout(nodes);
+        const lowestLinked = Math.min(positions.get('api')!.y, positions.get('db')!.y);
+
+        expect(positions.get('lonely-1')!.y).toBeLessThan(lowestLinked);
+        expect(positions.get('lonely-1')!.y).toBe(positions.get('lonely-2')!.y);
+        expect(positions.get('lonely-1')!.x).not.toBe(positions.get('lonely-2')!.x);
+    });
+
+    it('ignores unknown dependencies and self links', () => {
+        const nodes = [node('api', 'STABLE', ['api', 'missing'])];
+
+        const { positions, edges } = calculateTopologyLayout(nodes);
+
+        expect(edges).toEqual([]);
+        expect(positions.get('api')).toEqual({ id: 'api', x: 0, y: 0, z: 0 });
+    });
+
+    it('colors edges by the upstream node and staggers failure propagation', () => {
+        const nodes = [
+            node('db', 'DOWN'),
+            node('api', 'DEGRADED_BY_DEPENDENCY', ['db']),
+            node('web', 'DEGRADED_BY_DEPENDENCY', ['api']),
+            node('cache', 'WARNING'),
+            node('worker', 'STABLE', ['cache', 'api']),
+        ];
+
+        const { edges } = calculateTopologyLayout(nodes);
+        const edge = (source: string, target: string) =>
+            edges.find((candidate) => candidate.source === source && candidate.target === target)!;
+
+        expect(edge('db', 'api')).toMatchObject({ health: 'failing', propagationDepth: 0 });
+        expect(edge('api', 'web')).toMatchObject({ health: 'failing', propagationDepth: 1 });
+        expect(edge('api', 'worker')).toMatchObject({ health: 'failing', propagationDepth: 1 });
+        expect(edge('cache', 'worker').health).toBe('degraded');
+        expect(edge('cache', 'worker').propagationDepth).toBeUndefined();
+    });
+
+    it('survives dependency cycles without NaN coordinates', () => {
+        const nodes = [
+            node('a', 'DOWN', ['b']),
+            node('b', 'DOWN', ['a']),
+            node('c', 'STABLE', ['a']),
+        ];
+
+        const { positions, edges } = calculateTopologyLayout(nodes);
+
+        positions.forEach((position) => {
+            expect(Number.isFinite(position.x)).toBe(true);
+            expect(Number.isFinite(position.y)).toBe(true);
+        });
+        expect(edges).toHaveLength(3);
+    });
+
+    it('maps statuses to edge health', () => {
+        expect(getEdgeHealth('STABLE')).toBe('healthy');
+        expect(getEdgeHealth('FRESH')).toBe('healthy');
+        expect(getEdgeHealth('FLAPPING')).toBe('degraded');
+        expect(getEdgeHealth('MAINTENANCE')).toBe('maintenance');
+        expect(getEdgeHealth('DOWN')).toBe('failing');
+    });
+});
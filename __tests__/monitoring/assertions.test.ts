@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for lib/monitoring/assertions.ts
+ *
+ * Tests:
+ * - Keyword, regex, header and body size assertions
+ * - JSONPath exists / equals and JSON schema assertions
+ * - Validation (including api-group-only JSON assertions)
+ * - Bounded body reading
+ *
+ * @jest-environment node
+ */
+
+import {
+    evaluateAssertions,
+    formatAssertionFailure,
+    queryJsonPath,
+    readBody,
+    validateAssertions,
+    needsBody,
+} from '@/lib/monitoring/assertions';
+
+const html = '<html><body><h1>Error</h1><p>Database connection error</p></body></html>';
+const json = JSON.stringify({ status: 'ok', checks: [{ name: 'db', ok: true }], 'build id': 42 });
+
+describe('evaluateAssertions', () => {
+    it('should pass when every assertion holds', () => {
+        const failure = evaluateAssertions(
+            { bodyContains: ['<h1>'], bodyRegex: '/database\\s+connection/i', requiredHeaders: [{ name: 'Content-Type', value: 'text/html' }] },
+            { text: html, headers: { 'content-type': 'text/html' } }
+        );
+        expect(failure).toBeNull();
+    });
+
+    it('should fail on forbidden keywords', () => {
+        const failure = evaluateAssertions(
+            { bodyNotContains: ['Database connection error'] },
+            { text: html, headers: {} }
+        );
+
+        expect(failure).toEqual({ assertion: 'bodyNotContains', message: 'Body contains "Database connection error"' });
+        expect(formatAssertionFailure(failure!)).toBe('Assertion failed (bodyNotContains): Body contains "Database connection error"');
+    });
+
+    it('should fail on missing keyword, regex mismatch and missing header', () => {
+        expect(evaluateAssertions({ bodyContains: ['Welcome'] }, { text: html, headers: {} })?.assertion).toBe('bodyContains');
+        expect(evaluateAssertions({ bodyRegex: '^OK$' }, { text: html, headers: {} })?.assertion).toBe('bodyRegex');
+        expect(evaluateAssertions({ requiredHeaders: [{ name: 'X-Version' }] }, { text: '', headers: {} })?.message)
+            .toBe('Missing response header X-Version');
+    });
+
+    it('should enforce max body size', () => {
+        expect(evaluateAssertions({ maxBodyBytes: 10 }, { text: html, headers: {} })?.assertion).toBe('maxBodyBytes');
+        expect(evaluateAssertions({ maxBodyBytes: 10 }, { text: '', bodyBytes: 11, headers: {} })?.assertion).toBe('maxBodyBytes');
+    });
+
+    it('should evaluate JSONPath exists and equals', () => {
+        const input = { text: json, headers: {} };
+
+        expect(evaluateAssertions({ jsonPath: [{ path: '$.status', equals: 'ok' }, { path: '$.checks[0].ok', equals: true }] }, input)).toBeNull();
+        expect(evaluateAssertions({ jsonPath: [{ path: "$['build id']", equals: 42 }] }, input)).toBeNull();
+        expect(evaluateAssertions({ jsonPath: [{ path: '$.error', exists: false }] }, input)).toBeNull();
+
+        expect(evaluateAssertions({ jsonPath: [{ path: '$.status', equals: 'degraded' }] }, input)?.message)
+            .toBe('$.status is ok, expected degraded');
+        expect(evaluateAssertions({ jsonPath: [{ path: '$.checks[3]' }] }, input)?.message)
+            .toBe('$.checks[3] does not exist');
+    });
+
+    it('should validate against a JSON schema', () => {
+        const schema = {
+            type: 'object',
+            required: ['status'],
+            properties: { status: { enum: ['ok'] } },
+        };
+
+        expect(evaluateAssertions({ jsonSchema: schema }, { text: json, headers: {} })).toBeNull();
+
+        const failure = evaluateAssertions({ jsonSchema: schema }, { text: '{"status":"down"}', headers: {} });
+        expect(failure?.assertion).toBe('jsonSchema');
+        expect(failure?.message).toContain('/status');
+    });
+
+    it('should report non-JSON bodies for JSON assertions', () => {
+        expect(evaluateAssertions({ jsonPath: [{ path: '$.status' }] }, { text: html, headers: {} })?.assertion).toBe('json');
+    });
+});
+
+describe('queryJsonPath', () => {
+    it('should reject unsupported syntax', () => {
+        expect(() => queryJsonPath({}, 'status')).toThrow(/start with \$/);
+        expect(() => queryJsonPath({}, '$..status')).toThrow(/Unsupported/);
+    });
+});
+
+describe('validateAssertions', () => {
+    it('should accept valid assertions', () => {
+        expect(validateAssertions(undefined)).toBeNull();
+        expect(validateAssertions({ bodyNotContains: ['error'], maxBodyBytes: 1024 }, 'website')).toBeNull();
+        expect(validateAssertions({ jsonPath: [{ path: '$.status', equals: 'ok' }] }, 'api')).toBeNull();
+    });
+
+    it('should reject JSON assertions outside the api group', () => {
+        expect(validateAssertions({ jsonPath: [{ path: '$.status' }] }, 'website')).toMatch(/api group/);
+        expect(validateAssertions({ jsonSchema: { type: 'object' } }, 'frontend')).toMatch(/api group/);
+    });
+
+    it('should reject invalid values', () => {
+        expect(validateAssertions({ bodyRegex: '(' }, 'website')).toMatch(/bodyRegex/);
+        expect(validateAssertions({ bodyContains: [''] }, 'website')).toMatch(/bodyContains/);
+        expect(validateAssertions({ maxBodyBytes: -1 }, 'website')).toMatch(/maxBodyBytes/);
+        expect(validateAssertions({ jsonPath: [{ path: 'status' }] }, 'api')).toMatch(/jsonPath/);
+        expect(validateAssertions({ jsonSchema: { type: 'nope' } }, 'api')).toMatch(/jsonSchema/);
+        expect(validateAssertions({ failureStatus: 'FLAPPING' }, 'website')).toMatch(/failureStatus/);
+    });
+
+    it('should only require the body for body assertions', () => {
+        expect(needsBody({ requiredHeaders: [{ name: 'etag' }] })).toBe(false);
+        expect(needsBody({ bodyContains: ['ok'] })).toBe(true);
+    });
+});
+
+describe('readBody', () => {
+    it('should stop reading past the limit', async () => {
+        const result = await readBody(new Response('x'.repeat(100)), 10);
+        expect(result.truncated).toBe(true);
+        expect(result.bytes).toBeGreaterThan(10);
+    });
+
+    it('should read small bodies completely', async () => {
+        const result = await readBody(new Response('hello'));
+        expect(result).toEqual({ text: 'hello', bytes: 5, truncated: false });
+    });
+});
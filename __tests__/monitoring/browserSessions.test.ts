@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for lib/monitoring/browserSessions.ts
+ *
+ * Tests:
+ * - Session key per node + login origin, HMAC fingerprint of the credentials
+ * - Encrypted save / load round trip with expiry
+ * - Undecryptable sessions are discarded
+ * - Persistence switch (BROWSER_SESSION_PERSISTENCE / encryption key)
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+jest.mock('@/lib/db/models/BrowserSession');
+
+import crypto from 'crypto';
+import BrowserSessionModel from '@/lib/db/models/BrowserSession';
+import {
+    getSessionKey,
+    isSessionPersistenceEnabled,
+    loadBrowserSession,
+    saveBrowserSession,
+    StorageState,
+} from '@/lib/monitoring/browserSessions';
+import { AuthConfig } from '@/types';
+
+const mockModel = BrowserSessionModel as jest.Mocked<typeof BrowserSessionModel>;
+
+const auth: AuthConfig = {
+    type: 'BROWSER_LOGIN',
+    username: 'admin',
+    password: 'secret',
+    loginUrl: 'https://app.example.com/login',
+};
+
+const state: StorageState = {
+    cookies: [{
+        name: 'sid', value: 'abc', domain: 'app.example.com', path: '/',
+        expires: -1, httpOnly: true, secure: true, sameSite: 'Lax',
+    }],
+    origins: [],
+};
+
+const env = process.env;
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env, CREDENTIAL_ENCRYPTION_KEYS: `v1:${crypto.randomBytes(32).toString('base64')}` };
+});
+
+afterAll(() => {
+    process.env = env;
+});
+
+const NODE_ID = '507f1f77bcf86cd799439011';
+
+describe('getSessionKey', () => {
+    it('should key sessions by node and login origin', () => {
+        const key = getSessionKey(NODE_ID, auth, 'https://app.example.com/dashboard')!;
+
+        expect(key.origin).toBe('https://app.example.com');
+        expect(key.key).toBe(`${NODE_ID}:https://app.example.com`);
+        expect(getSessionKey(NODE_ID, auth, 'https://other.example.com')!.key).toBe(key.key);
+        expect(getSessionKey('507f1f77bcf86cd799439012', auth, 'https://x')!.key).not.toBe(key.key);
+        expect(getSessionKey(NODE_ID, { ...auth, loginUrl: 'https://sso.example.com/login' }, 'https://x')!.key).not.toBe(key.key);
+    });
+
+    it('should fingerprint the credentials with an HMAC of the master key', () => {
+        const key = getSessionKey(NODE_ID, auth, 'https://x')!;
+
+        expect(key.fingerprint).toMatch(/^v1:[a-f0-9]{64}$/);
+        expect(key.fingerprint).not.toBe(`v1:${crypto.createHash('sha256').update('admin\nsecret').digest('hex')}`);
+        expect(getSessionKey(NODE_ID, { ...auth, password: 'changed' }, 'https://x')!.fingerprint).not.toBe(key.fingerprint);
+
+        process.env.CREDENTIAL_ENCRYPTION_KEYS = `v1:${crypto.randomBytes(32).toString('base64')}`;
+        expect(getSessionKey(NODE_ID, auth, 'https://x')!.fingerprint).not.toBe(key.fingerprint);
+    });
+
+    it('should fall back to the checked URL without a login URL', () => {
+        expect(getSessionKey(NODE_ID, { ...auth, loginUrl: undefined }, 'https://site.example.com/a')!.origin)
+            .toBe('https://site.example.com');
+    });
+
+    it('should return null without a node, browser credentials or encryption key', () => {
+        expect(getSessionKey(undefined, auth, 'https://x.com')).toBeNull();
+        expect(getSessionKey(NODE_ID, { type: 'BASIC', username: 'a', password: 'b' }, 'https://x.com')).toBeNull();
+        expect(getSessionKey(NODE_ID, { ...auth, password: undefined }, 'https://x.com')).toBeNull();
+        expect(getSessionKey(NODE_ID, { ...auth, loginUrl: 'not a url' }, 'also not')).toBeNull();
+
+        process.env.CREDENTIAL_ENCRYPTION_KEYS = '';
+        expect(getSessionKey(NODE_ID, auth, 'https://x.com')).toBeNull();
+    });
+});
+
+describe('saveBrowserSession / loadBrowserSession', () => {
+    const session = { key: `${NODE_ID}:https://app.example.com`, origin: 'https://app.example.com', fingerprint: 'v1:abc' };
+
+    it('should store the state encrypted with an expiry and load it back', async () => {
+        const now = new Date('2026-05-01T00:00:00.000Z');
+
+        await saveBrowserSession(session, state, now);
+
+        const [filter, update, options] = (mockModel.updateOne as jest.Mock).mock.calls[0];
+        expect(filter).toEqual({ key: session.key });
+        expect(options).toEqual({ upsert: true });
+        expect(update.$set.expiresAt).toEqual(new Date('2026-05-02T00:00:00.000Z'));
+        expect(update.$set.fingerprint).toBe(session.fingerprint);
+        expect(update.$set.storageState).not.toContain('abc');
+
+        (mockModel.findOne as jest.Mock).mockReturnValue({
+            lean: jest.fn().mockResolvedValue({ storageState: update.$set.storageState, fingerprint: session.fingerprint }),
+        });
+
+        await expect(loadBrowserSession(session, now)).resolves.toEqual(state);
+        expect((mockModel.findOne as jest.Mock).mock.calls[0][0]).toEqual({ key: session.key, expiresAt: { $gt: now } });
+    });
+
+    it('should not reuse a session saved for other credentials', async () => {
+        await saveBrowserSession(session, state);
+        const [, update] = (mockModel.updateOne as jest.Mock).mock.calls[0];
+        (mockModel.findOne as jest.Mock).mockReturnValue({
+            lean: jest.fn().mockResolvedValue({ storageState: update.$set.storageState, fingerprint: 'v1:old' }),
+        });
+
+        await expect(loadBrowserSession(session)).resolves.toBeUndefined();
+    });
+
+    it('should return undefined when no session is saved', async () => {
+        (mockModel.findOne as jest.Mock).mockReturnValue({ lean: jest.fn().mockResolvedValue(null) });
+
+        await expect(loadBrowserSession(session)).resolves.toBeUndefined();
+        expect(mockModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should discard a session that can no longer be decrypted', async () => {
+        (mockModel.findOne as jest.Mock).mockReturnValue({
+            lean: jest.fn().mockResolvedValue({ storageState: 'enc:v1:retired:AAAA:BBBB', fingerprint: session.fingerprint }),
+        });
+
+        await expect(loadBrowserSession(session)).resolves.toBeUndefined();
+        expect(mockModel.deleteOne).toHaveBeenCalledWith({ key: session.key });
+    });
+
+    it('should not throw when saving fails', async () => {
+        (mockModel.updateOne as jest.Mock).mockRejectedValue(new Error('db down'));
+
+        await expect(saveBrowserSession(session, state)).resolves.toBeUndefined();
+    });
+});
+
+describe('isSessionPersistenceEnabled', () => {
+    it('should require an encryption key and respect the switch', () => {
+        expect(isSessionPersistenceEnabled()).toBe(true);
+
+        process.env.BROWSER_SESSION_PERSISTENCE = 'false';
+        expect(isSessionPersistenceEnabled()).toBe(false);
+
+        process.env = { ...env, CREDENTIAL_ENCRYPTION_KEYS: '' };
+        expect(isSessionPersistenceEnabled()).toBe(false);
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit Tests for lib/monitoring/checkArtifacts.ts
+ *
+ * Tests:
+ * - Size cap: HTML truncated with a marker, screenshots / HARs over the cap dropped
+ * - HARs stored without request bodies, cookies and auth headers
+ * - Upload to GridFS returns artifact references for the check result
+ * - Retention pruning deletes expired files
+ * - Capture switches (BROWSER_ARTIFACTS / BROWSER_ARTIFACT_HAR)
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+const mockUploads: { filename: string; options: any; data: Buffer }[] = [];
+const mockDelete = jest.fn();
+const mockFind = jest.fn();
+
+jest.mock('mongoose', () => {
+    const actual = jest.requireActual('mongoose');
+    const { EventEmitter } = require('events');
+
+    class MockGridFSBucket {
+        openUploadStream(filename: string, options: any) {
+            const stream = new EventEmitter() as any;
+            stream.id = new actual.Types.ObjectId();
+            stream.end = (data: Buffer) => {
+                mockUploads.push({ filename, options, data });
+                setImmediate(() => stream.emit('finish'));
+            };
+            return stream;
+        }
+        find(filter: any, options: any) {
+            return { limit: () => ({ toArray: async () => mockFind(filter, options) }) };
+        }
+        delete(id: any) {
+            return mockDelete(id);
+        }
+    }
+
+    // connection / mongo are getters on the real instance
+    const mongoose = Object.create(actual, {
+        connection: { value: { db: {} } },
+        mongo: { value: { GridFSBucket: MockGridFSBucket } },
+    });
+    return { __esModule: true, ...actual, default: mongoose };
+});
+
+import {
+    artifactFilename,
+    capArtifact,
+    isArtifactCaptureEnabled,
+    isHarCaptureEnabled,
+    pruneCheckArtifacts,
+    sanitizeHar,
+    saveCheckArtifacts,
+} from '@/lib/monitoring/checkArtifacts';
+
+describe('capArtifact', () => {
+    it('should keep artifacts within the cap', () => {
+        const artifact = { kind: 'screenshot' as const, contentType: 'image/jpeg', data: Buffer.alloc(100) };
+        expect(capArtifact(artifact, 100)).toBe(artifact);
+    });
+
+    it('should truncate HTML to the cap with a marker', () => {
+        const capped = capArtifact({ kind: 'html', contentType: 'text/html', data: Buffer.from('x'.repeat(500)) }, 200)!;
+
+        expect(capped.data.length).toBe(200);
+        expect(capped.data.toString()).toContain('truncated');
+        expect(capped.data.toString().startsWith('xxx')).toBe(true);
+    });
+
+    it('should drop screenshots and HARs over the cap', () => {
+        expect(capArtifact({ kind: 'screenshot', contentType: 'image/jpeg', data: Buffer.alloc(201) }, 200)).toBeNull();
+        expect(capArtifact({ kind: 'har', contentType: 'application/json', data: Buffer.alloc(201) }, 200)).toBeNull();
+    });
+});
+
+describe('saveCheckArtifacts', () => {
+    beforeEach(() => {
+        mockUploads.length = 0;
+    });
+
+    it('should upload captures and return references', async () => {
+        const timestamp = new Date('2026-03-01T10:00:00.000Z');
+
+        const saved = await saveCheckArtifacts('507f1f77bcf86cd799439011', timestamp, [
+            { kind: 'screenshot', contentType: 'image/jpeg', data: Buffer.from('jpeg') },
+            { kind: 'html', contentType: 'text/html; charset=utf-8', data: Buffer.from('<html></html>') },
+        ]);
+
+        expect(saved).toHaveLength(2);
+        expect(saved[0]).toMatchObject({ kind: 'screenshot', contentType: 'image/jpeg', size: 4 });
+        expect(saved[0].id).toMatch(/^[a-f0-9]{24}$/);
+        expect(mockUploads[0].filename).toBe('screenshot-2026-03-01T10-00-00-000Z.jpg');
+        expect(mockUploads[1].options.metadata).toEqual({
+            nodeId: '507f1f77bcf86cd799439011',
+            kind: 'html',
+            contentType: 'text/html; charset=utf-8',
+        });
+    });
+
+    it('should skip artifacts over the size cap', async () => {
+        const saved = await saveCheckArtifacts('507f1f77bcf86cd799439011', new Date(), [
+            { kind: 'har', contentType: 'application/json', data: harOf([{ request: { url: 'x'.repeat(3 * 1024 * 1024) } }]) },
+        ]);
+
+        expect(saved).toEqual([]);
+        expect(mockUploads).toHaveLength(0);
+    });
+
+    it('should store HARs sanitized and drop invalid ones', async () => {
+        const saved = await saveCheckArtifacts('507f1f77bcf86cd799439011', new Date(), [
+            { kind: 'har', contentType: 'application/json', data: harOf([{ request: { url: 'https://a', postData: { text: 'pw=1' } } }]) },
+            { kind: 'har', contentType: 'application/json', data: Buffer.from('not json') },
+        ]);
+
+        expect(saved).toHaveLength(1);
+        expect(mockUploads[0].data.toString()).not.toContain('pw=1');
+    });
+});
+
+const harOf = (entries: any[]) => Buffer.from(JSON.stringify({ log: { version: '1.2', entries } }));
+
+describe('sanitizeHar', () => {
+    it('should remove request bodies, cookies and auth headers', () => {
+        const sanitized = sanitizeHar(harOf([{
+            request: {
+                method: 'POST',
+                url: 'https://app.example.com/login',
+                headers: [
+                    { name: 'Authorization', value: 'Basic YWRtaW46cHc=' },
+                    { name: 'cookie', value: 'sid=abc' },
+                    { name: 'Accept', value: 'text/html' },
+                ],
+                cookies: [{ name: 'sid', value: 'abc' }],
+                postData: { mimeType: 'application/x-www-form-urlencoded', text: 'password=hunter2' },
+            },
+            response: {
+                status: 302,
+                headers: [{ name: 'Set-Cookie', value: 'sid=def' }, { name: 'Location', value: '/home' }],
+                cookies: [{ name: 'sid', value: 'def' }],
+            },
+        }]))!;
+
+        const [entry] = JSON.parse(sanitized.toString()).log.entries;
+        expect(entry.request.postData).toBeUndefined();
+        expect(entry.request.headers).toEqual([{ name: 'Accept', value: 'text/html' }]);
+        expect(entry.request.cookies).toEqual([]);
+        expect(entry.response.headers).toEqual([{ name: 'Location', value: '/home' }]);
+        expect(entry.response.cookies).toEqual([]);
+        expect(sanitized.toString()).not.toMatch(/hunter2|abc|def|YWRtaW46cHc/);
+    });
+
+    it('should reject data that is not a HAR', () => {
+        expect(sanitizeHar(Buffer.from('<html>'))).toBeNull();
+        expect(sanitizeHar(Buffer.from('{"log":{}}'))).toBeNull();
+    });
+});
+
+describe('pruneCheckArtifacts', () => {
+    it('should delete files uploaded before the retention cutoff', async () => {
+        mockFind.mockReturnValue([{ _id: 'a' }, { _id: 'b' }]);
+        mockDelete.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('gone'));
+        const now = new Date('2026-03-10T00:00:00.000Z');
+
+        const deleted = await pruneCheckArtifacts(now);
+
+        expect(deleted).toBe(1);
+        expect(mockFind.mock.calls[0][0]).toEqual({ uploadDate: { $lt: new Date('2026-03-03T00:00:00.000Z') } });
+        expect(mockDelete).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('capture switches', () => {
+    const env = process.env;
+
+    afterEach(() => {
+        process.env = env;
+    });
+
+    it('should capture screenshots by default and HAR only on request', () => {
+        process.env = { ...env, BROWSER_ARTIFACTS: undefined, BROWSER_ARTIFACT_HAR: undefined };
+        expect(isArtifactCaptureEnabled()).toBe(true);
+        expect(isHarCaptureEnabled()).toBe(false);
+
+        process.env = { ...env, BROWSER_ARTIFACT_HAR: 'true' };
+        expect(isHarCaptureEnabled()).toBe(true);
+
+        process.env = { ...env, BROWSER_ARTIFACTS: 'false', BROWSER_ARTIFACT_HAR: 'true' };
+        expect(isArtifactCaptureEnabled()).toBe(false);
+        expect(isHarCaptureEnabled()).toBe(false);
+    });
+
+    it('should name files by kind and time', () => {
+        expect(artifactFilename('har', new Date('2026-01-02T03:04:05.678Z'))).toBe('har-2026-01-02T03-04-05-678Z.har');
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for lib/monitoring/checkHistory.ts
+ *
+ * Tests:
+ * - Check results recorded with artifact references, failures swallowed
+ * - UTC bucket alignment and resolution picking
+ * - Rollups only aggregate buckets closed since the watermark
+ * - History queries per resolution
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+jest.mock('@/lib/db/models/CheckResult');
+jest.mock('@/lib/db/models/CheckRollup');
+jest.mock('@/lib/db/models/CheckRunState');
+jest.mock('@/lib/monitoring/checkArtifacts', () => ({
+    saveCheckArtifacts: jest.fn(),
+}));
+
+import CheckResultModel from '@/lib/db/models/CheckResult';
+import CheckRollupModel from '@/lib/db/models/CheckRollup';
+import CheckRunStateModel from '@/lib/db/models/CheckRunState';
+import { saveCheckArtifacts } from '@/lib/monitoring/checkArtifacts';
+import { logger } from '@/lib/utils/logger';
+import {
+    getBucketStart,
+    getCheckHistory,
+    pickResolution,
+    recordCheckResult,
+    rollupCheckResults,
+} from '@/lib/monitoring/checkHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const lean = (value: unknown) => ({ lean: jest.fn().mockResolvedValue(value) });
+const query = (value: unknown) => ({ sort: jest.fn().mockReturnValue(lean(value)) });
+
+const nodeId = '507f1f77bcf86cd799439011';
+const now = new Date('2026-06-01T10:20:00.000Z');
+
+describe('recordCheckResult', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should store the result with checker and artifact references', async () => {
+        const artifacts = [{ id: 'file-1', kind: 'screenshot', contentType: 'image/png', size: 10 }];
+        (saveCheckArtifacts as jest.Mock).mockResolvedValue(artifacts);
+
+        await recordCheckResult(nodeId, {
+            status: 'DOWN',
+            latency: 1200,
+            error: 'Login failed',
+            checker: 'browser',
+            captures: [{ kind: 'screenshot', contentType: 'image/png', data: Buffer.from('png') }],
+        } as any, now);
+
+        expect(saveCheckArtifacts).toHaveBeenCalledWith(nodeId, now, expect.any(Array));
+        expect(CheckResultModel.create).toHaveBeenCalledWith(expect.objectContaining({
+            nodeId,
+            timestamp: now,
+            status: 'DOWN',
+            latency: 1200,
+            checker: 'browser',
+            artifacts,
+        }));
+    });
+
+    it('should default to the http checker and never throw', async () => {
+        (CheckResultModel.create as jest.Mock).mockRejectedValueOnce(new Error('write failed'));
+
+        await expect(recordCheckResult(nodeId, { status: 'STABLE', latency: 80 } as any, now)).resolves.toBeUndefined();
+
+        expect((CheckResultModel.create as jest.Mock).mock.calls[0][0]).toMatchObject({ checker: 'http', artifacts: undefined });
+        expect(saveCheckArtifacts).not.toHaveBeenCalled();
+        expect(logger.error).toHaveBeenCalledWith('Failed to record check result', expect.any(Error), { nodeId });
+    });
+});
+
+describe('getBucketStart', () => {
+    it('should align hours and days to UTC', () => {
+        expect(getBucketStart(now, 'hour')).toEqual(new Date('2026-06-01T10:00:00.000Z'));
+        expect(getBucketStart(now, 'day')).toEqual(new Date('2026-06-01T00:00:00.000Z'));
+        expect(getBucketStart(new Date('2026-06-01T00:00:00.000Z'), 'day')).toEqual(new Date('2026-06-01T00:00:00.000Z'));
+    });
+});
+
+describe('pickResolution', () => {
+    it('should pick the finest resolution still retained', () => {
+        expect(pickResolution(new Date(now.getTime() - DAY), now)).toBe('raw');
+        expect(pickResolution(new Date(now.getTime() - 30 * DAY), now)).toBe('raw');
+        expect(pickResolution(new Date(now.getTime() - 31 * DAY), now)).toBe('hour');
+        expect(pickResolution(new Date(now.getTime() - 91 * DAY), now)).toBe('day');
+    });
+});
+
+describe('rollupCheckResults', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (CheckResultModel.aggregate as jest.Mock).mockResolvedValue([]);
+        (CheckRollupModel.countDocuments as jest.Mock).mockResolvedValue(4);
+        (CheckRunStateModel.updateOne as jest.Mock).mockResolvedValue({});
+        (CheckRollupModel as any).collection = { name: 'check_rollups' };
+    });
+
+    const match = () => (CheckResultModel.aggregate as jest.Mock).mock.calls[0][0][0].$match;
+
+    it('should aggregate the buckets closed since the watermark and move it', async () => {
+        (CheckRunStateModel.findOne as jest.Mock).mockReturnValue(lean({ key: 'rollup-hour', cursor: '2026-06-01T07:00:00.000Z' }));
+
+        await expect(rollupCheckResults('hour', undefined, now)).resolves.toBe(4);
+
+        expect(CheckRunStateModel.findOne).toHaveBeenCalledWith({ key: 'rollup-hour' });
+        expect(match()).toEqual({
+            timestamp: { $gte: new Date('2026-06-01T07:00:00.000Z'), $lt: new Date('2026-06-01T10:00:00.000Z') },
+        });
+        expect(CheckRunStateModel.updateOne).toHaveBeenCalledWith(
+            { key: 'rollup-hour' },
+            { $set: { cursor: '2026-06-01T10:00:00.000Z', lastRunAt: now } },
+            { upsert: true }
+        );
+    });
+
+    it('should start with the last closed bucket without a watermark', async () => {
+        (CheckRunStateModel.findOne as jest.Mock).mockReturnValue(lean(null));
+
+        await rollupCheckResults('day', undefined, now);
+
+        expect(match()).toEqual({
+            timestamp: { $gte: new Date('2026-05-31T00:00:00.000Z'), $lt: new Date('2026-06-01T00:00:00.000Z') },
+        });
+    });
+
+    it('should do nothing until the next bucket closes', async () => {
+        (CheckRunStateModel.findOne as jest.Mock).mockReturnValue(lean({ key: 'rollup-hour', cursor: '2026-06-01T10:00:00.000Z' }));
+
+        await expect(rollupCheckResults('hour', undefined, now)).resolves.toBe(0);
+        // Still inside the grace period of the 10:00 bucket
+        await expect(rollupCheckResults('hour', undefined, new Date('2026-06-01T11:03:00.000Z'))).resolves.toBe(0);
+
+        expect(CheckResultModel.aggregate).not.toHaveBeenCalled();
+        expect(CheckRunStateModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should backfill from `since` without moving the watermark', async () => {
+        await rollupCheckResults('hour', new Date('2026-05-30T08:30:00.000Z'), now);
+
+        expect(CheckRunStateModel.findOne).not.toHaveBeenCalled();
+        expect(match().timestamp.$gte).toEqual(new Date('2026-05-30T08:00:00.000Z'));
+        expect(CheckRunStateModel.updateOne).not.toHaveBeenCalled();
+    });
+});
+
+describe('getCheckHistory', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const from = new Date('2026-05-01T10:30:00.000Z');
+    const to = new Date('2026-05-02T10:30:00.000Z');
+
+    it('should query raw results in the range', async () => {
+        (CheckResultModel.find as jest.Mock).mockReturnValue(query([{ status: 'STABLE' }]));
+
+        await expect(getCheckHistory(nodeId, from, to, 'raw')).resolves.toEqual([{ status: 'STABLE' }]);
+        expect(CheckResultModel.find).toHaveBeenCalledWith({ nodeId, timestamp: { $gte: from, $lte: to } });
+    });
+
+    it('should query rollups from the bucket containing `from`', async () => {
+        (CheckRollupModel.find as jest.Mock).mockReturnValue(query([]));
+
+        await getCheckHistory(nodeId, from, to, 'day');
+        expect(CheckRollupModel.find).toHaveBeenCalledWith({
+            nodeId,
+            period: 'day',
+            bucketStart: { $gte: new Date('2026-05-01T00:00:00.000Z'), $lte: to },
+        });
+    });
+});
@@ -0,0 +1,242 @@
+/**
+ * Unit Tests for lib/monitoring/checkRunner.ts
+ *
+ * Tests:
+ * - Separate concurrency limits for HTTP and browser pools
+ * - Per-host rate limiting
+ * - Time budget stops new checks and reports skipped nodes
+ * - Checks still running at the deadline are aborted
+ * - Reserves derived from the check timeouts
+ * - Cursor rotation
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/db/models/CheckRunState');
+jest.mock('@/lib/utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import {
+    CheckQueueOptions,
+    getCheckHost,
+    getCheckKind,
+    getCheckRunnerConfig,
+    orderFromCursor,
+    runCheckQueue,
+} from '@/lib/monitoring/checkRunner';
+
+interface Item {
+    id: string;
+    kind: 'http' | 'browser';
+    host: string;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function options(overrides: Partial<CheckQueueOptions<Item>> = {}): CheckQueueOptions<Item> {
+    return {
+        concurrency: { http: 10, browser: 10 },
+        reserveMs: { http: 0, browser: 0 },
+        perHostIntervalMs: 0,
+        timeBudgetMs: 10000,
+        getKind: (item) => item.kind,
+        getHost: (item) => item.host,
+        ...overrides,
+    };
+}
+
+function items(count: number, kind: Item['kind'], hostPrefix = 'host'): Item[] {
+    return Array.from({ length: count }, (_, i) => ({ id: `${kind}-${i}`, kind, host: `${hostPrefix}-${kind}-${i}` }));
+}
+
+describe('runCheckQueue', () => {
+    it('should limit HTTP and browser checks independently', async () => {
+        const running = { http: 0, browser: 0 };
+        const peak = { http: 0, browser: 0 };
+
+        const result = await runCheckQueue(
+            [...items(4, 'browser'), ...items(8, 'http')],
+            async (item) => {
+                running[item.kind]++;
+                peak[item.kind] = Math.max(peak[item.kind], running[item.kind]);
+                await sleep(item.kind === 'browser' ? 40 : 10);
+                running[item.kind]--;
+            },
+            options({ concurrency: { http: 3, browser: 1 } })
+        );
+
+        expect(result.completed).toHaveLength(12);
+        expect(peak).toEqual({ http: 3, browser: 1 });
+        expect(result.budgetExhausted).toBe(false);
+    });
+
+    it('should not block HTTP checks behind slow browser checks', async () => {
+        const order: string[] = [];
+
+        await runCheckQueue(
+            [...items(2, 'browser'), ...items(2, 'http')],
+            async (item) => {
+                await sleep(item.kind === 'browser' ? 50 : 5);
+                order.push(item.kind);
+            },
+            options({ concurrency: { http: 1, browser: 1 } })
+        );
+
+        expect(order.slice(0, 2)).toEqual(['http', 'http']);
+    });
+
+    it('should space out checks against the same host', async () => {
+        const startedAt: Record<string, number[]> = {};
+        const list: Item[] = [
+            { id: 'a1', kind: 'http', host: 'a.example.com' },
+            { id: 'a2', kind: 'http', host: 'a.example.com' },
+            { id: 'b1', kind: 'http', host: 'b.example.com' },
+            { id: 'a3', kind: 'http', host: 'a.example.com' },
+        ];
+
+        await runCheckQueue(
+            list,
+            async (item) => {
+                (startedAt[item.host] ||= []).push(Date.now());
+            },
+            options({ perHostIntervalMs: 60 })
+        );
+
+        const a = startedAt['a.example.com'];
+        expect(a).toHaveLength(3);
+        expect(a[1] - a[0]).toBeGreaterThanOrEqual(55);
+        expect(a[2] - a[1]).toBeGreaterThanOrEqual(55);
+        // Other hosts are not held back
+        expect(startedAt['b.example.com'][0] - a[0]).toBeLessThan(55);
+    });
+
+    it('should stop starting checks when the budget runs out', async () => {
+        const list = items(10, 'http');
+
+        const result = await runCheckQueue(
+            list,
+            async () => {
+                await sleep(30);
+            },
+            options({ concurrency: { http: 1, browser: 1 }, timeBudgetMs: 75 })
+        );
+
+        expect(result.budgetExhausted).toBe(true);
+        expect(result.completed.length).toBeGreaterThan(0);
+        expect(result.completed.length + result.skipped.length).toBe(10);
+        // Skipped nodes keep the run order, starting right after the completed ones
+        expect(result.skipped[0]).toBe(list[result.completed.length]);
+    });
+
+    it('should not start checks whose reserve no longer fits the budget', async () => {
+        const result = await runCheckQueue(
+            [...items(2, 'browser'), ...items(2, 'http')],
+            async () => undefined,
+            options({ reserveMs: { http: 10, browser: 500 }, timeBudgetMs: 100 })
+        );
+
+        expect(result.completed.map((item) => item.kind)).toEqual(['http', 'http']);
+        expect(result.skipped.map((item) => item.kind)).toEqual(['browser', 'browser']);
+        expect(result.budgetExhausted).toBe(true);
+    });
+
+    it('should abort checks still running at the deadline', async () => {
+        const list = items(2, 'http');
+        let signal: AbortSignal | undefined;
+
+        const startedAt = Date.now();
+        const result = await runCheckQueue(
+            list,
+            async (item, runSignal) => {
+                signal = runSignal;
+                await sleep(item.id === 'http-0' ? 5 : 1000);
+            },
+            options({ timeBudgetMs: 60 })
+        );
+
+        expect(Date.now() - startedAt).toBeLessThan(500);
+        expect(signal?.aborted).toBe(true);
+        expect(result.completed.map((item) => item.id)).toEqual(['http-0']);
+        expect(result.aborted.map((item) => item.id)).toEqual(['http-1']);
+        expect(result.skipped.map((item) => item.id)).toEqual(['http-1']);
+        expect(result.budgetExhausted).toBe(true);
+    });
+
+    it('should keep the post-run reserve out of the check budget', async () => {
+        const result = await runCheckQueue(
+            items(2, 'http'),
+            async () => undefined,
+            options({ reserveMs: { http: 50, browser: 0 }, timeBudgetMs: 100, postRunReserveMs: 60 })
+        );
+
+        expect(result.completed).toHaveLength(0);
+        expect(result.skipped).toHaveLength(2);
+    });
+
+    it('should record failed workers without stopping the run', async () => {
+        const result = await runCheckQueue(
+            items(3, 'http'),
+            async (item) => {
+                if (item.id === 'http-1') throw new Error('boom');
+            },
+            options()
+        );
+
+        expect(result.completed).toHaveLength(2);
+        expect(result.failed.map((item) => item.id)).toEqual(['http-1']);
+    });
+});
+
+describe('orderFromCursor', () => {
+    const ids = ['a', 'b', 'c', 'd'];
+
+    it('should start at the cursor and wrap around', () => {
+        expect(orderFromCursor(ids, 'c', (id) => id)).toEqual(['c', 'd', 'a', 'b']);
+    });
+
+    it('should resume after a deleted cursor node', () => {
+        expect(orderFromCursor(['a', 'b', 'd'], 'c', (id) => id)).toEqual(['d', 'a', 'b']);
+    });
+
+    it('should keep the order without a cursor', () => {
+        expect(orderFromCursor(ids, null, (id) => id)).toEqual(ids);
+        expect(orderFromCursor(ids, 'z', (id) => id)).toEqual(ids);
+    });
+});
+
+describe('getCheckRunnerConfig', () => {
+    const env = process.env;
+
+    afterEach(() => {
+        process.env = env;
+    });
+
+    it('should derive the browser reserve from the browser check timeout', () => {
+        process.env = { ...env, CHECK_BROWSER_TIMEOUT_MS: '20000', CHECK_BROWSER_RESERVE_MS: '1000' };
+
+        const config = getCheckRunnerConfig();
+
+        expect(config.reserveMs.browser).toBeGreaterThan(20000);
+        expect(config.reserveMs.http).toBeGreaterThanOrEqual(15000);
+    });
+
+    it('should accept a reserve above the worst case', () => {
+        process.env = { ...env, CHECK_BROWSER_RESERVE_MS: '90000' };
+
+        expect(getCheckRunnerConfig().reserveMs.browser).toBe(90000);
+    });
+});
+
+describe('helpers', () => {
+    it('should pool BROWSER_LOGIN nodes as browser checks', () => {
+        expect(getCheckKind({ authConfig: { type: 'BROWSER_LOGIN' } })).toBe('browser');
+        expect(getCheckKind({ authConfig: { type: 'BASIC' } })).toBe('http');
+        expect(getCheckKind({})).toBe('http');
+    });
+
+    it('should rate limit by host including port', () => {
+        expect(getCheckHost('https://API.example.com:8443/health')).toBe('api.example.com:8443');
+        expect(getCheckHost('not a url')).toBe('not a url');
+    });
+});
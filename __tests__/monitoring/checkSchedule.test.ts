@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for lib/monitoring/checkSchedule.ts
+ *
+ * Tests:
+ * - Default interval from env (clamped to limits)
+ * - Interval validation
+ * - nextCheckAt computation and due detection
+ * - Background checks on read unless a cron secret or the scheduler runs them
+ *
+ * @jest-environment node
+ */
+
+import {
+    computeNextCheckAt,
+    dueNodesFilter,
+    getDefaultCheckInterval,
+    hasCheckRunner,
+    isCheckDue,
+    isCheckOnReadEnabled,
+    resolveCheckInterval,
+    validateCheckInterval,
+} from '@/lib/monitoring/checkSchedule';
+
+describe('getDefaultCheckInterval', () => {
+    const original = process.env.CHECK_DEFAULT_INTERVAL_SECONDS;
+
+    afterEach(() => {
+        if (original === undefined) delete process.env.CHECK_DEFAULT_INTERVAL_SECONDS;
+        else process.env.CHECK_DEFAULT_INTERVAL_SECONDS = original;
+    });
+
+    it('should default to 60 seconds', () => {
+        delete process.env.CHECK_DEFAULT_INTERVAL_SECONDS;
+        expect(getDefaultCheckInterval()).toBe(60);
+    });
+
+    it('should read and clamp the env value', () => {
+        process.env.CHECK_DEFAULT_INTERVAL_SECONDS = '900';
+        expect(getDefaultCheckInterval()).toBe(900);
+
+        process.env.CHECK_DEFAULT_INTERVAL_SECONDS = '1';
+        expect(getDefaultCheckInterval()).toBe(10);
+    });
+});
+
+describe('validateCheckInterval', () => {
+    it('should accept unset and in-range integers', () => {
+        expect(validateCheckInterval(undefined)).toBeNull();
+        expect(validateCheckInterval(null)).toBeNull();
+        expect(validateCheckInterval(30)).toBeNull();
+        expect(validateCheckInterval(900)).toBeNull();
+    });
+
+    it('should reject out-of-range and non-integer values', () => {
+        expect(validateCheckInterval(5)).toMatch(/between 10 and 86400/);
+        expect(validateCheckInterval(100000)).toMatch(/between/);
+        expect(validateCheckInterval(30.5)).toMatch(/integer/);
+        expect(validateCheckInterval('30')).toMatch(/integer/);
+    });
+});
+
+describe('scheduling', () => {
+    const checkedAt = new Date('2026-01-01T00:00:00Z');
+
+    it('should use the node interval before the default', () => {
+        expect(resolveCheckInterval({ checkIntervalSeconds: 30 })).toBe(30);
+        expect(resolveCheckInterval({})).toBe(getDefaultCheckInterval());
+    });
+
+    it('should schedule the next check one interval after the check', () => {
+        expect(computeNextCheckAt({ checkIntervalSeconds: 900 }, checkedAt).toISOString())
+            .toBe('2026-01-01T00:15:00.000Z');
+    });
+
+    it('should treat nodes without nextCheckAt as due', () => {
+        expect(isCheckDue({}, checkedAt)).toBe(true);
+        expect(isCheckDue({ nextCheckAt: new Date('2025-12-31T23:59:59Z') }, checkedAt)).toBe(true);
+        expect(isCheckDue({ nextCheckAt: checkedAt }, checkedAt)).toBe(true);
+        expect(isCheckDue({ nextCheckAt: new Date('2026-01-01T00:00:30Z') }, checkedAt)).toBe(false);
+    });
+
+    it('should build a filter matching missing and past nextCheckAt', () => {
+        expect(dueNodesFilter(checkedAt)).toEqual({
+            $or: [{ nextCheckAt: null }, { nextCheckAt: { $lte: checkedAt } }],
+        });
+    });
+});
+
+describe('isCheckOnReadEnabled', () => {
+    const env = process.env;
+
+    afterEach(() => {
+        process.env = env;
+    });
+
+    it('should be on by default unless a cron secret is set', () => {
+        process.env = { ...env, CHECK_ON_READ: undefined, CRON_SECRET: undefined, CHECK_SCHEDULER_ENABLED: undefined };
+        expect(isCheckOnReadEnabled()).toBe(true);
+
+        process.env = { ...env, CHECK_ON_READ: undefined, CRON_SECRET: 's3cret', CHECK_SCHEDULER_ENABLED: undefined };
+        expect(isCheckOnReadEnabled()).toBe(false);
+    });
+
+    it('should follow an explicit setting', () => {
+        process.env = { ...env, CHECK_ON_READ: 'true', CRON_SECRET: 's3cret', CHECK_SCHEDULER_ENABLED: undefined };
+        expect(isCheckOnReadEnabled()).toBe(true);
+
+        process.env = { ...env, CHECK_ON_READ: 'false', CRON_SECRET: undefined, CHECK_SCHEDULER_ENABLED: undefined };
+        expect(isCheckOnReadEnabled()).toBe(false);
+        expect(hasCheckRunner()).toBe(false);
+    });
+
+    it('should stay off while the in-process scheduler runs', () => {
+        process.env = { ...env, CHECK_ON_READ: 'true', CHECK_SCHEDULER_ENABLED: 'true' };
+        expect(isCheckOnReadEnabled()).toBe(false);
+        expect(hasCheckRunner()).toBe(true);
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for lib/monitoring/dependencies.ts
+ *
+ * Tests:
+ * - Root causes: nearest failing ancestors without failing dependencies of their own
+ * - Blast radius: transitive dependents, nearest first
+ * - Pending upstream: dependents wait for upstream nodes still due in the run
+ * - DEGRADED_BY_DEPENDENCY only for confirmed DOWN nodes, maintenance takes precedence
+ * - Leaving maintenance restores DEGRADED_BY_DEPENDENCY
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/db/models/Node');
+jest.mock('@/lib/db/models/MaintenanceWindow');
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import {
+    applyDependencyStatus,
+    buildDependencyGraph,
+    findRootCauses,
+    getBlastRadius,
+    hasPendingUpstream,
+    updateGraphNode,
+} from '@/lib/monitoring/dependencies';
+import { applyMaintenanceStatus } from '@/lib/monitoring/maintenance';
+import { shouldTriggerAlert } from '@/lib/monitoring/healthCheck';
+
+const node = (id: string, status: string, dependencies: string[] = [], extra: Record<string, any> = {}) => ({
+    _id: id,
+    name: id.toUpperCase(),
+    group: 'website',
+    status,
+    dependencies,
+    ...extra,
+}) as any;
+
+// db <- api <- web, db <- worker, cache (independent) <- web
+const graphOf = (statuses: Record<string, string>) => buildDependencyGraph([
+    node('db', statuses.db || 'STABLE'),
+    node('cache', statuses.cache || 'STABLE'),
+    node('api', statuses.api || 'STABLE', ['db']),
+    node('worker', statuses.worker || 'STABLE', ['db']),
+    node('web', statuses.web || 'STABLE', ['api', 'cache']),
+]);
+
+describe('findRootCauses', () => {
+    it('should return nothing while dependencies are healthy', () => {
+        expect(findRootCauses(graphOf({ web: 'DOWN' }), 'web')).toEqual([]);
+    });
+
+    it('should walk up to the failing node without failing dependencies', () => {
+        const graph = graphOf({ db: 'DOWN', api: 'DOWN', web: 'DOWN' });
+        expect(findRootCauses(graph, 'web')).toEqual([{ nodeId: 'db', name: 'DB' }]);
+        expect(findRootCauses(graph, 'api')).toEqual([{ nodeId: 'db', name: 'DB' }]);
+        expect(findRootCauses(graph, 'db')).toEqual([]);
+    });
+
+    it('should report every independent root', () => {
+        const graph = graphOf({ db: 'DOWN', api: 'DOWN', cache: 'DOWN' });
+        expect(findRootCauses(graph, 'web').map((root) => root.nodeId)).toEqual(['cache', 'db']);
+    });
+
+    it('should use the confirmed status behind overlay statuses', () => {
+        const graph = buildDependencyGraph([
+            node('db', 'MAINTENANCE', [], { checkState: { underlyingStatus: 'DOWN' } }),
+            node('api', 'DEGRADED_BY_DEPENDENCY', ['db'], { checkState: { underlyingStatus: 'DOWN' } }),
+            node('web', 'DOWN', ['api']),
+        ]);
+        expect(findRootCauses(graph, 'web')).toEqual([{ nodeId: 'db', name: 'DB' }]);
+    });
+
+    it('should follow status changes made during a run', () => {
+        const graph = graphOf({});
+        updateGraphNode(graph, node('db', 'DOWN'));
+        expect(findRootCauses(graph, 'worker')).toEqual([{ nodeId: 'db', name: 'DB' }]);
+    });
+});
+
+describe('getBlastRadius', () => {
+    it('should list direct and transitive dependents nearest first', () => {
+        const radius = getBlastRadius(graphOf({}), 'db');
+        expect(radius.map(({ id, depth }) => [id, depth])).toEqual([
+            ['api', 1],
+            ['worker', 1],
+            ['web', 2],
+        ]);
+    });
+
+    it('should be empty for leaf nodes', () => {
+        expect(getBlastRadius(graphOf({}), 'web')).toEqual([]);
+    });
+});
+
+describe('hasPendingUpstream', () => {
+    it('should find direct and transitive upstream nodes still to be checked', () => {
+        const graph = graphOf({});
+        expect(hasPendingUpstream(graph, 'api', new Set(['db']))).toBe(true);
+        expect(hasPendingUpstream(graph, 'web', new Set(['db']))).toBe(true);
+        expect(hasPendingUpstream(graph, 'web', new Set(['cache', 'worker']))).toBe(true);
+    });
+
+    it('should ignore the node itself and unrelated nodes', () => {
+        const graph = graphOf({});
+        expect(hasPendingUpstream(graph, 'api', new Set(['api', 'worker', 'web']))).toBe(false);
+        expect(hasPendingUpstream(graph, 'db', new Set(['api']))).toBe(false);
+    });
+});
+
+describe('applyDependencyStatus', () => {
+    const roots = [{ nodeId: 'db', name: 'DB' }];
+
+    it('should mark DOWN nodes with failing dependencies', () => {
+        const target: any = { status: 'DOWN', checkState: { consecutiveFailures: 2, consecutiveSuccesses: 0, recentStatuses: [] } };
+
+        expect(applyDependencyStatus(target, roots)).toBe(true);
+        expect(target.status).toBe('DEGRADED_BY_DEPENDENCY');
+        expect(target.checkState.underlyingStatus).toBe('DOWN');
+        expect(target.rootCauses).toEqual(roots);
+
+        expect(applyDependencyStatus(target, roots)).toBe(false);
+
+        expect(applyDependencyStatus(target, [])).toBe(true);
+        expect(target.status).toBe('DOWN');
+        expect(target.rootCauses).toBeUndefined();
+    });
+
+    it('should leave nodes that are not DOWN alone', () => {
+        const target: any = { status: 'WARNING' };
+        expect(applyDependencyStatus(target, roots)).toBe(false);
+        expect(target.status).toBe('WARNING');
+    });
+
+    it('should keep MAINTENANCE and restore DEGRADED_BY_DEPENDENCY when the window ends', () => {
+        const target: any = {
+            status: 'MAINTENANCE',
+            checkState: { consecutiveFailures: 1, consecutiveSuccesses: 0, recentStatuses: [], underlyingStatus: 'DOWN' },
+            maintenance: { windowId: 'w1', name: 'Upgrade', endsAt: new Date() },
+        };
+
+        applyDependencyStatus(target, roots);
+        expect(target.status).toBe('MAINTENANCE');
+        expect(target.rootCauses).toEqual(roots);
+
+        applyMaintenanceStatus(target, null);
+        expect(target.status).toBe('DEGRADED_BY_DEPENDENCY');
+        expect(target.checkState.underlyingStatus).toBe('DOWN');
+    });
+
+    it('should not alert for transitions into or out of DEGRADED_BY_DEPENDENCY', () => {
+        expect(shouldTriggerAlert('DOWN', 'DEGRADED_BY_DEPENDENCY')).toBe(false);
+        expect(shouldTriggerAlert('DEGRADED_BY_DEPENDENCY', 'STABLE')).toBe(false);
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit Tests for lib/monitoring/healthCheck.ts
+ *
+ * Tests:
+ * - Auth header construction for BASIC, BEARER and API_KEY
+ * - Simple HTTP check sends auth headers on HEAD and GET fallback
+ * - BROWSER_LOGIN is routed to the Playwright checker
+ * - Check policy drives method selection and status grading
+ * - Content assertions fail otherwise healthy responses
+ * - Listeners on a shared run signal are removed after each check
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/monitoring/playwrightHealthCheck', () => ({
+    performPlaywrightHealthCheck: jest.fn(),
+}));
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import { buildAuthHeaders, performHealthCheck } from '@/lib/monitoring/healthCheck';
+import { performPlaywrightHealthCheck } from '@/lib/monitoring/playwrightHealthCheck';
+import { resolveCheckPolicy } from '@/lib/monitoring/statusEvaluation';
+
+describe('buildAuthHeaders', () => {
+    it('should only send User-Agent without auth config', () => {
+        const headers = buildAuthHeaders();
+        expect(headers).toEqual({ 'User-Agent': 'Visual-Monitoring-Platform/1.0' });
+    });
+
+    it('should not add auth headers for NONE', () => {
+        const headers = buildAuthHeaders({ type: 'NONE' });
+        expect(headers.Authorization).toBeUndefined();
+    });
+
+    it('should build Basic Authorization header', () => {
+        const headers = buildAuthHeaders({ type: 'BASIC', username: 'admin', password: 's3cret' });
+        const expected = Buffer.from('admin:s3cret').toString('base64');
+        expect(headers.Authorization).toBe(`Basic ${expected}`);
+    });
+
+    it('should skip Basic header when username is missing', () => {
+        const headers = buildAuthHeaders({ type: 'BASIC', password: 's3cret' });
+        expect(headers.Authorization).toBeUndefined();
+    });
+
+    it('should build Bearer Authorization header', () => {
+        const headers = buildAuthHeaders({ type: 'BEARER', token: 'abc.def.ghi' });
+        expect(headers.Authorization).toBe('Bearer abc.def.ghi');
+    });
+
+    it('should skip Bearer header when token is missing', () => {
+        const headers = buildAuthHeaders({ type: 'BEARER' });
+        expect(headers.Authorization).toBeUndefined();
+    });
+
+    it('should build custom API key header', () => {
+        const headers = buildAuthHeaders({ type: 'API_KEY', headerName: 'X-API-Key', headerValue: 'key-123' });
+        expect(headers['X-API-Key']).toBe('key-123');
+        expect(headers.Authorization).toBeUndefined();
+    });
+
+    it('should skip API key header when name or value is missing', () => {
+        expect(buildAuthHeaders({ type: 'API_KEY', headerName: 'X-API-Key' })['X-API-Key']).toBeUndefined();
+        expect(Object.keys(buildAuthHeaders({ type: 'API_KEY', headerValue: 'key-123' }))).toEqual(['User-Agent']);
+    });
+});
+
+describe('performHealthCheck', () => {
+    const originalFetch = global.fetch;
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        fetchMock = jest.fn().mockResolvedValue({ status: 200 });
+        global.fetch = fetchMock as any;
+    });
+
+    afterAll(() => {
+        global.fetch = originalFetch;
+    });
+
+    it('should send Bearer token and report STABLE on 200', async () => {
+        const result = await performHealthCheck('https://api.example.com', { type: 'BEARER', token: 'tok' });
+
+        expect(result.status).toBe('STABLE');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        const [, init] = fetchMock.mock.calls[0];
+        expect(init.method).toBe('HEAD');
+        expect(init.headers.Authorization).toBe('Bearer tok');
+    });
+
+    it('should send Basic credentials on GET fallback', async () => {
+        fetchMock
+            .mockRejectedValueOnce(new Error('HEAD not allowed'))
+            .mockResolvedValueOnce({ status: 200 });
+
+        await performHealthCheck('https://api.example.com', { type: 'BASIC', username: 'u', password: 'p' });
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        const [, init] = fetchMock.mock.calls[1];
+        expect(init.method).toBe('GET');
+        expect(init.headers.Authorization).toBe(`Basic ${Buffer.from('u:p').toString('base64')}`);
+    });
+
+    it('should send API key header', async () => {
+        await performHealthCheck('https://api.example.com', { type: 'API_KEY', headerName: 'X-Token', headerValue: 'v' });
+
+        const [, init] = fetchMock.mock.calls[0];
+        expect(init.headers['X-Token']).toBe('v');
+    });
+
+    it('should still report WARNING when credentials are rejected', async () => {
+        fetchMock.mockResolvedValue({ status: 401 });
+
+        const result = await performHealthCheck('https://api.example.com', { type: 'BEARER', token: 'bad' });
+
+        expect(result.status).toBe('WARNING');
+        expect(result.httpStatus).toBe(401);
+    });
+
+    it('should only send GET when the policy method is GET', async () => {
+        await performHealthCheck('https://api.example.com', undefined, 10000, resolveCheckPolicy({ method: 'GET' }));
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][1].method).toBe('GET');
+    });
+
+    it('should retry with GET when HEAD returns 405', async () => {
+        fetchMock
+            .mockResolvedValueOnce({ status: 405 })
+            .mockResolvedValueOnce({ status: 200 });
+
+        const result = await performHealthCheck('https://api.example.com');
+
+        expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual(['HEAD', 'GET']);
+        expect(result.status).toBe('STABLE');
+    });
+
+    it('should treat expected status codes as healthy', async () => {
+        fetchMock.mockResolvedValue({ status: 401 });
+
+        const result = await performHealthCheck(
+            'https://auth.example.com', undefined, 10000,
+            resolveCheckPolicy({ expectedStatusCodes: ['200-299', '401'] })
+        );
+
+        expect(result.status).toBe('STABLE');
+    });
+
+    it('should GET the body and fail on a forbidden keyword', async () => {
+        fetchMock.mockResolvedValue(new Response('<p>Database connection error</p>', { status: 200 }));
+
+        const result = await performHealthCheck(
+            'https://app.example.com', undefined, 10000, undefined,
+            { bodyNotContains: ['Database connection error'] }
+        );
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][1].method).toBe('GET');
+        expect(result.status).toBe('DOWN');
+        expect(result.error).toBe('Assertion failed (bodyNotContains): Body contains "Database connection error"');
+    });
+
+    it('should use the configured failure status for assertions', async () => {
+        fetchMock.mockResolvedValue(new Response('{}', { status: 200 }));
+
+        const result = await performHealthCheck(
+            'https://api.example.com', undefined, 10000, undefined,
+            { requiredHeaders: [{ name: 'x-version' }], failureStatus: 'WARNING' }
+        );
+
+        expect(fetchMock.mock.calls[0][1].method).toBe('HEAD');
+        expect(result.status).toBe('WARNING');
+        expect(result.error).toContain('Missing response header x-version');
+    });
+
+    it('should remove its listener from the run signal on success and failure', async () => {
+        const run = new AbortController();
+        const add = jest.spyOn(run.signal, 'addEventListener');
+        const remove = jest.spyOn(run.signal, 'removeEventListener');
+        fetchMock.mockResolvedValueOnce({ status: 200 }).mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+        await performHealthCheck('https://api.example.com', undefined, 10000, undefined, undefined, undefined, run.signal);
+        await performHealthCheck('https://api.example.com', undefined, 10000, resolveCheckPolicy({ method: 'GET' }), undefined, undefined, run.signal);
+
+        expect(add).toHaveBeenCalledTimes(2);
+        expect(remove.mock.calls.map(([type, listener]) => [type, listener]))
+            .toEqual(add.mock.calls.map(([type, listener]) => [type, listener]));
+    });
+
+    it('should route BROWSER_LOGIN to the Playwright checker', async () => {
+        (performPlaywrightHealthCheck as jest.Mock).mockResolvedValue({ status: 'STABLE', latency: 10 });
+
+        await performHealthCheck('https://app.example.com', { type: 'BROWSER_LOGIN', username: 'u', password: 'p' });
+
+        expect(performPlaywrightHealthCheck).toHaveBeenCalled();
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for lib/monitoring/incidents.ts
+ *
+ * Tests:
+ * - Incident opens on DOWN when none is active
+ * - Repeated DOWN updates the active incident
+ * - Recovery auto-resolves the active incident
+ * - Acknowledge records note and timeline event
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/db/models/Incident');
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import IncidentModel from '@/lib/db/models/Incident';
+import { syncIncident, acknowledgeIncident } from '@/lib/monitoring/incidents';
+
+const node = { _id: '507f1f77bcf86cd799439011', name: 'Test API', group: 'api' } as any;
+
+function activeIncident(overrides: Record<string, any> = {}) {
+    return {
+        _id: 'incident-1',
+        status: 'OPEN',
+        startedAt: new Date('2026-03-01T00:00:00Z'),
+        failureCount: 1,
+        lastError: 'Request timeout',
+        timeline: [],
+        save: jest.fn().mockResolvedValue(undefined),
+        ...overrides,
+    };
+}
+
+describe('syncIncident', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should open an incident on DOWN without an active one', async () => {
+        (IncidentModel.findOne as jest.Mock).mockResolvedValue(null);
+        (IncidentModel.create as jest.Mock).mockImplementation(async (doc) => ({ _id: 'new', ...doc }));
+
+        const checkedAt = new Date('2026-03-01T00:00:00Z');
+        const result = await syncIncident(node, 'DOWN', { status: 'DOWN', latency: 0, error: 'Network error' }, checkedAt);
+
+        expect(result.change).toBe('opened');
+        expect(IncidentModel.create).toHaveBeenCalledWith(expect.objectContaining({
+            nodeId: node._id,
+            status: 'OPEN',
+            startedAt: checkedAt,
+            error: 'Network error',
+        }));
+    });
+
+    it('should update the active incident while still DOWN', async () => {
+        const incident = activeIncident();
+        (IncidentModel.findOne as jest.Mock).mockResolvedValue(incident);
+
+        const result = await syncIncident(node, 'DOWN', { status: 'DOWN', latency: 0, error: 'HTTP 503' });
+
+        expect(result.change).toBe('updated');
+        expect(incident.failureCount).toBe(2);
+        expect(incident.timeline).toHaveLength(1);
+        expect(incident.lastError).toBe('HTTP 503');
+        expect(IncidentModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the active incident on recovery', async () => {
+        const incident = activeIncident({ status: 'ACKNOWLEDGED' });
+        (IncidentModel.findOne as jest.Mock).mockResolvedValue(incident);
+
+        const checkedAt = new Date('2026-03-01T00:10:00Z');
+        const result = await syncIncident(node, 'STABLE', { status: 'STABLE', latency: 120 }, checkedAt);
+
+        expect(result.change).toBe('resolved');
+        expect(incident.status).toBe('RESOLVED');
+        expect((incident as any).durationMs).toBe(10 * 60 * 1000);
+        expect(incident.save).toHaveBeenCalled();
+    });
+
+    it('should do nothing when healthy without an active incident', async () => {
+        (IncidentModel.findOne as jest.Mock).mockResolvedValue(null);
+
+        const result = await syncIncident(node, 'STABLE', { status: 'STABLE', latency: 120 });
+
+        expect(result.change).toBeNull();
+        expect(IncidentModel.create).not.toHaveBeenCalled();
+    });
+});
+
+describe('acknowledgeIncident', () => {
+    it('should record note, actor and timeline event', async () => {
+        const incident = activeIncident();
+
+        await acknowledgeIncident(incident as any, 'Investigating DB', 'ops');
+
+        expect(incident.status).toBe('ACKNOWLEDGED');
+        expect((incident as any).ackNote).toBe('Investigating DB');
+        expect(incident.timeline).toEqual([
+            expect.objectContaining({ type: 'acknowledged', message: 'Investigating DB', actor: 'ops' }),
+        ]);
+        expect(incident.save).toHaveBeenCalled();
+    });
+});
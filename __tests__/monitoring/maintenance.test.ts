@@ -0,0 +1,264 @@
+/**
+ * Unit Tests for lib/monitoring/maintenance.ts
+ *
+ * Tests:
+ * - Cron parsing and matching (lists, ranges, steps, day-of-week/day-of-month)
+ * - One-off and recurring occurrences, evaluated in the window's timezone
+ * - Week-long windows without a minute-by-minute search
+ * - Node scope by id, group and tag
+ * - Window payload validation
+ * - Entering and leaving MAINTENANCE keeps the confirmed status underneath
+ * - Alerts are suppressed for MAINTENANCE transitions
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/db/models/MaintenanceWindow');
+jest.mock('@/lib/db/models/Node');
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+import {
+    applyMaintenanceStatus,
+    cronMatches,
+    getActiveOccurrence,
+    getNodeMaintenance,
+    getZonedTime,
+    isNodeInScope,
+    parseCron,
+    validateMaintenanceWindow,
+} from '@/lib/monitoring/maintenance';
+import { getUnderlyingStatus } from '@/lib/monitoring/statusConfirmation';
+import { shouldTriggerAlert } from '@/lib/monitoring/healthCheck';
+
+const recurring = (overrides: Record<string, any> = {}) => ({
+    enabled: true,
+    schedule: 'recurring' as const,
+    cron: '0 2 * * 0',
+    durationMinutes: 60,
+    timezone: 'UTC',
+    ...overrides,
+});
+
+describe('parseCron', () => {
+    it('should parse wildcards, lists, ranges and steps', () => {
+        const cron = parseCron('*/15 1,3 1-5 * 1-5');
+        expect(Array.from(cron.minutes)).toEqual([0, 15, 30, 45]);
+        expect(Array.from(cron.hours)).toEqual([1, 3]);
+        expect(Array.from(cron.daysOfMonth)).toEqual([1, 2, 3, 4, 5]);
+        expect(cron.months.size).toBe(12);
+        expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat 7 as Sunday', () => {
+        expect(Array.from(parseCron('0 0 * * 7').daysOfWeek)).toEqual([0]);
+    });
+
+    it('should reject malformed expressions', () => {
+        expect(() => parseCron('0 2 * *')).toThrow('5 fields');
+        expect(() => parseCron('60 * * * *')).toThrow('minute');
+        expect(() => parseCron('0 2 * * mon')).toThrow('day of week');
+        expect(() => parseCron('5-1 * * * *')).toThrow();
+    });
+});
+
+describe('cronMatches', () => {
+    const time = { minute: 0, hour: 2, day: 15, month: 6, weekday: 0 };
+
+    it('should match all fields', () => {
+        expect(cronMatches(parseCron('0 2 * * *'), time)).toBe(true);
+        expect(cronMatches(parseCron('30 2 * * *'), time)).toBe(false);
+    });
+
+    it('should match either day field when both are restricted', () => {
+        expect(cronMatches(parseCron('0 2 1 * 0'), time)).toBe(true);  // Sunday, not the 1st
+        expect(cronMatches(parseCron('0 2 15 * 3'), time)).toBe(true); // 15th, not Wednesday
+        expect(cronMatches(parseCron('0 2 1 * 3'), time)).toBe(false);
+    });
+});
+
+describe('getZonedTime', () => {
+    it('should return wall-clock fields in the given timezone', () => {
+        // 2026-03-01T20:30Z is Monday 03:30 in Jakarta (UTC+7)
+        expect(getZonedTime(new Date('2026-03-01T20:30:00Z'), 'Asia/Jakarta')).toEqual({
+            minute: 30,
+            hour: 3,
+            day: 2,
+            month: 3,
+            weekday: 1,
+        });
+    });
+});
+
+describe('getActiveOccurrence', () => {
+    it('should cover one-off windows between startsAt and endsAt', () => {
+        const window = {
+            enabled: true,
+            schedule: 'once' as const,
+            startsAt: new Date('2026-03-01T10:00:00Z'),
+            endsAt: new Date('2026-03-01T12:00:00Z'),
+            timezone: 'UTC',
+        };
+
+        expect(getActiveOccurrence(window, new Date('2026-03-01T11:00:00Z'))).toEqual({
+            startsAt: window.startsAt,
+            endsAt: window.endsAt,
+        });
+        expect(getActiveOccurrence(window, new Date('2026-03-01T12:00:00Z'))).toBeNull();
+        expect(getActiveOccurrence({ ...window, enabled: false }, new Date('2026-03-01T11:00:00Z'))).toBeNull();
+    });
+
+    it('should find the latest recurring start within the duration', () => {
+        // Sunday 2026-03-01
+        const occurrence = getActiveOccurrence(recurring(), new Date('2026-03-01T02:45:30Z'));
+        expect(occurrence).toEqual({
+            startsAt: new Date('2026-03-01T02:00:00Z'),
+            endsAt: new Date('2026-03-01T03:00:00Z'),
+        });
+
+        expect(getActiveOccurrence(recurring(), new Date('2026-03-01T03:00:00Z'))).toBeNull();
+        expect(getActiveOccurrence(recurring(), new Date('2026-03-02T02:30:00Z'))).toBeNull(); // Monday
+    });
+
+    it('should evaluate cron in the window timezone', () => {
+        // 02:00 Sunday in Jakarta is 19:00 Saturday UTC
+        const window = recurring({ timezone: 'Asia/Jakarta' });
+
+        expect(getActiveOccurrence(window, new Date('2026-02-28T19:10:00Z'))?.startsAt)
+            .toEqual(new Date('2026-02-28T19:00:00Z'));
+        expect(getActiveOccurrence(window, new Date('2026-03-01T02:10:00Z'))).toBeNull();
+    });
+
+    it('should find the start of a week-long window from the cron fields', () => {
+        // Every Monday 00:00 Jakarta time (Sunday 17:00 UTC) for 7 days
+        const window = recurring({ cron: '0 0 * * 1', durationMinutes: 10080, timezone: 'Asia/Jakarta' });
+        const formatToParts = jest.spyOn(Intl.DateTimeFormat.prototype, 'formatToParts');
+
+        try {
+            // Sunday 2026-03-08 16:59 UTC, the last minute of the occurrence
+            expect(getActiveOccurrence(window, new Date('2026-03-08T16:59:59Z'))).toEqual({
+                startsAt: new Date('2026-03-01T17:00:00Z'),
+                endsAt: new Date('2026-03-08T17:00:00Z'),
+            });
+            expect(formatToParts.mock.calls.length).toBeLessThan(200);
+
+            expect(getActiveOccurrence(window, new Date('2026-03-08T17:00:00Z'))?.startsAt)
+                .toEqual(new Date('2026-03-08T17:00:00Z'));
+        } finally {
+            formatToParts.mockRestore();
+        }
+    });
+
+    it('should pick the latest of several matches in a long window', () => {
+        // Every 6 hours at :30, 3 days long
+        const window = recurring({ cron: '30 */6 * * *', durationMinutes: 4320 });
+
+        expect(getActiveOccurrence(window, new Date('2026-03-01T13:10:00Z'))?.startsAt)
+            .toEqual(new Date('2026-03-01T12:30:00Z'));
+        expect(getActiveOccurrence(window, new Date('2026-03-01T12:29:00Z'))?.startsAt)
+            .toEqual(new Date('2026-03-01T06:30:00Z'));
+    });
+});
+
+describe('scope', () => {
+    const node = { _id: '507f1f77bcf86cd799439011', group: 'api', tags: ['payments'] } as any;
+    const scope = (overrides: Record<string, string[]> = {}) => ({
+        scope: { nodeIds: [], groups: [], tags: [], ...overrides },
+    }) as any;
+
+    it('should match nodes by id, group or tag', () => {
+        expect(isNodeInScope(scope({ nodeIds: ['507f1f77bcf86cd799439011'] }), node)).toBe(true);
+        expect(isNodeInScope(scope({ groups: ['api'] }), node)).toBe(true);
+        expect(isNodeInScope(scope({ tags: ['payments'] }), node)).toBe(true);
+        expect(isNodeInScope(scope({ groups: ['website'], tags: ['search'] }), node)).toBe(false);
+    });
+
+    it('should pick the overlapping window that ends last', () => {
+        const active = [
+            { window: { _id: 'w1', name: 'Short', ...scope({ groups: ['api'] }) }, occurrence: { startsAt: new Date(0), endsAt: new Date(1000) } },
+            { window: { _id: 'w2', name: 'Long', ...scope({ tags: ['payments'] }) }, occurrence: { startsAt: new Date(0), endsAt: new Date(5000) } },
+            { window: { _id: 'w3', name: 'Other', ...scope({ groups: ['website'] }) }, occurrence: { startsAt: new Date(0), endsAt: new Date(9000) } },
+        ] as any;
+
+        expect(getNodeMaintenance(node, active)).toEqual({ windowId: 'w2', name: 'Long', endsAt: new Date(5000) });
+        expect(getNodeMaintenance(node, [])).toBeNull();
+    });
+});
+
+describe('validateMaintenanceWindow', () => {
+    const valid = {
+        name: 'DB upgrade',
+        schedule: 'once',
+        startsAt: '2026-03-01T10:00:00Z',
+        endsAt: '2026-03-01T12:00:00Z',
+        scope: { groups: ['database'] },
+    };
+
+    it('should accept valid one-off and recurring windows', () => {
+        expect(validateMaintenanceWindow(valid)).toBeNull();
+        expect(validateMaintenanceWindow({ ...recurring({ timezone: 'Europe/Berlin' }), name: 'Weekly', scope: { tags: ['payments'] } })).toBeNull();
+    });
+
+    it('should reject invalid schedules', () => {
+        expect(validateMaintenanceWindow({ ...valid, endsAt: valid.startsAt })).toContain('after startsAt');
+        expect(validateMaintenanceWindow({ ...valid, schedule: 'weekly' })).toContain('schedule');
+        expect(validateMaintenanceWindow({ ...recurring({ cron: 'bad' }), name: 'x', scope: { groups: ['api'] } })).toContain('5 fields');
+        expect(validateMaintenanceWindow({ ...recurring({ durationMinutes: 0 }), name: 'x', scope: { groups: ['api'] } })).toContain('durationMinutes');
+        expect(validateMaintenanceWindow({ ...recurring({ timezone: 'Mars/Base' }), name: 'x', scope: { groups: ['api'] } })).toContain('timezone');
+    });
+
+    it('should require a non-empty, valid scope', () => {
+        expect(validateMaintenanceWindow({ ...valid, scope: {} })).toContain('at least one');
+        expect(validateMaintenanceWindow({ ...valid, scope: { nodeIds: ['abc'] } })).toContain('Invalid node ID');
+        expect(validateMaintenanceWindow({ ...valid, scope: { groups: ['nope'] } })).toContain('Invalid group');
+        expect(validateMaintenanceWindow({ ...valid, name: ' ' })).toBe('name is required');
+    });
+});
+
+describe('applyMaintenanceStatus', () => {
+    const maintenance = { windowId: 'w1', name: 'DB upgrade', endsAt: new Date('2026-03-01T12:00:00Z') };
+    const state = { consecutiveFailures: 3, consecutiveSuccesses: 0, recentStatuses: ['DOWN' as const] };
+
+    it('should keep the confirmed status underneath MAINTENANCE', () => {
+        const node: any = { status: 'DOWN', checkState: state };
+
+        expect(applyMaintenanceStatus(node, maintenance)).toBe(true);
+        expect(node.status).toBe('MAINTENANCE');
+        expect(node.checkState.underlyingStatus).toBe('DOWN');
+        expect(node.checkState.consecutiveFailures).toBe(3);
+        expect(node.maintenance).toEqual(maintenance);
+        expect(getUnderlyingStatus(node)).toBe('DOWN');
+
+        // Same window again: nothing changes
+        expect(applyMaintenanceStatus(node, maintenance)).toBe(false);
+    });
+
+    it('should restore the confirmed status when the window ends', () => {
+        const node: any = { status: 'MAINTENANCE', checkState: { ...state, underlyingStatus: 'STABLE' }, maintenance };
+
+        expect(applyMaintenanceStatus(node, null)).toBe(true);
+        expect(node.status).toBe('STABLE');
+        expect(node.checkState.underlyingStatus).toBeUndefined();
+        expect(node.maintenance).toBeUndefined();
+    });
+
+    it('should leave nodes outside maintenance unchanged', () => {
+        const node: any = { status: 'STABLE', checkState: state };
+        expect(applyMaintenanceStatus(node, null)).toBe(false);
+        expect(node.status).toBe('STABLE');
+    });
+});
+
+describe('shouldTriggerAlert with MAINTENANCE', () => {
+    it('should suppress alerts into and out of MAINTENANCE', () => {
+        expect(shouldTriggerAlert('DOWN', 'MAINTENANCE')).toBe(false);
+        expect(shouldTriggerAlert('MAINTENANCE', 'DOWN')).toBe(false);
+        expect(shouldTriggerAlert('MAINTENANCE', 'STABLE')).toBe(false);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit Tests for lib/monitoring/statusConfirmation.ts
+ *
+ * Tests:
+ * - N-consecutive-failure confirmation before DOWN
+ * - Recovery confirmation after DOWN
+ * - Flap detection and leaving FLAPPING
+ * - Policy resolution and validation
+ * - Alert suppression while flapping
+ *
+ * @jest-environment node
+ */
+
+import {
+    evaluateStatus,
+    resolveStatusPolicy,
+    validateStatusPolicy,
+    countStateChanges,
+    StatusEvaluation,
+} from '@/lib/monitoring/statusConfirmation';
+import { shouldTriggerAlert } from '@/lib/monitoring/healthCheck';
+import { NodeStatus, StatusCheckState, StatusPolicy } from '@/types';
+
+const policy = (overrides: Partial<StatusPolicy> = {}): StatusPolicy => ({
+    failureThreshold: 3,
+    recoveryThreshold: 2,
+    flapWindow: 10,
+    flapThreshold: 0,
+    ...overrides,
+});
+
+/**
+ * Feed a sequence of observed results through evaluateStatus
+ */
+function run(start: NodeStatus, observed: NodeStatus[], p: StatusPolicy): StatusEvaluation[] {
+    let status = start;
+    let state: StatusCheckState | undefined;
+    return observed.map((result) => {
+        const evaluation = evaluateStatus(status, result, state, p);
+        status = evaluation.status;
+        state = evaluation.state;
+        return evaluation;
+    });
+}
+
+describe('evaluateStatus', () => {
+    it('should keep the current status until failureThreshold consecutive failures', () => {
+        const steps = run('STABLE', ['DOWN', 'DOWN', 'DOWN'], policy());
+
+        expect(steps.map((s) => s.status)).toEqual(['STABLE', 'STABLE', 'DOWN']);
+        expect(steps.map((s) => s.pending)).toEqual([true, true, false]);
+        expect(steps[2].state.consecutiveFailures).toBe(3);
+    });
+
+    it('should reset the failure streak on a successful check', () => {
+        const steps = run('STABLE', ['DOWN', 'DOWN', 'STABLE', 'DOWN', 'DOWN'], policy());
+        expect(steps.every((s) => s.status === 'STABLE')).toBe(true);
+    });
+
+    it('should require recoveryThreshold successes to leave DOWN', () => {
+        const steps = run('DOWN', ['WARNING', 'STABLE'], policy());
+        expect(steps.map((s) => s.status)).toEqual(['DOWN', 'STABLE']);
+    });
+
+    it('should apply non-DOWN transitions immediately', () => {
+        const steps = run('STABLE', ['WARNING', 'FRESH'], policy());
+        expect(steps.map((s) => s.status)).toEqual(['WARNING', 'FRESH']);
+    });
+
+    it('should behave like a single check with the default policy', () => {
+        const steps = run('STABLE', ['DOWN', 'STABLE'], resolveStatusPolicy());
+        expect(steps.map((s) => s.status)).toEqual(['DOWN', 'STABLE']);
+    });
+
+    it('should mark a node FLAPPING when it oscillates', () => {
+        const p = policy({ failureThreshold: 1, recoveryThreshold: 1, flapWindow: 6, flapThreshold: 4 });
+        const steps = run('STABLE', ['DOWN', 'STABLE', 'DOWN', 'STABLE', 'DOWN'], p);
+
+        expect(steps.map((s) => s.status)).toEqual(['DOWN', 'STABLE', 'DOWN', 'STABLE', 'FLAPPING']);
+        expect(steps[4].flapping).toBe(true);
+        expect(steps[4].stateChanges).toBe(4);
+    });
+
+    it('should stay FLAPPING until a streak confirms the new status', () => {
+        const p = policy({ failureThreshold: 3, recoveryThreshold: 3, flapWindow: 4, flapThreshold: 3 });
+        const steps = run('STABLE', ['DOWN', 'STABLE', 'DOWN', 'STABLE', 'STABLE', 'STABLE'], p);
+
+        expect(steps.map((s) => s.status)).toEqual(['STABLE', 'STABLE', 'STABLE', 'FLAPPING', 'FLAPPING', 'STABLE']);
+    });
+
+    it('should keep only flapWindow observed results', () => {
+        const steps = run('STABLE', ['STABLE', 'STABLE', 'STABLE', 'DOWN'], policy({ flapWindow: 3 }));
+        expect(steps[3].state.recentStatuses).toEqual(['STABLE', 'STABLE', 'DOWN']);
+    });
+});
+
+describe('countStateChanges', () => {
+    it('should only count up <-> down changes', () => {
+        expect(countStateChanges(['STABLE', 'WARNING', 'FRESH'])).toBe(0);
+        expect(countStateChanges(['STABLE', 'DOWN', 'DOWN', 'WARNING'])).toBe(2);
+    });
+});
+
+describe('resolveStatusPolicy / validateStatusPolicy', () => {
+    afterEach(() => {
+        delete process.env.STATUS_FAILURE_THRESHOLD;
+    });
+
+    it('should merge per-node overrides over env defaults', () => {
+        process.env.STATUS_FAILURE_THRESHOLD = '2';
+        expect(resolveStatusPolicy({ recoveryThreshold: 4 })).toEqual({
+            failureThreshold: 2,
+            recoveryThreshold: 4,
+            flapWindow: 10,
+            flapThreshold: 0,
+        });
+    });
+
+    it('should validate ranges and unknown fields', () => {
+        expect(validateStatusPolicy(undefined)).toBeNull();
+        expect(validateStatusPolicy({ failureThreshold: 3, flapThreshold: 4 })).toBeNull();
+        expect(validateStatusPolicy({ failureThreshold: 0 })).toMatch(/failureThreshold/);
+        expect(validateStatusPolicy({ failureThreshold: 1.5 })).toMatch(/integer/);
+        expect(validateStatusPolicy({ flapWindow: 4, flapThreshold: 4 })).toMatch(/lower than flapWindow/);
+        expect(validateStatusPolicy({ retries: 2 })).toMatch(/Unknown/);
+        expect(validateStatusPolicy('3')).toMatch(/object/);
+    });
+});
+
+describe('shouldTriggerAlert with FLAPPING', () => {
+    it('should suppress alerts into and out of FLAPPING', () => {
+        expect(shouldTriggerAlert('STABLE', 'FLAPPING')).toBe(false);
+        expect(shouldTriggerAlert('FLAPPING', 'DOWN')).toBe(false);
+        expect(shouldTriggerAlert('STABLE', 'DOWN')).toBe(true);
+    });
+});
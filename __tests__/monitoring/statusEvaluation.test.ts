@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for lib/monitoring/statusEvaluation.ts
+ *
+ * Tests:
+ * - Status code pattern matching
+ * - Response grading with default and custom policies
+ * - Policy layering (defaults < group < node)
+ * - Policy validation
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/db/models/GroupPolicy');
+
+import {
+    DEFAULT_CHECK_POLICY,
+    evaluateLatency,
+    evaluateResponse,
+    matchesStatusCode,
+    resolveCheckPolicy,
+    validateCheckPolicy,
+} from '@/lib/monitoring/statusEvaluation';
+
+describe('matchesStatusCode', () => {
+    it('should match single codes, ranges and class wildcards', () => {
+        expect(matchesStatusCode(401, ['401'])).toBe(true);
+        expect(matchesStatusCode(204, ['200-299'])).toBe(true);
+        expect(matchesStatusCode(300, ['200-299'])).toBe(false);
+        expect(matchesStatusCode(302, ['3xx'])).toBe(true);
+        expect(matchesStatusCode(200, ['bogus'])).toBe(false);
+    });
+});
+
+describe('evaluateResponse', () => {
+    it('should keep the original rules with the default policy', () => {
+        expect(evaluateResponse(200, 100).status).toBe('STABLE');
+        expect(evaluateResponse(200, 1500).status).toBe('STABLE');
+        expect(evaluateResponse(200, 5001).status).toBe('WARNING');
+        expect(evaluateResponse(404, 100).status).toBe('WARNING');
+        expect(evaluateResponse(503, 100).status).toBe('DOWN');
+    });
+
+    it('should grade expected non-2xx codes as healthy', () => {
+        const policy = resolveCheckPolicy({ expectedStatusCodes: ['401'] });
+        expect(evaluateResponse(401, 100, policy).status).toBe('STABLE');
+        expect(evaluateResponse(200, 100, policy).status).toBe('WARNING');
+    });
+
+    it('should apply warning and down latency thresholds', () => {
+        const policy = resolveCheckPolicy({ warningLatencyMs: 800, downLatencyMs: 3000 });
+        expect(evaluateResponse(200, 900, policy).status).toBe('WARNING');
+
+        const down = evaluateResponse(200, 3500, policy);
+        expect(down.status).toBe('DOWN');
+        expect(down.error).toContain('3000ms');
+    });
+
+    it('should grade by latency only when there is no response code', () => {
+        expect(evaluateLatency(100).status).toBe('STABLE');
+    });
+});
+
+describe('resolveCheckPolicy', () => {
+    it('should layer node overrides over group overrides over defaults', () => {
+        const policy = resolveCheckPolicy(
+            { warningLatencyMs: 2000, method: 'GET' },
+            { warningLatencyMs: 1000, expectedStatusCodes: [] }
+        );
+
+        expect(policy).toEqual({
+            ...DEFAULT_CHECK_POLICY,
+            warningLatencyMs: 1000,
+            method: 'GET',
+        });
+    });
+});
+
+describe('validateCheckPolicy', () => {
+    it('should accept valid policies', () => {
+        expect(validateCheckPolicy(undefined)).toBeNull();
+        expect(validateCheckPolicy({ expectedStatusCodes: ['2xx', '401'], warningLatencyMs: 800, downLatencyMs: 0, method: 'GET' })).toBeNull();
+    });
+
+    it('should reject invalid fields', () => {
+        expect(validateCheckPolicy({ expectedStatusCodes: ['abc'] })).toMatch(/Invalid status code/);
+        expect(validateCheckPolicy({ warningLatencyMs: 0 })).toMatch(/warningLatencyMs/);
+        expect(validateCheckPolicy({ warningLatencyMs: 1000, downLatencyMs: 500 })).toMatch(/greater than/);
+        expect(validateCheckPolicy({ method: 'POST' })).toMatch(/HEAD or GET/);
+        expect(validateCheckPolicy({ timeout: 1 })).toMatch(/Unknown/);
+    });
+});
@@ -0,0 +1,257 @@
+/**
+ * Unit Tests for lib/monitoring/transactions.ts
+ *
+ * Tests:
+ * - Steps run in order with a timing each, the first failure stops the run
+ * - Failure messages name the broken step
+ * - goto resolves paths against the node URL and fails on HTTP errors
+ * - assertUrl substring / regex patterns
+ * - Validation (required fields per action, BROWSER_LOGIN only)
+ * - Steps are clamped to the check deadline
+ * - fill values: encrypted at rest, redacted for readers, references resolved at check time
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import crypto from 'crypto';
+import {
+    describeStep,
+    encryptTransactionValues,
+    matchesUrlPattern,
+    REDACTED_FILL_VALUE,
+    redactTransaction,
+    resolveFillValue,
+    runTransaction,
+    validateTransaction,
+} from '@/lib/monitoring/transactions';
+import { isEncrypted } from '@/lib/security/credentials';
+
+/**
+ * Minimal stand-in for a Playwright page
+ */
+function createPage(overrides: Record<string, any> = {}) {
+    const calls: string[] = [];
+    const waitFor = jest.fn().mockResolvedValue(undefined);
+    const page = {
+        calls,
+        waitFor,
+        url: () => 'https://app.example.com/dashboard',
+        goto: jest.fn(async (url: string) => {
+            calls.push(`goto ${url}`);
+            return { status: () => 200 };
+        }),
+        click: jest.fn(async (selector: string) => { calls.push(`click ${selector}`); }),
+        fill: jest.fn(async (selector: string, value: string) => { calls.push(`fill ${selector}=${value}`); }),
+        waitForSelector: jest.fn(async (selector: string) => { calls.push(`wait ${selector}`); }),
+        locator: jest.fn(() => ({ first: () => ({ waitFor }) })),
+        waitForURL: jest.fn(async (predicate: (url: URL) => boolean) => {
+            if (!predicate(new URL(page.url()))) throw new Error('Timeout 10000ms exceeded.');
+        }),
+        ...overrides,
+    };
+    return page;
+}
+
+describe('runTransaction', () => {
+    it('should run every step in order and time each one', async () => {
+        const page = createPage();
+
+        const run = await runTransaction(page as any, {
+            steps: [
+                { action: 'click', selector: '#menu' },
+                { action: 'fill', selector: 'input[name=q]', value: 'invoice' },
+                { action: 'waitForSelector', selector: 'table tr' },
+                { action: 'assertText', selector: 'table', text: 'INV-1' },
+                { action: 'assertUrl', url: '/dashboard' },
+            ],
+        }, 'https://app.example.com');
+
+        expect(run.failure).toBeUndefined();
+        expect(page.calls).toEqual(['click #menu', 'fill input[name=q]=invoice', 'wait table tr']);
+        expect(page.locator).toHaveBeenCalledWith('table', { hasText: 'INV-1' });
+        expect(run.steps).toHaveLength(5);
+        run.steps.forEach((step, index) => {
+            expect(step).toMatchObject({ step: index + 1, ok: true });
+            expect(step.durationMs).toBeGreaterThanOrEqual(0);
+        });
+    });
+
+    it('should stop at the first failing step and name it', async () => {
+        const page = createPage({
+            click: jest.fn().mockRejectedValue(new Error('Timeout 5000ms exceeded.\n=========================== logs ===========================')),
+        });
+
+        const run = await runTransaction(page as any, {
+            steps: [
+                { action: 'fill', selector: '#search', value: 'x' },
+                { action: 'click', selector: '#menu', name: 'Open menu', timeoutMs: 5000 },
+                { action: 'waitForSelector', selector: '.result' },
+            ],
+        }, 'https://app.example.com');
+
+        expect(run.failure).toBe('Step 2 "Open menu" failed: Timeout 5000ms exceeded.');
+        expect(run.steps).toHaveLength(2);
+        expect(run.steps[1]).toMatchObject({ step: 2, action: 'click', ok: false, error: 'Timeout 5000ms exceeded.' });
+        expect(page.waitForSelector).not.toHaveBeenCalled();
+    });
+
+    it('should resolve goto paths against the node URL and fail on HTTP errors', async () => {
+        const page = createPage({
+            goto: jest.fn().mockResolvedValue({ status: () => 503 }),
+        });
+
+        const run = await runTransaction(page as any, {
+            steps: [{ action: 'goto', url: '/reports' }],
+        }, 'https://app.example.com/home');
+
+        expect(page.goto).toHaveBeenCalledWith('https://app.example.com/reports', expect.objectContaining({ timeout: 10000 }));
+        expect(run.failure).toBe('Step 1 (goto /reports) failed: HTTP 503');
+    });
+
+    it('should report missing text and unexpected URLs', async () => {
+        const page = createPage();
+        page.waitFor.mockRejectedValue(new Error('Timeout'));
+
+        const textRun = await runTransaction(page as any, {
+            steps: [{ action: 'assertText', text: 'Welcome' }],
+        }, 'https://app.example.com');
+        expect(textRun.failure).toBe('Step 1 (assertText Welcome) failed: Text "Welcome" not found in page');
+
+        const urlRun = await runTransaction(page as any, {
+            steps: [{ action: 'assertUrl', url: '/reports' }],
+        }, 'https://app.example.com');
+        expect(urlRun.failure).toBe('Step 1 (assertUrl /reports) failed: URL https://app.example.com/dashboard does not match /reports');
+    });
+
+    it('should clamp step timeouts to the deadline and stop once it passed', async () => {
+        const page = createPage();
+
+        const run = await runTransaction(page as any, {
+            steps: [{ action: 'click', selector: '#a', timeoutMs: 60000 }],
+        }, 'https://app.example.com', { deadline: Date.now() + 5000 });
+        expect(run.failure).toBeUndefined();
+        expect((page.click.mock.calls[0] as any[])[1].timeout).toBeLessThanOrEqual(5000);
+
+        const late = await runTransaction(page as any, {
+            steps: [{ action: 'click', selector: '#b' }],
+        }, 'https://app.example.com', { deadline: Date.now() - 1 });
+        expect(late.failure).toBe('Step 1 (click #b) failed: Check timeout reached');
+        expect(page.calls).not.toContain('click #b');
+    });
+
+    it('should type resolved fill values', async () => {
+        const page = createPage();
+
+        const run = await runTransaction(page as any, {
+            steps: [{ action: 'fill', selector: '#pw', value: '{password}' }],
+        }, 'https://app.example.com', { authConfig: { type: 'BROWSER_LOGIN', password: 'hunter2' } });
+
+        expect(run.failure).toBeUndefined();
+        expect(page.calls).toEqual(['fill #pw=hunter2']);
+    });
+});
+
+describe('fill values', () => {
+    const KEYS_BACKUP = process.env.CREDENTIAL_ENCRYPTION_KEYS;
+
+    beforeAll(() => {
+        process.env.CREDENTIAL_ENCRYPTION_KEYS = `v1:${crypto.randomBytes(32).toString('base64')}`;
+    });
+
+    afterAll(() => {
+        process.env.CREDENTIAL_ENCRYPTION_KEYS = KEYS_BACKUP;
+    });
+
+    const transaction = {
+        steps: [
+            { action: 'fill' as const, selector: '#user', value: 'alice' },
+            { action: 'fill' as const, selector: '#pw', value: '{env:HEARTBEAT_SECRET_APP_PASSWORD}' },
+            { action: 'fill' as const, selector: '#search', value: '' },
+            { action: 'click' as const, selector: '#go' },
+        ],
+    };
+
+    it('should encrypt literal values only, once', () => {
+        const stored = encryptTransactionValues(transaction);
+
+        expect(isEncrypted(stored.steps[0].value)).toBe(true);
+        expect(stored.steps.slice(1)).toEqual(transaction.steps.slice(1));
+        expect(encryptTransactionValues(stored)).toEqual(stored);
+        expect(resolveFillValue(stored.steps[0].value!)).toBe('alice');
+    });
+
+    it('should redact literal values and keep references', () => {
+        const redacted = redactTransaction(encryptTransactionValues(transaction));
+
+        expect(redacted.steps.map((step) => step.value)).toEqual([REDACTED_FILL_VALUE, '{env:HEARTBEAT_SECRET_APP_PASSWORD}', '', undefined]);
+        expect(redactTransaction(undefined)).toBeUndefined();
+    });
+
+    it('should resolve credential and environment references', () => {
+        const authConfig = { type: 'BROWSER_LOGIN' as const, username: 'bob' };
+
+        expect(resolveFillValue('{username}', authConfig)).toBe('bob');
+        expect(resolveFillValue('{env:HEARTBEAT_SECRET_APP_PASSWORD}', null, { HEARTBEAT_SECRET_APP_PASSWORD: 'pw' })).toBe('pw');
+        expect(() => resolveFillValue('{password}', authConfig)).toThrow('Node has no password for {password}');
+        expect(() => resolveFillValue('{env:HEARTBEAT_SECRET_APP_PASSWORD}', null, {})).toThrow('Environment variable HEARTBEAT_SECRET_APP_PASSWORD is not set');
+    });
+
+    it('should refuse environment variables without the secret prefix', () => {
+        expect(() => resolveFillValue('{env:MONGODB_URI}', null, { MONGODB_URI: 'mongodb://db' }))
+            .toThrow('Only HEARTBEAT_SECRET_* environment variables can be referenced');
+    });
+});
+
+describe('matchesUrlPattern', () => {
+    it('should match substrings and regex literals', () => {
+        expect(matchesUrlPattern('https://app.example.com/reports?page=2', '/reports')).toBe(true);
+        expect(matchesUrlPattern('https://app.example.com/reports/42', '/\\/reports\\/\\d+$/')).toBe(true);
+        expect(matchesUrlPattern('https://app.example.com/login', '/\\/reports/')).toBe(false);
+    });
+});
+
+describe('describeStep', () => {
+    it('should prefer the step name', () => {
+        expect(describeStep({ action: 'click', selector: '#a', name: 'Open' }, 0)).toBe('Step 1 "Open"');
+        expect(describeStep({ action: 'click', selector: '#a' }, 2)).toBe('Step 3 (click #a)');
+    });
+});
+
+describe('validateTransaction', () => {
+    const steps = [{ action: 'click', selector: '#menu' }];
+
+    it('should accept valid transactions and no transaction', () => {
+        expect(validateTransaction(undefined, 'NONE')).toBeNull();
+        expect(validateTransaction(null, 'BASIC')).toBeNull();
+        expect(validateTransaction({ steps, failureStatus: 'WARNING' }, 'BROWSER_LOGIN')).toBeNull();
+        expect(validateTransaction({ steps: [{ action: 'fill', selector: '#q', value: '' }] }, 'BROWSER_LOGIN')).toBeNull();
+    });
+
+    it('should only allow BROWSER_LOGIN nodes', () => {
+        expect(validateTransaction({ steps }, 'BASIC')).toMatch(/BROWSER_LOGIN/);
+        expect(validateTransaction({ steps }, undefined)).toMatch(/BROWSER_LOGIN/);
+    });
+
+    it('should reject malformed steps', () => {
+        expect(validateTransaction({ steps: [] }, 'BROWSER_LOGIN')).toMatch(/non-empty/);
+        expect(validateTransaction({ steps: [{ action: 'hover', selector: '#a' }] }, 'BROWSER_LOGIN')).toMatch(/steps\[0\]\.action/);
+        expect(validateTransaction({ steps: [{ action: 'fill', selector: '#q' }] }, 'BROWSER_LOGIN')).toBe('transaction.steps[0].value is required for fill');
+        expect(validateTransaction({ steps: [{ action: 'click', selector: ' ' }] }, 'BROWSER_LOGIN')).toBe('transaction.steps[0].selector is required for click');
+        expect(validateTransaction({ steps: [{ action: 'goto', url: 'reports' }] }, 'BROWSER_LOGIN')).toMatch(/http\(s\) URL or a path/);
+        expect(validateTransaction({ steps: [{ action: 'assertUrl', url: '/[/' }] }, 'BROWSER_LOGIN')).toMatch(/invalid pattern/);
+        expect(validateTransaction({ steps: [{ action: 'click', selector: '#a', timeoutMs: 120000 }] }, 'BROWSER_LOGIN')).toMatch(/timeoutMs/);
+        expect(validateTransaction({ steps, failureStatus: 'FLAPPING' }, 'BROWSER_LOGIN')).toMatch(/failureStatus/);
+    });
+
+    it('should reject env references without the secret prefix', () => {
+        const fill = (value: string) => ({ steps: [{ action: 'fill', selector: '#pw', value }] });
+
+        expect(validateTransaction(fill('{env:HEARTBEAT_SECRET_APP_PASSWORD}'), 'BROWSER_LOGIN')).toBeNull();
+        expect(validateTransaction(fill('{env:CREDENTIAL_ENCRYPTION_KEYS}'), 'BROWSER_LOGIN'))
+            .toBe('transaction.steps[0].value can only reference environment variables starting with HEARTBEAT_SECRET_');
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for lib/monitoring/uptime.ts
+ *
+ * Tests:
+ * - Uptime, downtime and incident counting from raw results
+ * - MTTR / MTBF derivation
+ * - Approximation from hourly rollups
+ * - Group aggregation
+ * - Window names (own keys only)
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/db/models/CheckResult');
+jest.mock('@/lib/db/models/CheckRollup');
+
+import {
+    computeUptimeFromResults,
+    computeUptimeFromRollups,
+    isUptimeWindow,
+    mergeUptimeStats,
+} from '@/lib/monitoring/uptime';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const from = new Date('2026-03-01T00:00:00Z');
+const at = (minutes: number) => new Date(from.getTime() + minutes * MINUTE);
+
+describe('isUptimeWindow', () => {
+    it('should accept the known windows only', () => {
+        expect(['24h', '7d', '30d', '90d'].every(isUptimeWindow)).toBe(true);
+        expect(isUptimeWindow('1y')).toBe(false);
+        expect(isUptimeWindow('toString')).toBe(false);
+        expect(isUptimeWindow('constructor')).toBe(false);
+        expect(isUptimeWindow('__proto__')).toBe(false);
+    });
+});
+
+describe('computeUptimeFromResults', () => {
+    it('should return null uptime when there is no data', () => {
+        const stats = computeUptimeFromResults([], from, at(60));
+        expect(stats.uptimePercent).toBeNull();
+        expect(stats.incidents).toBe(0);
+        expect(stats.mttrMs).toBeNull();
+    });
+
+    it('should report 100% when every check is up', () => {
+        const samples = [0, 10, 20, 30, 40, 50].map((m) => ({ timestamp: at(m), status: 'STABLE' as const }));
+        const stats = computeUptimeFromResults(samples, from, at(60));
+
+        expect(stats.uptimePercent).toBe(100);
+        expect(stats.totalDowntimeMs).toBe(0);
+        expect(stats.checks).toBe(6);
+    });
+
+    it('should count WARNING as up', () => {
+        const samples = [
+            { timestamp: at(0), status: 'STABLE' as const },
+            { timestamp: at(30), status: 'WARNING' as const },
+        ];
+        expect(computeUptimeFromResults(samples, from, at(60)).uptimePercent).toBe(100);
+    });
+
+    it('should compute downtime, incidents, MTTR and MTBF', () => {
+        const samples = [
+            { timestamp: at(0), status: 'STABLE' as const },
+            { timestamp: at(10), status: 'DOWN' as const },
+            { timestamp: at(20), status: 'DOWN' as const },
+            { timestamp: at(30), status: 'STABLE' as const },
+            { timestamp: at(40), status: 'DOWN' as const },
+            { timestamp: at(50), status: 'STABLE' as const },
+        ];
+        const stats = computeUptimeFromResults(samples, from, at(60));
+
+        expect(stats.incidents).toBe(2);
+        expect(stats.totalDowntimeMs).toBe(30 * MINUTE);
+        expect(stats.uptimePercent).toBe(50);
+        expect(stats.mttrMs).toBe(15 * MINUTE);
+        expect(stats.mtbfMs).toBe(15 * MINUTE);
+    });
+
+    it('should use a sample before the window as the starting state', () => {
+        const samples = [
+            { timestamp: new Date(from.getTime() - 5 * MINUTE), status: 'DOWN' as const },
+            { timestamp: at(15), status: 'STABLE' as const },
+        ];
+        const stats = computeUptimeFromResults(samples, from, at(60));
+
+        expect(stats.totalDowntimeMs).toBe(15 * MINUTE);
+        expect(stats.checks).toBe(1);
+        // The outage started before the window
+        expect(stats.incidents).toBe(0);
+    });
+
+    it('should not count long gaps without data', () => {
+        const samples = [{ timestamp: at(0), status: 'STABLE' as const }];
+        const stats = computeUptimeFromResults(samples, from, at(5 * 60));
+
+        expect(stats.monitoredMs).toBe(HOUR);
+    });
+});
+
+describe('computeUptimeFromRollups', () => {
+    it('should estimate downtime from DOWN share and merge contiguous buckets', () => {
+        const buckets = [
+            { bucketStart: at(0), total: 60, down: 0 },
+            { bucketStart: at(60), total: 60, down: 30 },
+            { bucketStart: at(120), total: 60, down: 60 },
+            { bucketStart: at(180), total: 60, down: 0 },
+        ];
+        const stats = computeUptimeFromRollups(buckets, 'hour', from, at(240));
+
+        expect(stats.totalDowntimeMs).toBe(1.5 * HOUR);
+        expect(stats.incidents).toBe(1);
+        expect(stats.checks).toBe(240);
+        expect(stats.source).toBe('hour');
+    });
+
+    it('should count separated DOWN buckets as separate incidents', () => {
+        const buckets = [
+            { bucketStart: at(0), total: 60, down: 6 },
+            { bucketStart: at(60), total: 60, down: 0 },
+            { bucketStart: at(120), total: 60, down: 6 },
+        ];
+        expect(computeUptimeFromRollups(buckets, 'hour', from, at(180)).incidents).toBe(2);
+    });
+});
+
+describe('mergeUptimeStats', () => {
+    it('should aggregate totals across nodes', () => {
+        const a = computeUptimeFromResults([
+            { timestamp: at(0), status: 'DOWN' },
+            { timestamp: at(30), status: 'STABLE' },
+        ], from, at(60));
+        const b = computeUptimeFromResults([{ timestamp: at(0), status: 'STABLE' }], from, at(60));
+
+        const merged = mergeUptimeStats([a, b], from, at(60));
+
+        expect(merged.uptimePercent).toBe(75);
+        expect(merged.incidents).toBe(1);
+        expect(merged.totalDowntimeMs).toBe(30 * MINUTE);
+    });
+});
@@ -0,0 +1,218 @@
+/**
+ * Integration Tests for lib/notifications
+ *
+ * Runs every channel against local stubs:
+ * - HTTP stub server for webhook / Slack / Discord / Telegram payloads
+ * - nodemailer mocked for email delivery
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+const mockSendMail = jest.fn().mockResolvedValue({ messageId: 'stub' });
+jest.mock('nodemailer', () => ({
+    __esModule: true,
+    default: { createTransport: jest.fn(() => ({ sendMail: mockSendMail, close: jest.fn() })) },
+}));
+
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import nodemailer from 'nodemailer';
+import { notifyStatusChange, channelMatches, loadChannels } from '@/lib/notifications';
+import { formatMessage, renderTemplate } from '@/lib/notifications/templates';
+import { ChannelConfig, NotificationEvent } from '@/lib/notifications/types';
+
+const event: NotificationEvent = {
+    nodeId: '507f1f77bcf86cd799439011',
+    nodeName: 'Payment "API"',
+    url: 'https://api.example.com/health',
+    group: 'api',
+    oldStatus: 'STABLE',
+    newStatus: 'DOWN',
+    latency: 15000,
+    httpStatus: 503,
+    error: 'Service Unavailable',
+    timestamp: '2026-03-01T03:00:00.000Z',
+};
+
+interface CapturedRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+describe('Notifier', () => {
+    let httpServer: http.Server;
+    let httpBase: string;
+    let requests: CapturedRequest[];
+    let responseStatus: number;
+
+    beforeAll(async () => {
+        httpServer = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', (chunk) => (raw += chunk));
+            req.on('end', () => {
+                requests.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(raw || 'null') });
+                res.writeHead(responseStatus);
+                res.end(responseStatus < 300 ? 'ok' : 'rejected');
+            });
+        });
+        await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+        httpBase = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => httpServer.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        responseStatus = 200;
+        delete process.env.NOTIFICATION_CHANNELS;
+    });
+
+    it('should send generic webhook with templated JSON body', async () => {
+        const channels: ChannelConfig[] = [{
+            name: 'hook',
+            type: 'webhook',
+            url: `${httpBase}/hook`,
+            headers: { 'X-Secret': 'abc' },
+            bodyTemplate: '{"text": "{{nodeName}} is {{newStatus}}", "code": {{httpStatus}}}',
+        }];
+
+        const results = await notifyStatusChange(event, channels);
+
+        expect(results).toEqual([{ channel: 'hook', type: 'webhook', success: true }]);
+        expect(requests).toHaveLength(1);
+        expect(requests[0].headers['x-secret']).toBe('abc');
+        expect(requests[0].body).toEqual({ text: 'Payment "API" is DOWN', code: 503 });
+    });
+
+    it('should send the raw event when no template is configured', async () => {
+        await notifyStatusChange(event, [{ name: 'hook', type: 'webhook', url: `${httpBase}/hook` }]);
+        expect(requests[0].body).toEqual(event);
+    });
+
+    it('should send Slack, Discord and Telegram compatible payloads', async () => {
+        const channels: ChannelConfig[] = [
+            { name: 'slack', type: 'slack', webhookUrl: `${httpBase}/slack` },
+            { name: 'discord', type: 'discord', webhookUrl: `${httpBase}/discord` },
+            { name: 'tg', type: 'telegram', botToken: 'T0KEN', chatId: '42', apiBaseUrl: httpBase },
+        ];
+
+        const results = await notifyStatusChange(event, channels);
+
+        expect(results.every((r) => r.success)).toBe(true);
+        const byPath = Object.fromEntries(requests.map((r) => [r.url, r.body]));
+
+        expect(byPath['/slack'].text).toContain('Payment "API" is DOWN');
+        expect(byPath['/slack'].attachments[0].text).toContain('Service Unavailable');
+        expect(byPath['/discord'].embeds[0].color).toBe(0xff4842);
+        expect(byPath['/botT0KEN/sendMessage']).toEqual(expect.objectContaining({ chat_id: '42' }));
+    });
+
+    it('should hand email to nodemailer and require TLS for credentials', async () => {
+        const results = await notifyStatusChange(event, [{
+            name: 'mail',
+            type: 'email',
+            host: 'smtp.example.com',
+            username: 'user',
+            password: 'pass',
+            from: 'Monitoring <monitor@example.com>',
+            to: ['oncall@example.com'],
+        }]);
+
+        expect(results[0]).toEqual({ channel: 'mail', type: 'email', success: true });
+        expect(nodemailer.createTransport).toHaveBeenCalledWith(expect.objectContaining({
+            host: 'smtp.example.com',
+            secure: false,
+            requireTLS: true,
+            auth: { user: 'user', pass: 'pass' },
+        }));
+        expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({
+            to: ['oncall@example.com'],
+            text: expect.stringContaining('Status: STABLE → DOWN'),
+        }));
+    });
+
+    it('should report failures per channel without throwing', async () => {
+        responseStatus = 500;
+
+        const results = await notifyStatusChange(event, [
+            { name: 'broken', type: 'slack', webhookUrl: `${httpBase}/slack` },
+        ]);
+
+        expect(results[0].success).toBe(false);
+        expect(results[0].error).toContain('HTTP 500');
+    });
+
+    it('should route channels by group and status', async () => {
+        const channels: ChannelConfig[] = [
+            { name: 'db-only', type: 'slack', webhookUrl: `${httpBase}/db`, groups: ['database'] },
+            { name: 'api-only', type: 'slack', webhookUrl: `${httpBase}/api`, groups: ['api'] },
+            { name: 'recovery-only', type: 'slack', webhookUrl: `${httpBase}/rec`, statuses: ['STABLE'] },
+            { name: 'disabled', type: 'slack', webhookUrl: `${httpBase}/off`, enabled: false },
+        ];
+
+        expect(channels.map((c) => channelMatches(c, event))).toEqual([false, true, false, false]);
+
+        await notifyStatusChange(event, channels);
+        expect(requests.map((r) => r.url)).toEqual(['/api']);
+    });
+
+    it('should load channels from NOTIFICATION_CHANNELS and skip unknown types', () => {
+        process.env.NOTIFICATION_CHANNELS = JSON.stringify([
+            { type: 'slack', webhookUrl: 'https://hooks.slack.com/x' },
+            { type: 'pager', url: 'https://example.com' },
+        ]);
+
+        const channels = loadChannels();
+
+        expect(channels).toHaveLength(1);
+        expect(channels[0].name).toBe('slack-1');
+    });
+
+    it('should cache the channel config between notifications', () => {
+        const existsSync = jest.spyOn(fs, 'existsSync');
+        const now = Date.now() + 10 * 60 * 1000;
+
+        try {
+            expect(loadChannels(now)).toEqual([]);
+            expect(loadChannels(now + 30 * 1000)).toEqual([]);
+            expect(existsSync).toHaveBeenCalledTimes(1);
+
+            // Reloaded after the TTL and when NOTIFICATION_CHANNELS changes
+            loadChannels(now + 61 * 1000);
+            expect(existsSync).toHaveBeenCalledTimes(2);
+            process.env.NOTIFICATION_CHANNELS = JSON.stringify([{ type: 'slack', webhookUrl: 'https://hooks.slack.com/x' }]);
+            expect(loadChannels(now + 62 * 1000)).toHaveLength(1);
+        } finally {
+            existsSync.mockRestore();
+        }
+    });
+});
+
+describe('renderTemplate', () => {
+    it('should escape values in JSON mode and blank missing fields', () => {
+        const rendered = renderTemplate('{"a": "{{nodeName}}", "b": "{{incidentId}}"}', event, { json: true });
+        expect(JSON.parse(rendered)).toEqual({ a: 'Payment "API"', b: '' });
+    });
+});
+
+describe('formatMessage', () => {
+    it('should list downstream nodes of a root cause', () => {
+        const message = formatMessage({ ...event, affectedNodes: ['Checkout', 'Shop Frontend'] });
+        expect(message).toContain('Dependents (2): Checkout, Shop Frontend');
+        expect(formatMessage(event)).not.toContain('Dependents');
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for lib/realtime/streamEvents.ts and /api/stream
+ *
+ * Tests:
+ * - Publish / subscribe / unsubscribe on the shared bus
+ * - Subscriber errors do not reach the publisher
+ * - Node status payload and text/event-stream framing
+ * - Stream route sends ready + published events and cleans up on abort
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { NextRequest } from 'next/server';
+import {
+    formatServerSentEvent,
+    getStreamSubscriberCount,
+    publishStreamEvent,
+    subscribeStreamEvents,
+    toNodeStatusUpdate,
+} from '@/lib/realtime/streamEvents';
+import { GET } from '@/app/api/stream/route';
+import { logger } from '@/lib/utils/logger';
+import { StreamEvent } from '@/types';
+
+const nodeUpdate: StreamEvent = {
+    type: 'node-updated',
+    node: {
+        id: 'abc',
+        status: 'DOWN',
+        latency: 0,
+        history: [120, 0],
+        lastChecked: '2026-01-01T00:00:00.000Z',
+        httpStatus: 503,
+        statusMessage: 'Service Unavailable',
+    },
+};
+
+describe('stream event bus', () => {
+    it('delivers events until unsubscribed', () => {
+        const listener = jest.fn();
+        const unsubscribe = subscribeStreamEvents(listener);
+
+        publishStreamEvent(nodeUpdate);
+        unsubscribe();
+        publishStreamEvent(nodeUpdate);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(nodeUpdate);
+        expect(getStreamSubscriberCount()).toBe(0);
+    });
+
+    it('logs subscriber errors instead of throwing', () => {
+        const unsubscribe = subscribeStreamEvents(() => {
+            throw new Error('broken client');
+        });
+
+        expect(() => publishStreamEvent(nodeUpdate)).not.toThrow();
+        expect(logger.error).toHaveBeenCalledWith('Failed to publish stream event', expect.any(Error), { type: 'node-updated' });
+        unsubscribe();
+    });
+});
+
+describe('toNodeStatusUpdate', () => {
+    it('serializes ids and dates', () => {
+        const update = toNodeStatusUpdate({
+            _id: { toString: () => 'abc' } as any,
+            status: 'STABLE',
+            latency: 85,
+            history: [90, 85],
+            lastChecked: new Date('2026-01-01T00:00:00Z'),
+            nextCheckAt: new Date('2026-01-01T00:01:00Z'),
+            httpStatus: 200,
+        });
+
+        expect(update).toEqual({
+            id: 'abc',
+            status: 'STABLE',
+            latency: 85,
+            history: [90, 85],
+            lastChecked: '2026-01-01T00:00:00.000Z',
+            nextCheckAt: '2026-01-01T00:01:00.000Z',
+            httpStatus: 200,
+            statusMessage: undefined,
+        });
+    });
+});
+
+describe('formatServerSentEvent', () => {
+    it('uses the type as event name and JSON as data', () => {
+        const text = formatServerSentEvent({ type: 'ready', scheduler: true });
+
+        expect(text).toBe('event: ready\ndata: {"type":"ready","scheduler":true}\n\n');
+    });
+});
+
+describe('GET /api/stream', () => {
+    it('streams ready and published events, then unsubscribes on abort', async () => {
+        const controller = new AbortController();
+        const response = await GET(new NextRequest('http://localhost/api/stream', { signal: controller.signal }));
+
+        expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+        expect(getStreamSubscriberCount()).toBe(1);
+
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let text = '';
+
+        publishStreamEvent(nodeUpdate);
+        while (!text.includes('event: node-updated')) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            text += decoder.decode(value);
+        }
+
+        expect(text).toContain('retry: ');
+        expect(text).toContain('event: ready');
+        expect(text).toContain('"id":"abc"');
+
+        controller.abort();
+        expect(getStreamSubscriberCount()).toBe(0);
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit Tests for lib/auth/roles.ts, lib/auth/password.ts and lib/auth/userCheck.ts
+ *
+ * Tests:
+ * - Role hierarchy
+ * - Route access policy (public, viewer, operator, admin)
+ * - Dev-only auth bypass
+ * - Password hashing and verification
+ * - Session re-check (throttle, disabled users, signed lookups)
+ *
+ * @jest-environment node
+ */
+
+import { hasRole, isAuthDisabled, isUserRole, requiredAccess } from '@/lib/auth/roles';
+import { hashPassword, validatePassword, verifyPassword } from '@/lib/auth/password';
+import { refreshTokenUser, signUserCheck, USER_RECHECK_MS, verifyUserCheck } from '@/lib/auth/userCheck';
+
+describe('hasRole', () => {
+    it('ranks viewer < operator < admin', () => {
+        expect(hasRole('admin', 'operator')).toBe(true);
+        expect(hasRole('operator', 'operator')).toBe(true);
+        expect(hasRole('operator', 'admin')).toBe(false);
+        expect(hasRole('viewer', 'operator')).toBe(false);
+    });
+
+    it('rejects missing or unknown roles', () => {
+        expect(hasRole(undefined, 'viewer')).toBe(false);
+        expect(hasRole('root' as any, 'viewer')).toBe(false);
+        expect(isUserRole('operator')).toBe(true);
+        expect(isUserRole('root')).toBe(false);
+    });
+});
+
+describe('requiredAccess', () => {
+    it('leaves login, auth, health and cron public', () => {
+        expect(requiredAccess('/login')).toBe('public');
+        expect(requiredAccess('/api/auth/callback/credentials', 'POST')).toBe('public');
+        expect(requiredAccess('/api/health')).toBe('public');
+        expect(requiredAccess('/api/cron/check')).toBe('public');
+    });
+
+    it('requires viewer for pages and API reads', () => {
+        expect(requiredAccess('/dashboard')).toBe('viewer');
+        expect(requiredAccess('/api/nodes')).toBe('viewer');
+        expect(requiredAccess('/api/nodes/abc/history', 'GET')).toBe('viewer');
+    });
+
+    it('requires operator for checks and acks', () => {
+        expect(requiredAccess('/api/nodes/abc/check', 'POST')).toBe('operator');
+        expect(requiredAccess('/api/incidents/abc/ack', 'POST')).toBe('operator');
+    });
+
+    it('requires admin for sheet syncs, which can delete nodes', () => {
+        expect(requiredAccess('/api/google-sheets/sync', 'POST')).toBe('admin');
+        expect(requiredAccess('/api/google-sheets/sources/abc/sync', 'POST')).toBe('admin');
+    });
+
+    it('leaves only the signed session re-check lookup public', () => {
+        expect(requiredAccess('/api/internal/users/abc')).toBe('public');
+        expect(requiredAccess('/api/internal/users/abc', 'DELETE')).toBe('admin');
+        expect(requiredAccess('/api/internal/other')).toBe('viewer');
+    });
+
+    it('requires admin for other writes, admin pages and users', () => {
+        expect(requiredAccess('/api/nodes', 'POST')).toBe('admin');
+        expect(requiredAccess('/api/nodes/abc', 'PUT')).toBe('admin');
+        expect(requiredAccess('/api/nodes/abc', 'DELETE')).toBe('admin');
+        expect(requiredAccess('/admin/urls')).toBe('admin');
+        expect(requiredAccess('/api/users')).toBe('admin');
+        expect(requiredAccess('/api/users/abc', 'PUT')).toBe('admin');
+    });
+
+    it('does not match lookalike paths', () => {
+        expect(requiredAccess('/administrator')).toBe('viewer');
+        expect(requiredAccess('/api/nodes/abc/check/extra', 'POST')).toBe('admin');
+    });
+});
+
+describe('isAuthDisabled', () => {
+    const env = { ...process.env };
+    afterEach(() => {
+        process.env = { ...env };
+    });
+
+    it('only allows the bypass outside production', () => {
+        process.env.AUTH_DISABLED = 'true';
+        (process.env as any).NODE_ENV = 'development';
+        expect(isAuthDisabled()).toBe(true);
+
+        (process.env as any).NODE_ENV = 'production';
+        expect(isAuthDisabled()).toBe(false);
+    });
+});
+
+describe('password hashing', () => {
+    it('verifies the original password only', async () => {
+        const stored = await hashPassword('correct horse');
+
+        expect(stored).toMatch(/^scrypt\$16384\$/);
+        await expect(verifyPassword('correct horse', stored)).resolves.toBe(true);
+        await expect(verifyPassword('wrong horse', stored)).resolves.toBe(false);
+    });
+
+    it('salts every hash', async () => {
+        expect(await hashPassword('same')).not.toBe(await hashPassword('same'));
+    });
+
+    it('rejects malformed stored hashes', async () => {
+        await expect(verifyPassword('x', '')).resolves.toBe(false);
+        await expect(verifyPassword('x', 'bcrypt$abc')).resolves.toBe(false);
+    });
+
+    it('enforces a minimum length', () => {
+        expect(validatePassword('short')).not.toBeNull();
+        expect(validatePassword('long enough')).toBeNull();
+        expect(validatePassword(undefined)).not.toBeNull();
+    });
+});
+
+describe('session re-check', () => {
+    const env = { ...process.env };
+    const now = 1_800_000_000_000;
+
+    beforeEach(() => {
+        process.env.AUTH_SECRET = 'test-secret-test-secret-test-secret';
+    });
+
+    afterEach(() => {
+        process.env = { ...env };
+    });
+
+    it('trusts a recently checked token without loading the user', async () => {
+        const loadRole = jest.fn();
+        const token = { sub: 'u1', role: 'admin' as const, checkedAt: now - 1000 };
+
+        await expect(refreshTokenUser(token, loadRole, now)).resolves.toBe(token);
+        expect(loadRole).not.toHaveBeenCalled();
+    });
+
+    it('applies the current role once the check is due', async () => {
+        const loadRole = jest.fn().mockResolvedValue('viewer');
+        const token = { sub: 'u1', role: 'admin' as const, checkedAt: now - USER_RECHECK_MS };
+
+        await expect(refreshTokenUser(token, loadRole, now)).resolves.toEqual({ sub: 'u1', role: 'viewer', checkedAt: now });
+        expect(loadRole).toHaveBeenCalledWith('u1');
+    });
+
+    it('ends the session of disabled or deleted users', async () => {
+        const token = { sub: 'u1', role: 'admin' as const };
+
+        await expect(refreshTokenUser(token, jest.fn().mockResolvedValue(null), now)).resolves.toBeNull();
+        await expect(refreshTokenUser({ role: 'admin' }, jest.fn(), now)).resolves.toBeNull();
+    });
+
+    it('keeps the session while the user store cannot be reached', async () => {
+        const token = { sub: 'u1', role: 'admin' as const, checkedAt: now - USER_RECHECK_MS };
+
+        await expect(refreshTokenUser(token, jest.fn().mockResolvedValue(undefined), now)).resolves.toBe(token);
+    });
+
+    it('signs lookups for one user and for a short time only', async () => {
+        const signature = await signUserCheck('u1', now);
+
+        await expect(verifyUserCheck('u1', signature, now + 1000)).resolves.toBe(true);
+        await expect(verifyUserCheck('u2', signature, now + 1000)).resolves.toBe(false);
+        await expect(verifyUserCheck('u1', signature, now + 5 * 60 * 1000)).resolves.toBe(false);
+        await expect(verifyUserCheck('u1', `${now}.deadbeef`, now)).resolves.toBe(false);
+        await expect(verifyUserCheck('u1', null, now)).resolves.toBe(false);
+    });
+
+    it('refuses lookups without an auth secret', async () => {
+        const signature = await signUserCheck('u1', now);
+        delete process.env.AUTH_SECRET;
+        delete process.env.NEXTAUTH_SECRET;
+
+        await expect(verifyUserCheck('u1', signature, now)).resolves.toBe(false);
+        await expect(signUserCheck('u1', now)).resolves.toBeNull();
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit Tests for lib/security/credentials.ts
+ *
+ * Tests:
+ * - Master key parsing
+ * - Envelope encryption round trip and legacy plaintext pass-through
+ * - Key rotation (re-wrapping data keys)
+ * - Keyed fingerprints
+ * - Failure on unknown keys and tampered values
+ * - Redacted API shape
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import crypto from 'crypto';
+import {
+    CredentialEncryptionError,
+    decryptAuthConfig,
+    decryptSecret,
+    encryptAuthSecrets,
+    encryptSecret,
+    fingerprintSecret,
+    isEncrypted,
+    parseMasterKeys,
+    redactAuthConfig,
+    rewrapSecret,
+} from '@/lib/security/credentials';
+
+const keyV1 = crypto.randomBytes(32).toString('base64');
+const keyV2 = crypto.randomBytes(32).toString('hex');
+
+describe('parseMasterKeys', () => {
+    it('should parse ids and base64/hex keys with the active key first', () => {
+        const keys = parseMasterKeys(`v2:${keyV2},v1:${keyV1}`);
+        expect(keys.map((k) => k.id)).toEqual(['v2', 'v1']);
+        expect(keys.every((k) => k.key.length === 32)).toBe(true);
+    });
+
+    it('should use a default id for a bare key', () => {
+        expect(parseMasterKeys(keyV1)[0].id).toBe('default');
+    });
+
+    it('should return no keys when unset and reject short keys', () => {
+        expect(parseMasterKeys('')).toEqual([]);
+        expect(() => parseMasterKeys('v1:c2hvcnQ=')).toThrow(CredentialEncryptionError);
+    });
+});
+
+describe('encryptSecret / decryptSecret', () => {
+    const keys = parseMasterKeys(`v1:${keyV1}`);
+
+    it('should round trip with a fresh data key per value', () => {
+        const a = encryptSecret('s3cret', keys);
+        const b = encryptSecret('s3cret', keys);
+
+        expect(isEncrypted(a)).toBe(true);
+        expect(a).toMatch(/^enc:v1:v1:/);
+        expect(a).not.toBe(b);
+        expect(a).not.toContain('s3cret');
+        expect(decryptSecret(a, keys)).toBe('s3cret');
+    });
+
+    it('should not encrypt twice', () => {
+        const encrypted = encryptSecret('s3cret', keys);
+        expect(encryptSecret(encrypted, keys)).toBe(encrypted);
+    });
+
+    it('should pass legacy plaintext through', () => {
+        expect(decryptSecret('plain', keys)).toBe('plain');
+    });
+
+    it('should store plaintext when no key is configured', () => {
+        expect(encryptSecret('plain', [])).toBe('plain');
+    });
+
+    it('should fail for an unknown master key', () => {
+        const encrypted = encryptSecret('s3cret', keys);
+        expect(() => decryptSecret(encrypted, parseMasterKeys(`v9:${keyV2}`))).toThrow(/not configured/);
+    });
+
+    it('should fail for a tampered ciphertext', () => {
+        const encrypted = encryptSecret('s3cret', keys);
+        const parts = encrypted.split(':');
+        const data = Buffer.from(parts[4], 'base64');
+        data[data.length - 1] ^= 0xff;
+        parts[4] = data.toString('base64');
+
+        expect(() => decryptSecret(parts.join(':'), keys)).toThrow(/corrupted/);
+    });
+});
+
+describe('rewrapSecret', () => {
+    it('should move a secret to the active key without changing the ciphertext', () => {
+        const oldKeys = parseMasterKeys(`v1:${keyV1}`);
+        const rotatedKeys = parseMasterKeys(`v2:${keyV2},v1:${keyV1}`);
+
+        const encrypted = encryptSecret('s3cret', oldKeys);
+        const rewrapped = rewrapSecret(encrypted, rotatedKeys);
+
+        expect(rewrapped).toMatch(/^enc:v1:v2:/);
+        expect(rewrapped.split(':')[4]).toBe(encrypted.split(':')[4]);
+        expect(decryptSecret(rewrapped, parseMasterKeys(`v2:${keyV2}`))).toBe('s3cret');
+        expect(rewrapSecret(rewrapped, rotatedKeys)).toBe(rewrapped);
+    });
+
+    it('should encrypt plaintext values', () => {
+        const keys = parseMasterKeys(`v1:${keyV1}`);
+        expect(isEncrypted(rewrapSecret('plain', keys))).toBe(true);
+    });
+});
+
+describe('fingerprintSecret', () => {
+    it('should be stable per key and differ between keys and values', () => {
+        const keys = parseMasterKeys(`v1:${keyV1}`);
+        const fingerprint = fingerprintSecret('s3cret', keys);
+
+        expect(fingerprint).toMatch(/^v1:[a-f0-9]{64}$/);
+        expect(fingerprintSecret('s3cret', keys)).toBe(fingerprint);
+        expect(fingerprintSecret('other', keys)).not.toBe(fingerprint);
+        expect(fingerprintSecret('s3cret', parseMasterKeys(`v1:${keyV2}`))).not.toBe(fingerprint);
+    });
+
+    it('should require a master key', () => {
+        expect(() => fingerprintSecret('s3cret', [])).toThrow(CredentialEncryptionError);
+    });
+});
+
+describe('authConfig helpers', () => {
+    const original = process.env.CREDENTIAL_ENCRYPTION_KEYS;
+
+    beforeEach(() => {
+        process.env.CREDENTIAL_ENCRYPTION_KEYS = `v1:${keyV1}`;
+    });
+
+    afterEach(() => {
+        if (original === undefined) delete process.env.CREDENTIAL_ENCRYPTION_KEYS;
+        else process.env.CREDENTIAL_ENCRYPTION_KEYS = original;
+    });
+
+    it('should encrypt only the secret fields', () => {
+        const config = encryptAuthSecrets({ type: 'BASIC', username: 'admin', password: 'pw', token: '' } as any);
+
+        expect(config!.username).toBe('admin');
+        expect(isEncrypted(config!.password)).toBe(true);
+        expect(config!.token).toBe('');
+    });
+
+    it('should decrypt into a copy for the health check', () => {
+        const stored = encryptAuthSecrets({ type: 'BEARER', token: 'tok' } as any)!;
+        const decrypted = decryptAuthConfig(stored);
+
+        expect(decrypted.token).toBe('tok');
+        expect(isEncrypted(stored.token)).toBe(true);
+    });
+
+    it('should redact secrets to presence flags', () => {
+        const redacted = redactAuthConfig({ type: 'API_KEY', headerName: 'X-Key', headerValue: 'enc:v1:...' });
+
+        expect(redacted).toEqual({
+            type: 'API_KEY',
+            headerName: 'X-Key',
+            hasPassword: false,
+            hasToken: false,
+            hasHeaderValue: true,
+        });
+        expect(redactAuthConfig(undefined)).toBeUndefined();
+    });
+});
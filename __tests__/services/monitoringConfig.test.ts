@@ -0,0 +1,379 @@
+/**
+ * Unit Tests for lib/services/monitoringConfig.ts
+ *
+ * Tests:
+ * - File parsing and validation (unknown fields, duplicates, inline secrets)
+ * - Plan against the DB: creates, updates, claims, prune, group policies
+ * - Plan errors: sheet nodes, unknown / circular dependencies, missing env vars
+ * - Export of live nodes with secret references, round trip without changes
+ * - Apply refuses plans with errors and links dependencies of new nodes
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+jest.mock('@/lib/db/models/Node');
+jest.mock('@/lib/db/models/GroupPolicy');
+jest.mock('@/lib/db/models/AuditEvent', () => ({
+    __esModule: true,
+    default: { create: jest.fn() },
+}));
+jest.mock('@/lib/auth/session', () => ({
+    getSessionUser: jest.fn(),
+}));
+jest.mock('@/lib/audit/auditLog', () => ({
+    ...jest.requireActual('@/lib/audit/auditLog'),
+    recordAuditEvent: jest.fn(),
+}));
+
+import { Types } from 'mongoose';
+import NodeModel from '@/lib/db/models/Node';
+import { recordAuditEvent } from '@/lib/audit/auditLog';
+import {
+    applyMonitoringConfig,
+    ConfigFormatError,
+    ConfigState,
+    ConfigStateNode,
+    parseMonitoringConfig,
+    planMonitoringConfig,
+    secretEnvName,
+    stringifyMonitoringConfig,
+    toMonitoringConfig,
+    validateMonitoringConfig,
+} from '@/lib/services/monitoringConfig';
+
+const id = () => new Types.ObjectId() as any;
+
+function node(overrides: Partial<ConfigStateNode>): ConfigStateNode {
+    return {
+        _id: id(),
+        name: 'Node',
+        url: 'https://node.example.com',
+        group: 'website',
+        dependencies: [],
+        source: 'config',
+        ...overrides,
+    };
+}
+
+function validated(raw: unknown) {
+    const { config, errors } = validateMonitoringConfig(raw);
+    expect(errors).toEqual([]);
+    return config;
+}
+
+const state = (nodes: ConfigStateNode[], groupPolicies: ConfigState['groupPolicies'] = []): ConfigState => ({ nodes, groupPolicies });
+
+describe('parseMonitoringConfig', () => {
+    it('should read YAML and JSON', () => {
+        expect(parseMonitoringConfig('version: 1\nnodes:\n  - name: API\n    url: https://api.example.com\n')).toEqual({
+            version: 1,
+            nodes: [{ name: 'API', url: 'https://api.example.com' }],
+        });
+        expect(parseMonitoringConfig('{"version": 1, "nodes": []}')).toEqual({ version: 1, nodes: [] });
+    });
+
+    it('should throw ConfigFormatError for invalid files', () => {
+        expect(() => parseMonitoringConfig('nodes: [\n')).toThrow(ConfigFormatError);
+    });
+});
+
+describe('validateMonitoringConfig', () => {
+    it('should accept a complete node and normalize it', () => {
+        const config = validated({
+            version: 1,
+            groups: { api: { checkPolicy: { warningLatencyMs: 800 } } },
+            nodes: [{
+                name: ' Payments API ',
+                url: 'https://pay.example.com/health',
+                group: 'api',
+                tags: ['Payments', 'prod'],
+                dependsOn: ['Core DB'],
+                statusPolicy: { failureThreshold: 3 },
+                auth: { type: 'BEARER', token: { env: 'HEARTBEAT_SECRET_PAYMENTS_API_TOKEN' } },
+            }],
+        });
+
+        expect(config.groups).toEqual({ api: { checkPolicy: { warningLatencyMs: 800 } } });
+        expect(config.nodes[0]).toMatchObject({ name: 'Payments API', tags: ['payments', 'prod'], dependsOn: ['Core DB'] });
+    });
+
+    it('should reject inline secrets', () => {
+        const { config, errors } = validateMonitoringConfig({
+            version: 1,
+            nodes: [{ name: 'API', url: 'https://api.example.com', auth: { type: 'BASIC', username: 'monitor', password: 'hunter2' } }],
+        });
+
+        expect(config.nodes).toEqual([]);
+        expect(errors).toEqual([{ path: 'nodes[0].auth.password', message: expect.stringMatching(/\{ env: NAME \}/) }]);
+    });
+
+    it('should report unknown fields, bad values and duplicate names', () => {
+        const { config, errors } = validateMonitoringConfig({
+            version: 2,
+            extra: true,
+            nodes: [
+                { name: 'API', url: 'https://api.example.com', interval: 30 },
+                { name: 'Web', url: 'not a url', group: 'printer' },
+                { name: 'DB', url: 'https://db.example.com', auth: { type: 'BEARER', token: { env: 'bad-name' } } },
+                { name: 'Cache', url: 'https://cache.example.com' },
+                { name: 'cache', url: 'https://cache2.example.com' },
+            ],
+        });
+
+        expect(config.nodes.map((configNode) => configNode.name)).toEqual(['Cache']);
+        expect(errors.map((error) => error.path)).toEqual([
+            'extra',
+            'version',
+            'nodes[0].interval',
+            'nodes[1].url',
+            'nodes[1].group',
+            'nodes[2].auth.token',
+            'nodes[4].name',
+        ]);
+    });
+});
+
+describe('planMonitoringConfig', () => {
+    it('should create, update and leave unchanged nodes matched by name', () => {
+        const db = node({ name: 'Core DB', url: 'https://db.example.com' });
+        const api = node({ name: 'API', url: 'https://api.example.com', tags: ['old'], owner: 'team-a', checkIntervalSeconds: 60 });
+
+        const { plan, actions } = planMonitoringConfig(validated({
+            version: 1,
+            nodes: [
+                { name: 'core db', url: 'https://db2.example.com' },
+                { name: 'API', url: 'https://api.example.com', group: 'api', tags: ['payments'], dependsOn: ['Core DB', 'Web'] },
+                { name: 'Web', url: 'https://web.example.com' },
+            ],
+        }), state([db, api]));
+
+        expect(plan.errors).toEqual([]);
+        expect(plan.creates).toEqual([{ name: 'Web', url: 'https://web.example.com', group: 'website' }]);
+        expect(plan.unchanged).toBe(0);
+        expect(plan.updates.map((update) => update.name)).toEqual(['Core DB', 'API']);
+        // Fields left out of the file are cleared
+        expect(plan.updates[1].changes).toEqual([
+            { field: 'checkIntervalSeconds', before: 60, after: null },
+            { field: 'dependencies', before: null, after: ['core db', 'Web'] },
+            { field: 'group', before: 'website', after: 'api' },
+            { field: 'owner', before: 'team-a', after: null },
+            { field: 'tags', before: ['old'], after: ['payments'] },
+        ]);
+        // Matched case-insensitively, the file renames it
+        expect(actions.updates[0].changes).toEqual([
+            { field: 'name', before: 'Core DB', after: 'core db' },
+            { field: 'url', before: 'https://db.example.com', after: 'https://db2.example.com' },
+        ]);
+    });
+
+    it('should claim unchanged manual nodes and refuse sheet nodes', () => {
+        const manual = node({ name: 'Manual', source: 'manual' });
+        const sheet = node({ name: 'Sheet', source: 'google_sheets' });
+
+        const { plan, actions } = planMonitoringConfig(validated({
+            version: 1,
+            nodes: [{ name: 'Manual', url: manual.url }, { name: 'Sheet', url: sheet.url }],
+        }), state([manual, sheet]));
+
+        expect(plan.unchanged).toBe(1);
+        expect(actions.claims).toEqual([manual]);
+        expect(plan.errors).toEqual([{ path: 'nodes[1].name', message: 'Node is managed by the Google Sheets sync' }]);
+    });
+
+    it('should report unknown, self and circular dependencies', () => {
+        const db = node({ name: 'DB' });
+        const api = node({ name: 'API', dependencies: [db._id] });
+
+        const { plan } = planMonitoringConfig(validated({
+            version: 1,
+            nodes: [
+                { name: 'DB', url: db.url, dependsOn: ['API'] },
+                { name: 'Web', url: 'https://web.example.com', dependsOn: ['Web', 'Missing'] },
+            ],
+        }), state([db, api]));
+
+        expect(plan.errors).toEqual([
+            { path: 'nodes[1].dependsOn', message: 'Unknown node: Missing' },
+            { path: 'nodes[1].dependsOn', message: 'A node cannot depend on itself' },
+            { path: 'nodes[0].dependsOn', message: 'Circular dependency: DB → API → DB' },
+            { path: 'nodes[1].dependsOn', message: 'Circular dependency: Web → Web' },
+        ]);
+    });
+
+    it('should resolve secrets from the environment and redact them in changes', () => {
+        const api = node({ name: 'API', authConfig: { type: 'BEARER', token: 'old-token' } });
+        const config = validated({
+            version: 1,
+            nodes: [{ name: 'API', url: api.url, auth: { type: 'BEARER', token: { env: 'HEARTBEAT_SECRET_API_TOKEN' } } }],
+        });
+
+        const missing = planMonitoringConfig(config, state([api]), { env: {} });
+        expect(missing.plan.errors).toEqual([{ path: 'nodes[0].auth.token', message: 'Environment variable HEARTBEAT_SECRET_API_TOKEN is not set' }]);
+
+        const same = planMonitoringConfig(config, state([api]), { env: { HEARTBEAT_SECRET_API_TOKEN: 'old-token' } });
+        expect(same.plan.unchanged).toBe(1);
+
+        const rotated = planMonitoringConfig(config, state([api]), { env: { HEARTBEAT_SECRET_API_TOKEN: 'new-token' } });
+        expect(rotated.plan.updates[0].changes).toEqual([{ field: 'authConfig.token', before: '[redacted]', after: '[redacted]' }]);
+        expect(rotated.actions.updates[0].state.authConfig).toEqual({ type: 'BEARER', token: 'new-token' });
+    });
+
+    it('should refuse environment variables without the secret prefix, set or not', () => {
+        const raw = (env: string) => ({
+            version: 1,
+            nodes: [{ name: 'API', url: 'https://api.example.com', auth: { type: 'BEARER', token: { env } } }],
+        });
+        const message = 'Environment variable references must start with HEARTBEAT_SECRET_';
+
+        for (const name of ['CREDENTIAL_ENCRYPTION_KEYS', 'NOT_SET_ANYWHERE']) {
+            const { config, errors } = validateMonitoringConfig(raw(name));
+            const { plan, actions } = planMonitoringConfig(config, state([]), {
+                errors,
+                env: { CREDENTIAL_ENCRYPTION_KEYS: 'v1:master-key' },
+            });
+
+            expect(plan.errors).toEqual([{ path: 'nodes[0].auth.token', message }]);
+            expect(JSON.stringify(actions)).not.toContain('master-key');
+        }
+    });
+
+    it('should prune only config nodes and group policies missing from the file', () => {
+        const kept = node({ name: 'Kept' });
+        const removed = node({ name: 'Removed' });
+        const manual = node({ name: 'Manual', source: 'manual' });
+        const policies = [{ group: 'api' as const, checkPolicy: { warningLatencyMs: 500 } }, { group: 'video' as const, checkPolicy: { method: 'GET' as const } }];
+        const config = validated({
+            version: 1,
+            groups: { api: { checkPolicy: { warningLatencyMs: 800 } } },
+            nodes: [{ name: 'Kept', url: kept.url }],
+        });
+
+        const { plan } = planMonitoringConfig(config, state([kept, removed, manual], policies), { prune: true });
+
+        expect(plan.deletes).toEqual([{ nodeId: removed._id.toString(), name: 'Removed', url: removed.url }]);
+        expect(plan.groupUpdates).toEqual([{ group: 'api', changes: [{ field: 'checkPolicy.warningLatencyMs', before: 500, after: 800 }] }]);
+        expect(plan.groupDeletes).toEqual([{ group: 'video' }]);
+
+        const withoutPrune = planMonitoringConfig(config, state([kept, removed, manual], policies)).plan;
+        expect(withoutPrune.deletes).toEqual([]);
+        expect(withoutPrune.groupDeletes).toEqual([]);
+    });
+
+    it('should not prune nodes that other nodes still depend on', () => {
+        const removed = node({ name: 'Removed' });
+        const manual = node({ name: 'Manual', source: 'manual', dependencies: [removed._id] });
+
+        const { plan } = planMonitoringConfig(validated({ version: 1, nodes: [] }), state([removed, manual]), { prune: true });
+
+        expect(plan.errors).toEqual([{ path: 'nodes', message: 'Manual depends on removed, which would be pruned' }]);
+    });
+});
+
+describe('toMonitoringConfig', () => {
+    const db = node({ name: 'Core DB', url: 'https://db.example.com', group: 'database', source: 'manual' });
+    const api = node({
+        name: 'Payments API',
+        url: 'https://pay.example.com',
+        group: 'api',
+        tags: ['payments'],
+        dependencies: [db._id],
+        statusPolicy: { failureThreshold: 3 },
+        checkPolicy: {},
+        authConfig: { type: 'BROWSER_LOGIN', loginType: 'page', loginUrl: 'https://pay.example.com/login', username: 'monitor', password: 's3cr3t-value' },
+    });
+    const sheet = node({ name: 'Sheet', source: 'google_sheets' });
+    const policies = [{ group: 'api' as const, checkPolicy: { warningLatencyMs: 800 } }];
+
+    it('should export nodes with secret references and without sheet nodes', () => {
+        const config = toMonitoringConfig([api, sheet, db], policies);
+
+        expect(config).toEqual({
+            version: 1,
+            groups: { api: { checkPolicy: { warningLatencyMs: 800 } } },
+            nodes: [
+                { name: 'Core DB', url: 'https://db.example.com', group: 'database' },
+                {
+                    name: 'Payments API',
+                    url: 'https://pay.example.com',
+                    group: 'api',
+                    tags: ['payments'],
+                    dependsOn: ['Core DB'],
+                    statusPolicy: { failureThreshold: 3 },
+                    auth: {
+                        type: 'BROWSER_LOGIN',
+                        loginUrl: 'https://pay.example.com/login',
+                        username: { env: 'HEARTBEAT_SECRET_PAYMENTS_API_USERNAME' },
+                        password: { env: 'HEARTBEAT_SECRET_PAYMENTS_API_PASSWORD' },
+                    },
+                },
+            ],
+        });
+        expect(stringifyMonitoringConfig(config)).not.toContain('s3cr3t-value');
+        expect(secretEnvName('3rd-party hook', 'headerValue')).toBe('HEARTBEAT_SECRET_3RD_PARTY_HOOK_HEADER_VALUE');
+    });
+
+    it('should plan no changes when the export is applied with its secrets set', () => {
+        const text = stringifyMonitoringConfig(toMonitoringConfig([api, db], policies));
+        const { config, errors } = validateMonitoringConfig(parseMonitoringConfig(text));
+
+        const { plan, actions } = planMonitoringConfig(config, state([api, db], policies), {
+            errors,
+            env: { HEARTBEAT_SECRET_PAYMENTS_API_USERNAME: 'monitor', HEARTBEAT_SECRET_PAYMENTS_API_PASSWORD: 's3cr3t-value' },
+        });
+
+        expect(plan).toMatchObject({ creates: [], updates: [], groupUpdates: [], unchanged: 2, errors: [] });
+        expect(actions.claims).toEqual([db]);
+    });
+});
+
+describe('applyMonitoringConfig', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const context = { actor: 'deploy', source: 'config' as const };
+
+    it('should refuse a plan with errors', async () => {
+        const { plan, actions } = planMonitoringConfig(validated({
+            version: 1,
+            nodes: [{ name: 'API', url: 'https://api.example.com', dependsOn: ['Missing'] }],
+        }), state([]));
+
+        await expect(applyMonitoringConfig(plan, actions, context)).rejects.toThrow('Configuration plan has errors');
+        expect(NodeModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should create config nodes and link dependencies once all exist', async () => {
+        const dbId = id();
+        const apiId = id();
+        (NodeModel.create as jest.Mock).mockImplementation(async (data) => ({ ...data, _id: data.name === 'DB' ? dbId : apiId }));
+        (NodeModel.find as jest.Mock).mockReturnValue({
+            select: () => ({ lean: jest.fn().mockResolvedValue([{ _id: dbId, name: 'DB' }, { _id: apiId, name: 'API' }]) }),
+        });
+        (NodeModel.updateOne as jest.Mock).mockResolvedValue({});
+
+        const { plan, actions } = planMonitoringConfig(validated({
+            version: 1,
+            nodes: [
+                { name: 'API', url: 'https://api.example.com', dependsOn: ['DB'] },
+                { name: 'DB', url: 'https://db.example.com' },
+            ],
+        }), state([]));
+
+        await expect(applyMonitoringConfig(plan, actions, context)).resolves.toMatchObject({ created: 2, errors: [] });
+
+        expect((NodeModel.create as jest.Mock).mock.calls[0][0]).toMatchObject({ name: 'API', source: 'config', status: 'FRESH', dependencies: [] });
+        expect(NodeModel.updateOne).toHaveBeenCalledWith({ _id: apiId }, { dependencies: [dbId] });
+        expect(recordAuditEvent).toHaveBeenCalledTimes(2);
+        expect((recordAuditEvent as jest.Mock).mock.calls[0][0]).toMatchObject({ actor: 'deploy', source: 'config', action: 'node.create', targetName: 'API' });
+    });
+});
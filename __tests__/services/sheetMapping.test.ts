@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for lib/services/sheetMapping.ts
+ *
+ * Tests:
+ * - Mapping validation and GOOGLE_SHEET_COLUMNS parsing
+ * - Column resolution by header name or column letter
+ * - Row parsing into node fields (group, owner, auth type, interval, tags, dependencies)
+ * - Default group for rows without one
+ * - Per-row error reporting with sheet row numbers
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/db/models/SheetsConfig');
+
+import {
+    columnIndexToLetter,
+    columnLetterToIndex,
+    DEFAULT_SHEET_COLUMN_MAPPING,
+    parseEnvColumnMapping,
+    parseSheetRows,
+    resolveColumns,
+    SheetMappingError,
+    splitListCell,
+    validateColumnMapping,
+} from '@/lib/services/sheetMapping';
+
+describe('validateColumnMapping', () => {
+    it('should accept known fields mapped to distinct columns', () => {
+        expect(validateColumnMapping({ name: 'Nama', url: 'URL', group: 'C' })).toBeNull();
+    });
+
+    it('should reject unknown fields, missing url and shared columns', () => {
+        expect(validateColumnMapping({ url: 'URL', color: 'D' })).toContain('Unknown field');
+        expect(validateColumnMapping({ name: 'Nama' })).toContain('url');
+        expect(validateColumnMapping({ url: 'URL', tags: 'url' })).toContain('same column');
+        expect(validateColumnMapping({ url: '' })).toContain('header name or column letter');
+        expect(validateColumnMapping(['url'])).toContain('object');
+    });
+});
+
+describe('parseEnvColumnMapping', () => {
+    it('should return null when unset and parse JSON mappings', () => {
+        expect(parseEnvColumnMapping(undefined)).toBeNull();
+        expect(parseEnvColumnMapping('{"url":"Link"}')).toEqual({ url: 'Link' });
+    });
+
+    it('should throw SheetMappingError on malformed values', () => {
+        expect(() => parseEnvColumnMapping('url=Link')).toThrow(SheetMappingError);
+        expect(() => parseEnvColumnMapping('{"name":"A"}')).toThrow(SheetMappingError);
+    });
+});
+
+describe('resolveColumns', () => {
+    const headers = ['Nama', 'URL', 'Grup', 'A'];
+
+    it('should resolve headers case-insensitively and fall back to column letters', () => {
+        expect(resolveColumns(headers, { name: 'nama', url: 'URL', owner: 'F' })).toEqual({ name: 0, url: 1, owner: 5 });
+    });
+
+    it('should prefer a matching header over a column letter', () => {
+        expect(resolveColumns(headers, { url: 'A' })).toEqual({ url: 3 });
+    });
+
+    it('should report mapped columns missing from the header', () => {
+        expect(() => resolveColumns(headers, { url: 'Link', tags: 'Labels' })).toThrow(/url \("Link"\), tags \("Labels"\)/);
+    });
+
+    it('should convert column letters', () => {
+        expect(columnLetterToIndex('A')).toBe(0);
+        expect(columnLetterToIndex('Z')).toBe(25);
+        expect(columnLetterToIndex('AB')).toBe(27);
+        expect([0, 25, 26, 27, 701].map(columnIndexToLetter)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ']);
+    });
+});
+
+describe('parseSheetRows', () => {
+    const mapping = {
+        name: 'Name',
+        url: 'URL',
+        group: 'Group',
+        owner: 'Owner',
+        authType: 'Auth',
+        checkIntervalSeconds: 'Interval',
+        tags: 'Tags',
+        dependencies: 'Depends On',
+    };
+    const headers = ['Name', 'URL', 'Group', 'Owner', 'Auth', 'Interval', 'Tags', 'Depends On'];
+
+    it('should map columns onto node fields', () => {
+        const { rows, errors } = parseSheetRows([
+            headers,
+            ['Payments API', 'https://pay.example.com/health', 'API', 'Team Pay', 'bearer', '30', 'Payments, EU; payments', 'Core DB, Auth'],
+        ], mapping);
+
+        expect(errors).toEqual([]);
+        expect(rows).toEqual([{
+            sheetRow: 2,
+            name: 'Payments API',
+            url: 'https://pay.example.com/health',
+            group: 'api',
+            owner: 'Team Pay',
+            authType: 'BEARER',
+            checkIntervalSeconds: 30,
+            tags: ['payments', 'eu'],
+            dependencies: ['Core DB', 'Auth'],
+        }]);
+    });
+
+    it('should keep the legacy layout working with the default mapping', () => {
+        const { rows } = parseSheetRows([
+            ['Name', 'URL'],
+            ['', 'https://example.com'],
+        ], DEFAULT_SHEET_COLUMN_MAPPING);
+
+        expect(rows[0]).toMatchObject({ name: 'URL from Sheet Row 2', group: 'website', dependencies: [] });
+    });
+
+    it('should give rows without a group the default group', () => {
+        const { rows } = parseSheetRows([
+            headers,
+            ['Lobby', 'https://lobby.example.com'],
+            ['Stats', 'https://stats.example.com', 'API'],
+        ], mapping, 'game');
+
+        expect(rows.map((row) => row.group)).toEqual(['game', 'api']);
+    });
+
+    it('should report invalid values by sheet row and skip blank rows', () => {
+        const { rows, errors } = parseSheetRows([
+            headers,
+            ['Valid', 'https://ok.example.com'],
+            [],
+            ['Bad URL', 'ftp://files.example.com'],
+            ['Bad Group', 'https://x.example.com', 'printer', '', 'OAUTH', '5', 'has space', 'Bad Group'],
+        ], mapping);
+
+        expect(rows.map((row) => row.sheetRow)).toEqual([2]);
+        expect(errors.map((error) => [error.row, error.field])).toEqual([
+            [4, 'url'],
+            [5, 'group'],
+            [5, 'authType'],
+            [5, 'checkIntervalSeconds'],
+            [5, 'tags'],
+            [5, 'dependencies'],
+        ]);
+        expect(errors[0]).toMatchObject({ value: 'ftp://files.example.com', message: 'URL must use HTTP or HTTPS protocol' });
+    });
+});
+
+describe('splitListCell', () => {
+    it('should split on commas, semicolons and newlines', () => {
+        expect(splitListCell(' a, b;c\nb ,')).toEqual(['a', 'b', 'c']);
+    });
+});
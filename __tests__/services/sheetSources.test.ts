@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for lib/services/sheetSources.ts
+ *
+ * Tests:
+ * - Source payload validation and normalization
+ * - Next sync time, with exponential backoff after quota errors
+ * - Sync outcome (success, blocked, error) recorded on the source
+ * - Scheduled run claims due sources up to the per-run limit
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+jest.mock('@/lib/db/models/SheetSource');
+jest.mock('@/lib/db/models/SheetsConfig');
+jest.mock('@/lib/services/googleSheets', () => ({
+    GoogleSheetsService: jest.fn(),
+    isQuotaError: jest.requireActual('@/lib/services/googleSheets').isQuotaError,
+}));
+jest.mock('@/lib/services/sheetSync', () => ({
+    runSheetSync: jest.fn(),
+}));
+
+import SheetSourceModel from '@/lib/db/models/SheetSource';
+import { GoogleSheetsService } from '@/lib/services/googleSheets';
+import { runSheetSync } from '@/lib/services/sheetSync';
+import {
+    getNextSyncAt,
+    normalizeSheetSource,
+    runDueSheetSyncs,
+    runSheetSource,
+    SyncableSheetSource,
+    validateSheetSource,
+} from '@/lib/services/sheetSources';
+
+const mockRunSheetSync = runSheetSync as jest.Mock;
+
+const lean = (value: unknown) => ({ lean: jest.fn().mockResolvedValue(value) });
+
+const now = new Date('2026-06-01T08:00:00.000Z');
+
+const source: SyncableSheetSource = {
+    _id: 'source-1' as any,
+    name: 'Games',
+    spreadsheetId: '1_yFrfNIlwRXPHBsmWo_gBuYxudstnOQeBfyk',
+    sheetName: 'Live',
+    columnMapping: {},
+    defaultGroup: 'game',
+    intervalMinutes: 15,
+    deleteOrphaned: false,
+    consecutiveFailures: 0,
+};
+
+const plan = {
+    totalInSheet: 2,
+    totalInDatabase: 2,
+    adds: [],
+    updates: [],
+    deletes: [],
+    unchanged: 2,
+    manual: 0,
+    errors: [{ row: 3, field: 'url', message: 'Invalid URL' }],
+    deletePercent: 0,
+    maxDeletePercent: 20,
+    deleteBlocked: false,
+};
+
+describe('validateSheetSource', () => {
+    const valid = { name: 'Games', spreadsheetId: source.spreadsheetId, sheetName: 'Live' };
+
+    it('should accept a minimal source', () => {
+        expect(validateSheetSource(valid)).toBeNull();
+        expect(validateSheetSource({ ...valid, columnMapping: {}, intervalMinutes: 60, defaultGroup: 'api' })).toBeNull();
+    });
+
+    it('should reject bad ids, mappings, groups and intervals', () => {
+        expect(validateSheetSource({ ...valid, spreadsheetId: 'short' })).toMatch(/spreadsheetId/);
+        expect(validateSheetSource({ ...valid, sheetName: ' ' })).toBe('sheetName is required');
+        expect(validateSheetSource({ ...valid, columnMapping: { name: 'A' } })).toBe('columnMapping must map the url field');
+        expect(validateSheetSource({ ...valid, defaultGroup: 'printer' })).toMatch(/group/i);
+        expect(validateSheetSource({ ...valid, intervalMinutes: 1 })).toBe('intervalMinutes must be an integer between 5 and 1440');
+        expect(validateSheetSource({ ...valid, enabled: 'yes' })).toBe('enabled must be a boolean');
+    });
+
+    it('should fill in defaults', () => {
+        expect(normalizeSheetSource({ ...valid, name: ' Games ', columnMapping: { url: ' Link ' } })).toEqual({
+            name: 'Games',
+            spreadsheetId: source.spreadsheetId,
+            sheetName: 'Live',
+            columnMapping: { url: 'Link' },
+            defaultGroup: 'website',
+            intervalMinutes: 15,
+            enabled: true,
+            deleteOrphaned: false,
+        });
+    });
+});
+
+describe('getNextSyncAt', () => {
+    it('should wait one interval normally', () => {
+        expect(getNextSyncAt(source, now)).toEqual(new Date('2026-06-01T08:15:00.000Z'));
+    });
+
+    it('should back off exponentially after quota errors, up to 6 hours', () => {
+        expect(getNextSyncAt(source, now, true)).toEqual(new Date('2026-06-01T08:30:00.000Z'));
+        expect(getNextSyncAt({ ...source, consecutiveFailures: 2 }, now, true)).toEqual(new Date('2026-06-01T10:00:00.000Z'));
+        expect(getNextSyncAt({ ...source, consecutiveFailures: 10 }, now, true)).toEqual(new Date('2026-06-01T14:00:00.000Z'));
+    });
+});
+
+describe('runSheetSource', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (SheetSourceModel.updateOne as jest.Mock).mockResolvedValue({});
+    });
+
+    const recorded = () => (SheetSourceModel.updateOne as jest.Mock).mock.calls[0][1].$set;
+
+    it('should sync the source sheet with its own settings and record the result', async () => {
+        mockRunSheetSync.mockResolvedValue({
+            plan,
+            result: { added: 1, updated: 0, deleted: 0, errors: plan.errors, addedUrls: [], deletedUrls: [] },
+            blocked: false,
+        });
+
+        await expect(runSheetSource(source, {}, now)).resolves.toMatchObject({ status: 'success' });
+
+        expect(GoogleSheetsService).toHaveBeenCalledWith({ spreadsheetId: source.spreadsheetId, sheetName: 'Live' });
+        expect(mockRunSheetSync.mock.calls[0][0]).toMatchObject({
+            mapping: { name: 'A', url: 'B' },
+            defaultGroup: 'game',
+            sourceId: 'source-1',
+        });
+        expect(mockRunSheetSync.mock.calls[0][1]).toMatchObject({ deleteOrphaned: false, actor: 'system' });
+        expect(recorded()).toMatchObject({
+            lastStatus: 'success',
+            lastError: null,
+            lastResult: { added: 1, updated: 0, deleted: 0, invalid: 1 },
+            lastRowErrors: plan.errors,
+            consecutiveFailures: 0,
+            nextSyncAt: new Date('2026-06-01T08:15:00.000Z'),
+        });
+    });
+
+    it('should record a blocked sync without applying it', async () => {
+        mockRunSheetSync.mockResolvedValue({
+            plan: { ...plan, deletes: [{}, {}, {}], deletePercent: 60, deleteBlocked: true },
+            blocked: true,
+        });
+
+        await expect(runSheetSource(source, {}, now)).resolves.toMatchObject({ status: 'blocked' });
+        expect(recorded()).toMatchObject({ lastStatus: 'blocked', lastResult: null });
+        expect(recorded().lastError).toMatch(/delete 3 node\(s\) \(60% of sheet nodes, limit 20%\)/);
+    });
+
+    it('should count failures and back off on quota errors', async () => {
+        mockRunSheetSync.mockRejectedValue(Object.assign(new Error('Quota exceeded for quota metric'), { code: 429 }));
+
+        await expect(runSheetSource({ ...source, consecutiveFailures: 1 }, {}, now)).resolves.toMatchObject({ status: 'error' });
+        expect(recorded()).toMatchObject({
+            lastStatus: 'error',
+            consecutiveFailures: 2,
+            nextSyncAt: new Date('2026-06-01T09:00:00.000Z'),
+        });
+    });
+
+    it('should not record dry runs', async () => {
+        mockRunSheetSync.mockResolvedValue({ plan, blocked: false });
+
+        await expect(runSheetSource(source, { dryRun: true }, now)).resolves.toEqual({ status: 'success', plan });
+        expect(SheetSourceModel.updateOne).not.toHaveBeenCalled();
+    });
+});
+
+describe('runDueSheetSyncs', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (SheetSourceModel.updateOne as jest.Mock).mockResolvedValue({});
+        mockRunSheetSync.mockResolvedValue({
+            plan,
+            result: { added: 0, updated: 0, deleted: 0, errors: [], addedUrls: [], deletedUrls: [] },
+            blocked: false,
+        });
+    });
+
+    it('should claim due sources until none is left', async () => {
+        (SheetSourceModel.findOneAndUpdate as jest.Mock)
+            .mockReturnValueOnce(lean(source))
+            .mockReturnValueOnce(lean(null));
+
+        await expect(runDueSheetSyncs(now)).resolves.toEqual({ synced: 1, failed: 0, blocked: 0 });
+
+        const [filter, update] = (SheetSourceModel.findOneAndUpdate as jest.Mock).mock.calls[0];
+        expect(filter).toEqual({ enabled: true, $or: [{ nextSyncAt: null }, { nextSyncAt: { $lte: now } }] });
+        expect(update).toEqual({ $set: { nextSyncAt: new Date('2026-06-01T08:10:00.000Z') } });
+    });
+
+    it('should sync at most three sources per run', async () => {
+        (SheetSourceModel.findOneAndUpdate as jest.Mock).mockReturnValue(lean(source));
+
+        await expect(runDueSheetSyncs(now)).resolves.toEqual({ synced: 3, failed: 0, blocked: 0 });
+        expect(SheetSourceModel.findOneAndUpdate).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for lib/services/sheetSync.ts
+ *
+ * Tests:
+ * - Adds, updates (mapped fields only) and deletes planned from sheet rows
+ * - Manual nodes are never updated or deleted; legacy nodes are claimed
+ * - Each sheet source only updates and deletes its own nodes
+ * - Conflicts (duplicate URLs / names, unknown dependencies) become row errors
+ * - Mass deletion guard
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+jest.mock('@/lib/db/models/Node');
+jest.mock('@/lib/audit/auditLog', () => ({
+    diffSnapshots: jest.fn(() => []),
+    recordAuditEvent: jest.fn(),
+    toAuditSnapshot: jest.fn(() => ({})),
+}));
+
+import { Types } from 'mongoose';
+import { SheetNodeRow } from '@/lib/services/sheetMapping';
+import { getMaxDeletePercent, planSheetSync, SyncedNode } from '@/lib/services/sheetSync';
+
+const id = () => new Types.ObjectId() as any;
+
+function node(overrides: Partial<SyncedNode>): SyncedNode {
+    return {
+        _id: id(),
+        name: 'Node',
+        url: 'https://node.example.com',
+        group: 'website',
+        dependencies: [],
+        source: 'google_sheets',
+        ...overrides,
+    };
+}
+
+function row(sheetRow: number, overrides: Partial<SheetNodeRow> = {}): SheetNodeRow {
+    return {
+        sheetRow,
+        name: `Row ${sheetRow}`,
+        url: `https://row${sheetRow}.example.com`,
+        group: 'website',
+        dependencies: [],
+        ...overrides,
+    };
+}
+
+const mapping = { name: 'Name', url: 'URL', group: 'Group', tags: 'Tags', dependencies: 'Depends On' };
+const options = { deleteOrphaned: true, maxDeletePercent: 50 };
+
+describe('planSheetSync', () => {
+    it('should add new rows and update sheet nodes whose mapped fields changed', () => {
+        const db = node({ name: 'Core DB', url: 'https://db.example.com' });
+        const api = node({ name: 'API', url: 'https://api.example.com/', tags: ['old'], owner: 'kept', sheetRow: 3 });
+
+        const { plan, actions } = planSheetSync([
+            row(2, { name: 'Core DB', url: 'https://db.example.com' }),
+            row(3, { name: 'API', url: 'https://api.example.com', group: 'api', tags: ['payments'], dependencies: ['Core DB', 'Web'] }),
+            row(4, { name: 'Web', url: 'https://web.example.com' }),
+        ], [db, api], mapping, [], options);
+
+        expect(plan.adds).toEqual([{ row: 4, name: 'Web', url: 'https://web.example.com', group: 'website' }]);
+        expect(plan.updates).toHaveLength(1);
+        // owner is not mapped, so it is not touched
+        expect(plan.updates[0].changes).toEqual([
+            { field: 'group', before: 'website', after: 'api' },
+            { field: 'tags', before: ['old'], after: ['payments'] },
+            { field: 'dependencies', before: null, after: ['Core DB', 'Web'] },
+        ]);
+        expect(plan.unchanged).toBe(1);
+        expect(plan.deletes).toEqual([]);
+        expect(actions.relinks.map((relink) => relink.sheetRow)).toEqual([2]);
+    });
+
+    it('should leave manual nodes alone and never delete them', () => {
+        const manual = node({ name: 'Manual', url: 'https://manual.example.com', source: 'manual' });
+        const handAdded = node({ name: 'Hand', url: 'https://hand.example.com', source: 'manual' });
+
+        const { plan } = planSheetSync([
+            row(2, { name: 'Renamed', url: 'https://manual.example.com' }),
+        ], [manual, handAdded], mapping, [], options);
+
+        expect(plan.manual).toBe(1);
+        expect(plan.updates).toEqual([]);
+        expect(plan.deletes).toEqual([]);
+    });
+
+    it('should claim legacy nodes without a source but not delete them', () => {
+        const legacyInSheet = node({ name: 'Legacy', url: 'https://legacy.example.com', source: undefined });
+        const legacyGone = node({ name: 'Gone', url: 'https://gone.example.com', source: undefined });
+
+        const { plan, actions } = planSheetSync([
+            row(2, { name: 'Legacy', url: 'https://legacy.example.com' }),
+        ], [legacyInSheet, legacyGone], mapping, [], options);
+
+        expect(actions.relinks).toEqual([{ node: legacyInSheet, sheetRow: 2 }]);
+        expect(plan.deletes).toEqual([]);
+    });
+
+    it('should delete sheet nodes missing from the sheet only with deleteOrphaned', () => {
+        const kept = node({ name: 'Kept', url: 'https://kept.example.com', sheetRow: 2 });
+        const gone = node({ name: 'Gone', url: 'https://gone.example.com' });
+        const rows = [row(2, { name: 'Kept', url: 'https://kept.example.com' })];
+
+        expect(planSheetSync(rows, [kept, gone], mapping, [], options).plan.deletes).toEqual([
+            { nodeId: gone._id.toString(), name: 'Gone', url: 'https://gone.example.com' },
+        ]);
+        expect(planSheetSync(rows, [kept, gone], mapping, [], { ...options, deleteOrphaned: false }).plan.deletes).toEqual([]);
+    });
+
+    it('should only sync and delete the nodes of its own sheet source', () => {
+        const sourceId = id().toString();
+        const ours = node({ name: 'Ours', url: 'https://ours.example.com', sheetSourceId: new Types.ObjectId(sourceId) as any, sheetRow: 2 });
+        const oursGone = node({ name: 'Ours Gone', url: 'https://ours-gone.example.com', sheetSourceId: new Types.ObjectId(sourceId) as any });
+        const defaultSheet = node({ name: 'Default', url: 'https://default.example.com', sheetRow: 3 });
+        const legacy = node({ name: 'Legacy', url: 'https://legacy.example.com', source: undefined });
+
+        const { plan, actions } = planSheetSync([
+            row(2, { name: 'Ours', url: 'https://ours.example.com', group: 'api' }),
+            row(3, { name: 'Renamed', url: 'https://default.example.com' }),
+            row(4, { name: 'Legacy', url: 'https://legacy.example.com' }),
+        ], [ours, oursGone, defaultSheet, legacy], mapping, [], { ...options, sourceId });
+
+        expect(plan.updates.map((update) => update.name)).toEqual(['Ours']);
+        expect(plan.manual).toBe(1);
+        expect(plan.deletes.map((del) => del.name)).toEqual(['Ours Gone']);
+        expect(actions.relinks).toEqual([{ node: legacy, sheetRow: 4 }]);
+        expect(actions.sourceId).toBe(sourceId);
+
+        // The default sheet does not touch source nodes
+        const fromDefault = planSheetSync([row(2, { name: 'Ours', url: 'https://ours.example.com', group: 'api' })], [ours, defaultSheet], mapping, [], options);
+        expect(fromDefault.plan.updates).toEqual([]);
+        expect(fromDefault.plan.deletes.map((del) => del.name)).toEqual(['Default']);
+    });
+
+    it('should block deletions above the limit', () => {
+        const nodes = [1, 2, 3].map((n) => node({ name: `Sheet ${n}`, url: `https://s${n}.example.com` }));
+
+        const { plan } = planSheetSync([row(2, { name: 'Sheet 1', url: 'https://s1.example.com' })], nodes, mapping, [], options);
+
+        expect(plan.deletes).toHaveLength(2);
+        expect(plan.deletePercent).toBe(66.7);
+        expect(plan.deleteBlocked).toBe(true);
+    });
+
+    it('should report duplicate URLs, taken names and unknown dependencies per row', () => {
+        const existing = node({ name: 'Taken', url: 'https://taken.example.com' });
+
+        const { plan } = planSheetSync([
+            row(2, { dependencies: ['Nowhere'] }),
+            row(3, { url: 'https://row2.example.com/' }),
+            row(4, { name: 'taken' }),
+        ], [existing], mapping, [{ row: 5, field: 'url', message: 'URL is required' }], options);
+
+        expect(plan.errors.map((error) => [error.row, error.field])).toEqual([
+            [2, 'dependencies'],
+            [3, 'url'],
+            [4, 'name'],
+            [5, 'url'],
+        ]);
+        // Unknown dependencies do not stop the row from being added
+        expect(plan.adds.map((add) => add.row)).toEqual([2]);
+    });
+});
+
+describe('getMaxDeletePercent', () => {
+    const env = process.env;
+
+    afterEach(() => {
+        process.env = env;
+    });
+
+    it('should default to 20 and accept 0-100', () => {
+        process.env = { ...env, GOOGLE_SHEET_SYNC_MAX_DELETE_PERCENT: undefined };
+        expect(getMaxDeletePercent()).toBe(20);
+
+        process.env = { ...env, GOOGLE_SHEET_SYNC_MAX_DELETE_PERCENT: '0' };
+        expect(getMaxDeletePercent()).toBe(0);
+
+        process.env = { ...env, GOOGLE_SHEET_SYNC_MAX_DELETE_PERCENT: '150' };
+        expect(getMaxDeletePercent()).toBe(20);
+    });
+});
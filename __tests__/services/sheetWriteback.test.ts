@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for lib/services/sheetWriteback.ts
+ *
+ * Tests:
+ * - Status cell values
+ * - Ranges built only for rows whose URL cell still matches the node
+ * - Write-back run: disabled switch, throttling, single batch write, quota backoff
+ * - Nodes of sheet sources written to their own sheet
+ *
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/utils/logger', () => ({
+    logger: {
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        debug: jest.fn(),
+    },
+}));
+
+jest.mock('@/lib/db/models/CheckRunState');
+jest.mock('@/lib/db/models/Node');
+jest.mock('@/lib/db/models/SheetsConfig');
+jest.mock('@/lib/db/models/SheetSource');
+jest.mock('@/lib/services/googleSheets', () => ({
+    googleSheetsService: { readRanges: jest.fn(), writeRanges: jest.fn() },
+    GoogleSheetsService: jest.fn(),
+    isQuotaError: jest.requireActual('@/lib/services/googleSheets').isQuotaError,
+}));
+
+import CheckRunStateModel from '@/lib/db/models/CheckRunState';
+import NodeModel from '@/lib/db/models/Node';
+import SheetsConfigModel from '@/lib/db/models/SheetsConfig';
+import SheetSourceModel from '@/lib/db/models/SheetSource';
+import { GoogleSheetsService, googleSheetsService } from '@/lib/services/googleSheets';
+import {
+    buildStatusUpdates,
+    formatStatusValue,
+    StatusNode,
+    writeStatusToSheet,
+} from '@/lib/services/sheetWriteback';
+
+const mockReadRanges = googleSheetsService.readRanges as jest.Mock;
+const mockWriteRanges = googleSheetsService.writeRanges as jest.Mock;
+
+const lean = (value: unknown) => ({ lean: jest.fn().mockResolvedValue(value) });
+
+const down: StatusNode = {
+    url: 'https://api.example.com/health',
+    status: 'DOWN',
+    lastChecked: new Date('2026-06-01T08:00:00.000Z'),
+    latency: 0,
+    statusMessage: 'HTTP 503',
+    sheetRow: 3,
+};
+
+describe('formatStatusValue', () => {
+    it('should format status, time, latency and error', () => {
+        expect(formatStatusValue(down, 'status')).toBe('DOWN');
+        expect(formatStatusValue(down, 'lastChecked')).toBe('2026-06-01T08:00:00.000Z');
+        expect(formatStatusValue(down, 'latency')).toBe(0);
+        expect(formatStatusValue(down, 'lastError')).toBe('HTTP 503');
+    });
+
+    it('should clear the error of healthy nodes', () => {
+        expect(formatStatusValue({ ...down, status: 'STABLE' }, 'lastError')).toBe('');
+    });
+});
+
+describe('buildStatusUpdates', () => {
+    const columns = { url: 1, status: 4, latency: 27 };
+
+    it('should write the mapped status columns on the node row', () => {
+        const urlCells = ['URL', 'https://other.example.com', 'https://api.example.com/health/'];
+
+        const { data, rows, mismatched } = buildStatusUpdates([down], columns, urlCells);
+
+        expect(rows).toBe(1);
+        expect(mismatched).toBe(0);
+        expect(data).toEqual([
+            { range: 'E3', values: [['DOWN']] },
+            { range: 'AB3', values: [[0]] },
+        ]);
+    });
+
+    it('should skip rows whose URL moved', () => {
+        const { data, mismatched } = buildStatusUpdates([down], columns, ['URL', '', 'https://moved.example.com']);
+
+        expect(data).toEqual([]);
+        expect(mismatched).toBe(1);
+    });
+});
+
+describe('writeStatusToSheet', () => {
+    const env = process.env;
+    const now = new Date('2026-06-01T08:01:00.000Z');
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        process.env = { ...env, GOOGLE_SHEET_WRITEBACK: 'true', GOOGLE_SHEET_COLUMNS: undefined };
+        (CheckRunStateModel.findOneAndUpdate as jest.Mock).mockReturnValue(lean({ key: 'sheets-writeback' }));
+        (NodeModel.find as jest.Mock).mockReturnValue({ select: () => lean([down]) });
+        (SheetsConfigModel.findOne as jest.Mock).mockReturnValue(lean({ columnMapping: { url: 'URL', status: 'Status' } }));
+        (SheetSourceModel.find as jest.Mock).mockReturnValue(lean([]));
+        mockReadRanges.mockResolvedValue([[
+            ['Name', 'URL', 'Status'],
+            ['Web', 'https://web.example.com'],
+            ['API', 'https://api.example.com/health', 'STABLE'],
+        ]]);
+    });
+
+    afterAll(() => {
+        process.env = env;
+    });
+
+    it('should do nothing unless enabled', async () => {
+        process.env.GOOGLE_SHEET_WRITEBACK = 'false';
+
+        await expect(writeStatusToSheet(now)).resolves.toMatchObject({ skipped: 'disabled' });
+        expect(CheckRunStateModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should write all rows in one batch', async () => {
+        await expect(writeStatusToSheet(now)).resolves.toEqual({ written: 1, mismatched: 0 });
+
+        expect(mockWriteRanges).toHaveBeenCalledTimes(1);
+        expect(mockWriteRanges).toHaveBeenCalledWith([{ range: 'C3', values: [['DOWN']] }]);
+        expect((CheckRunStateModel.findOneAndUpdate as jest.Mock).mock.calls[0][1]).toEqual({
+            $set: { nextRunAt: new Date('2026-06-01T08:02:00.000Z'), lastRunAt: now },
+        });
+    });
+
+    it('should skip while throttled', async () => {
+        (CheckRunStateModel.findOneAndUpdate as jest.Mock).mockReturnValue({
+            lean: jest.fn().mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 })),
+        });
+
+        await expect(writeStatusToSheet(now)).resolves.toMatchObject({ skipped: 'throttled' });
+        expect(mockReadRanges).not.toHaveBeenCalled();
+    });
+
+    it('should back off after a quota error', async () => {
+        mockWriteRanges.mockRejectedValue(Object.assign(new Error('Quota exceeded'), { code: 429 }));
+        (CheckRunStateModel.updateOne as jest.Mock).mockResolvedValue({});
+
+        await expect(writeStatusToSheet(now)).resolves.toMatchObject({ skipped: 'error' });
+        expect(CheckRunStateModel.updateOne).toHaveBeenCalledWith(
+            { key: 'sheets-writeback' },
+            { $set: { nextRunAt: new Date('2026-06-01T08:06:00.000Z') } }
+        );
+    });
+
+    it('should write source nodes to the source sheet', async () => {
+        const sourceSheet = { readRanges: jest.fn(), writeRanges: jest.fn() };
+        (GoogleSheetsService as unknown as jest.Mock).mockImplementation(() => sourceSheet);
+        (SheetSourceModel.find as jest.Mock).mockReturnValue(lean([{
+            _id: 'source-1',
+            name: 'Games',
+            spreadsheetId: 'games-spreadsheet-id-0000000000',
+            sheetName: 'Live',
+            columnMapping: { url: 'Link', status: 'State' },
+        }]));
+        (NodeModel.find as jest.Mock).mockImplementation((filter) => ({
+            select: () => lean(filter.sheetSourceId === 'source-1' ? [{ ...down, sheetRow: 2 }] : []),
+        }));
+        sourceSheet.readRanges.mockResolvedValue([[
+            ['State', 'Link'],
+            ['', 'https://api.example.com/health'],
+        ]]);
+
+        await expect(writeStatusToSheet(now)).resolves.toEqual({ written: 1, mismatched: 0 });
+
+        expect(GoogleSheetsService).toHaveBeenCalledWith({ spreadsheetId: 'games-spreadsheet-id-0000000000', sheetName: 'Live' });
+        expect(sourceSheet.writeRanges).toHaveBeenCalledWith([{ range: 'A2', values: [['DOWN']] }]);
+        expect(mockWriteRanges).not.toHaveBeenCalled();
+    });
+});
@@ -6,6 +6,8 @@
  * - String sanitization (XSS prevention)
  * - Node name validation
  * - Dependencies validation
+ * - Tag validation and normalization
+ * - Owner validation
  */
 
 import {
@@ -16,6 +18,9 @@ import {
     validateNodeData,
     sanitizeString,
     normalizeURL,
+    validateTags,
+    normalizeTags,
+    validateOwner,
 } from '@/lib/utils/validation';
 
 describe('validateURL', () => {
@@ -395,6 +400,49 @@ describe('validateNodeData', () => {
         expect(result.valid).toBe(false);
         expect(result.error).toContain('Invalid dependency ID format');
     });
+
+    it('should reject invalid tags', () => {
+        const result = validateNodeData({
+            name: 'My API',
+            url: 'https://api.example.com',
+            tags: ['has space'],
+        });
+        expect(result.valid).toBe(false);
+        expect(result.error).toContain('Invalid tag');
+    });
+});
+
+describe('validateTags', () => {
+    it('should accept missing tags and valid tag lists', () => {
+        expect(validateTags(undefined).valid).toBe(true);
+        expect(validateTags(['payments', 'eu-west', 'Team_A']).valid).toBe(true);
+    });
+
+    it('should reject non-arrays, invalid tags and too many tags', () => {
+        expect(validateTags('payments').valid).toBe(false);
+        expect(validateTags(['has space']).valid).toBe(false);
+        expect(validateTags([42]).valid).toBe(false);
+        expect(validateTags(Array.from({ length: 21 }, (_, i) => `tag-${i}`)).valid).toBe(false);
+    });
+});
+
+describe('validateOwner', () => {
+    it('should accept a missing or short owner', () => {
+        expect(validateOwner(undefined).valid).toBe(true);
+        expect(validateOwner('').valid).toBe(true);
+        expect(validateOwner('Team Payments').valid).toBe(true);
+    });
+
+    it('should reject non-strings and long owners', () => {
+        expect(validateOwner(42).valid).toBe(false);
+        expect(validateOwner('x'.repeat(101)).valid).toBe(false);
+    });
+});
+
+describe('normalizeTags', () => {
+    it('should lowercase, trim and deduplicate tags', () => {
+        expect(normalizeTags([' Payments', 'payments', 'EU-West'])).toEqual(['payments', 'eu-west']);
+    });
 });
 
 describe('normalizeURL', () => {
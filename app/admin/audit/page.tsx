@@ -0,0 +1,279 @@
+"use client";
+
+import { Fragment, Suspense, useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { AuditChange, AuditEventData } from "@/types";
+
+const PAGE_SIZE = 50;
+
+const ACTION_OPTIONS = [
+    { value: "", label: "All actions" },
+    { value: "node", label: "Node (all)" },
+    { value: "node.create", label: "Node created" },
+    { value: "node.update", label: "Node updated" },
+    { value: "node.delete", label: "Node deleted" },
+    { value: "node.bulk_auth", label: "Bulk auth" },
+    { value: "group_policy", label: "Group policy" },
+    { value: "maintenance", label: "Maintenance" },
+    { value: "user", label: "Users" },
+    { value: "sheets_config", label: "Sheets mapping" },
+    { value: "sheet_source", label: "Sheet sources" },
+];
+
+const SOURCE_OPTIONS = [
+    { value: "", label: "All sources" },
+    { value: "ui", label: "UI" },
+    { value: "api", label: "API" },
+    { value: "sheets_sync", label: "Sheets sync" },
+    { value: "config", label: "Config file" },
+];
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) return "-";
+    if (typeof value === "string") return value;
+    return JSON.stringify(value);
+};
+
+const getActionColor = (action: string) => {
+    if (action.endsWith(".delete")) return "bg-red-500/10 text-red-400 border-red-500/30";
+    if (action.endsWith(".create")) return "bg-green-500/10 text-green-400 border-green-500/30";
+    return "bg-blue-500/10 text-blue-300 border-blue-500/30";
+};
+
+function ChangeList({ changes }: { changes: AuditChange[] }) {
+    if (changes.length === 0) {
+        return <p className="text-white/40 text-sm">No field changes recorded</p>;
+    }
+
+    return (
+        <table className="w-full text-xs font-mono">
+            <tbody>
+                {changes.map((change) => (
+                    <tr key={change.field} className="align-top">
+                        <td className="py-1 pr-4 text-white/60">{change.field}</td>
+                        <td className="py-1 pr-4 text-red-300/80 break-all">{formatValue(change.before)}</td>
+                        <td className="py-1 pr-2 text-white/30">→</td>
+                        <td className="py-1 text-green-300/80 break-all">{formatValue(change.after)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+function AuditLog() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const [events, setEvents] = useState<AuditEventData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    // Filters (targetId can be linked from other admin pages)
+    const [actor, setActor] = useState("");
+    const [action, setAction] = useState("");
+    const [source, setSource] = useState("");
+    const targetId = searchParams.get("targetId") || "";
+
+    const buildQuery = (before?: string) => {
+        const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+        if (actor) params.set("actor", actor);
+        if (action) params.set("action", action);
+        if (source) params.set("source", source);
+        if (targetId) params.set("targetId", targetId);
+        if (before) params.set("before", before);
+        return params.toString();
+    };
+
+    const fetchEvents = async (options: { append?: boolean; signal?: AbortSignal } = {}) => {
+        try {
+            setLoading(true);
+            setError(null);
+            const before = options.append ? events[events.length - 1]?.createdAt : undefined;
+            const response = await fetch(`/api/audit?${buildQuery(before)}`, { signal: options.signal });
+            const data = await response.json();
+
+            if (data.success) {
+                const page: AuditEventData[] = data.data || [];
+                setEvents(options.append ? [...events, ...page] : page);
+                setHasMore(page.length === PAGE_SIZE);
+            } else {
+                setError(data.error || "Failed to fetch audit log");
+            }
+        } catch (err: any) {
+            if (err.name === "AbortError") return;
+            setError(err.message || "Failed to fetch audit log");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        const abortController = new AbortController();
+        fetchEvents({ signal: abortController.signal });
+
+        return () => {
+            abortController.abort();
+        };
+    }, [action, source, targetId]);
+
+    return (
+        <div className="min-h-screen bg-black text-white p-8">
+            {/* Header */}
+            <div className="max-w-7xl mx-auto mb-8">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2">📜 Audit Log</h1>
+                        <p className="text-white/60">Who changed nodes, policies and users, and what changed</p>
+                    </div>
+                    <button
+                        onClick={() => router.push("/admin/urls")}
+                        className="px-6 py-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition"
+                    >
+                        ← Back to URLs
+                    </button>
+                </div>
+            </div>
+
+            <div className="max-w-7xl mx-auto space-y-4">
+                {/* Filters */}
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        fetchEvents();
+                    }}
+                    className="flex flex-wrap items-center gap-3"
+                >
+                    <input
+                        value={actor}
+                        onChange={(e) => setActor(e.target.value)}
+                        placeholder="Actor (username)"
+                        className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm"
+                    />
+                    <select
+                        value={action}
+                        onChange={(e) => setAction(e.target.value)}
+                        className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm"
+                    >
+                        {ACTION_OPTIONS.map(opt => <option key={opt.value} value={opt.value} className="bg-gray-900">{opt.label}</option>)}
+                    </select>
+                    <select
+                        value={source}
+                        onChange={(e) => setSource(e.target.value)}
+                        className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm"
+                    >
+                        {SOURCE_OPTIONS.map(opt => <option key={opt.value} value={opt.value} className="bg-gray-900">{opt.label}</option>)}
+                    </select>
+                    <button
+                        type="submit"
+                        className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition text-sm"
+                    >
+                        🔍 Filter
+                    </button>
+                    {targetId && (
+                        <button
+                            type="button"
+                            onClick={() => router.push("/admin/audit")}
+                            className="px-3 py-1 bg-purple-500/20 border border-purple-500/30 rounded-full text-xs"
+                        >
+                            Target: {targetId} ✕
+                        </button>
+                    )}
+                </form>
+
+                {error ? (
+                    <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-6">
+                        <p className="text-red-400">❌ Error: {error}</p>
+                        <button
+                            onClick={() => fetchEvents()}
+                            className="mt-4 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded-lg transition"
+                        >
+                            Retry
+                        </button>
+                    </div>
+                ) : !loading && events.length === 0 ? (
+                    <div className="text-center py-12 bg-white/5 border border-white/10 rounded-lg">
+                        <p className="text-white/60">No audit events found</p>
+                    </div>
+                ) : (
+                    <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                        <table className="w-full">
+                            <thead className="bg-white/5">
+                                <tr>
+                                    <th className="text-left px-6 py-4 font-semibold">Time</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Actor</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Action</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Target</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Source</th>
+                                    <th className="text-right px-6 py-4 font-semibold">Changes</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/10">
+                                {events.map((event) => (
+                                    <Fragment key={event.id}>
+                                        <tr
+                                            onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                                            className="hover:bg-white/5 transition cursor-pointer"
+                                        >
+                                            <td className="px-6 py-4 text-sm text-white/60 whitespace-nowrap">
+                                                {new Date(event.createdAt).toLocaleString()}
+                                            </td>
+                                            <td className="px-6 py-4 font-medium">{event.actor}</td>
+                                            <td className="px-6 py-4">
+                                                <span className={`px-2 py-0.5 border rounded text-xs font-mono ${getActionColor(event.action)}`}>
+                                                    {event.action}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                {event.targetName}
+                                                {event.message && <div className="text-xs text-white/40">{event.message}</div>}
+                                            </td>
+                                            <td className="px-6 py-4">
+                                                <span className="px-3 py-1 bg-white/5 border border-white/10 rounded-full text-xs">
+                                                    {event.source}
+                                                </span>
+                                            </td>
+                                            <td className="px-6 py-4 text-right text-sm text-white/60">
+                                                {event.changes.length} {expanded === event.id ? "▴" : "▾"}
+                                            </td>
+                                        </tr>
+                                        {expanded === event.id && (
+                                            <tr className="bg-white/[0.02]">
+                                                <td colSpan={6} className="px-6 py-4">
+                                                    <ChangeList changes={event.changes} />
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </Fragment>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="bg-white/5 px-6 py-4 border-t border-white/10 flex items-center justify-between">
+                            <div className="text-sm text-white/60">
+                                {loading ? "Loading..." : `Showing ${events.length} events`}
+                            </div>
+                            {hasMore && !loading && (
+                                <button
+                                    onClick={() => fetchEvents({ append: true })}
+                                    className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition text-sm"
+                                >
+                                    Load more
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+export default function AdminAuditPage() {
+    return (
+        <Suspense fallback={null}>
+            <AuditLog />
+        </Suspense>
+    );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { MaintenanceScheduleType, MaintenanceWindowData } from "@/types";
+
+function splitList(value: string): string[] {
+    return value.split(",").map(item => item.trim()).filter(Boolean);
+}
+
+function describeSchedule(window: MaintenanceWindowData): string {
+    if (window.schedule === "once") {
+        return `${new Date(window.startsAt!).toLocaleString()} → ${new Date(window.endsAt!).toLocaleString()}`;
+    }
+    return `${window.cron} · ${window.durationMinutes} min · ${window.timezone}`;
+}
+
+function describeScope(window: MaintenanceWindowData): string {
+    const parts = [
+        window.scope.nodeIds.length > 0 ? `${window.scope.nodeIds.length} node(s)` : "",
+        window.scope.groups.length > 0 ? `groups: ${window.scope.groups.join(", ")}` : "",
+        window.scope.tags.length > 0 ? `tags: ${window.scope.tags.join(", ")}` : "",
+    ];
+    return parts.filter(Boolean).join(" · ");
+}
+
+export default function AdminMaintenancePage() {
+    const router = useRouter();
+    const [windows, setWindows] = useState<MaintenanceWindowData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+
+    // New window form
+    const [name, setName] = useState("");
+    const [schedule, setSchedule] = useState<MaintenanceScheduleType>("once");
+    const [startsAt, setStartsAt] = useState("");
+    const [endsAt, setEndsAt] = useState("");
+    const [cron, setCron] = useState("0 2 * * 0");
+    const [durationMinutes, setDurationMinutes] = useState(60);
+    const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC");
+    const [nodeIds, setNodeIds] = useState("");
+    const [groups, setGroups] = useState("");
+    const [tags, setTags] = useState("");
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const abortController = new AbortController();
+        fetchWindows(abortController.signal);
+
+        return () => {
+            abortController.abort();
+        };
+    }, []);
+
+    const fetchWindows = async (signal?: AbortSignal) => {
+        try {
+            setLoading(true);
+            setError(null);
+            const response = await fetch("/api/maintenance", { signal });
+            const data = await response.json();
+
+            if (data.success) {
+                setWindows(data.data || []);
+            } else {
+                setError(data.error || "Failed to fetch maintenance windows");
+            }
+        } catch (err: any) {
+            setError(err.message || "Failed to fetch maintenance windows");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setFormError(null);
+
+        const payload = {
+            name,
+            schedule,
+            scope: { nodeIds: splitList(nodeIds), groups: splitList(groups), tags: splitList(tags) },
+            ...(schedule === "once"
+                ? {
+                    startsAt: startsAt ? new Date(startsAt).toISOString() : undefined,
+                    endsAt: endsAt ? new Date(endsAt).toISOString() : undefined,
+                }
+                : { cron, durationMinutes, timezone }),
+        };
+
+        try {
+            setBusy("new");
+            const response = await fetch("/api/maintenance", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(payload),
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setName("");
+                setNodeIds("");
+                setGroups("");
+                setTags("");
+                fetchWindows();
+            } else {
+                setFormError(data.error || "Failed to create maintenance window");
+            }
+        } catch (err: any) {
+            setFormError(err.message || "Failed to create maintenance window");
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const toggleEnabled = async (window: MaintenanceWindowData) => {
+        try {
+            setBusy(window.id);
+            const response = await fetch(`/api/maintenance/${window.id}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ enabled: !window.enabled }),
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setWindows(windows.map(w => w.id === window.id ? data.data : w));
+            } else {
+                alert(`Failed to update: ${data.error}`);
+            }
+        } catch (err: any) {
+            alert(`Failed to update: ${err.message}`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleDelete = async (window: MaintenanceWindowData) => {
+        if (!confirm(`Are you sure you want to delete "${window.name}"?`)) {
+            return;
+        }
+
+        try {
+            setBusy(window.id);
+            const response = await fetch(`/api/maintenance/${window.id}`, { method: "DELETE" });
+            const data = await response.json();
+
+            if (data.success) {
+                setWindows(windows.filter(w => w.id !== window.id));
+            } else {
+                alert(`Failed to delete: ${data.error}`);
+            }
+        } catch (err: any) {
+            alert(`Failed to delete: ${err.message}`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const inputClass = "bg-white/5 border border-white/10 rounded px-3 py-2 text-sm";
+
+    return (
+        <div className="min-h-screen bg-black text-white p-8">
+            {/* Header */}
+            <div className="max-w-7xl mx-auto mb-8">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2">🛠️ Maintenance Windows</h1>
+                        <p className="text-white/60">Nodes in an active window keep being checked, show MAINTENANCE and do not alert</p>
+                    </div>
+                    <button
+                        onClick={() => router.push("/admin/urls")}
+                        className="px-6 py-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition"
+                    >
+                        ← Back to URLs
+                    </button>
+                </div>
+            </div>
+
+            <div className="max-w-7xl mx-auto space-y-6">
+                {/* New window */}
+                <form onSubmit={handleCreate} className="glass border border-white/10 rounded-lg p-6 flex flex-wrap items-end gap-4">
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Name</label>
+                        <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Schedule</label>
+                        <select
+                            value={schedule}
+                            onChange={(e) => setSchedule(e.target.value as MaintenanceScheduleType)}
+                            className={inputClass}
+                        >
+                            <option value="once" className="bg-gray-900">One-off</option>
+                            <option value="recurring" className="bg-gray-900">Recurring</option>
+                        </select>
+                    </div>
+                    {schedule === "once" ? (
+                        <>
+                            <div>
+                                <label className="block text-sm text-white/60 mb-1">Starts</label>
+                                <input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className={inputClass} required />
+                            </div>
+                            <div>
+                                <label className="block text-sm text-white/60 mb-1">Ends</label>
+                                <input type="datetime-local" value={endsAt} onChange={(e) => setEndsAt(e.target.value)} className={inputClass} required />
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div>
+                                <label className="block text-sm text-white/60 mb-1">Cron (min hour dom month dow)</label>
+                                <input value={cron} onChange={(e) => setCron(e.target.value)} className={`${inputClass} font-mono`} required />
+                            </div>
+                            <div>
+                                <label className="block text-sm text-white/60 mb-1">Duration (min)</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={10080}
+                                    value={durationMinutes}
+                                    onChange={(e) => setDurationMinutes(parseInt(e.target.value, 10) || 0)}
+                                    className={`${inputClass} w-28`}
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm text-white/60 mb-1">Timezone</label>
+                                <input value={timezone} onChange={(e) => setTimezone(e.target.value)} className={inputClass} required />
+                            </div>
+                        </>
+                    )}
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Groups (comma-separated)</label>
+                        <input value={groups} onChange={(e) => setGroups(e.target.value)} placeholder="backend, website" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Tags</label>
+                        <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="payments" className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Node IDs</label>
+                        <input value={nodeIds} onChange={(e) => setNodeIds(e.target.value)} className={`${inputClass} font-mono`} />
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={busy === "new"}
+                        className="px-4 py-2 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 rounded-lg transition text-sm disabled:opacity-50"
+                    >
+                        {busy === "new" ? "..." : "➕ Add Window"}
+                    </button>
+                    {formError && <p className="w-full text-sm text-red-400">❌ {formError}</p>}
+                </form>
+
+                {loading ? (
+                    <div className="text-center py-12">
+                        <div className="text-white/60">Loading maintenance windows...</div>
+                    </div>
+                ) : error ? (
+                    <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-6">
+                        <p className="text-red-400">❌ Error: {error}</p>
+                        <button
+                            onClick={() => fetchWindows()}
+                            className="mt-4 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded-lg transition"
+                        >
+                            Retry
+                        </button>
+                    </div>
+                ) : windows.length === 0 ? (
+                    <div className="text-center py-12 text-white/60">No maintenance windows yet</div>
+                ) : (
+                    <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                        <table className="w-full">
+                            <thead className="bg-white/5">
+                                <tr>
+                                    <th className="text-left px-6 py-4 font-semibold">Name</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Schedule</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Scope</th>
+                                    <th className="text-left px-6 py-4 font-semibold">State</th>
+                                    <th className="text-right px-6 py-4 font-semibold">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/10">
+                                {windows.map((window) => (
+                                    <tr key={window.id} className="hover:bg-white/5 transition">
+                                        <td className="px-6 py-4">
+                                            <div className="font-medium">{window.name}</div>
+                                            {window.createdBy && <div className="text-xs text-white/40">by {window.createdBy}</div>}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-white/80 font-mono">{describeSchedule(window)}</td>
+                                        <td className="px-6 py-4 text-sm text-white/60">{describeScope(window)}</td>
+                                        <td className="px-6 py-4">
+                                            {!window.enabled ? (
+                                                <span className="text-white/50 text-xs border border-white/20 bg-white/5 px-2 py-0.5 rounded">disabled</span>
+                                            ) : window.active ? (
+                                                <span className="text-status-maintenance text-xs border border-status-maintenance/30 bg-status-maintenance/10 px-2 py-0.5 rounded">
+                                                    active until {new Date(window.activeUntil!).toLocaleString()}
+                                                </span>
+                                            ) : (
+                                                <span className="text-green-400 text-xs border border-green-500/30 bg-green-500/10 px-2 py-0.5 rounded">scheduled</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <button
+                                                    onClick={() => router.push(`/admin/audit?targetId=${window.id}`)}
+                                                    className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded text-xs transition"
+                                                >
+                                                    📜 History
+                                                </button>
+                                                <button
+                                                    onClick={() => toggleEnabled(window)}
+                                                    disabled={busy === window.id}
+                                                    className="px-3 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-500/30 rounded text-xs transition disabled:opacity-50"
+                                                >
+                                                    {window.enabled ? "Disable" : "Enable"}
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(window)}
+                                                    disabled={busy === window.id}
+                                                    className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded text-xs transition disabled:opacity-50"
+                                                >
+                                                    {busy === window.id ? "..." : "🗑️ Delete"}
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,536 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { SheetColumnMapping, SheetSourceData, SheetSyncPlan } from "@/types";
+
+interface SyncSummary {
+    added: number;
+    updated: number;
+    deleted: number;
+    invalid: number;
+    timestamp: string;
+}
+
+const EMPTY_SOURCE_FORM = {
+    name: "",
+    spreadsheetId: "",
+    sheetName: "",
+    columnMapping: "",
+    defaultGroup: "website",
+    intervalMinutes: 15,
+    deleteOrphaned: false,
+};
+
+const STATUS_STYLES: Record<string, string> = {
+    success: "text-green-400",
+    blocked: "text-yellow-300",
+    error: "text-red-400",
+};
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined) return "-";
+    if (typeof value === "string") return value;
+    if (Array.isArray(value)) return value.join(", ");
+    return JSON.stringify(value);
+};
+
+export default function AdminSheetsPage() {
+    const router = useRouter();
+    const [mapping, setMapping] = useState<{ columnMapping: SheetColumnMapping; source: string } | null>(null);
+    const [deleteOrphaned, setDeleteOrphaned] = useState(true);
+    const [plan, setPlan] = useState<SheetSyncPlan | null>(null);
+    const [force, setForce] = useState(false);
+    const [busy, setBusy] = useState<"preview" | "apply" | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [summary, setSummary] = useState<SyncSummary | null>(null);
+    const [sources, setSources] = useState<SheetSourceData[]>([]);
+    // "" = GOOGLE_SPREADSHEET_ID sheet, otherwise a sheet source id
+    const [target, setTarget] = useState("");
+    const [sourceForm, setSourceForm] = useState(EMPTY_SOURCE_FORM);
+    const [showSourceForm, setShowSourceForm] = useState(false);
+    const [sourceError, setSourceError] = useState<string | null>(null);
+
+    const fetchSources = async () => {
+        try {
+            const response = await fetch("/api/google-sheets/sources");
+            const data = await response.json();
+            if (data.success) setSources(data.data);
+        } catch {
+            /* sources list stays as is */
+        }
+    };
+
+    useEffect(() => {
+        const abortController = new AbortController();
+
+        fetch("/api/google-sheets/config", { signal: abortController.signal })
+            .then((response) => response.json())
+            .then((data) => {
+                if (data.success) setMapping(data.data);
+            })
+            .catch(() => { /* mapping card stays hidden */ });
+
+        fetchSources();
+
+        return () => {
+            abortController.abort();
+        };
+    }, []);
+
+    const selectedSource = sources.find((source) => source.id === target);
+
+    const selectTarget = (id: string) => {
+        setTarget(id);
+        setDeleteOrphaned(id ? !!sources.find((source) => source.id === id)?.deleteOrphaned : true);
+        setPlan(null);
+        setSummary(null);
+        setError(null);
+    };
+
+    const createSource = async () => {
+        setSourceError(null);
+
+        let columnMapping: SheetColumnMapping | undefined;
+        if (sourceForm.columnMapping.trim()) {
+            try {
+                columnMapping = JSON.parse(sourceForm.columnMapping);
+            } catch {
+                setSourceError("Column mapping must be JSON, e.g. {\"name\":\"Name\",\"url\":\"URL\"}");
+                return;
+            }
+        }
+
+        try {
+            const response = await fetch("/api/google-sheets/sources", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ ...sourceForm, columnMapping }),
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setSourceForm(EMPTY_SOURCE_FORM);
+                setShowSourceForm(false);
+                await fetchSources();
+            } else {
+                setSourceError(data.error || "Failed to create source");
+            }
+        } catch (err: any) {
+            setSourceError(err.message || "Failed to create source");
+        }
+    };
+
+    const toggleSource = async (source: SheetSourceData) => {
+        try {
+            await fetch(`/api/google-sheets/sources/${source.id}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ enabled: !source.enabled }),
+            });
+        } finally {
+            await fetchSources();
+        }
+    };
+
+    const deleteSource = async (source: SheetSourceData) => {
+        if (!confirm(`Delete sheet source "${source.name}"? Its nodes are kept but no longer synced.`)) return;
+
+        try {
+            await fetch(`/api/google-sheets/sources/${source.id}`, { method: "DELETE" });
+        } finally {
+            if (target === source.id) selectTarget("");
+            await fetchSources();
+        }
+    };
+
+    const runSync = async (dryRun: boolean) => {
+        setBusy(dryRun ? "preview" : "apply");
+        setError(null);
+        setSummary(null);
+
+        try {
+            const url = target ? `/api/google-sheets/sources/${target}/sync` : "/api/google-sheets/sync";
+            const response = await fetch(url, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ dryRun, deleteOrphaned, force }),
+            });
+            const data = await response.json();
+
+            if (data.success && dryRun) {
+                setPlan(data.data);
+                setForce(false);
+            } else if (data.success) {
+                setSummary(data.data);
+                setPlan(null);
+                setForce(false);
+            } else {
+                // A blocked sync returns the plan so it can be reviewed
+                if (data.data) setPlan(data.data);
+                setError(data.message || data.error || "Sync failed");
+            }
+        } catch (err: any) {
+            setError(err.message || "Sync failed");
+        } finally {
+            setBusy(null);
+            // Manual source syncs update the source's last sync status
+            if (target && !dryRun) fetchSources();
+        }
+    };
+
+    const hasChanges = !!plan && (plan.adds.length + plan.updates.length + plan.deletes.length) > 0;
+
+    return (
+        <div className="min-h-screen bg-black text-white p-8">
+            {/* Header */}
+            <div className="max-w-7xl mx-auto mb-8">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2">📄 Google Sheets Sync</h1>
+                        <p className="text-white/60">Sheets synced by the server on a schedule, and a preview of what a sync would change before applying it</p>
+                    </div>
+                    <button
+                        onClick={() => router.push("/admin/urls")}
+                        className="px-6 py-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition"
+                    >
+                        ← Back to URLs
+                    </button>
+                </div>
+            </div>
+
+            <div className="max-w-7xl mx-auto space-y-6">
+                {/* Sheet sources, synced by the server on their interval */}
+                <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                    <div className="px-6 py-3 bg-white/5 flex items-center justify-between">
+                        <span className="font-semibold">Scheduled sources</span>
+                        <button
+                            onClick={() => setShowSourceForm(!showSourceForm)}
+                            className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition text-sm"
+                        >
+                            {showSourceForm ? "Cancel" : "+ Add Source"}
+                        </button>
+                    </div>
+
+                    {showSourceForm && (
+                        <div className="p-6 border-b border-white/10 grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+                            <input
+                                placeholder="Name"
+                                value={sourceForm.name}
+                                onChange={(e) => setSourceForm({ ...sourceForm, name: e.target.value })}
+                                className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg"
+                            />
+                            <input
+                                placeholder="Spreadsheet ID"
+                                value={sourceForm.spreadsheetId}
+                                onChange={(e) => setSourceForm({ ...sourceForm, spreadsheetId: e.target.value })}
+                                className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg font-mono"
+                            />
+                            <input
+                                placeholder="Sheet name"
+                                value={sourceForm.sheetName}
+                                onChange={(e) => setSourceForm({ ...sourceForm, sheetName: e.target.value })}
+                                className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg"
+                            />
+                            <input
+                                placeholder='Column mapping JSON (empty = A name, B URL)'
+                                value={sourceForm.columnMapping}
+                                onChange={(e) => setSourceForm({ ...sourceForm, columnMapping: e.target.value })}
+                                className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg font-mono md:col-span-3"
+                            />
+                            <select
+                                value={sourceForm.defaultGroup}
+                                onChange={(e) => setSourceForm({ ...sourceForm, defaultGroup: e.target.value })}
+                                className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg"
+                            >
+                                {["website", "backend", "frontend", "api", "database", "service", "iframe", "video", "game", "webgl"].map((group) => (
+                                    <option key={group} value={group}>Default group: {group}</option>
+                                ))}
+                            </select>
+                            <label className="flex items-center gap-2">
+                                Every
+                                <input
+                                    type="number"
+                                    min={5}
+                                    max={1440}
+                                    value={sourceForm.intervalMinutes}
+                                    onChange={(e) => setSourceForm({ ...sourceForm, intervalMinutes: Number(e.target.value) })}
+                                    className="w-24 px-3 py-2 bg-white/5 border border-white/10 rounded-lg"
+                                />
+                                minutes
+                            </label>
+                            <label className="flex items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={sourceForm.deleteOrphaned}
+                                    onChange={(e) => setSourceForm({ ...sourceForm, deleteOrphaned: e.target.checked })}
+                                />
+                                Delete nodes removed from the sheet
+                            </label>
+                            <div className="md:col-span-3 flex items-center gap-4">
+                                <button
+                                    onClick={createSource}
+                                    className="px-4 py-2 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 rounded-lg transition"
+                                >
+                                    Create
+                                </button>
+                                {sourceError && <span className="text-red-400">❌ {sourceError}</span>}
+                            </div>
+                        </div>
+                    )}
+
+                    {sources.length === 0 ? (
+                        <div className="px-6 py-6 text-sm text-white/60">
+                            No scheduled sources. The sheet below is only synced from this page or while the dashboard sync is on.
+                        </div>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-white/60">
+                                <tr>
+                                    <th className="px-6 py-2">Name</th>
+                                    <th className="px-6 py-2">Sheet</th>
+                                    <th className="px-6 py-2">Every</th>
+                                    <th className="px-6 py-2">Last sync</th>
+                                    <th className="px-6 py-2">Next sync</th>
+                                    <th className="px-6 py-2 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/10">
+                                {sources.map((source) => (
+                                    <tr key={source.id} className={source.enabled ? "" : "opacity-50"}>
+                                        <td className="px-6 py-2 font-medium">{source.name}</td>
+                                        <td className="px-6 py-2 text-white/70">
+                                            <span className="font-mono text-xs">{source.spreadsheetId.slice(0, 12)}…</span> / {source.sheetName}
+                                        </td>
+                                        <td className="px-6 py-2 text-white/70">{source.intervalMinutes} min</td>
+                                        <td className="px-6 py-2">
+                                            {source.lastSyncAt ? (
+                                                <>
+                                                    <span className={STATUS_STYLES[source.lastStatus || ""] || "text-white/60"}>
+                                                        {source.lastStatus}
+                                                    </span>{" "}
+                                                    <span className="text-white/40">{new Date(source.lastSyncAt).toLocaleString()}</span>
+                                                    {source.lastResult && (
+                                                        <div className="text-xs text-white/60">
+                                                            +{source.lastResult.added} · {source.lastResult.updated} updated · -{source.lastResult.deleted}
+                                                            {source.lastResult.invalid > 0 && ` · ${source.lastResult.invalid} invalid row(s)`}
+                                                        </div>
+                                                    )}
+                                                    {source.lastError && <div className="text-xs text-red-400">{source.lastError}</div>}
+                                                </>
+                                            ) : (
+                                                <span className="text-white/40">Never</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-2 text-white/60">
+                                            {!source.enabled ? "Paused" : source.nextSyncAt ? new Date(source.nextSyncAt).toLocaleString() : "Next run"}
+                                            {source.consecutiveFailures > 1 && (
+                                                <div className="text-xs text-yellow-300">{source.consecutiveFailures} failures in a row</div>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-2 text-right whitespace-nowrap space-x-2">
+                                            <button
+                                                onClick={() => selectTarget(source.id)}
+                                                className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded transition"
+                                            >
+                                                Review
+                                            </button>
+                                            <button
+                                                onClick={() => toggleSource(source)}
+                                                className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded transition"
+                                            >
+                                                {source.enabled ? "Pause" : "Resume"}
+                                            </button>
+                                            <button
+                                                onClick={() => deleteSource(source)}
+                                                className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded transition"
+                                            >
+                                                Delete
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Mapping and actions */}
+                <div className="glass border border-white/10 rounded-lg p-6 flex flex-wrap items-center gap-4">
+                    <label className="w-full flex items-center gap-2 text-sm">
+                        Sheet:
+                        <select
+                            value={target}
+                            onChange={(e) => selectTarget(e.target.value)}
+                            className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg"
+                        >
+                            <option value="">Default sheet (GOOGLE_SPREADSHEET_ID)</option>
+                            {sources.map((source) => (
+                                <option key={source.id} value={source.id}>{source.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {selectedSource ? (
+                        <div className="w-full text-sm text-white/60">
+                            Column mapping:{" "}
+                            <span className="font-mono text-white/80">
+                                {Object.keys(selectedSource.columnMapping).length > 0
+                                    ? Object.entries(selectedSource.columnMapping).map(([field, column]) => `${field} → ${column}`).join(" · ")
+                                    : "name → A · url → B"}
+                            </span>
+                            {selectedSource.lastRowErrors.length > 0 && !plan && (
+                                <span className="text-yellow-300"> · {selectedSource.lastRowErrors.length} invalid value(s) in the last sync, preview to see them</span>
+                            )}
+                        </div>
+                    ) : mapping && (
+                        <div className="w-full text-sm text-white/60">
+                            Column mapping ({mapping.source}):{" "}
+                            <span className="font-mono text-white/80">
+                                {Object.entries(mapping.columnMapping).map(([field, column]) => `${field} → ${column}`).join(" · ")}
+                            </span>
+                        </div>
+                    )}
+                    <label className="flex items-center gap-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={deleteOrphaned}
+                            onChange={(e) => { setDeleteOrphaned(e.target.checked); setPlan(null); }}
+                        />
+                        Delete sheet nodes that are no longer in the sheet
+                    </label>
+                    <button
+                        onClick={() => runSync(true)}
+                        disabled={busy !== null}
+                        className="px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition text-sm disabled:opacity-50"
+                    >
+                        {busy === "preview" ? "..." : "🔍 Preview"}
+                    </button>
+                    <button
+                        onClick={() => runSync(false)}
+                        disabled={busy !== null || !hasChanges || (plan!.deleteBlocked && !force)}
+                        className="px-4 py-2 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 rounded-lg transition text-sm disabled:opacity-50"
+                    >
+                        {busy === "apply" ? "..." : "✅ Apply"}
+                    </button>
+                    {error && <p className="w-full text-sm text-red-400">❌ {error}</p>}
+                    {summary && (
+                        <p className="w-full text-sm text-green-400">
+                            Sync applied: +{summary.added} added, {summary.updated} updated, -{summary.deleted} deleted
+                            {summary.invalid > 0 && `, ${summary.invalid} invalid row(s)`}
+                        </p>
+                    )}
+                </div>
+
+                {plan && (
+                    <>
+                        {/* Summary */}
+                        <div className="flex flex-wrap gap-3 text-sm">
+                            <span className="px-3 py-1 rounded border border-green-500/30 bg-green-500/10 text-green-400">+{plan.adds.length} add</span>
+                            <span className="px-3 py-1 rounded border border-blue-500/30 bg-blue-500/10 text-blue-300">{plan.updates.length} update</span>
+                            <span className="px-3 py-1 rounded border border-red-500/30 bg-red-500/10 text-red-400">-{plan.deletes.length} delete</span>
+                            <span className="px-3 py-1 rounded border border-white/10 bg-white/5 text-white/60">{plan.unchanged} unchanged</span>
+                            <span className="px-3 py-1 rounded border border-white/10 bg-white/5 text-white/60">{plan.manual} manual / other sheet (left alone)</span>
+                            {plan.errors.length > 0 && (
+                                <span className="px-3 py-1 rounded border border-yellow-500/30 bg-yellow-500/10 text-yellow-300">{plan.errors.length} error(s)</span>
+                            )}
+                        </div>
+
+                        {plan.deleteBlocked && (
+                            <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 text-sm">
+                                <p className="text-red-400">
+                                    ⚠️ This sync would delete {plan.deletePercent}% of the nodes imported from the sheet
+                                    (limit {plan.maxDeletePercent}%). Check the sheet before applying.
+                                </p>
+                                <label className="flex items-center gap-2 mt-3">
+                                    <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} />
+                                    Apply anyway
+                                </label>
+                            </div>
+                        )}
+
+                        {plan.adds.length > 0 && (
+                            <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                                <div className="px-6 py-3 bg-white/5 font-semibold">Adds</div>
+                                <table className="w-full text-sm">
+                                    <tbody className="divide-y divide-white/10">
+                                        {plan.adds.map((add) => (
+                                            <tr key={add.row}>
+                                                <td className="px-6 py-2 text-white/40 w-20">row {add.row}</td>
+                                                <td className="px-6 py-2 font-medium">{add.name}</td>
+                                                <td className="px-6 py-2 font-mono text-white/70">{add.url}</td>
+                                                <td className="px-6 py-2 text-white/60">{add.group}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {plan.updates.length > 0 && (
+                            <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                                <div className="px-6 py-3 bg-white/5 font-semibold">Updates</div>
+                                <table className="w-full text-sm">
+                                    <tbody className="divide-y divide-white/10">
+                                        {plan.updates.map((update) => (
+                                            <tr key={update.nodeId}>
+                                                <td className="px-6 py-2 text-white/40 w-20 align-top">row {update.row}</td>
+                                                <td className="px-6 py-2 font-medium align-top">{update.name}</td>
+                                                <td className="px-6 py-2">
+                                                    {update.changes.map((change) => (
+                                                        <div key={change.field} className="font-mono text-xs">
+                                                            <span className="text-white/60">{change.field}:</span>{" "}
+                                                            <span className="text-red-400 line-through">{formatValue(change.before)}</span>{" "}
+                                                            → <span className="text-green-400">{formatValue(change.after)}</span>
+                                                        </div>
+                                                    ))}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {plan.deletes.length > 0 && (
+                            <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                                <div className="px-6 py-3 bg-white/5 font-semibold">Deletes</div>
+                                <table className="w-full text-sm">
+                                    <tbody className="divide-y divide-white/10">
+                                        {plan.deletes.map((del) => (
+                                            <tr key={del.nodeId}>
+                                                <td className="px-6 py-2 font-medium">{del.name}</td>
+                                                <td className="px-6 py-2 font-mono text-white/70">{del.url}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {plan.errors.length > 0 && (
+                            <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                                <div className="px-6 py-3 bg-white/5 font-semibold">Invalid rows (not imported)</div>
+                                <table className="w-full text-sm">
+                                    <tbody className="divide-y divide-white/10">
+                                        {plan.errors.map((rowError, index) => (
+                                            <tr key={`${rowError.row}-${rowError.field}-${index}`}>
+                                                <td className="px-6 py-2 text-white/40 w-20">row {rowError.row}</td>
+                                                <td className="px-6 py-2 text-white/60">{rowError.field || "-"}</td>
+                                                <td className="px-6 py-2 font-mono text-white/70">{rowError.value || ""}</td>
+                                                <td className="px-6 py-2 text-yellow-300">{rowError.message}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {!hasChanges && plan.errors.length === 0 && (
+                            <div className="text-center py-12 text-white/60">Database is in line with the sheet</div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
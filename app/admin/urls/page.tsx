@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { SingleAuthModal } from "@/components/admin/SingleAuthModal";
 import { BulkAuthModal } from "@/components/admin/BulkAuthModal";
+import { GroupPolicyModal } from "@/components/admin/GroupPolicyModal";
 
 interface Node {
     id: string;
@@ -30,6 +31,7 @@ export default function AdminUrlsPage() {
     const [isSingleAuthOpen, setIsSingleAuthOpen] = useState(false);
     const [selectedNodeForAuth, setSelectedNodeForAuth] = useState<string | null>(null);
     const [isBulkAuthOpen, setIsBulkAuthOpen] = useState(false);
+    const [isGroupPolicyOpen, setIsGroupPolicyOpen] = useState(false);
 
     // Fetch nodes
     useEffect(() => {
@@ -112,6 +114,9 @@ export default function AdminUrlsPage() {
             case "FRESH": return "bg-status-fresh/20 text-status-fresh border-status-fresh/30";
             case "WARNING": return "bg-status-warning/20 text-status-warning border-status-warning/30";
             case "DOWN": return "bg-status-down/20 text-status-down border-status-down/30";
+            case "FLAPPING": return "bg-status-flapping/20 text-status-flapping border-status-flapping/30";
+            case "MAINTENANCE": return "bg-status-maintenance/20 text-status-maintenance border-status-maintenance/30";
+            case "DEGRADED_BY_DEPENDENCY": return "bg-status-degraded/20 text-status-degraded border-status-degraded/30";
             default: return "bg-white/10 text-white/60 border-white/20";
         }
     };
@@ -125,12 +130,38 @@ export default function AdminUrlsPage() {
                         <h1 className="text-4xl font-bold mb-2">🔗 Manage URLs</h1>
                         <p className="text-white/60">Manage monitored URLs and their configurations</p>
                     </div>
-                    <button
-                        onClick={() => router.push("/dashboard")}
-                        className="px-6 py-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition"
-                    >
-                        ← Back to Dashboard
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => router.push("/admin/maintenance")}
+                            className="px-6 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition"
+                        >
+                            🛠️ Maintenance
+                        </button>
+                        <button
+                            onClick={() => router.push("/admin/sheets")}
+                            className="px-6 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition"
+                        >
+                            📄 Sheets Sync
+                        </button>
+                        <button
+                            onClick={() => router.push("/admin/audit")}
+                            className="px-6 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition"
+                        >
+                            📜 Audit Log
+                        </button>
+                        <button
+                            onClick={() => router.push("/admin/users")}
+                            className="px-6 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg transition"
+                        >
+                            👥 Users
+                        </button>
+                        <button
+                            onClick={() => router.push("/dashboard")}
+                            className="px-6 py-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition"
+                        >
+                            ← Back to Dashboard
+                        </button>
+                    </div>
                 </div>
             </div>
 
@@ -159,7 +190,13 @@ export default function AdminUrlsPage() {
                     </div>
                 ) : (
                     <>
-                        <div className="flex justify-end mb-4">
+                        <div className="flex justify-end gap-2 mb-4">
+                            <button
+                                onClick={() => setIsGroupPolicyOpen(true)}
+                                className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white/80 border border-white/10 rounded-lg transition text-sm flex items-center gap-2"
+                            >
+                                ⚙️ Group Status Policies
+                            </button>
                             <button
                                 onClick={() => setIsBulkAuthOpen(true)}
                                 className="px-4 py-2 bg-purple-600/20 hover:bg-purple-600/30 text-purple-300 border border-purple-600/30 rounded-lg transition text-sm flex items-center gap-2"
@@ -231,6 +268,13 @@ export default function AdminUrlsPage() {
                                             </td>
                                             <td className="px-6 py-4">
                                                 <div className="flex items-center justify-end gap-2">
+                                                    <button
+                                                        onClick={() => router.push(`/admin/audit?targetId=${node.id}`)}
+                                                        className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded text-xs transition"
+                                                        title="Change history"
+                                                    >
+                                                        📜 History
+                                                    </button>
                                                     <button
                                                         onClick={() => handleCheckNow(node.id)}
                                                         className="px-3 py-1 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded text-xs transition"
@@ -260,7 +304,10 @@ export default function AdminUrlsPage() {
                                     Stable: {nodes.filter(n => n.status === "STABLE").length} |
                                     Fresh: {nodes.filter(n => n.status === "FRESH").length} |
                                     Warning: {nodes.filter(n => n.status === "WARNING").length} |
-                                    Down: {nodes.filter(n => n.status === "DOWN").length}
+                                    Down: {nodes.filter(n => n.status === "DOWN").length} |
+                                    Flapping: {nodes.filter(n => n.status === "FLAPPING").length} |
+                                    Maintenance: {nodes.filter(n => n.status === "MAINTENANCE").length} |
+                                    Degraded: {nodes.filter(n => n.status === "DEGRADED_BY_DEPENDENCY").length}
                                 </div>
                             </div>
                         </div>
@@ -284,6 +331,11 @@ export default function AdminUrlsPage() {
                 onClose={() => setIsBulkAuthOpen(false)}
                 onSave={fetchNodes}
             />
+
+            <GroupPolicyModal
+                isOpen={isGroupPolicyOpen}
+                onClose={() => setIsGroupPolicyOpen(false)}
+            />
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { UserData, UserRole } from "@/types";
+
+const ROLES: UserRole[] = ["viewer", "operator", "admin"];
+
+export default function AdminUsersPage() {
+    const router = useRouter();
+    const [users, setUsers] = useState<UserData[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+
+    // New user form
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [role, setRole] = useState<UserRole>("viewer");
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const abortController = new AbortController();
+        fetchUsers(abortController.signal);
+
+        return () => {
+            abortController.abort();
+        };
+    }, []);
+
+    const fetchUsers = async (signal?: AbortSignal) => {
+        try {
+            setLoading(true);
+            setError(null);
+            const response = await fetch("/api/users", { signal });
+            const data = await response.json();
+
+            if (data.success) {
+                setUsers(data.data || []);
+            } else {
+                setError(data.error || "Failed to fetch users");
+            }
+        } catch (err: any) {
+            setError(err.message || "Failed to fetch users");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setFormError(null);
+
+        try {
+            setBusy("new");
+            const response = await fetch("/api/users", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ username, password, role }),
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setUsername("");
+                setPassword("");
+                setRole("viewer");
+                fetchUsers();
+            } else {
+                setFormError(data.error || "Failed to create user");
+            }
+        } catch (err: any) {
+            setFormError(err.message || "Failed to create user");
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const updateUser = async (id: string, changes: Partial<{ role: UserRole; disabled: boolean; password: string }>) => {
+        try {
+            setBusy(id);
+            const response = await fetch(`/api/users/${id}`, {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(changes),
+            });
+            const data = await response.json();
+
+            if (data.success) {
+                setUsers(users.map(u => u.id === id ? data.data : u));
+            } else {
+                alert(`Failed to update: ${data.error}`);
+            }
+        } catch (err: any) {
+            alert(`Failed to update: ${err.message}`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleResetPassword = (user: UserData) => {
+        const newPassword = prompt(`New password for "${user.username}"`);
+        if (newPassword) {
+            updateUser(user.id, { password: newPassword });
+        }
+    };
+
+    const handleDelete = async (user: UserData) => {
+        if (!confirm(`Are you sure you want to delete "${user.username}"?`)) {
+            return;
+        }
+
+        try {
+            setBusy(user.id);
+            const response = await fetch(`/api/users/${user.id}`, { method: "DELETE" });
+            const data = await response.json();
+
+            if (data.success) {
+                setUsers(users.filter(u => u.id !== user.id));
+            } else {
+                alert(`Failed to delete: ${data.error}`);
+            }
+        } catch (err: any) {
+            alert(`Failed to delete: ${err.message}`);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-black text-white p-8">
+            {/* Header */}
+            <div className="max-w-7xl mx-auto mb-8">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <h1 className="text-4xl font-bold mb-2">👥 Manage Users</h1>
+                        <p className="text-white/60">Viewer: read only · Operator: run checks, acknowledge incidents · Admin: full access</p>
+                    </div>
+                    <button
+                        onClick={() => router.push("/admin/urls")}
+                        className="px-6 py-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition"
+                    >
+                        ← Back to URLs
+                    </button>
+                </div>
+            </div>
+
+            <div className="max-w-7xl mx-auto space-y-6">
+                {/* New user */}
+                <form onSubmit={handleCreate} className="glass border border-white/10 rounded-lg p-6 flex flex-wrap items-end gap-4">
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Username</label>
+                        <input
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Password</label>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-white/60 mb-1">Role</label>
+                        <select
+                            value={role}
+                            onChange={(e) => setRole(e.target.value as UserRole)}
+                            className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm"
+                        >
+                            {ROLES.map(r => <option key={r} value={r} className="bg-gray-900">{r}</option>)}
+                        </select>
+                    </div>
+                    <button
+                        type="submit"
+                        disabled={busy === "new"}
+                        className="px-4 py-2 bg-green-500/20 hover:bg-green-500/30 border border-green-500/30 rounded-lg transition text-sm disabled:opacity-50"
+                    >
+                        {busy === "new" ? "..." : "➕ Add User"}
+                    </button>
+                    {formError && <p className="w-full text-sm text-red-400">❌ {formError}</p>}
+                </form>
+
+                {loading ? (
+                    <div className="text-center py-12">
+                        <div className="text-white/60">Loading users...</div>
+                    </div>
+                ) : error ? (
+                    <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-6">
+                        <p className="text-red-400">❌ Error: {error}</p>
+                        <button
+                            onClick={() => fetchUsers()}
+                            className="mt-4 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded-lg transition"
+                        >
+                            Retry
+                        </button>
+                    </div>
+                ) : (
+                    <div className="glass border border-white/10 rounded-lg overflow-hidden">
+                        <table className="w-full">
+                            <thead className="bg-white/5">
+                                <tr>
+                                    <th className="text-left px-6 py-4 font-semibold">Username</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Role</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Status</th>
+                                    <th className="text-left px-6 py-4 font-semibold">Last Login</th>
+                                    <th className="text-right px-6 py-4 font-semibold">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/10">
+                                {users.map((user) => (
+                                    <tr key={user.id} className="hover:bg-white/5 transition">
+                                        <td className="px-6 py-4 font-medium">{user.username}</td>
+                                        <td className="px-6 py-4">
+                                            <select
+                                                value={user.role}
+                                                disabled={busy === user.id}
+                                                onChange={(e) => updateUser(user.id, { role: e.target.value as UserRole })}
+                                                className="bg-white/5 border border-white/10 rounded px-2 py-1 text-xs"
+                                            >
+                                                {ROLES.map(r => <option key={r} value={r} className="bg-gray-900">{r}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            {user.disabled ? (
+                                                <span className="text-red-400 text-xs border border-red-500/30 bg-red-500/10 px-2 py-0.5 rounded">disabled</span>
+                                            ) : (
+                                                <span className="text-green-400 text-xs border border-green-500/30 bg-green-500/10 px-2 py-0.5 rounded">active</span>
+                                            )}
+                                        </td>
+                                        <td className="px-6 py-4 text-sm text-white/60">
+                                            {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : "-"}
+                                        </td>
+                                        <td className="px-6 py-4">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <button
+                                                    onClick={() => handleResetPassword(user)}
+                                                    disabled={busy === user.id}
+                                                    className="px-3 py-1 bg-white/5 hover:bg-white/10 border border-white/10 rounded text-xs transition disabled:opacity-50"
+                                                >
+                                                    🔑 Password
+                                                </button>
+                                                <button
+                                                    onClick={() => updateUser(user.id, { disabled: !user.disabled })}
+                                                    disabled={busy === user.id}
+                                                    className="px-3 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 border border-yellow-500/30 rounded text-xs transition disabled:opacity-50"
+                                                >
+                                                    {user.disabled ? "Enable" : "Disable"}
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(user)}
+                                                    disabled={busy === user.id}
+                                                    className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 rounded text-xs transition disabled:opacity-50"
+                                                >
+                                                    {busy === user.id ? "..." : "🗑️ Delete"}
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
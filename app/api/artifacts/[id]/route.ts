@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import { readCheckArtifact } from "@/lib/monitoring/checkArtifacts";
+import { getSessionUser } from "@/lib/auth/session";
+import { hasRole, isAuthDisabled } from "@/lib/auth/roles";
+import { handleAPIError, notFoundError } from "@/lib/utils/api-helpers";
+
+/**
+ * Check Artifact Download
+ * GET /api/artifacts/[id]
+ * Screenshot, page HTML or HAR captured by a failed browser check
+ *
+ * Screenshots are served inline; HTML and HAR come from the monitored site,
+ * so they are sent as sandboxed attachments and never rendered on our origin.
+ * HARs show the monitored site's traffic and are admin-only.
+ */
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        await connectDB();
+
+        const stored = await readCheckArtifact(params.id);
+        if (!stored) {
+            return notFoundError("Artifact", params.id);
+        }
+
+        const { artifact, filename, data } = stored;
+
+        if (artifact.kind === "har" && !isAuthDisabled() && !hasRole((await getSessionUser())?.role, "admin")) {
+            return NextResponse.json({ success: false, error: "Requires admin role" }, { status: 403 });
+        }
+        const inline = artifact.kind === "screenshot";
+
+        return new NextResponse(new Uint8Array(data), {
+            headers: {
+                "Content-Type": artifact.contentType,
+                "Content-Length": String(data.length),
+                "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${filename}"`,
+                "Content-Security-Policy": "sandbox",
+                "X-Content-Type-Options": "nosniff",
+                "Cache-Control": "private, max-age=86400, immutable",
+            },
+        });
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/artifacts/[id]', artifactId: params.id });
+    }
+}
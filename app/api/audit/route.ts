@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import AuditEventModel from "@/lib/db/models/AuditEvent";
+import { toAuditEventData } from "@/lib/audit/auditLog";
+import { AuditAction, AuditSource, AuditTargetType } from "@/types";
+import { handleAPIError, successResponse, validationError } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/audit
+ * List configuration changes, newest first (admin role)
+ *
+ * Query params:
+ * - actor: username
+ * - action: e.g. node.update, or a prefix like "node" / "maintenance"
+ * - source: ui | api | sheets_sync | config
+ * - targetType: node | group | user | maintenance | sheets
+ * - targetId: node/user id or group name
+ * - from, to: ISO dates (createdAt range)
+ * - before: ISO date, returns events older than this (paging)
+ * - limit: max results (default 50, max 200)
+ */
+
+const ACTIONS: AuditAction[] = [
+    "node.create",
+    "node.update",
+    "node.delete",
+    "node.bulk_auth",
+    "group_policy.update",
+    "group_policy.delete",
+    "maintenance.create",
+    "maintenance.update",
+    "maintenance.delete",
+    "user.create",
+    "user.update",
+    "user.delete",
+    "sheets_config.update",
+    "sheet_source.create",
+    "sheet_source.update",
+    "sheet_source.delete",
+];
+const SOURCES: AuditSource[] = ["ui", "api", "sheets_sync", "config"];
+const TARGET_TYPES: AuditTargetType[] = ["node", "group", "user", "maintenance", "sheets"];
+
+function parseDate(value: string | null): Date | null | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const actor = searchParams.get("actor");
+        const action = searchParams.get("action");
+        const source = searchParams.get("source");
+        const targetType = searchParams.get("targetType");
+        const targetId = searchParams.get("targetId");
+        const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 50, 1), 200);
+
+        const filter: Record<string, any> = {};
+
+        if (actor) {
+            filter.actor = actor.trim().toLowerCase();
+        }
+
+        if (action) {
+            const matching = ACTIONS.filter((candidate) => candidate === action || candidate.startsWith(`${action}.`));
+            if (matching.length === 0) {
+                return validationError(`Action must be one of: ${ACTIONS.join(", ")}`, "action");
+            }
+            filter.action = { $in: matching };
+        }
+
+        if (source) {
+            if (!SOURCES.includes(source as AuditSource)) {
+                return validationError(`Source must be one of: ${SOURCES.join(", ")}`, "source");
+            }
+            filter.source = source;
+        }
+
+        if (targetType) {
+            if (!TARGET_TYPES.includes(targetType as AuditTargetType)) {
+                return validationError(`Target type must be one of: ${TARGET_TYPES.join(", ")}`, "targetType");
+            }
+            filter.targetType = targetType;
+        }
+
+        if (targetId) {
+            filter.targetId = targetId;
+        }
+
+        const createdAt: Record<string, Date> = {};
+        for (const [param, operator] of [["from", "$gte"], ["to", "$lte"], ["before", "$lt"]] as const) {
+            const date = parseDate(searchParams.get(param));
+            if (date === null) {
+                return validationError(`${param} must be an ISO date`, param);
+            }
+            if (date) {
+                createdAt[operator] = date;
+            }
+        }
+        if (Object.keys(createdAt).length > 0) {
+            filter.createdAt = createdAt;
+        }
+
+        await connectDB();
+
+        const events = await AuditEventModel.find(filter)
+            .sort({ createdAt: -1 })
+            .limit(limit)
+            .lean();
+
+        return successResponse(events.map(toAuditEventData));
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/audit' });
+    }
+}
@@ -0,0 +1,7 @@
+import { handlers } from "@/auth";
+
+/**
+ * Auth.js endpoints (sign in, sign out, session)
+ * GET/POST /api/auth/*
+ */
+export const { GET, POST } = handlers;
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import { exportMonitoringConfig, stringifyMonitoringConfig } from "@/lib/services/monitoringConfig";
+import { handleAPIError, validationError } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/config/export
+ * Live nodes and group policies as a monitoring configuration file (admin role)
+ *
+ * Query params:
+ * - format: yaml (default) | json
+ *
+ * Secrets are exported as { env: NAME } references; set those variables
+ * before importing the file. Google Sheets nodes are left out.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const format = new URL(request.url).searchParams.get("format") || "yaml";
+        if (format !== "yaml" && format !== "json") {
+            return validationError("format must be yaml or json", "format");
+        }
+
+        await connectDB();
+
+        const body = stringifyMonitoringConfig(await exportMonitoringConfig(), format);
+
+        return new NextResponse(body, {
+            headers: {
+                "Content-Type": format === "json" ? "application/json; charset=utf-8" : "application/yaml; charset=utf-8",
+                "Content-Disposition": `attachment; filename="monitoring.${format}"`,
+            },
+        });
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/config/export' });
+    }
+}
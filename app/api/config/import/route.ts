@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import {
+    applyMonitoringConfig,
+    ConfigFormatError,
+    loadConfigState,
+    parseMonitoringConfig,
+    planMonitoringConfig,
+    validateMonitoringConfig,
+} from "@/lib/services/monitoringConfig";
+import { getAuditContext } from "@/lib/audit/auditLog";
+import { handleAPIError, successResponse, validationError } from "@/lib/utils/api-helpers";
+
+/**
+ * POST /api/config/import
+ * Apply a monitoring configuration file (admin role)
+ * The body is the file itself, YAML or JSON
+ *
+ * Query params:
+ * - dryRun=true: only return the plan
+ * - prune=true: delete config nodes and group policies missing from the file
+ *
+ * Secret references ({ env: NAME }) are resolved from the server environment;
+ * only HEARTBEAT_SECRET_* names are accepted.
+ * A plan with errors is returned with 400 and nothing is applied.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const dryRun = searchParams.get("dryRun") === "true";
+        const prune = searchParams.get("prune") === "true";
+
+        const text = await request.text();
+        if (!text.trim()) {
+            return validationError("Request body must be a YAML or JSON configuration file");
+        }
+
+        let raw: unknown;
+        try {
+            raw = parseMonitoringConfig(text);
+        } catch (error: any) {
+            if (error instanceof ConfigFormatError) {
+                return validationError(error.message);
+            }
+            throw error;
+        }
+
+        const { config, errors } = validateMonitoringConfig(raw);
+
+        await connectDB();
+
+        const { plan, actions } = planMonitoringConfig(config, await loadConfigState(), { prune, errors });
+
+        if (plan.errors.length > 0) {
+            return NextResponse.json({
+                success: false,
+                error: "Invalid configuration",
+                message: `Configuration has ${plan.errors.length} error(s), nothing was applied`,
+                data: plan,
+            }, { status: 400 });
+        }
+
+        if (dryRun) {
+            return successResponse({ dryRun: true, ...plan });
+        }
+
+        const result = await applyMonitoringConfig(plan, actions, { ...(await getAuditContext(request)), source: "config" });
+
+        return successResponse({ ...plan, result }, "Configuration applied");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'POST /api/config/import' });
+    }
+}
@@ -1,7 +1,19 @@
+import crypto from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db/mongoose";
-import NodeModel from "@/lib/db/models/Node";
-import { performHealthCheck, shouldTriggerAlert } from "@/lib/monitoring/healthCheck";
+import { runScheduledChecks } from "@/lib/monitoring/scheduler";
+
+/**
+ * Bearer token must match CRON_SECRET; without CRON_SECRET nothing matches
+ */
+function isAuthorizedCronRequest(request: NextRequest): boolean {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) return false;
+
+    const expected = Buffer.from(`Bearer ${cronSecret}`);
+    const received = Buffer.from(request.headers.get("authorization") || "");
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
 
 /**
  * POST /api/cron/check
@@ -9,14 +21,28 @@ import { performHealthCheck, shouldTriggerAlert } from "@/lib/monitoring/healthC
  * Triggered by Vercel Cron or manual invocation
  * 
  * BACKEND ONLY - Performs health checks and updates node status
+ * Only nodes whose nextCheckAt has passed are checked (see lib/monitoring/checkSchedule.ts).
+ * Checks run in parallel pools within a time budget (see lib/monitoring/checkRunner.ts);
+ * nodes not reached are checked first on the next invocation
+ *
+ * Requires `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET the
+ * endpoint refuses every request
  */
 export async function POST(request: NextRequest) {
     try {
-        // Verify cron secret for security
-        const authHeader = request.headers.get("authorization");
-        const cronSecret = process.env.CRON_SECRET;
+        if (!process.env.CRON_SECRET) {
+            console.error("CRON_SECRET is not set, refusing cron request");
+            return NextResponse.json(
+                {
+                    success: false,
+                    error: "Cron endpoint disabled: CRON_SECRET is not configured",
+                },
+                { status: 503 }
+            );
+        }
 
-        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+        // Verify cron secret for security
+        if (!isAuthorizedCronRequest(request)) {
             return NextResponse.json(
                 {
                     success: false,
@@ -28,77 +54,28 @@ export async function POST(request: NextRequest) {
 
         await connectDB();
 
-        // Fetch all nodes
-        const nodes = await NodeModel.find({});
+        const { results, run, rollups, sheetSyncs, sheetWriteback } = await runScheduledChecks();
 
-        if (nodes.length === 0) {
+        if (run.due === 0) {
             return NextResponse.json({
                 success: true,
-                message: "No nodes to check",
+                message: "No nodes due for checking",
                 checked: 0,
+                rollups,
+                sheetSyncs,
             });
         }
 
-        const results = {
-            checked: 0,
-            updated: 0,
-            errors: 0,
-            alerts: [] as { nodeId: string; name: string; oldStatus: string; newStatus: string }[],
-        };
-
-        // Perform health checks for all nodes
-        for (const node of nodes) {
-            try {
-                // Perform health check with auth config if available
-                const healthResult = await performHealthCheck(
-                    node.url,
-                    node.authConfig, // Pass auth config if exists
-                    15000 // 15 second timeout
-                );
-
-                const oldStatus = node.status;
-                const newStatus = healthResult.status;
-
-                // Update node
-                node.status = newStatus;
-                node.latency = healthResult.latency;
-                node.httpStatus = healthResult.httpStatus;
-                node.lastChecked = new Date();
-                
-                // Add to history using schema method (maintains max 20)
-                (node as any).addLatencyToHistory(healthResult.latency);
-                
-                // Update status message
-                if (healthResult.error) {
-                    node.statusMessage = healthResult.error;
-                } else {
-                    node.statusMessage = undefined;
-                }
-
-                await node.save();
-
-                results.checked++;
-                results.updated++;
-
-                // Check if alert should be triggered
-                if (shouldTriggerAlert(oldStatus, newStatus)) {
-                    results.alerts.push({
-                        nodeId: node._id.toString(),
-                        name: node.name,
-                        oldStatus,
-                        newStatus,
-                    });
-                }
-            } catch (error: any) {
-                console.error(`Error checking node ${node.name}:`, error);
-                results.errors++;
-            }
-        }
-
         return NextResponse.json({
             success: true,
-            message: "Health check completed",
+            message: run.budgetExhausted
+                ? `Health check stopped at time budget, ${run.remaining} node(s) deferred to next run`
+                : "Health check completed",
             results,
+            run,
+            rollups,
+            sheetSyncs,
+            sheetWriteback,
             timestamp: new Date().toISOString(),
         });
     } catch (error: any) {
@@ -0,0 +1,103 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import SheetsConfigModel from "@/lib/db/models/SheetsConfig";
+import {
+    DEFAULT_SHEET_COLUMN_MAPPING,
+    loadColumnMapping,
+    SHEET_COLUMN_FIELDS,
+    validateColumnMapping,
+} from "@/lib/services/sheetMapping";
+import { logger } from "@/lib/utils/logger";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import { handleAPIError, parseRequestBody, successResponse, validationError } from "@/lib/utils/api-helpers";
+import { SheetColumnMapping } from "@/types";
+
+/**
+ * Google Sheets Import Settings
+ * GET    /api/google-sheets/config - Column mapping in effect and where it comes from
+ * PUT    /api/google-sheets/config - Store a column mapping (overrides GOOGLE_SHEET_COLUMNS)
+ * DELETE /api/google-sheets/config - Fall back to GOOGLE_SHEET_COLUMNS / the legacy layout
+ */
+
+async function currentConfig() {
+    const { mapping, source } = await loadColumnMapping();
+    return {
+        columnMapping: mapping,
+        source,
+        fields: SHEET_COLUMN_FIELDS,
+        defaults: DEFAULT_SHEET_COLUMN_MAPPING,
+    };
+}
+
+async function auditMappingChange(request: NextRequest, before: unknown, after: unknown) {
+    const changes = diffSnapshots(
+        toAuditSnapshot({ columnMapping: before }, ["columnMapping"]),
+        toAuditSnapshot({ columnMapping: after }, ["columnMapping"])
+    );
+    if (changes.length === 0) return;
+
+    await recordAuditEvent({
+        ...(await getAuditContext(request)),
+        action: "sheets_config.update",
+        targetType: "sheets",
+        targetId: "default",
+        targetName: "Google Sheets column mapping",
+        changes,
+    });
+}
+
+export async function GET() {
+    try {
+        await connectDB();
+        return successResponse(await currentConfig());
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/google-sheets/config' });
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const body = await parseRequestBody<{ columnMapping?: SheetColumnMapping }>(request);
+
+        const mappingError = validateColumnMapping(body.columnMapping);
+        if (mappingError) {
+            return validationError(mappingError, "columnMapping");
+        }
+
+        const columnMapping = Object.fromEntries(
+            Object.entries(body.columnMapping!).map(([field, column]) => [field, column!.trim()])
+        ) as SheetColumnMapping;
+
+        await connectDB();
+
+        const previous = await SheetsConfigModel.findOne({ key: "default" }).lean();
+
+        await SheetsConfigModel.findOneAndUpdate(
+            { key: "default" },
+            { key: "default", columnMapping },
+            { upsert: true, setDefaultsOnInsert: true }
+        );
+
+        logger.info('Sheets column mapping updated', { columnMapping });
+        await auditMappingChange(request, previous?.columnMapping, columnMapping);
+
+        return successResponse(await currentConfig(), 'Column mapping updated');
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'PUT /api/google-sheets/config' });
+    }
+}
+
+export async function DELETE(request: NextRequest) {
+    try {
+        await connectDB();
+
+        const previous = await SheetsConfigModel.findOneAndDelete({ key: "default" }).lean();
+
+        logger.info('Sheets column mapping removed');
+        await auditMappingChange(request, previous?.columnMapping, undefined);
+
+        return successResponse(await currentConfig(), 'Column mapping removed');
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'DELETE /api/google-sheets/config' });
+    }
+}
@@ -0,0 +1,130 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import SheetSourceModel from "@/lib/db/models/SheetSource";
+import {
+    normalizeSheetSource,
+    SHEET_SOURCE_AUDIT_FIELDS,
+    toSheetSourceData,
+    validateSheetSource,
+} from "@/lib/services/sheetSources";
+import { logger } from "@/lib/utils/logger";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import {
+    conflictError,
+    handleAPIError,
+    notFoundError,
+    parseRequestBody,
+    successResponse,
+    validationError,
+} from "@/lib/utils/api-helpers";
+
+/**
+ * Single Google Sheets Sync Source
+ * GET    /api/google-sheets/sources/[id] - Source with its last sync status and row errors
+ * PUT    /api/google-sheets/sources/[id] - Update a source (admin role, fields not sent are kept)
+ * DELETE /api/google-sheets/sources/[id] - Remove a source (admin role)
+ *
+ * Nodes of a deleted source are kept; they are no longer synced or written back.
+ */
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        await connectDB();
+
+        const source = await SheetSourceModel.findById(params.id).lean();
+        if (!source) {
+            return notFoundError("Sheet source", params.id);
+        }
+
+        return successResponse(toSheetSourceData(source));
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/google-sheets/sources/[id]', sourceId: params.id });
+    }
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const body = await parseRequestBody<any>(request);
+
+        await connectDB();
+
+        const source = await SheetSourceModel.findById(params.id);
+        if (!source) {
+            return notFoundError("Sheet source", params.id);
+        }
+
+        const before = toAuditSnapshot(source, SHEET_SOURCE_AUDIT_FIELDS);
+        const merged = { ...before, ...body };
+
+        const validationMessage = validateSheetSource(merged);
+        if (validationMessage) {
+            return validationError(validationMessage);
+        }
+
+        const fields = normalizeSheetSource(merged);
+        if (fields.name !== source.name && await SheetSourceModel.exists({ name: fields.name })) {
+            return conflictError("A sheet source with this name already exists", { name: fields.name });
+        }
+
+        // A new sheet or interval takes effect on the next scheduled run
+        const retarget = fields.spreadsheetId !== source.spreadsheetId || fields.sheetName !== source.sheetName;
+        source.set(fields);
+        if (retarget || fields.intervalMinutes !== before.intervalMinutes || (fields.enabled && !before.enabled)) {
+            source.nextSyncAt = undefined;
+        }
+        await source.save();
+
+        logger.info('Sheet source updated', { sourceId: params.id, name: source.name });
+
+        const changes = diffSnapshots(before, toAuditSnapshot(source, SHEET_SOURCE_AUDIT_FIELDS));
+        if (changes.length > 0) {
+            await recordAuditEvent({
+                ...(await getAuditContext(request)),
+                action: "sheet_source.update",
+                targetType: "sheets",
+                targetId: params.id,
+                targetName: source.name,
+                changes,
+            });
+        }
+
+        return successResponse(toSheetSourceData(source), "Sheet source updated");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'PUT /api/google-sheets/sources/[id]', sourceId: params.id });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        await connectDB();
+
+        const source = await SheetSourceModel.findByIdAndDelete(params.id).lean();
+        if (!source) {
+            return notFoundError("Sheet source", params.id);
+        }
+
+        logger.info('Sheet source deleted', { sourceId: params.id, name: source.name });
+
+        await recordAuditEvent({
+            ...(await getAuditContext(request)),
+            action: "sheet_source.delete",
+            targetType: "sheets",
+            targetId: params.id,
+            targetName: source.name,
+            changes: diffSnapshots(toAuditSnapshot(source, SHEET_SOURCE_AUDIT_FIELDS), {}),
+        });
+
+        return successResponse({ id: params.id }, "Sheet source deleted");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'DELETE /api/google-sheets/sources/[id]', sourceId: params.id });
+    }
+}
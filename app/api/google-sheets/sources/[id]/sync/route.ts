@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import SheetSourceModel from "@/lib/db/models/SheetSource";
+import { runSheetSource } from "@/lib/services/sheetSources";
+import { getAuditContext } from "@/lib/audit/auditLog";
+import { handleAPIError, notFoundError, parseRequestBody, successResponse } from "@/lib/utils/api-helpers";
+
+/**
+ * POST /api/google-sheets/sources/[id]/sync
+ * Sync one sheet source now (operator role), same rules as the scheduled sync
+ *
+ * Body:
+ * - dryRun: only return the planned adds / updates / deletes
+ * - force: apply even when over GOOGLE_SHEET_SYNC_MAX_DELETE_PERCENT (otherwise 409 with the plan)
+ * - deleteOrphaned: overrides the source setting for this sync
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const body = await parseRequestBody<{ dryRun?: boolean; force?: boolean; deleteOrphaned?: boolean }>(request);
+
+        await connectDB();
+
+        const source = await SheetSourceModel.findById(params.id).lean();
+        if (!source) {
+            return notFoundError("Sheet source", params.id);
+        }
+
+        const { actor } = await getAuditContext(request);
+        const outcome = await runSheetSource(source, {
+            dryRun: !!body.dryRun,
+            force: !!body.force,
+            deleteOrphaned: typeof body.deleteOrphaned === "boolean" ? body.deleteOrphaned : undefined,
+            actor,
+        });
+
+        if (outcome.status === "error") {
+            return NextResponse.json({
+                success: false,
+                error: "Sync failed",
+                message: outcome.error,
+            }, { status: 502 });
+        }
+
+        if (outcome.status === "blocked") {
+            return NextResponse.json({
+                success: false,
+                error: "Mass deletion blocked",
+                message: `${outcome.error}. Review the plan and retry with force: true.`,
+                data: outcome.plan,
+            }, { status: 409 });
+        }
+
+        if (body.dryRun) {
+            return successResponse({ dryRun: true, ...outcome.plan! });
+        }
+
+        const result = outcome.result!;
+        return successResponse({
+            added: result.added,
+            updated: result.updated,
+            deleted: result.deleted,
+            invalid: new Set(result.errors.map((rowError) => rowError.row)).size,
+            errors: result.errors,
+            addedUrls: result.addedUrls,
+            deletedUrls: result.deletedUrls,
+            timestamp: new Date().toISOString(),
+        }, "Sheet source synced");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'POST /api/google-sheets/sources/[id]/sync', sourceId: params.id });
+    }
+}
@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import SheetSourceModel from "@/lib/db/models/SheetSource";
+import {
+    normalizeSheetSource,
+    SHEET_SOURCE_AUDIT_FIELDS,
+    toSheetSourceData,
+    validateSheetSource,
+} from "@/lib/services/sheetSources";
+import { logger } from "@/lib/utils/logger";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import {
+    conflictError,
+    handleAPIError,
+    parseRequestBody,
+    successResponse,
+    validationError,
+} from "@/lib/utils/api-helpers";
+
+/**
+ * Google Sheets Sync Sources (see lib/services/sheetSources.ts)
+ * GET  /api/google-sheets/sources - List sources with their last sync status
+ * POST /api/google-sheets/sources - Add a source (admin role); it syncs on the next scheduled run
+ *
+ * Body: { name, spreadsheetId, sheetName, columnMapping?: { url: "URL", ... },
+ *         defaultGroup?: "website", intervalMinutes?: 15, enabled?: true, deleteOrphaned?: false }
+ */
+
+export async function GET() {
+    try {
+        await connectDB();
+
+        const sources = await SheetSourceModel.find({}).sort({ name: 1 }).lean();
+
+        return successResponse(sources.map(toSheetSourceData));
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/google-sheets/sources' });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await parseRequestBody<any>(request);
+
+        const validationMessage = validateSheetSource(body);
+        if (validationMessage) {
+            return validationError(validationMessage);
+        }
+
+        await connectDB();
+
+        const fields = normalizeSheetSource(body);
+        if (await SheetSourceModel.exists({ name: fields.name })) {
+            return conflictError("A sheet source with this name already exists", { name: fields.name });
+        }
+
+        const source = await SheetSourceModel.create(fields);
+
+        logger.info('Sheet source created', { sourceId: source._id.toString(), name: source.name });
+
+        await recordAuditEvent({
+            ...(await getAuditContext(request)),
+            action: "sheet_source.create",
+            targetType: "sheets",
+            targetId: source._id.toString(),
+            targetName: source.name,
+            changes: diffSnapshots({}, toAuditSnapshot(source, SHEET_SOURCE_AUDIT_FIELDS)),
+        });
+
+        return successResponse(toSheetSourceData(source), "Sheet source created", 201);
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'POST /api/google-sheets/sources' });
+    }
+}
@@ -1,17 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db/mongoose";
-import NodeModel from "@/lib/db/models/Node";
 import { googleSheetsService } from "@/lib/services/googleSheets";
+import { loadColumnMapping, SheetMappingError } from "@/lib/services/sheetMapping";
+import { runSheetSync } from "@/lib/services/sheetSync";
+import { getAuditContext } from "@/lib/audit/auditLog";
 
 /**
  * POST /api/google-sheets/sync
- * Sync URLs from Google Spreadsheet to database
- * - Adds new URLs from sheet
- * - Optionally removes URLs not in sheet (if source = google_sheets)
+ * Sync URLs from Google Spreadsheet (GOOGLE_SPREADSHEET_ID) to database (see lib/services/sheetSync.ts)
+ * Sheet sources are synced by the server, see /api/google-sheets/sources
+ * - Adds new URLs from sheet, with the fields of the column mapping
+ *   (see lib/services/sheetMapping.ts); dependencies are linked by node name
+ * - Updates nodes that came from the sheet; manually added nodes are left alone
+ * - Optionally removes sheet nodes that are no longer in the sheet
+ * - Invalid rows are reported in `errors` by sheet row number
+ *
+ * Body:
+ * - deleteOrphaned: delete sheet nodes missing from the sheet (default true)
+ * - dryRun: only return the planned adds / updates / deletes
+ * - force: apply even when more than GOOGLE_SHEET_SYNC_MAX_DELETE_PERCENT
+ *   of the sheet nodes would be deleted (otherwise 409 with the plan)
  */
 export async function POST(request: NextRequest) {
     try {
-        const { deleteOrphaned = true } = await request.json();
+        const { deleteOrphaned = true, dryRun = false, force = false } = await request.json();
 
         // Check if MongoDB is configured
         if (!process.env.MONGODB_URI) {
@@ -33,119 +45,44 @@ export async function POST(request: NextRequest) {
 
         await connectDB();
 
-        // Fetch URLs from Google Sheets
-        const sheetUrls = await googleSheetsService.fetchMonitoringUrls();
+        const { actor } = await getAuditContext(request);
 
-        if (sheetUrls.length === 0) {
+        // Fetch URLs from Google Sheets and compare with the nodes of this sheet
+        const { mapping, source: mappingSource } = await loadColumnMapping();
+        const { plan, result, blocked } = await runSheetSync(
+            { sheets: googleSheetsService, mapping },
+            { deleteOrphaned: !!deleteOrphaned, dryRun: !!dryRun, force: !!force, actor }
+        );
+
+        if (dryRun) {
             return NextResponse.json({
                 success: true,
-                data: {
-                    totalInSheet: 0,
-                    added: 0,
-                    deleted: 0,
-                    skipped: 0,
-                    message: "No URLs found in spreadsheet"
-                }
+                data: { dryRun: true, mappingSource, ...plan }
             });
         }
 
-        // Get existing nodes from database
-        const existingNodes = await NodeModel.find({}).lean();
-        
-        // Helper to normalize URL for comparison
-        const normalizeUrl = (url: string) => {
-            try {
-                // Remove trailing slash and lowercase
-                return url.trim().replace(/\/$/, "").toLowerCase();
-            } catch {
-                return url.trim().toLowerCase();
-            }
-        };
-        
-        // Pre-compute normalized existing URLs for O(1) lookup
-        const existingUrlSet = new Set(
-            existingNodes.map((node) => normalizeUrl(node.url))
-        );
-        
-        // Create Set of sheet URLs for comparison (normalized)
-        const sheetUrlSet = new Set(sheetUrls.map((item) => normalizeUrl(item.url)));
-
-        let addedCount = 0;
-        let skippedCount = 0;
-        let deletedCount = 0;
-        const addedUrls: any[] = [];
-        const deletedUrls: any[] = [];
-
-        // STEP 1: Add new URLs from sheet
-        for (const urlData of sheetUrls) {
-            // Check if URL exists using pre-computed normalized Set (O(1) lookup)
-            const normalizedUrl = normalizeUrl(urlData.url);
-            
-            if (existingUrlSet.has(normalizedUrl)) {
-                // console.log(`URL already exists, skipping:`, urlData.url);
-                skippedCount++;
-                continue;
-            }
-
-            try {
-                const newNode = await NodeModel.create({
-                    name: urlData.name,
-                    url: urlData.url,
-                    group: urlData.group,
-                    dependencies: [],
-                    status: "FRESH",
-                    latency: 0,
-                    history: [],
-                });
-
-                addedCount++;
-                addedUrls.push({
-                    name: urlData.name,
-                    url: urlData.url,
-                    row: urlData.sheetRow
-                });
-
-                console.log(`✅ Added URL from sheet:`, urlData.url);
-            } catch (error: any) {
-                // Handle duplicate name or other errors
-                if (error.code === 11000) {
-                    console.warn(`⚠️ Duplicate name, skipping:`, urlData.name);
-                    skippedCount++;
-                } else {
-                    console.error(`❌ Failed to add URL:`, urlData.url, error.message);
-                }
-            }
-        }
-
-        // STEP 2: Delete orphaned URLs (optional)
-        if (deleteOrphaned) {
-            for (const existingNode of existingNodes) {
-                // Only delete if URL is not in sheet (normalized check)
-                if (!sheetUrlSet.has(normalizeUrl(existingNode.url))) {
-                    try {
-                        await NodeModel.findByIdAndDelete(existingNode._id);
-                        deletedCount++;
-                        deletedUrls.push({
-                            name: existingNode.name,
-                            url: existingNode.url
-                        });
-                        console.log(`🗑️ Deleted URL not in sheet:`, existingNode.url);
-                    } catch (error: any) {
-                        console.error(`❌ Failed to delete URL:`, existingNode.url, error.message);
-                    }
-                }
-            }
+        if (blocked || !result) {
+            return NextResponse.json({
+                success: false,
+                error: "Mass deletion blocked",
+                message: `Sync would delete ${plan.deletes.length} node(s) (${plan.deletePercent}% of sheet nodes, limit ${plan.maxDeletePercent}%). Review the plan and retry with force: true.`,
+                data: { mappingSource, ...plan },
+            }, { status: 409 });
         }
 
         const summary = {
-            totalInSheet: sheetUrls.length,
-            totalInDatabase: existingNodes.length,
-            added: addedCount,
-            deleted: deletedCount,
-            skipped: skippedCount,
-            addedUrls: addedUrls,
-            deletedUrls: deletedUrls,
-            syncedCount: addedCount + deletedCount,
+            totalInSheet: plan.totalInSheet,
+            totalInDatabase: plan.totalInDatabase,
+            added: result.added,
+            updated: result.updated,
+            deleted: result.deleted,
+            skipped: plan.unchanged + plan.manual,
+            invalid: new Set(result.errors.map((rowError) => rowError.row)).size,
+            errors: result.errors,
+            mappingSource,
+            addedUrls: result.addedUrls,
+            deletedUrls: result.deletedUrls,
+            syncedCount: result.added + result.updated + result.deleted,
             timestamp: new Date().toISOString()
         };
 
@@ -157,6 +94,14 @@ export async function POST(request: NextRequest) {
         });
 
     } catch (error: any) {
+        if (error instanceof SheetMappingError) {
+            return NextResponse.json({
+                success: false,
+                error: "Invalid column mapping",
+                message: error.message,
+            }, { status: 400 });
+        }
+
         console.error('❌ Sync failed:', error);
         return NextResponse.json({
             success: false,
@@ -0,0 +1,140 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import GroupPolicyModel from "@/lib/db/models/GroupPolicy";
+import { DEFAULT_CHECK_POLICY, resolveCheckPolicy, validateCheckPolicy } from "@/lib/monitoring/statusEvaluation";
+import { validateNodeGroup } from "@/lib/utils/validation";
+import { logger } from "@/lib/utils/logger";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import { handleAPIError, parseRequestBody, successResponse, validationError } from "@/lib/utils/api-helpers";
+import { CheckPolicy } from "@/types";
+
+/**
+ * Group Check Policy
+ * GET    /api/groups/[group]/policy - Stored overrides and effective policy
+ * PUT    /api/groups/[group]/policy - Replace the group's overrides
+ * DELETE /api/groups/[group]/policy - Fall back to defaults
+ */
+
+function parseGroup(params: { group: string }) {
+    const group = params.group.toLowerCase();
+    const validation = validateNodeGroup(group);
+    return { group, error: validation.valid ? null : validation.error || "Invalid group" };
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { group: string } }
+) {
+    try {
+        const { group, error } = parseGroup(params);
+        if (error) {
+            return validationError(error, "group");
+        }
+
+        await connectDB();
+
+        const doc = await GroupPolicyModel.findOne({ group }).lean();
+
+        return successResponse({
+            group,
+            checkPolicy: doc?.checkPolicy || {},
+            effective: resolveCheckPolicy(doc?.checkPolicy),
+            defaults: DEFAULT_CHECK_POLICY,
+        });
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/groups/[group]/policy', group: params.group });
+    }
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { group: string } }
+) {
+    try {
+        const { group, error } = parseGroup(params);
+        if (error) {
+            return validationError(error, "group");
+        }
+
+        const body = await parseRequestBody<{ checkPolicy?: Partial<CheckPolicy> }>(request);
+        const checkPolicy = body.checkPolicy || {};
+
+        const policyError = validateCheckPolicy(checkPolicy);
+        if (policyError) {
+            return validationError(policyError, "checkPolicy");
+        }
+
+        await connectDB();
+
+        const previous = await GroupPolicyModel.findOne({ group }).lean();
+
+        const doc = await GroupPolicyModel.findOneAndUpdate(
+            { group },
+            { group, checkPolicy },
+            { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        ).lean();
+
+        logger.info('Group check policy updated', { group, checkPolicy });
+
+        const changes = diffSnapshots(
+            toAuditSnapshot(previous, ["checkPolicy"]),
+            toAuditSnapshot(doc, ["checkPolicy"])
+        );
+        if (changes.length > 0) {
+            await recordAuditEvent({
+                ...(await getAuditContext(request)),
+                action: "group_policy.update",
+                targetType: "group",
+                targetId: group,
+                targetName: group,
+                changes,
+            });
+        }
+
+        return successResponse({
+            group,
+            checkPolicy: doc?.checkPolicy || {},
+            effective: resolveCheckPolicy(doc?.checkPolicy),
+            defaults: DEFAULT_CHECK_POLICY,
+        }, 'Group policy updated');
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'PUT /api/groups/[group]/policy', group: params.group });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { group: string } }
+) {
+    try {
+        const { group, error } = parseGroup(params);
+        if (error) {
+            return validationError(error, "group");
+        }
+
+        await connectDB();
+        const previous = await GroupPolicyModel.findOneAndDelete({ group }).lean();
+
+        logger.info('Group check policy removed', { group });
+
+        if (previous) {
+            await recordAuditEvent({
+                ...(await getAuditContext(request)),
+                action: "group_policy.delete",
+                targetType: "group",
+                targetId: group,
+                targetName: group,
+                changes: diffSnapshots(toAuditSnapshot(previous, ["checkPolicy"]), {}),
+            });
+        }
+
+        return successResponse({
+            group,
+            checkPolicy: {},
+            effective: DEFAULT_CHECK_POLICY,
+            defaults: DEFAULT_CHECK_POLICY,
+        }, 'Group policy removed');
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'DELETE /api/groups/[group]/policy', group: params.group });
+    }
+}
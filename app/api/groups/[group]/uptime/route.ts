@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import NodeModel from "@/lib/db/models/Node";
+import { getNodeUptime, mergeUptimeStats, isUptimeWindow, UPTIME_WINDOWS } from "@/lib/monitoring/uptime";
+import { validateNodeGroup } from "@/lib/utils/validation";
+import { handleAPIError, successResponse, validationError } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/groups/[group]/uptime?window=24h|7d|30d|90d
+ * SLA summary for a NodeGroup: aggregate uptime plus per-node breakdown
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { group: string } }
+) {
+    try {
+        const window = new URL(request.url).searchParams.get("window") || "24h";
+        const group = params.group.toLowerCase();
+
+        if (!isUptimeWindow(window)) {
+            return validationError(`Window must be one of: ${Object.keys(UPTIME_WINDOWS).join(", ")}`, "window");
+        }
+
+        const groupValidation = validateNodeGroup(group);
+        if (!groupValidation.valid) {
+            return validationError(groupValidation.error || "Invalid group", "group");
+        }
+
+        await connectDB();
+
+        const nodes = await NodeModel.find({ group }).select("name").sort({ name: 1 }).lean();
+
+        // Same `now` for every node so the windows line up
+        const now = new Date();
+        const from = new Date(now.getTime() - UPTIME_WINDOWS[window]);
+
+        const perNode = await Promise.all(
+            nodes.map(async (node) => ({
+                nodeId: node._id.toString(),
+                name: node.name,
+                ...(await getNodeUptime(node._id, window, now)),
+            }))
+        );
+
+        return successResponse({
+            group,
+            windowName: window,
+            nodeCount: nodes.length,
+            summary: mergeUptimeStats(perNode, from, now),
+            nodes: perNode,
+        });
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/groups/[group]/uptime', group: params.group });
+    }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import GroupPolicyModel from "@/lib/db/models/GroupPolicy";
+import { DEFAULT_CHECK_POLICY, resolveCheckPolicy } from "@/lib/monitoring/statusEvaluation";
+import { handleAPIError, successResponse } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/groups/policies
+ * All stored group check policies plus the global defaults
+ */
+export async function GET(request: NextRequest) {
+    try {
+        await connectDB();
+
+        const docs = await GroupPolicyModel.find({}).sort({ group: 1 }).lean();
+
+        return successResponse({
+            defaults: DEFAULT_CHECK_POLICY,
+            groups: docs.map((doc) => ({
+                group: doc.group,
+                checkPolicy: doc.checkPolicy || {},
+                effective: resolveCheckPolicy(doc.checkPolicy),
+                updatedAt: doc.updatedAt,
+            })),
+        });
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/groups/policies' });
+    }
+}
@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import IncidentModel from "@/lib/db/models/Incident";
+import { acknowledgeIncident, toIncidentData } from "@/lib/monitoring/incidents";
+import { sanitizeString } from "@/lib/utils/validation";
+import { getSessionUser } from "@/lib/auth/session";
+import {
+    handleAPIError,
+    successResponse,
+    notFoundError,
+    conflictError,
+    parseRequestBody,
+} from "@/lib/utils/api-helpers";
+
+/**
+ * POST /api/incidents/[id]/ack
+ * Acknowledge an active incident with an optional note (operator role)
+ *
+ * Body: { note?: string, actor?: string }
+ * The logged-in user is recorded as actor; `actor` is only used without a session
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        // Body is optional: acknowledging without a note is allowed
+        const body: { note?: string; actor?: string } = await parseRequestBody(request).catch(() => ({}));
+        const note = typeof body.note === "string" && body.note.trim() ? sanitizeString(body.note) : undefined;
+        const user = await getSessionUser();
+        const actor = user?.name
+            ?? (typeof body.actor === "string" && body.actor.trim() ? sanitizeString(body.actor) : undefined);
+
+        await connectDB();
+
+        const incident = await IncidentModel.findById(params.id);
+        if (!incident) {
+            return notFoundError("Incident", params.id);
+        }
+
+        if (incident.status === "RESOLVED") {
+            return conflictError("Incident is already resolved", { incidentId: params.id });
+        }
+
+        const updated = await acknowledgeIncident(incident, note, actor);
+
+        return successResponse(toIncidentData(updated), "Incident acknowledged");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'POST /api/incidents/[id]/ack', incidentId: params.id });
+    }
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import IncidentModel from "@/lib/db/models/Incident";
+import { toIncidentData } from "@/lib/monitoring/incidents";
+import { handleAPIError, successResponse, notFoundError } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/incidents/[id]
+ * Incident detail including full timeline
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        await connectDB();
+
+        const incident = await IncidentModel.findById(params.id).lean();
+        if (!incident) {
+            return notFoundError("Incident", params.id);
+        }
+
+        return successResponse(toIncidentData(incident));
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/incidents/[id]', incidentId: params.id });
+    }
+}
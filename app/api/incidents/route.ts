@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import IncidentModel from "@/lib/db/models/Incident";
+import { toIncidentData } from "@/lib/monitoring/incidents";
+import { IncidentStatus } from "@/types";
+import { handleAPIError, successResponse, validationError } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/incidents
+ * List incidents, newest first
+ *
+ * Query params:
+ * - status: OPEN | ACKNOWLEDGED | RESOLVED | active (OPEN + ACKNOWLEDGED)
+ * - nodeId: filter by node
+ * - limit: max results (default 50, max 200)
+ */
+
+const STATUSES: IncidentStatus[] = ["OPEN", "ACKNOWLEDGED", "RESOLVED"];
+
+export async function GET(request: NextRequest) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const status = searchParams.get("status");
+        const nodeId = searchParams.get("nodeId");
+        const limit = Math.min(Math.max(Number(searchParams.get("limit")) || 50, 1), 200);
+
+        const filter: Record<string, any> = {};
+
+        if (status === "active") {
+            filter.status = { $in: ["OPEN", "ACKNOWLEDGED"] };
+        } else if (status) {
+            if (!STATUSES.includes(status as IncidentStatus)) {
+                return validationError(`Status must be one of: ${[...STATUSES, "active"].join(", ")}`, "status");
+            }
+            filter.status = status;
+        }
+
+        if (nodeId) {
+            if (!/^[a-fA-F0-9]{24}$/.test(nodeId)) {
+                return validationError("Invalid node ID format", "nodeId");
+            }
+            filter.nodeId = nodeId;
+        }
+
+        await connectDB();
+
+        const incidents = await IncidentModel.find(filter)
+            .sort({ startedAt: -1 })
+            .limit(limit)
+            .lean();
+
+        return successResponse(incidents.map(toIncidentData));
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/incidents' });
+    }
+}
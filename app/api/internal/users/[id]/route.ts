@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadUserRole } from "@/lib/auth/users";
+import { USER_CHECK_HEADER, verifyUserCheck } from "@/lib/auth/userCheck";
+import { notFoundError, successResponse } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/internal/users/[id]
+ * Current role of a session user, for the session re-check in middleware.ts
+ * (edge, no database access; see lib/auth/userCheck.ts)
+ *
+ * Public in the access rules, authorized by a signature over the user id
+ * made with the auth secret. Disabled and deleted users are 404.
+ */
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    if (!(await verifyUserCheck(params.id, request.headers.get(USER_CHECK_HEADER)))) {
+        return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 });
+    }
+
+    const role = await loadUserRole(params.id);
+    if (role === undefined) {
+        return NextResponse.json({ success: false, error: "User store unavailable" }, { status: 503 });
+    }
+    if (role === null) {
+        return notFoundError("User", params.id);
+    }
+
+    return successResponse({ role });
+}
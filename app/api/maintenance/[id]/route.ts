@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import MaintenanceWindowModel from "@/lib/db/models/MaintenanceWindow";
+import {
+    MAINTENANCE_AUDIT_FIELDS,
+    normalizeMaintenanceWindow,
+    syncMaintenanceStatuses,
+    toMaintenanceWindowData,
+    validateMaintenanceWindow,
+} from "@/lib/monitoring/maintenance";
+import { logger } from "@/lib/utils/logger";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import {
+    handleAPIError,
+    notFoundError,
+    parseRequestBody,
+    successResponse,
+    validationError,
+} from "@/lib/utils/api-helpers";
+
+/**
+ * Single Maintenance Window (admin role)
+ * PUT    /api/maintenance/[id] - Update a window (fields not sent are kept)
+ * DELETE /api/maintenance/[id] - Remove a window
+ *
+ * Affected nodes enter or leave MAINTENANCE immediately.
+ */
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const body = await parseRequestBody<any>(request);
+
+        await connectDB();
+
+        const window = await MaintenanceWindowModel.findById(params.id);
+        if (!window) {
+            return notFoundError("Maintenance window", params.id);
+        }
+
+        const before = toAuditSnapshot(window, MAINTENANCE_AUDIT_FIELDS);
+        const merged = { ...before, ...body, scope: { ...(before.scope as object), ...body.scope } };
+
+        const validationMessage = validateMaintenanceWindow(merged);
+        if (validationMessage) {
+            return validationError(validationMessage);
+        }
+
+        window.set(normalizeMaintenanceWindow(merged));
+        await window.save();
+
+        logger.info('Maintenance window updated', { windowId: params.id, name: window.name });
+
+        const changes = diffSnapshots(before, toAuditSnapshot(window, MAINTENANCE_AUDIT_FIELDS));
+        if (changes.length > 0) {
+            await recordAuditEvent({
+                ...(await getAuditContext(request)),
+                action: "maintenance.update",
+                targetType: "maintenance",
+                targetId: params.id,
+                targetName: window.name,
+                changes,
+            });
+        }
+
+        await syncMaintenanceStatuses();
+
+        return successResponse(toMaintenanceWindowData(window), "Maintenance window updated");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'PUT /api/maintenance/[id]', windowId: params.id });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        await connectDB();
+
+        const window = await MaintenanceWindowModel.findByIdAndDelete(params.id).lean();
+        if (!window) {
+            return notFoundError("Maintenance window", params.id);
+        }
+
+        logger.info('Maintenance window deleted', { windowId: params.id, name: window.name });
+
+        await recordAuditEvent({
+            ...(await getAuditContext(request)),
+            action: "maintenance.delete",
+            targetType: "maintenance",
+            targetId: params.id,
+            targetName: window.name,
+            changes: diffSnapshots(toAuditSnapshot(window, MAINTENANCE_AUDIT_FIELDS), {}),
+        });
+
+        // Nodes that were only in this window return to their confirmed status
+        await syncMaintenanceStatuses();
+
+        return successResponse({ id: params.id }, "Maintenance window deleted");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'DELETE /api/maintenance/[id]', windowId: params.id });
+    }
+}
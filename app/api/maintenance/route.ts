@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import MaintenanceWindowModel from "@/lib/db/models/MaintenanceWindow";
+import {
+    MAINTENANCE_AUDIT_FIELDS,
+    normalizeMaintenanceWindow,
+    syncMaintenanceStatuses,
+    toMaintenanceWindowData,
+    validateMaintenanceWindow,
+} from "@/lib/monitoring/maintenance";
+import { logger } from "@/lib/utils/logger";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import { handleAPIError, parseRequestBody, successResponse, validationError } from "@/lib/utils/api-helpers";
+
+/**
+ * Maintenance Windows
+ * GET  /api/maintenance - List windows with their current state (active, activeUntil)
+ * POST /api/maintenance - Create a window (admin role)
+ *
+ * Body (once):      { name, schedule: "once", startsAt, endsAt, scope }
+ * Body (recurring): { name, schedule: "recurring", cron: "0 2 * * 0", durationMinutes: 60, timezone?: "Asia/Jakarta", scope }
+ * scope: { nodeIds?: string[], groups?: string[], tags?: string[] }
+ */
+
+export async function GET() {
+    try {
+        await connectDB();
+
+        const windows = await MaintenanceWindowModel.find({}).sort({ createdAt: -1 }).lean();
+        const now = new Date();
+
+        return successResponse(windows.map((window) => toMaintenanceWindowData(window, now)));
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/maintenance' });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await parseRequestBody<any>(request);
+
+        const validationMessage = validateMaintenanceWindow(body);
+        if (validationMessage) {
+            return validationError(validationMessage);
+        }
+
+        await connectDB();
+
+        const context = await getAuditContext(request);
+        const window = await MaintenanceWindowModel.create({
+            ...normalizeMaintenanceWindow(body),
+            createdBy: context.actor,
+        });
+
+        logger.info('Maintenance window created', { windowId: window._id.toString(), name: window.name });
+
+        await recordAuditEvent({
+            ...context,
+            action: "maintenance.create",
+            targetType: "maintenance",
+            targetId: window._id.toString(),
+            targetName: window.name,
+            changes: diffSnapshots({}, toAuditSnapshot(window, MAINTENANCE_AUDIT_FIELDS)),
+        });
+
+        // Nodes in scope switch to MAINTENANCE right away when the window is already active
+        await syncMaintenanceStatuses();
+
+        return successResponse(toMaintenanceWindowData(window), "Maintenance window created", 201);
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'POST /api/maintenance' });
+    }
+}
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import NodeModel from "@/lib/db/models/Node";
+import CheckResultModel from "@/lib/db/models/CheckResult";
+import { ARTIFACT_RETENTION_DAYS } from "@/lib/monitoring/checkArtifacts";
+import { getSessionUser } from "@/lib/auth/session";
+import { hasRole, isAuthDisabled } from "@/lib/auth/roles";
+import { handleAPIError, notFoundError, successResponse } from "@/lib/utils/api-helpers";
+import { CheckArtifactSet } from "@/types";
+
+/**
+ * Failure Artifacts of a Node
+ * GET /api/nodes/[id]/artifacts
+ * Latest failed checks that captured artifacts (newest first), within the
+ * artifact retention period; files are downloaded via /api/artifacts/[id]
+ * HARs are only listed for admins (the only ones who may download them)
+ *
+ * Query params:
+ * - limit: 1-50 (default 10)
+ */
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(50, Math.max(1, parseInt(searchParams.get("limit") || "10", 10) || 10));
+
+        await connectDB();
+
+        const node = await NodeModel.findById(params.id).select("_id").lean();
+        if (!node) {
+            return notFoundError("Node", params.id);
+        }
+
+        const since = new Date(Date.now() - ARTIFACT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+        const results = await CheckResultModel.find({
+            nodeId: params.id,
+            timestamp: { $gte: since },
+            "artifacts.0": { $exists: true },
+        })
+            .sort({ timestamp: -1 })
+            .limit(limit)
+            .select("timestamp status error artifacts")
+            .lean();
+
+        const showHar = isAuthDisabled() || hasRole((await getSessionUser())?.role, "admin");
+
+        const data: CheckArtifactSet[] = results.map((result) => ({
+            checkedAt: new Date(result.timestamp).toISOString(),
+            status: result.status,
+            error: result.error,
+            artifacts: (result.artifacts || []).filter((artifact) => showHar || artifact.kind !== "har"),
+        }));
+
+        return successResponse(data);
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/nodes/[id]/artifacts', nodeId: params.id });
+    }
+}
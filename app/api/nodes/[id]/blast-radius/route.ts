@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import { getBlastRadius, loadDependencyGraph } from "@/lib/monitoring/dependencies";
+import { handleAPIError, notFoundError, successResponse } from "@/lib/utils/api-helpers";
+import { BlastRadiusData } from "@/types";
+
+/**
+ * Blast Radius
+ * GET /api/nodes/[id]/blast-radius
+ * Every node that depends on this node, directly (depth 1) or transitively,
+ * nearest first - what goes down with it
+ */
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        await connectDB();
+
+        const graph = await loadDependencyGraph();
+        const node = graph.get(params.id);
+        if (!node) {
+            return notFoundError("Node", params.id);
+        }
+
+        const dependents = getBlastRadius(graph, params.id);
+        const data: BlastRadiusData = {
+            node: { id: node.id, name: node.name, status: node.status },
+            dependents,
+            total: dependents.length,
+        };
+
+        return successResponse(data);
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/nodes/[id]/blast-radius', nodeId: params.id });
+    }
+}
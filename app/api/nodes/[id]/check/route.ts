@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db/mongoose";
-import NodeModel from "@/lib/db/models/Node";
+import NodeModel, { AUTH_SECRET_SELECT } from "@/lib/db/models/Node";
 import { performHealthCheck } from "@/lib/monitoring/healthCheck";
+import { applyCheckResult, handleCheckOutcome } from "@/lib/monitoring/checkOutcome";
+import { getNodeCheckPolicy } from "@/lib/monitoring/statusEvaluation";
+import { getNodeMaintenance, loadActiveMaintenanceWindows } from "@/lib/monitoring/maintenance";
+import { findRootCauses, loadDependencyGraph } from "@/lib/monitoring/dependencies";
 
 /**
  * Manual Health Check Endpoint
@@ -19,7 +23,7 @@ export async function POST(
         const { id } = params;
 
         // Find the node, include secrets for auth check
-        const node = await NodeModel.findById(id).select("+authConfig.username +authConfig.password +authConfig.token +authConfig.headerValue");
+        const node = await NodeModel.findById(id).select(AUTH_SECRET_SELECT);
 
         if (!node) {
             return NextResponse.json(
@@ -30,32 +34,31 @@ export async function POST(
 
         console.log(`🔄 Manual health check triggered for: ${node.name} (${node.url})`);
 
-        // Perform health check (without auth for now since authConfig is not in schema)
+        // Perform health check using the node's stored auth config
         const healthResult = await performHealthCheck(
             node.url,
             node.authConfig,
-            15000 // 15 second timeout
+            15000, // 15 second timeout
+            await getNodeCheckPolicy(node),
+            node.assertions,
+            node.transaction,
+            undefined,
+            node._id.toString()
         );
 
-        // Update node with results
-        node.status = healthResult.status;
-        node.latency = healthResult.latency;
-        node.httpStatus = healthResult.httpStatus;
-        node.lastChecked = new Date();
-        
-        // Add to history using schema method
-        (node as any).addLatencyToHistory(healthResult.latency);
-        
-        if (healthResult.error) {
-            node.statusMessage = healthResult.error;
-        } else {
-            // Clear error if healthy
-            node.statusMessage = undefined;
-        }
+        const oldStatus = node.status;
+
+        // Update node with results (status is confirmed against the node's status policy)
+        const checkedAt = new Date();
+        const evaluation = applyCheckResult(node, healthResult, checkedAt, {
+            maintenance: getNodeMaintenance(node, await loadActiveMaintenanceWindows(checkedAt)),
+            rootCauses: findRootCauses(await loadDependencyGraph(), node._id.toString()),
+        });
 
         await node.save();
+        await handleCheckOutcome(node, oldStatus, healthResult, node.lastChecked);
 
-        console.log(`✅ Health check completed: ${node.name} - Status: ${healthResult.status}`);
+        console.log(`✅ Health check completed: ${node.name} - Status: ${node.status} (observed ${healthResult.status})`);
         if (healthResult.error) {
             console.log(`⚠️ Error details: ${healthResult.error}`);
         }
@@ -66,10 +69,13 @@ export async function POST(
                 nodeId: node._id,
                 name: node.name,
                 url: node.url,
-                status: healthResult.status,
+                status: node.status,
+                observedStatus: healthResult.status,
+                pending: evaluation.pending,
                 latency: healthResult.latency,
                 lastChecked: node.lastChecked,
-                error: healthResult.error // Include error in response for frontend
+                error: healthResult.error, // Include error in response for frontend
+                steps: healthResult.steps
             }
         });
 
@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import NodeModel from "@/lib/db/models/Node";
+import { getCheckHistory, pickResolution, HistoryResolution } from "@/lib/monitoring/checkHistory";
+import { handleAPIError, successResponse, validationError, notFoundError } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/nodes/[id]/history
+ * Time-series check history for a node
+ *
+ * Query params:
+ * - from: ISO date (default: 24 hours ago)
+ * - to: ISO date (default: now)
+ * - resolution: raw | hour | day (default: finest resolution still retained for `from`)
+ */
+
+const RESOLUTIONS: HistoryResolution[] = ["raw", "hour", "day"];
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { searchParams } = new URL(request.url);
+        const now = new Date();
+
+        const from = searchParams.get("from")
+            ? new Date(searchParams.get("from")!)
+            : new Date(now.getTime() - 24 * 60 * 60 * 1000);
+        const to = searchParams.get("to") ? new Date(searchParams.get("to")!) : now;
+
+        if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+            return validationError("Invalid date range", "from");
+        }
+        if (from > to) {
+            return validationError("'from' must be before 'to'", "from");
+        }
+
+        const resolutionParam = searchParams.get("resolution") as HistoryResolution | null;
+        if (resolutionParam && !RESOLUTIONS.includes(resolutionParam)) {
+            return validationError(`Resolution must be one of: ${RESOLUTIONS.join(", ")}`, "resolution");
+        }
+        const resolution = resolutionParam || pickResolution(from, now);
+
+        await connectDB();
+
+        const node = await NodeModel.findById(params.id).select("_id").lean();
+        if (!node) {
+            return notFoundError("Node", params.id);
+        }
+
+        const history = await getCheckHistory(params.id, from, to, resolution);
+
+        return successResponse({
+            nodeId: params.id,
+            from: from.toISOString(),
+            to: to.toISOString(),
+            resolution,
+            points: history,
+        });
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/nodes/[id]/history', nodeId: params.id });
+    }
+}
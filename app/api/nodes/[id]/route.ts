@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db/mongoose";
-import NodeModel from "@/lib/db/models/Node";
+import NodeModel, { AUTH_SECRET_SELECT } from "@/lib/db/models/Node";
 import { INode } from "@/types";
+import { validateStatusPolicy } from "@/lib/monitoring/statusConfirmation";
+import { validateCheckPolicy } from "@/lib/monitoring/statusEvaluation";
+import { validateAssertions } from "@/lib/monitoring/assertions";
+import { redactTransaction, validateTransaction } from "@/lib/monitoring/transactions";
+import { validateCheckInterval } from "@/lib/monitoring/checkSchedule";
+import { redactAuthConfig } from "@/lib/security/credentials";
+import { getSessionUser } from "@/lib/auth/session";
+import { hasRole, isAuthDisabled } from "@/lib/auth/roles";
+import { normalizeTags, validateOwner, validateTags } from "@/lib/utils/validation";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
 
 export async function GET(
   request: NextRequest,
@@ -10,9 +20,9 @@ export async function GET(
   try {
     await connectDB();
 
-    // Fetch node with all fields including authConfig (secrets are select: false)
+    // Secrets are only selected to report which ones are set (hasPassword, hasToken, ...)
     const node = await NodeModel.findById(params.id)
-      .select("+authConfig.username +authConfig.headerName")
+      .select(AUTH_SECRET_SELECT)
       .lean();
 
     if (!node) {
@@ -22,7 +32,16 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ success: true, data: node });
+    // Transaction fill values are secrets, only admins get them (encrypted as stored)
+    const user = await getSessionUser();
+    const transaction = isAuthDisabled() || hasRole(user?.role, "admin")
+      ? node.transaction
+      : redactTransaction(node.transaction);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...node, authConfig: redactAuthConfig(node.authConfig), transaction },
+    });
   } catch (error: any) {
     return NextResponse.json(
       { success: false, error: error.message },
@@ -50,6 +69,93 @@ export async function PUT(
 
     const updateData: any = { ...body };
 
+    // Counters, schedule and maintenance state are maintained by health checks only
+    delete updateData.checkState;
+    delete updateData.nextCheckAt;
+    delete updateData.maintenance;
+    delete updateData.rootCauses;
+    // Provenance is maintained by the sheets sync
+    delete updateData.source;
+    delete updateData.sheetSourceId;
+    delete updateData.sheetRow;
+
+    const policyError =
+      validateStatusPolicy(updateData.statusPolicy) ||
+      validateCheckPolicy(updateData.checkPolicy) ||
+      validateCheckInterval(updateData.checkIntervalSeconds);
+    if (policyError) {
+      return NextResponse.json(
+        { success: false, error: policyError },
+        { status: 400 }
+      );
+    }
+
+    if ("tags" in updateData) {
+      const tagsValidation = validateTags(updateData.tags);
+      if (!tagsValidation.valid) {
+        return NextResponse.json(
+          { success: false, error: tagsValidation.error },
+          { status: 400 }
+        );
+      }
+      updateData.tags = updateData.tags ? normalizeTags(updateData.tags) : [];
+    }
+
+    if ("owner" in updateData) {
+      const ownerValidation = validateOwner(updateData.owner);
+      if (!ownerValidation.valid) {
+        return NextResponse.json(
+          { success: false, error: ownerValidation.error },
+          { status: 400 }
+        );
+      }
+      updateData.owner = updateData.owner ? updateData.owner.trim() : null;
+    }
+
+    // A changed interval takes effect right away: the node is due on the next run
+    if ("checkIntervalSeconds" in updateData) {
+      updateData.nextCheckAt = null;
+    }
+
+    // Current state: needed for validation, secret merging and the audit diff
+    const existing = await NodeModel.findById(params.id)
+      .select(AUTH_SECRET_SELECT)
+      .lean();
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Node not found" },
+        { status: 404 }
+      );
+    }
+
+    // JSON assertions depend on the node group, which may not be part of the update
+    if (updateData.assertions) {
+      const group = updateData.group || existing.group;
+
+      const assertionsError = validateAssertions(updateData.assertions, group);
+      if (assertionsError) {
+        return NextResponse.json(
+          { success: false, error: assertionsError },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Transactions only run on BROWSER_LOGIN nodes, so recheck when either side changes
+    if ("transaction" in updateData || updateData.authConfig) {
+      const transaction = "transaction" in updateData ? updateData.transaction : existing.transaction;
+      const authType = (updateData.authConfig || existing.authConfig)?.type;
+
+      const transactionError = validateTransaction(transaction, authType);
+      if (transactionError) {
+        return NextResponse.json(
+          { success: false, error: transactionError },
+          { status: 400 }
+        );
+      }
+    }
+
     // Validate dependencies if updating them
     if (updateData.dependencies && Array.isArray(updateData.dependencies)) {
         const isValid = await NodeModel.validateDependencies(
@@ -69,16 +175,8 @@ export async function PUT(
     }
 
     if (updateData.authConfig) {
-      // Retrieve existing to merge if needed, or just handle at mongoose level if we can?
-      // Easier to just check keys.
-      const existingNode = await NodeModel.findById(params.id).select("+authConfig.password +authConfig.token +authConfig.headerValue");
-
-      if (!existingNode) {
-        return NextResponse.json({ success: false, error: "Node not found" }, { status: 404 });
-      }
-
       const newAuth = updateData.authConfig;
-      const oldAuth = existingNode.authConfig as any || {};
+      const oldAuth = existing.authConfig as any || {};
 
       // Merge secrets if not provided (undefined or null, but not empty string)
       if (newAuth.type === oldAuth.type) {
@@ -98,7 +196,7 @@ export async function PUT(
       params.id,
       updateData,
       { new: true, runValidators: true }
-    );
+    ).select(AUTH_SECRET_SELECT).lean();
 
     if (!node) {
       return NextResponse.json(
@@ -107,7 +205,22 @@ export async function PUT(
       );
     }
 
-    return NextResponse.json({ success: true, data: node });
+    const changes = diffSnapshots(toAuditSnapshot(existing), toAuditSnapshot(node));
+    if (changes.length > 0) {
+      await recordAuditEvent({
+        ...(await getAuditContext(request)),
+        action: "node.update",
+        targetType: "node",
+        targetId: params.id,
+        targetName: node.name,
+        changes,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...node, authConfig: redactAuthConfig(node.authConfig) },
+    });
   } catch (error: any) {
     return NextResponse.json(
       { success: false, error: error.message },
@@ -122,7 +235,9 @@ export async function DELETE(
 ) {
   try {
     await connectDB();
-    const node = await NodeModel.findByIdAndDelete(params.id);
+    const node = await NodeModel.findByIdAndDelete(params.id)
+      .select(AUTH_SECRET_SELECT)
+      .lean();
 
     if (!node) {
       return NextResponse.json(
@@ -131,6 +246,15 @@ export async function DELETE(
       );
     }
 
+    await recordAuditEvent({
+      ...(await getAuditContext(request)),
+      action: "node.delete",
+      targetType: "node",
+      targetId: params.id,
+      targetName: node.name,
+      changes: diffSnapshots(toAuditSnapshot(node), {}),
+    });
+
     return NextResponse.json({ success: true, data: {} });
   } catch (error: any) {
     return NextResponse.json(
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import NodeModel from "@/lib/db/models/Node";
+import { getNodeUptime, isUptimeWindow, UPTIME_WINDOWS } from "@/lib/monitoring/uptime";
+import { handleAPIError, successResponse, validationError, notFoundError } from "@/lib/utils/api-helpers";
+
+/**
+ * GET /api/nodes/[id]/uptime?window=24h|7d|30d|90d
+ * Uptime percentage, total downtime, MTTR, MTBF and incident count for a node
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const window = new URL(request.url).searchParams.get("window") || "24h";
+
+        if (!isUptimeWindow(window)) {
+            return validationError(`Window must be one of: ${Object.keys(UPTIME_WINDOWS).join(", ")}`, "window");
+        }
+
+        await connectDB();
+
+        const node = await NodeModel.findById(params.id).select("name group").lean();
+        if (!node) {
+            return notFoundError("Node", params.id);
+        }
+
+        const stats = await getNodeUptime(params.id, window);
+
+        return successResponse({
+            nodeId: params.id,
+            name: node.name,
+            group: node.group,
+            windowName: window,
+            ...stats,
+        });
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/nodes/[id]/uptime', nodeId: params.id });
+    }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db/mongoose";
-import NodeModel from "@/lib/db/models/Node";
+import NodeModel, { AUTH_SECRET_SELECT } from "@/lib/db/models/Node";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
 
 export async function POST(request: NextRequest) {
     try {
@@ -36,6 +37,10 @@ export async function POST(request: NextRequest) {
 
         console.log(`[Bulk Auth] Updating ${nodeIds.length} nodes with auth type: ${cleanConfig.type}`);
 
+        const before = await NodeModel.find({ _id: { $in: nodeIds } })
+            .select(`name authConfig ${AUTH_SECRET_SELECT}`)
+            .lean();
+
         // Perform bulk update
         const result = await NodeModel.updateMany(
             { _id: { $in: nodeIds } },
@@ -44,6 +49,31 @@ export async function POST(request: NextRequest) {
 
         console.log(`[Bulk Auth] Result: matched=${result.matchedCount}, modified=${result.modifiedCount}`);
 
+        // One audit event per node, so each node's history is complete
+        const after = await NodeModel.find({ _id: { $in: nodeIds } })
+            .select(`name authConfig ${AUTH_SECRET_SELECT}`)
+            .lean();
+        const beforeById = new Map(before.map((node) => [node._id.toString(), node]));
+        const context = await getAuditContext(request);
+
+        for (const node of after) {
+            const changes = diffSnapshots(
+                toAuditSnapshot(beforeById.get(node._id.toString()), ["authConfig"]),
+                toAuditSnapshot(node, ["authConfig"])
+            );
+            if (changes.length === 0) continue;
+
+            await recordAuditEvent({
+                ...context,
+                action: "node.bulk_auth",
+                targetType: "node",
+                targetId: node._id.toString(),
+                targetName: node.name,
+                changes,
+                message: `Bulk auth update of ${nodeIds.length} nodes`,
+            });
+        }
+
         return NextResponse.json({
             success: true,
             data: {
@@ -1,9 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db/mongoose";
-import NodeModel from "@/lib/db/models/Node";
+import NodeModel, { AUTH_SECRET_SELECT } from "@/lib/db/models/Node";
 import { NodeData } from "@/types";
-import { validateNodeData, normalizeURL, sanitizeString } from "@/lib/utils/validation";
+import { validateNodeData, normalizeURL, normalizeTags, sanitizeString } from "@/lib/utils/validation";
 import { logger } from "@/lib/utils/logger";
+import { validateStatusPolicy } from "@/lib/monitoring/statusConfirmation";
+import { validateCheckPolicy } from "@/lib/monitoring/statusEvaluation";
+import { validateAssertions } from "@/lib/monitoring/assertions";
+import { redactTransaction, validateTransaction } from "@/lib/monitoring/transactions";
+import { isCheckDue, isCheckOnReadEnabled, validateCheckInterval } from "@/lib/monitoring/checkSchedule";
+import { redactAuthConfig } from "@/lib/security/credentials";
+import { getSessionUser } from "@/lib/auth/session";
+import { hasRole, isAuthDisabled } from "@/lib/auth/roles";
+import type { DependencyGraph } from "@/lib/monitoring/dependencies";
+import type { ActiveMaintenanceWindow } from "@/lib/monitoring/maintenance";
+import { diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
 import { handleAPIError, successResponse, databaseError, validationError, conflictError } from "@/lib/utils/api-helpers";
 
 /**
@@ -15,15 +26,45 @@ import { handleAPIError, successResponse, databaseError, validationError, confli
 // ✅ FIX: Use Map with Promise for atomic tracking (prevents race conditions)
 const activeHealthChecks = new Map<string, Promise<void>>();
 
+/**
+ * Dependency graph and active maintenance, loaded once for all checks of a request
+ */
+interface CheckContext {
+    graph: DependencyGraph;
+    maintenance: ActiveMaintenanceWindow[];
+}
+
+async function loadCheckContext(now: Date): Promise<CheckContext> {
+    const { loadActiveMaintenanceWindows } = await import("@/lib/monitoring/maintenance");
+    const { loadDependencyGraph } = await import("@/lib/monitoring/dependencies");
+
+    const [graph, maintenance] = await Promise.all([loadDependencyGraph(), loadActiveMaintenanceWindows(now)]);
+    return { graph, maintenance };
+}
+
 /**
  * Performs health check internal logic with retry on version conflicts
  */
-async function performHealthCheckInternal(node: any): Promise<void> {
+async function performHealthCheckInternal(node: any, contextPromise: Promise<CheckContext>): Promise<void> {
     const { performHealthCheck } = await import("@/lib/monitoring/healthCheck");
+    const { applyCheckResult, handleCheckOutcome } = await import("@/lib/monitoring/checkOutcome");
+    const { getNodeCheckPolicy } = await import("@/lib/monitoring/statusEvaluation");
+    const { getNodeMaintenance } = await import("@/lib/monitoring/maintenance");
+    const { findRootCauses, updateGraphNode } = await import("@/lib/monitoring/dependencies");
     const NodeModel = (await import("@/lib/db/models/Node")).default;
 
     // Perform health check
-    const result = await performHealthCheck(node.url, node.authConfig);
+    const result = await performHealthCheck(
+        node.url,
+        node.authConfig,
+        undefined,
+        await getNodeCheckPolicy(node),
+        node.assertions,
+        node.transaction,
+        undefined,
+        node._id.toString()
+    );
+    const { graph, maintenance } = await contextPromise;
 
     // Retry logic for version conflicts (optimistic locking)
     const MAX_RETRIES = 3;
@@ -37,14 +78,15 @@ async function performHealthCheckInternal(node: any): Promise<void> {
                 return;
             }
             
-            nodeDoc.status = result.status;
-            nodeDoc.latency = result.latency;
-            nodeDoc.httpStatus = result.httpStatus;
-            nodeDoc.statusMessage = result.error;
-            nodeDoc.lastChecked = new Date();
-            (nodeDoc as any).addLatencyToHistory(result.latency);
-            
+            const oldStatus = nodeDoc.status;
+            applyCheckResult(nodeDoc, result, new Date(), {
+                maintenance: getNodeMaintenance(nodeDoc, maintenance),
+                rootCauses: findRootCauses(graph, nodeDoc._id.toString()),
+            });
+
             await nodeDoc.save();
+            updateGraphNode(graph, nodeDoc);
+            await handleCheckOutcome(nodeDoc, oldStatus, result, nodeDoc.lastChecked);
             return; // Success - exit
             
         } catch (saveErr: any) {
@@ -69,7 +111,7 @@ async function performHealthCheckInternal(node: any): Promise<void> {
  * ✅ FIXED: Trigger background check with atomic Promise-based tracking
  * Prevents race conditions and provides proper timeout handling
  */
-async function triggerBackgroundCheck(node: any): Promise<void> {
+async function triggerBackgroundCheck(node: any, contextPromise: Promise<CheckContext>): Promise<void> {
     const nodeId = node._id.toString();
     
     // ✅ Atomic check: If already running, return existing promise
@@ -85,7 +127,7 @@ async function triggerBackgroundCheck(node: any): Promise<void> {
             setTimeout(() => reject(new Error('Health check timeout')), 60000)
         );
         
-        const healthCheckPromise = performHealthCheckInternal(node);
+        const healthCheckPromise = performHealthCheckInternal(node, contextPromise);
         
         try {
             // ✅ Race between health check and timeout
@@ -140,25 +182,33 @@ export async function GET(request: NextRequest) {
         await connectDB();
 
         // Fetch all nodes, sorted by status (DOWN first) and name
-        // Include authConfig to pass to healthCheck
+        // Include the (encrypted) secrets for background checks; responses only carry presence flags
         const nodes = await NodeModel.find({})
-            .select("+authConfig.username +authConfig.password +authConfig.token +authConfig.headerName +authConfig.headerValue +authConfig.loginSuccessSelector")
+            .select(AUTH_SECRET_SELECT)
             .sort({ status: -1, name: 1 })
             .lean();
 
-        // Check for stale nodes (not checked in last 30 seconds)
-        // This prevents triggering background checks too frequently
-        const now = Date.now();
-        const STALE_THRESHOLD = 30000; // 30 seconds (balanced with typical polling intervals)
-
-        nodes.forEach((node) => {
-            const lastChecked = node.lastChecked ? new Date(node.lastChecked).getTime() : 0;
-            // Only trigger background check if node is truly stale (>2min old)
-            if (now - lastChecked > STALE_THRESHOLD) {
-                // Fire and forget - don't await
-                triggerBackgroundCheck(node);
+        // Check nodes whose own check interval has elapsed (nextCheckAt)
+        // Only in check-on-read mode (no cron secret / in-process scheduler, see isCheckOnReadEnabled)
+        const now = new Date();
+
+        if (isCheckOnReadEnabled()) {
+            const dueNodes = nodes.filter((node) => isCheckDue(node, now));
+
+            if (dueNodes.length > 0) {
+                const contextPromise = loadCheckContext(now);
+                // Awaited after each check; a failed load is reported by every check
+                contextPromise.catch(() => undefined);
+                dueNodes.forEach((node) => {
+                    // Fire and forget - don't await
+                    triggerBackgroundCheck(node, contextPromise);
+                });
             }
-        });
+        }
+
+        // Transaction fill values are secrets, only admins get them (encrypted as stored)
+        const user = await getSessionUser();
+        const showFillValues = isAuthDisabled() || hasRole(user?.role, "admin");
 
         // Transform to frontend format (string IDs instead of ObjectId)
         const nodesData: NodeData[] = nodes.map((node) => ({
@@ -168,17 +218,28 @@ export async function GET(request: NextRequest) {
             group: node.group,
             dependencies: node.dependencies.map((dep) => dep.toString()),
             status: node.status,
+            statusPolicy: node.statusPolicy,
+            checkPolicy: node.checkPolicy,
+            assertions: node.assertions,
+            transaction: showFillValues ? node.transaction : redactTransaction(node.transaction),
+            checkIntervalSeconds: node.checkIntervalSeconds,
+            tags: node.tags,
+            owner: node.owner,
+            source: node.source,
+            sheetSourceId: node.sheetSourceId?.toString(),
+            sheetRow: node.sheetRow,
+            rootCauses: node.rootCauses?.length ? node.rootCauses : undefined,
+            maintenance: node.maintenance
+                ? { ...node.maintenance, endsAt: new Date(node.maintenance.endsAt).toISOString() }
+                : undefined,
+            nextCheckAt: node.nextCheckAt?.toISOString(),
             latency: node.latency,
             history: node.history,
             lastChecked: node.lastChecked.toISOString(),
             httpStatus: node.httpStatus, // Include HTTP status for error display
             statusMessage: node.statusMessage, // Include error message for tooltip
             // Don't leak secrets
-            authConfig: node.authConfig ? {
-                type: node.authConfig.type,
-                username: node.authConfig.username,
-                headerName: node.authConfig.headerName
-            } : undefined
+            authConfig: redactAuthConfig(node.authConfig)
         }));
 
         logger.info('Fetched nodes successfully', { count: nodesData.length });
@@ -202,20 +263,47 @@ export async function POST(request: NextRequest) {
         await connectDB();
 
         const body = await request.json();
-        const { name, url, group, dependencies = [], authConfig } = body;
+        const { name, url, group, dependencies = [], authConfig, statusPolicy, checkPolicy, assertions, transaction, checkIntervalSeconds, tags, owner } = body;
 
         // ✅ TAHAP 2: Comprehensive validation using validation utilities
         const validation = validateNodeData({
             name,
             url,
             group,
-            dependencies
+            dependencies,
+            tags,
+            owner
         });
 
         if (!validation.valid) {
             return validationError(validation.error || 'Validation failed');
         }
 
+        const policyError = validateStatusPolicy(statusPolicy);
+        if (policyError) {
+            return validationError(policyError, 'statusPolicy');
+        }
+
+        const checkPolicyError = validateCheckPolicy(checkPolicy);
+        if (checkPolicyError) {
+            return validationError(checkPolicyError, 'checkPolicy');
+        }
+
+        const assertionsError = validateAssertions(assertions, group || "website");
+        if (assertionsError) {
+            return validationError(assertionsError, 'assertions');
+        }
+
+        const transactionError = validateTransaction(transaction, authConfig?.type);
+        if (transactionError) {
+            return validationError(transactionError, 'transaction');
+        }
+
+        const intervalError = validateCheckInterval(checkIntervalSeconds);
+        if (intervalError) {
+            return validationError(intervalError, 'checkIntervalSeconds');
+        }
+
         // Sanitize inputs
         const sanitizedName = sanitizeString(name);
         const trimmedUrl = url.trim();
@@ -261,6 +349,14 @@ export async function POST(request: NextRequest) {
             group: group || "website",
             dependencies,
             authConfig,
+            statusPolicy,
+            checkPolicy,
+            assertions,
+            transaction: transaction || undefined,
+            checkIntervalSeconds,
+            tags: tags ? normalizeTags(tags) : undefined,
+            owner: owner ? owner.trim() : undefined,
+            source: "manual",
             status: "FRESH",
             latency: 0,
             history: [],
@@ -275,6 +371,14 @@ export async function POST(request: NextRequest) {
             group: newNode.group,
             dependencies: newNode.dependencies.map((dep) => dep.toString()),
             status: newNode.status,
+            statusPolicy: newNode.statusPolicy,
+            checkPolicy: newNode.checkPolicy,
+            assertions: newNode.assertions,
+            transaction: newNode.transaction,
+            checkIntervalSeconds: newNode.checkIntervalSeconds,
+            tags: newNode.tags,
+            owner: newNode.owner,
+            source: newNode.source,
             latency: newNode.latency,
             history: newNode.history,
             lastChecked: newNode.lastChecked.toISOString(),
@@ -286,6 +390,15 @@ export async function POST(request: NextRequest) {
             url: nodeData.url
         });
 
+        await recordAuditEvent({
+            ...(await getAuditContext(request)),
+            action: "node.create",
+            targetType: "node",
+            targetId: nodeData.id,
+            targetName: nodeData.name,
+            changes: diffSnapshots({}, toAuditSnapshot(newNode)),
+        });
+
         return successResponse(nodeData, 'Node created successfully', 201);
     } catch (error: any) {
         return handleAPIError(error, {
@@ -1,17 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { performPlaywrightHealthCheck } from "@/lib/monitoring/playwrightHealthCheck";
-import { AuthConfig } from "@/types";
+import { validateTransaction } from "@/lib/monitoring/transactions";
+import { AuthConfig, SyntheticTransaction } from "@/types";
 
 /**
  * Test Auth Endpoint
- * Test authentication configuration before saving
+ * Test authentication configuration (and an optional synthetic transaction) before saving
  * POST /api/nodes/test-auth
  */
 
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { url, authConfig } = body as { url: string; authConfig: AuthConfig };
+        const { url, authConfig, transaction } = body as {
+            url: string;
+            authConfig: AuthConfig;
+            transaction?: SyntheticTransaction;
+        };
 
         if (!url) {
             return NextResponse.json(
@@ -34,11 +39,19 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        const transactionError = validateTransaction(transaction, authConfig.type);
+        if (transactionError) {
+            return NextResponse.json(
+                { success: false, error: transactionError },
+                { status: 400 }
+            );
+        }
+
         console.log(`🧪 Testing authentication for ${url}...`);
 
         // Perform test login
         const startTime = Date.now();
-        const result = await performPlaywrightHealthCheck(url, authConfig, 30000);
+        const result = await performPlaywrightHealthCheck(url, authConfig, 30000, undefined, undefined, transaction);
         const duration = Date.now() - startTime;
 
         if (result.status === "DOWN" && result.error?.includes("Authentication")) {
@@ -55,6 +68,7 @@ export async function POST(request: NextRequest) {
                 success: false,
                 error: result.error || "Health check failed",
                 duration,
+                steps: result.steps,
                 message: "Login succeeded but health check failed."
             });
         }
@@ -64,6 +78,7 @@ export async function POST(request: NextRequest) {
             status: result.status,
             latency: result.latency,
             duration,
+            steps: result.steps,
             message: "Authentication test successful! ✅"
         });
 
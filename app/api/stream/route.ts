@@ -0,0 +1,70 @@
+import { NextRequest } from "next/server";
+import { formatServerSentEvent, subscribeStreamEvents } from "@/lib/realtime/streamEvents";
+import { isCheckOnReadEnabled } from "@/lib/monitoring/checkSchedule";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * GET /api/stream
+ * Server-Sent Events with live check results (viewer role)
+ *
+ * Events: ready, node-updated, incident-opened, incident-resolved
+ * (payloads: StreamEvent in types/index.ts). A comment line is sent every
+ * HEARTBEAT_MS so proxies keep the connection open.
+ */
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const HEARTBEAT_MS = 25000;
+const RETRY_MS = 5000;
+
+export async function GET(request: NextRequest) {
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (chunk: string) => {
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    // Stream already closed, cleanup follows via abort
+                }
+            };
+
+            send(`retry: ${RETRY_MS}\n\n`);
+            send(formatServerSentEvent({
+                type: "ready",
+                scheduler: !isCheckOnReadEnabled(),
+            }));
+
+            const unsubscribe = subscribeStreamEvents((event) => send(formatServerSentEvent(event)));
+            const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_MS);
+
+            cleanup = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed
+                }
+            };
+
+            request.signal.addEventListener("abort", () => cleanup());
+            logger.debug('Stream client connected');
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no",
+        },
+    });
+}
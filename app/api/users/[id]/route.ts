@@ -0,0 +1,147 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import UserModel from "@/lib/db/models/User";
+import { hashPassword, validatePassword } from "@/lib/auth/password";
+import { isUserRole } from "@/lib/auth/roles";
+import { getSessionUser } from "@/lib/auth/session";
+import { toUserData } from "@/lib/auth/users";
+import { logger } from "@/lib/utils/logger";
+import { REDACTED, diffSnapshots, getAuditContext, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import {
+    conflictError,
+    handleAPIError,
+    notFoundError,
+    parseRequestBody,
+    successResponse,
+    validationError,
+} from "@/lib/utils/api-helpers";
+import { UserRole } from "@/types";
+
+/**
+ * Single User (admin role)
+ * PUT    /api/users/[id] - Change role, password or disabled flag
+ * DELETE /api/users/[id] - Remove a user
+ *
+ * The last enabled admin cannot be demoted, disabled or removed, and admins
+ * cannot lock themselves out.
+ */
+
+const USER_AUDIT_FIELDS = ["role", "disabled"];
+
+async function isLastAdmin(id: string): Promise<boolean> {
+    const admins = await UserModel.find({ role: "admin", disabled: { $ne: true } }).select("_id").lean();
+    return admins.length === 1 && admins[0]._id.toString() === id;
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const body = await parseRequestBody<{ role?: UserRole; password?: string; disabled?: boolean }>(request);
+
+        if (body.role !== undefined && !isUserRole(body.role)) {
+            return validationError("role must be viewer, operator or admin", "role");
+        }
+        if (body.password !== undefined) {
+            const passwordError = validatePassword(body.password);
+            if (passwordError) {
+                return validationError(passwordError, "password");
+            }
+        }
+        if (body.disabled !== undefined && typeof body.disabled !== "boolean") {
+            return validationError("disabled must be a boolean", "disabled");
+        }
+
+        await connectDB();
+
+        const user = await UserModel.findById(params.id);
+        if (!user) {
+            return notFoundError("User", params.id);
+        }
+
+        const losesAdmin = (body.role !== undefined && body.role !== "admin") || body.disabled === true;
+        if (losesAdmin && user.role === "admin") {
+            const current = await getSessionUser();
+            if (current?.id === params.id) {
+                return conflictError("You cannot remove your own admin access", { userId: params.id });
+            }
+            if (await isLastAdmin(params.id)) {
+                return conflictError("At least one enabled admin is required", { userId: params.id });
+            }
+        }
+
+        const before = toAuditSnapshot(user, USER_AUDIT_FIELDS);
+
+        if (body.role !== undefined) user.role = body.role;
+        if (body.disabled !== undefined) user.disabled = body.disabled;
+        if (body.password !== undefined) user.passwordHash = await hashPassword(body.password);
+
+        await user.save();
+
+        logger.info('User updated', {
+            username: user.username,
+            role: user.role,
+            disabled: user.disabled,
+            passwordChanged: body.password !== undefined,
+        });
+
+        const changes = diffSnapshots(before, toAuditSnapshot(user, USER_AUDIT_FIELDS));
+        if (body.password !== undefined) {
+            changes.push({ field: "password", before: REDACTED, after: REDACTED });
+        }
+        if (changes.length > 0) {
+            await recordAuditEvent({
+                ...(await getAuditContext(request)),
+                action: "user.update",
+                targetType: "user",
+                targetId: params.id,
+                targetName: user.username,
+                changes,
+            });
+        }
+
+        return successResponse(toUserData(user), "User updated");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'PUT /api/users/[id]', userId: params.id });
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        await connectDB();
+
+        const user = await UserModel.findById(params.id);
+        if (!user) {
+            return notFoundError("User", params.id);
+        }
+
+        const current = await getSessionUser();
+        if (current?.id === params.id) {
+            return conflictError("You cannot delete your own account", { userId: params.id });
+        }
+        if (user.role === "admin" && await isLastAdmin(params.id)) {
+            return conflictError("At least one enabled admin is required", { userId: params.id });
+        }
+
+        await user.deleteOne();
+
+        logger.info('User deleted', { username: user.username });
+
+        await recordAuditEvent({
+            ...(await getAuditContext(request)),
+            action: "user.delete",
+            targetType: "user",
+            targetId: params.id,
+            targetName: user.username,
+            changes: diffSnapshots(toAuditSnapshot(user, USER_AUDIT_FIELDS), {}),
+        });
+
+        return successResponse({}, "User deleted");
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'DELETE /api/users/[id]', userId: params.id });
+    }
+}
@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import connectDB from "@/lib/db/mongoose";
+import UserModel from "@/lib/db/models/User";
+import { hashPassword, validatePassword } from "@/lib/auth/password";
+import { isUserRole } from "@/lib/auth/roles";
+import { toUserData, validateUsername } from "@/lib/auth/users";
+import { logger } from "@/lib/utils/logger";
+import { diffSnapshots, getAuditContext, recordAuditEvent } from "@/lib/audit/auditLog";
+import {
+    conflictError,
+    handleAPIError,
+    parseRequestBody,
+    successResponse,
+    validationError,
+} from "@/lib/utils/api-helpers";
+import { UserRole } from "@/types";
+
+/**
+ * Users (admin role)
+ * GET  /api/users - List local users
+ * POST /api/users - Create a user
+ *
+ * Body: { username: string, password: string, role?: "viewer" | "operator" | "admin" }
+ */
+
+export async function GET() {
+    try {
+        await connectDB();
+
+        const users = await UserModel.find({}).sort({ username: 1 }).lean();
+
+        return successResponse(users.map(toUserData));
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'GET /api/users' });
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await parseRequestBody<{ username?: string; password?: string; role?: UserRole }>(request);
+        const role = body.role ?? "viewer";
+
+        const usernameError = validateUsername(body.username);
+        if (usernameError) {
+            return validationError(usernameError, "username");
+        }
+        const passwordError = validatePassword(body.password);
+        if (passwordError) {
+            return validationError(passwordError, "password");
+        }
+        if (!isUserRole(role)) {
+            return validationError("role must be viewer, operator or admin", "role");
+        }
+
+        await connectDB();
+
+        const username = body.username!.trim().toLowerCase();
+        if (await UserModel.exists({ username })) {
+            return conflictError("User already exists", { username });
+        }
+
+        const user = await UserModel.create({
+            username,
+            passwordHash: await hashPassword(body.password!),
+            role,
+        });
+
+        logger.info('User created', { username, role });
+
+        await recordAuditEvent({
+            ...(await getAuditContext(request)),
+            action: "user.create",
+            targetType: "user",
+            targetId: user._id.toString(),
+            targetName: username,
+            changes: diffSnapshots({}, { username, role }),
+        });
+
+        return successResponse(toUserData(user), "User created", 201);
+    } catch (error: any) {
+        return handleAPIError(error, { endpoint: 'POST /api/users' });
+    }
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import { SessionProvider } from "next-auth/react";
 import "./globals.css";
 import "@/lib/utils/suppress-warnings";
 
@@ -18,7 +19,7 @@ export default function RootLayout({
     return (
         <html lang="en" suppressHydrationWarning>
             <body suppressHydrationWarning className="antialiased">
-                {children}
+                <SessionProvider>{children}</SessionProvider>
             </body>
         </html>
     );
@@ -0,0 +1,99 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { signIn } from "next-auth/react";
+
+/**
+ * Login Page
+ * Credential login for the local user store (lib/auth/users.ts)
+ */
+
+function LoginForm() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+
+    // Only follow same-origin relative callbacks
+    const rawCallback = searchParams.get("callbackUrl") || "/dashboard";
+    const callbackUrl = rawCallback.startsWith("/") && !rawCallback.startsWith("//") ? rawCallback : "/dashboard";
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setSubmitting(true);
+
+        try {
+            const result = await signIn("credentials", { username, password, redirect: false });
+
+            if (!result || result.error) {
+                setError("Username atau password salah");
+                return;
+            }
+
+            router.replace(callbackUrl);
+            router.refresh();
+        } catch (err: any) {
+            setError(err.message || "Gagal masuk");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="glass border border-white/10 rounded-xl p-8 w-full max-w-sm space-y-5">
+            <div>
+                <h1 className="text-2xl font-bold">Detektor Peforma Client</h1>
+                <p className="text-sm text-white/60 mt-1">Masuk untuk melanjutkan</p>
+            </div>
+
+            <div>
+                <label htmlFor="username" className="block text-sm text-white/60 mb-1">Username</label>
+                <input
+                    id="username"
+                    autoComplete="username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-blue-500/50"
+                    required
+                />
+            </div>
+
+            <div>
+                <label htmlFor="password" className="block text-sm text-white/60 mb-1">Password</label>
+                <input
+                    id="password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 focus:outline-none focus:border-blue-500/50"
+                    required
+                />
+            </div>
+
+            {error && <p className="text-sm text-red-400">❌ {error}</p>}
+
+            <button
+                type="submit"
+                disabled={submitting}
+                className="w-full px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/30 rounded-lg transition disabled:opacity-50"
+            >
+                {submitting ? "Memproses..." : "Masuk"}
+            </button>
+        </form>
+    );
+}
+
+export default function LoginPage() {
+    return (
+        <div className="min-h-screen bg-black text-white flex items-center justify-center p-8">
+            <Suspense fallback={null}>
+                <LoginForm />
+            </Suspense>
+        </div>
+    );
+}
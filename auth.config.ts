@@ -0,0 +1,37 @@
+import type { NextAuthConfig } from "next-auth";
+import { isUserRole } from "@/lib/auth/roles";
+import { fetchUserRole, refreshTokenUser } from "@/lib/auth/userCheck";
+
+/**
+ * Auth.js base configuration
+ * Edge-safe (used by middleware.ts): no providers that need the database here,
+ * the credentials provider is added in auth.ts
+ *
+ * Sessions are JWTs carrying the user's role, re-checked every few minutes
+ * so disabled, deleted or demoted users do not keep their access
+ * (see lib/auth/userCheck.ts).
+ */
+export const authConfig = {
+    secret: process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET,
+    trustHost: true,
+    session: { strategy: "jwt", maxAge: 12 * 60 * 60 },
+    pages: { signIn: "/login" },
+    providers: [],
+    callbacks: {
+        async jwt({ token, user }) {
+            if (user) {
+                token.role = user.role;
+                token.checkedAt = Date.now();
+                return token;
+            }
+            return refreshTokenUser(token, fetchUserRole);
+        },
+        session({ session, token }) {
+            if (session.user) {
+                session.user.id = token.sub || "";
+                session.user.role = isUserRole(token.role) ? token.role : "viewer";
+            }
+            return session;
+        },
+    },
+} satisfies NextAuthConfig;
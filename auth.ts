@@ -0,0 +1,38 @@
+import NextAuth from "next-auth";
+import Credentials from "next-auth/providers/credentials";
+import { authConfig } from "./auth.config";
+import { authenticateUser, loadUserRole } from "@/lib/auth/users";
+import { refreshTokenUser } from "@/lib/auth/userCheck";
+
+/**
+ * Auth.js instance (Node runtime)
+ * Username/password login against the local user store
+ * Sessions are re-checked against the database directly (middleware uses the edge loader)
+ */
+export const { handlers, auth, signIn, signOut } = NextAuth({
+    ...authConfig,
+    callbacks: {
+        ...authConfig.callbacks,
+        async jwt(params) {
+            if (params.user) {
+                return authConfig.callbacks.jwt(params);
+            }
+            return refreshTokenUser(params.token, loadUserRole);
+        },
+    },
+    providers: [
+        Credentials({
+            credentials: {
+                username: { label: "Username" },
+                password: { label: "Password", type: "password" },
+            },
+            async authorize(credentials) {
+                const user = await authenticateUser(
+                    String(credentials?.username || ""),
+                    String(credentials?.password || "")
+                );
+                return user ? { id: user.id, name: user.name, role: user.role } : null;
+            },
+        }),
+    ],
+});
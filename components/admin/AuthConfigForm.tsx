@@ -6,6 +6,12 @@ interface AuthConfigFormProps {
     onChange: (config: AuthConfig) => void;
 }
 
+// Secrets are never sent back by the API, only whether one is stored
+function StoredHint({ stored }: { stored?: boolean }) {
+    if (!stored) return null;
+    return <span className="ml-1 text-green-400/80">✓ tersimpan</span>;
+}
+
 export function AuthConfigForm({ config, onChange }: AuthConfigFormProps) {
     return (
         <div className="space-y-4">
@@ -40,7 +46,7 @@ export function AuthConfigForm({ config, onChange }: AuthConfigFormProps) {
                         />
                     </div>
                     <div>
-                        <label className="block text-xs font-medium text-white/50 mb-1">Kata Sandi</label>
+                        <label className="block text-xs font-medium text-white/50 mb-1">Kata Sandi<StoredHint stored={config.hasPassword} /></label>
                         <input
                             type="password"
                             placeholder="Biarkan kosong untuk tetap menggunakan yang lama"
@@ -56,7 +62,7 @@ export function AuthConfigForm({ config, onChange }: AuthConfigFormProps) {
 
             {config.type === "BEARER" && (
                 <div className="p-4 bg-white/5 rounded-lg border border-white/10">
-                    <label className="block text-xs font-medium text-white/50 mb-1">Token</label>
+                    <label className="block text-xs font-medium text-white/50 mb-1">Token<StoredHint stored={config.hasToken} /></label>
                     <input
                         type="password"
                         placeholder="ey... (Biarkan kosong untuk tetap menggunakan yang lama)"
@@ -82,7 +88,7 @@ export function AuthConfigForm({ config, onChange }: AuthConfigFormProps) {
                         />
                     </div>
                     <div>
-                        <label className="block text-xs font-medium text-white/50 mb-1">Nilai</label>
+                        <label className="block text-xs font-medium text-white/50 mb-1">Nilai<StoredHint stored={config.hasHeaderValue} /></label>
                         <input
                             type="password"
                             placeholder="Rahasia... (Biarkan kosong untuk tetap menggunakan yang lama)"
@@ -111,10 +117,10 @@ export function AuthConfigForm({ config, onChange }: AuthConfigFormProps) {
                             />
                         </div>
                         <div>
-                            <label className="block text-xs font-medium text-white/50 mb-1">Kata Sandi</label>
+                            <label className="block text-xs font-medium text-white/50 mb-1">Kata Sandi<StoredHint stored={config.hasPassword} /></label>
                             <input
                                 type="password"
-                                placeholder="Kata Sandi"
+                                placeholder={config.hasPassword ? "Biarkan kosong untuk tetap menggunakan yang lama" : "Kata Sandi"}
                                 className="w-full bg-black/20 border border-white/10 rounded p-2 text-white text-sm"
                                 value={config.password || ""}
                                 onChange={(e) => onChange({ ...config, password: e.target.value })}
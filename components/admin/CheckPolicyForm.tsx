@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import { CheckPolicy } from "@/types";
+
+interface CheckPolicyFormProps {
+    policy: Partial<CheckPolicy>;
+    onChange: (policy: Partial<CheckPolicy>) => void;
+    inherited?: CheckPolicy; // Shown as placeholders for unset fields
+}
+
+const DEFAULT_INHERITED: CheckPolicy = {
+    expectedStatusCodes: ["200-399"],
+    warningLatencyMs: 5000,
+    downLatencyMs: 0,
+    method: "HEAD",
+};
+
+/**
+ * Check Policy Form
+ * Empty fields inherit from the group policy / defaults
+ */
+export function CheckPolicyForm({ policy, onChange, inherited = DEFAULT_INHERITED }: CheckPolicyFormProps) {
+    // Keep raw text so commas can be typed freely
+    const [codesText, setCodesText] = useState((policy.expectedStatusCodes || []).join(", "));
+
+    const update = (patch: Partial<CheckPolicy>) => {
+        const next: Partial<CheckPolicy> = { ...policy, ...patch };
+        (Object.keys(next) as (keyof CheckPolicy)[]).forEach((key) => {
+            if (next[key] === undefined) delete next[key];
+        });
+        onChange(next);
+    };
+
+    const parseNumber = (value: string) => (value === "" ? undefined : parseInt(value, 10));
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-xs font-medium text-white/50 mb-1">Kode Status Sehat</label>
+                <input
+                    type="text"
+                    placeholder={inherited.expectedStatusCodes.join(", ")}
+                    className="w-full bg-black/20 border border-white/10 rounded p-2 text-white text-sm font-mono"
+                    value={codesText}
+                    onChange={(e) => {
+                        setCodesText(e.target.value);
+                        const codes = e.target.value.split(",").map((code) => code.trim()).filter(Boolean);
+                        update({ expectedStatusCodes: codes.length > 0 ? codes : undefined });
+                    }}
+                />
+                <p className="text-xs text-white/40 mt-1">Contoh: 200-299, 401 atau 2xx. Kode lain: 5xx = Mati, selain itu = Peringatan</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                <div>
+                    <label className="block text-xs font-medium text-white/50 mb-1">Latensi Peringatan (ms)</label>
+                    <input
+                        type="number"
+                        min={1}
+                        placeholder={String(inherited.warningLatencyMs)}
+                        className="w-full bg-black/20 border border-white/10 rounded p-2 text-white text-sm"
+                        value={policy.warningLatencyMs ?? ""}
+                        onChange={(e) => update({ warningLatencyMs: parseNumber(e.target.value) })}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-white/50 mb-1">Latensi Mati (ms)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        placeholder={inherited.downLatencyMs ? String(inherited.downLatencyMs) : "0 (nonaktif)"}
+                        className="w-full bg-black/20 border border-white/10 rounded p-2 text-white text-sm"
+                        value={policy.downLatencyMs ?? ""}
+                        onChange={(e) => update({ downLatencyMs: parseNumber(e.target.value) })}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-white/50 mb-1">Metode</label>
+                    <select
+                        className="w-full bg-black/20 border border-white/10 rounded p-2 text-white text-sm [&>option]:bg-gray-800 [&>option]:text-white"
+                        value={policy.method || ""}
+                        onChange={(e) => update({ method: (e.target.value || undefined) as CheckPolicy["method"] | undefined })}
+                    >
+                        <option value="" className="bg-gray-800 text-white">Bawaan ({inherited.method})</option>
+                        <option value="HEAD" className="bg-gray-800 text-white">HEAD (fallback GET)</option>
+                        <option value="GET" className="bg-gray-800 text-white">GET</option>
+                    </select>
+                </div>
+            </div>
+        </div>
+    );
+}
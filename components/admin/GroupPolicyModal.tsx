@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { CheckPolicy, NodeGroup } from "@/types";
+import { CheckPolicyForm } from "./CheckPolicyForm";
+
+interface GroupPolicyModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const GROUPS: NodeGroup[] = ["website", "api", "service", "database", "backend", "frontend", "iframe", "video", "game", "webgl"];
+
+export function GroupPolicyModal({ isOpen, onClose }: GroupPolicyModalProps) {
+    const [group, setGroup] = useState<NodeGroup>("website");
+    const [policy, setPolicy] = useState<Partial<CheckPolicy>>({});
+    const [defaults, setDefaults] = useState<CheckPolicy | undefined>(undefined);
+    const [loadedAt, setLoadedAt] = useState(0);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) {
+            setError(null);
+            return;
+        }
+
+        setIsLoading(true);
+        setError(null);
+
+        const abortController = new AbortController();
+
+        fetch(`/api/groups/${group}/policy`, { signal: abortController.signal })
+            .then(res => res.json())
+            .then(data => {
+                if (data.success) {
+                    setPolicy(data.data.checkPolicy || {});
+                    setDefaults(data.data.defaults);
+                    setLoadedAt(Date.now());
+                } else {
+                    setError(data.error || "Gagal memuat kebijakan grup");
+                }
+            })
+            .catch(err => {
+                if (abortController.signal.aborted) return;
+                setError("Gagal memuat kebijakan grup: " + err.message);
+            })
+            .finally(() => {
+                if (!abortController.signal.aborted) setIsLoading(false);
+            });
+
+        return () => {
+            abortController.abort();
+        };
+    }, [isOpen, group]);
+
+    const save = async (method: "PUT" | "DELETE") => {
+        setIsSaving(true);
+        setError(null);
+
+        try {
+            const res = await fetch(`/api/groups/${group}/policy`, {
+                method,
+                headers: { "Content-Type": "application/json" },
+                body: method === "PUT" ? JSON.stringify({ checkPolicy: policy }) : undefined,
+            });
+            const data = await res.json();
+
+            if (data.success) {
+                setPolicy(data.data.checkPolicy || {});
+                setLoadedAt(Date.now());
+                if (method === "PUT") onClose();
+            } else {
+                setError(data.error || "Gagal menyimpan kebijakan grup");
+            }
+        } catch (err: any) {
+            setError(err.message || "Gagal menyimpan kebijakan grup");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="w-full max-w-lg glass rounded-lg shadow-2xl p-6">
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-xl font-bold flex items-center gap-2">
+                        ⚙️ Kebijakan Status Grup
+                    </h2>
+                    <button onClick={onClose} className="text-white/60 hover:text-white">✕</button>
+                </div>
+
+                <div className="space-y-6">
+                    <div>
+                        <label className="block text-sm font-medium text-white/70 mb-1">Grup</label>
+                        <select
+                            className="w-full bg-white/5 border border-white/10 rounded p-2 text-white focus:outline-none focus:border-status-fresh [&>option]:bg-gray-800 [&>option]:text-white"
+                            value={group}
+                            onChange={(e) => setGroup(e.target.value as NodeGroup)}
+                        >
+                            {GROUPS.map((g) => (
+                                <option key={g} value={g} className="bg-gray-800 text-white">{g}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-white/40 mt-1">Berlaku untuk semua node di grup ini, kecuali diubah per node.</p>
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-500/20 border border-red-500/30 text-red-300 p-3 rounded text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {isLoading ? (
+                        <div className="text-center py-8 text-white/60">Memuat...</div>
+                    ) : (
+                        <CheckPolicyForm
+                            key={`${group}-${loadedAt}`}
+                            policy={policy}
+                            onChange={setPolicy}
+                            inherited={defaults}
+                        />
+                    )}
+
+                    <div className="flex justify-between gap-3 pt-4 border-t border-white/10">
+                        <button
+                            onClick={() => save("DELETE")}
+                            disabled={isSaving || isLoading}
+                            className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white/70 rounded transition disabled:opacity-50"
+                        >
+                            Reset ke Bawaan
+                        </button>
+                        <div className="flex gap-3">
+                            <button
+                                onClick={onClose}
+                                className="px-4 py-2 bg-white/5 hover:bg-white/10 text-white rounded transition"
+                            >
+                                Batal
+                            </button>
+                            <button
+                                onClick={() => save("PUT")}
+                                disabled={isSaving || isLoading}
+                                className="px-4 py-2 bg-status-fresh text-black font-semibold rounded hover:bg-status-fresh/80 transition disabled:opacity-50"
+                            >
+                                {isSaving ? "Menyimpan..." : "Simpan Kebijakan"}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -65,6 +65,9 @@ export function AudioAlertManager() {
 
     // Function to check if node has server-side error
     const isServerSideError = (node: NodeData) => {
+        // Planned maintenance and downstream effects of another failure never sound an alarm
+        if (node.status === "MAINTENANCE" || node.status === "DEGRADED_BY_DEPENDENCY") return false;
+
         // "DOWN" status is general, but let's be specific if possible.
         // If httpStatus is available, check 5xx.
         if (node.httpStatus && node.httpStatus >= 500) return true;
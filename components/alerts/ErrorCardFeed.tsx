@@ -10,6 +10,8 @@ import { getDetailedErrorMessage } from "@/lib/errorMappings";
  * Error Feed Component
  * Replaces Neuron mode.
  * Displays "Container Cards" for nodes in DOWN status.
+ * Nodes DOWN because of a failing dependency are grouped under their root cause,
+ * nodes in a maintenance window are listed separately (muted, never as errors).
  * Animates from bottom to top.
  */
 
@@ -24,6 +26,30 @@ export function ErrorCardFeed() {
 
     const hasErrors = errorNodes.length > 0;
 
+    // Planned downtime - shown below the feed, not as DOWN
+    const maintenanceNodes = nodes.filter(
+        (node: NodeData) => node.status === "MAINTENANCE"
+    );
+
+    // Downstream failures, keyed by root cause node ID
+    const affectedByRoot = new Map<string, NodeData[]>();
+    nodes
+        .filter((node: NodeData) => node.status === "DEGRADED_BY_DEPENDENCY")
+        .forEach((node: NodeData) => {
+            (node.rootCauses || []).forEach((root) => {
+                affectedByRoot.set(root.nodeId, [...(affectedByRoot.get(root.nodeId) || []), node]);
+            });
+        });
+
+    // Root causes without their own card (e.g. the root is in maintenance)
+    const otherRoots = Array.from(affectedByRoot.keys())
+        .filter((rootId) => !errorNodes.some((node: NodeData) => node.id === rootId))
+        .map((rootId) => {
+            const affected = affectedByRoot.get(rootId)!;
+            const root = affected[0].rootCauses!.find((cause) => cause.nodeId === rootId)!;
+            return { rootId, name: root.name, affected };
+        });
+
     return (
         <div className="w-full h-full p-8 overflow-y-auto pt-[100px] flex flex-col items-center">
             <AnimatePresence>
@@ -35,7 +61,7 @@ export function ErrorCardFeed() {
                         exit={{ opacity: 0 }}
                     >
                         {errorNodes.map((node: NodeData, index: number) => (
-                            <ErrorCard key={node.id} node={node} index={index} />
+                            <ErrorCard key={node.id} node={node} index={index} affected={affectedByRoot.get(node.id) || []} />
                         ))}
                     </motion.div>
                 ) : (
@@ -54,11 +80,87 @@ export function ErrorCardFeed() {
                     </motion.div>
                 )}
             </AnimatePresence>
+
+            {otherRoots.length > 0 && (
+                <div className="w-full max-w-7xl mt-10">
+                    <div className="text-xs text-white/40 uppercase font-bold mb-3">
+                        🔗 Terdampak Dependensi
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {otherRoots.map(({ rootId, name, affected }) => (
+                            <div key={rootId} className="glass p-4 rounded-xl border border-status-degraded/30 bg-status-degraded/5">
+                                <div className="text-sm text-white/60">Akar masalah</div>
+                                <h3 className="font-bold text-white truncate" title={name}>{name}</h3>
+                                <AffectedList affected={affected} />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {maintenanceNodes.length > 0 && (
+                <div className="w-full max-w-7xl mt-10">
+                    <div className="text-xs text-white/40 uppercase font-bold mb-3">
+                        🛠️ Dalam Pemeliharaan ({maintenanceNodes.length})
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {maintenanceNodes.map((node: NodeData) => (
+                            <MaintenanceCard key={node.id} node={node} />
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function MaintenanceCard({ node }: { node: NodeData }) {
+    return (
+        <div className="glass p-4 rounded-xl border border-status-maintenance/30 bg-status-maintenance/5 opacity-80">
+            <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                    <h3 className="font-bold text-white truncate" title={node.name}>
+                        {node.name}
+                    </h3>
+                    <div className="text-xs text-white/40 font-mono mt-1 break-all">
+                        {node.url}
+                    </div>
+                </div>
+                <div className="bg-status-maintenance/20 text-status-maintenance px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider shrink-0">
+                    Pemeliharaan
+                </div>
+            </div>
+            {node.maintenance && (
+                <div className="text-xs text-white/50 mt-3">
+                    {node.maintenance.name} · sampai {new Date(node.maintenance.endsAt).toLocaleString()}
+                </div>
+            )}
         </div>
     );
 }
 
-function ErrorCard({ node, index }: { node: NodeData; index: number }) {
+function AffectedList({ affected }: { affected: NodeData[] }) {
+    return (
+        <div className="mt-3">
+            <div className="text-xs text-white/40 uppercase font-bold mb-1">
+                Ikut terdampak ({affected.length})
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+                {affected.map((node) => (
+                    <span
+                        key={node.id}
+                        className="bg-status-degraded/15 text-status-degraded border border-status-degraded/30 px-2 py-0.5 rounded text-xs"
+                        title={node.url}
+                    >
+                        {node.name}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function ErrorCard({ node, index, affected }: { node: NodeData; index: number; affected: NodeData[] }) {
     const isWarning = node.status === "WARNING";
     const statusColor = isWarning ? "text-status-warning" : "text-status-down";
     const statusBg = isWarning ? "bg-status-warning" : "bg-status-down";
@@ -136,6 +238,12 @@ function ErrorCard({ node, index }: { node: NodeData; index: number }) {
                 </div>
             )}
 
+            {affected.length > 0 && (
+                <div className="pl-3">
+                    <AffectedList affected={affected} />
+                </div>
+            )}
+
             <div className={`absolute top-0 right-0 p-4 opacity-10 font-[900] text-6xl ${statusColor} pointer-events-none transform translate-x-4 -translate-y-4`}>
                 !
             </div>
@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useIncidents } from "@/lib/hooks/useIncidents";
+import { IncidentData, IncidentStatus } from "@/types";
+import { formatDuration, formatTimestamp } from "@/lib/utils";
+
+/**
+ * Incident Timeline Component
+ * Shown next to ErrorCardFeed in alerts mode.
+ * Lists recent incidents (open first) with their lifecycle events
+ * and lets an operator acknowledge active incidents with a note.
+ */
+
+const STATUS_STYLES: Record<IncidentStatus, { label: string; color: string; bg: string }> = {
+    OPEN: { label: "Terbuka", color: "text-status-down", bg: "bg-status-down" },
+    ACKNOWLEDGED: { label: "Ditangani", color: "text-status-warning", bg: "bg-status-warning" },
+    RESOLVED: { label: "Selesai", color: "text-status-fresh", bg: "bg-status-fresh" },
+};
+
+const EVENT_LABELS: Record<IncidentData["timeline"][number]["type"], string> = {
+    opened: "Insiden dibuka",
+    failure: "Error berubah",
+    acknowledged: "Diakui",
+    resolved: "Pulih",
+};
+
+export function IncidentTimeline() {
+    const { incidents, isLoading, acknowledge } = useIncidents();
+
+    // Active incidents first, then newest
+    const sorted = [...incidents].sort((a, b) => {
+        const activeA = a.status === "RESOLVED" ? 1 : 0;
+        const activeB = b.status === "RESOLVED" ? 1 : 0;
+        if (activeA !== activeB) return activeA - activeB;
+        return new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime();
+    });
+
+    return (
+        <aside className="w-full lg:w-96 h-full overflow-y-auto pt-[100px] px-4 pb-8 border-l border-white/10 bg-black/20">
+            <h2 className="text-sm font-bold text-white/70 uppercase tracking-wider mb-4">
+                Linimasa Insiden
+            </h2>
+
+            {isLoading && incidents.length === 0 && (
+                <p className="text-white/40 text-sm">Memuat insiden...</p>
+            )}
+
+            {!isLoading && incidents.length === 0 && (
+                <p className="text-white/40 text-sm">Belum ada insiden tercatat.</p>
+            )}
+
+            <ol className="space-y-3">
+                <AnimatePresence initial={false}>
+                    {sorted.map((incident) => (
+                        <IncidentItem key={incident.id} incident={incident} onAcknowledge={acknowledge} />
+                    ))}
+                </AnimatePresence>
+            </ol>
+        </aside>
+    );
+}
+
+function IncidentItem({
+    incident,
+    onAcknowledge,
+}: {
+    incident: IncidentData;
+    onAcknowledge: (incidentId: string, note?: string) => Promise<IncidentData>;
+}) {
+    const [expanded, setExpanded] = useState(incident.status === "OPEN");
+    const [note, setNote] = useState("");
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const style = STATUS_STYLES[incident.status];
+    const duration = incident.durationMs ?? Date.now() - new Date(incident.startedAt).getTime();
+
+    const handleAcknowledge = async () => {
+        setSubmitting(true);
+        setError(null);
+        try {
+            await onAcknowledge(incident.id, note.trim() || undefined);
+            setNote("");
+        } catch (err: any) {
+            setError(err.message || "Gagal mengakui insiden");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <motion.li
+            layout
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0 }}
+            className={`glass rounded-lg border border-white/10 relative overflow-hidden`}
+        >
+            <div className={`absolute left-0 top-0 bottom-0 w-1 ${style.bg}`} />
+
+            <button
+                type="button"
+                className="w-full text-left p-3 pl-4"
+                onClick={() => setExpanded(!expanded)}
+            >
+                <div className="flex justify-between items-start gap-2">
+                    <span className="font-bold text-white text-sm truncate" title={incident.nodeName}>
+                        {incident.nodeName}
+                    </span>
+                    <span className={`${style.bg}/20 ${style.color} px-2 py-0.5 rounded text-[10px] font-bold uppercase shrink-0`}>
+                        {style.label}
+                    </span>
+                </div>
+                <div className="text-xs text-white/50 mt-1 flex justify-between">
+                    <span>{formatTimestamp(incident.startedAt)}</span>
+                    <span className="font-mono">{formatDuration(Math.max(0, duration))}</span>
+                </div>
+                {incident.error && (
+                    <div className="text-xs text-status-down/80 font-mono mt-1 truncate" title={incident.error}>
+                        {incident.error}
+                    </div>
+                )}
+            </button>
+
+            {expanded && (
+                <div className="px-4 pb-3 space-y-3">
+                    <ol className="border-l border-white/10 pl-3 space-y-2">
+                        {incident.timeline.map((event, index) => (
+                            <li key={`${event.type}-${index}`} className="text-xs">
+                                <div className="text-white/70">
+                                    {EVENT_LABELS[event.type]}
+                                    {event.actor && <span className="text-white/40"> · {event.actor}</span>}
+                                </div>
+                                <div className="text-white/40 font-mono">
+                                    {new Date(event.at).toLocaleString("id-ID")}
+                                </div>
+                                {event.message && (
+                                    <div className="text-white/60 break-words">{event.message}</div>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+
+                    <div className="text-xs text-white/40">
+                        {incident.failureCount} pengecekan gagal
+                        {incident.httpStatus ? ` · HTTP ${incident.httpStatus}` : ""}
+                    </div>
+
+                    {incident.status === "OPEN" && (
+                        <div className="space-y-2">
+                            <textarea
+                                rows={2}
+                                placeholder="Catatan (opsional)"
+                                className="w-full bg-black/20 border border-white/10 rounded p-2 text-white text-xs focus:outline-none focus:border-status-warning"
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                            />
+                            <button
+                                type="button"
+                                disabled={submitting}
+                                onClick={handleAcknowledge}
+                                className="w-full px-3 py-1.5 rounded bg-status-warning/20 text-status-warning text-xs font-bold hover:bg-status-warning/30 disabled:opacity-50"
+                            >
+                                {submitting ? "Menyimpan..." : "Akui Insiden"}
+                            </button>
+                            {error && <div className="text-xs text-status-down">{error}</div>}
+                        </div>
+                    )}
+
+                    {incident.ackNote && (
+                        <div className="text-xs bg-black/30 rounded p-2 text-white/70">
+                            📝 {incident.ackNote}
+                        </div>
+                    )}
+                </div>
+            )}
+        </motion.li>
+    );
+}
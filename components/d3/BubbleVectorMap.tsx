@@ -26,6 +26,9 @@ const STATUS_COLORS: Record<string, string> = {
     'FRESH': '#10b981',  // Map FRESH to UP color
     'DOWN': '#ef4444',
     'WARNING': '#f59e0b',
+    'FLAPPING': '#f97316',
+    'MAINTENANCE': '#a78bfa',
+    'DEGRADED_BY_DEPENDENCY': '#fb7185',
     'TIMEOUT': '#f59e0b',
     'ERROR': '#ef4444',
     'UNKNOWN': '#94a3b8'
@@ -37,6 +40,9 @@ const STATUS_ICONS: Record<string, string> = {
     'FRESH': '⚡',
     'DOWN': '✕',
     'WARNING': '⚠',
+    'FLAPPING': '⇅',
+    'MAINTENANCE': '🛠',
+    'DEGRADED_BY_DEPENDENCY': '🔗',
     'TIMEOUT': '⏱',
     'UNKNOWN': '?'
 };
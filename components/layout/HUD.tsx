@@ -10,7 +10,7 @@ import { useNodeData } from "@/lib/hooks/useNodeData";
  */
 
 export function HUD() {
-    const { nodes } = useNodeData();
+    const { nodes, isLive } = useNodeData();
     const [tickerText, setTickerText] = useState("");
 
     useEffect(() => {
@@ -24,6 +24,9 @@ export function HUD() {
             FRESH: nodes.filter((n: any) => n.status === "FRESH").length,
             WARNING: nodes.filter((n: any) => n.status === "WARNING").length,
             DOWN: nodes.filter((n: any) => n.status === "DOWN").length,
+            FLAPPING: nodes.filter((n: any) => n.status === "FLAPPING").length,
+            MAINTENANCE: nodes.filter((n: any) => n.status === "MAINTENANCE").length,
+            DEGRADED_BY_DEPENDENCY: nodes.filter((n: any) => n.status === "DEGRADED_BY_DEPENDENCY").length,
         };
 
         const criticalNodes = nodes
@@ -35,6 +38,15 @@ export function HUD() {
         text += `Baru: ${statusCounts.FRESH} | `;
         text += `Peringatan: ${statusCounts.WARNING} | `;
         text += `Mati: ${statusCounts.DOWN}`;
+        if (statusCounts.FLAPPING > 0) {
+            text += ` | Tidak Stabil: ${statusCounts.FLAPPING}`;
+        }
+        if (statusCounts.MAINTENANCE > 0) {
+            text += ` | Pemeliharaan: ${statusCounts.MAINTENANCE}`;
+        }
+        if (statusCounts.DEGRADED_BY_DEPENDENCY > 0) {
+            text += ` | Terdampak Dependensi: ${statusCounts.DEGRADED_BY_DEPENDENCY}`;
+        }
 
         if (criticalNodes.length > 0) {
             text += ` | KRITIS: ${criticalNodes.join(", ")}`;
@@ -48,6 +60,10 @@ export function HUD() {
             <div className="glass border-b border-white/5 py-2 px-4 overflow-hidden">
                 <div className="flex items-center gap-4">
                     <div className="text-xs font-medium text-white/60">STATUS</div>
+                    <div
+                        className={`w-2 h-2 rounded-full ${isLive ? "bg-status-fresh animate-pulse" : "bg-white/30"}`}
+                        title={isLive ? "Pembaruan langsung aktif" : "Mode polling"}
+                    />
                     <div className="flex-1 overflow-hidden">
                         <div className="ticker-text text-sm text-white/80 whitespace-nowrap">
                             {/* Duplicate text for seamless loop */}
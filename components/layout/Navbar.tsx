@@ -3,10 +3,12 @@
 import React, { useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { signOut, useSession } from "next-auth/react";
 import { useUIStore } from "@/lib/stores/uiStore";
 import { VisualizationMode } from "@/types";
 import { useSheetsSyncInterval } from "@/lib/hooks/useSheetsSyncInterval";
 import { AudioAlertManager } from "@/components/alerts/AudioAlertManager";
+import { hasRole } from "@/lib/auth/roles";
 
 /**
  * Persistent Navbar Component
@@ -16,6 +18,8 @@ import { AudioAlertManager } from "@/components/alerts/AudioAlertManager";
 
 export function Navbar() {
     const pathname = usePathname();
+    const { data: session } = useSession();
+    const user = session?.user;
     const {
         visualizationMode,
         setVisualizationMode,
@@ -31,7 +35,8 @@ export function Navbar() {
         setStatusCheckInterval
     } = useUIStore();
 
-    const { isSyncing } = useSheetsSyncInterval();
+    const canSyncSheets = hasRole(user?.role, "admin");
+    const { isSyncing } = useSheetsSyncInterval(canSyncSheets);
 
     // Local states for interval dropdowns visibility
     const [showSyncIntervalMenu, setShowSyncIntervalMenu] = useState(false);
@@ -42,6 +47,7 @@ export function Navbar() {
     const modes: { value: VisualizationMode; label: string }[] = [
         { value: "Atom", label: "Atom" },
         { value: "vector", label: "Bubble" },
+        { value: "topology", label: "Topologi" },
         { value: "alerts", label: "🚨" },
     ];
 
@@ -76,69 +82,71 @@ export function Navbar() {
                             </div>
                         )}
 
-                        {/* Google Sheets Sync Toggle with Interval Dropdown */}
-                        <div className="relative">
-                            <div className="flex items-center gap-0">
-                                <button
-                                    onClick={toggleSheetsSync}
-                                    className={`p-2 rounded-l-lg transition border border-r-0 ${sheetsSyncEnabled
-                                        ? "bg-blue-500/30 border-blue-500/50 shadow-lg shadow-blue-500/20"
-                                        : "bg-white/5 border-white/10 hover:bg-white/10"
-                                        }`}
-                                    title={sheetsSyncEnabled ? `Sinkronisasi Aktif (${sheetsSyncInterval}d)` : `Sinkronisasi Nonaktif (${sheetsSyncInterval}d)`}
-                                >
-                                    <svg
-                                        className={`w-5 h-5 ${sheetsSyncEnabled ? "text-blue-300" : "text-white/40"
-                                            } ${isSyncing ? "animate-spin" : ""}`}
-                                        fill="none"
-                                        viewBox="0 0 24 24"
-                                        stroke="currentColor"
+                        {/* Google Sheets Sync Toggle with Interval Dropdown (admin: a sync can delete nodes) */}
+                        {canSyncSheets && (
+                            <div className="relative">
+                                <div className="flex items-center gap-0">
+                                    <button
+                                        onClick={toggleSheetsSync}
+                                        className={`p-2 rounded-l-lg transition border border-r-0 ${sheetsSyncEnabled
+                                            ? "bg-blue-500/30 border-blue-500/50 shadow-lg shadow-blue-500/20"
+                                            : "bg-white/5 border-white/10 hover:bg-white/10"
+                                            }`}
+                                        title={sheetsSyncEnabled ? `Sinkronisasi Aktif (${sheetsSyncInterval}d)` : `Sinkronisasi Nonaktif (${sheetsSyncInterval}d)`}
                                     >
-                                        <path
-                                            strokeLinecap="round"
-                                            strokeLinejoin="round"
-                                            strokeWidth={2}
-                                            d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-                                        />
-                                    </svg>
-                                </button>
-                                <button
-                                    onClick={() => setShowSyncIntervalMenu(!showSyncIntervalMenu)}
-                                    className={`px-2 py-2 rounded-r-lg transition border text-xs font-mono ${sheetsSyncEnabled
-                                        ? "bg-blue-500/30 border-blue-500/50 text-blue-300"
-                                        : "bg-white/5 border-white/10 text-white/40 hover:bg-white/10"
-                                        }`}
-                                    title="Konfigurasi interval"
-                                >
-                                    {sheetsSyncInterval}d ▾
-                                </button>
-                            </div>
-
-                            {/* Dropdown Menu */}
-                            {showSyncIntervalMenu && (
-                                <div className="absolute top-full mt-1 right-0 bg-gray-900 border border-white/20 rounded-lg shadow-xl z-50 min-w-[120px]">
-                                    {[
-                                        { val: 10, label: "10 detik" },
-                                        { val: 30, label: "30 detik" },
-                                        { val: 60, label: "1 menit" },
-                                        { val: 120, label: "2 menit" },
-                                        { val: 300, label: "5 menit" }
-                                    ].map((opt) => (
-                                        <button
-                                            key={opt.val}
-                                            onClick={() => {
-                                                setSheetsSyncInterval(opt.val);
-                                                setShowSyncIntervalMenu(false);
-                                            }}
-                                            className={`w-full px-4 py-2 text-left text-sm hover:bg-white/10 first:rounded-t-lg last:rounded-b-lg transition ${sheetsSyncInterval === opt.val ? "bg-blue-500/20 text-blue-300" : ""
-                                                }`}
+                                        <svg
+                                            className={`w-5 h-5 ${sheetsSyncEnabled ? "text-blue-300" : "text-white/40"
+                                                } ${isSyncing ? "animate-spin" : ""}`}
+                                            fill="none"
+                                            viewBox="0 0 24 24"
+                                            stroke="currentColor"
                                         >
-                                            {opt.label} {opt.val === 30 && "(bawaan)"}
-                                        </button>
-                                    ))}
+                                            <path
+                                                strokeLinecap="round"
+                                                strokeLinejoin="round"
+                                                strokeWidth={2}
+                                                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                                            />
+                                        </svg>
+                                    </button>
+                                    <button
+                                        onClick={() => setShowSyncIntervalMenu(!showSyncIntervalMenu)}
+                                        className={`px-2 py-2 rounded-r-lg transition border text-xs font-mono ${sheetsSyncEnabled
+                                            ? "bg-blue-500/30 border-blue-500/50 text-blue-300"
+                                            : "bg-white/5 border-white/10 text-white/40 hover:bg-white/10"
+                                            }`}
+                                        title="Konfigurasi interval"
+                                    >
+                                        {sheetsSyncInterval}d ▾
+                                    </button>
                                 </div>
-                            )}
-                        </div>
+
+                                {/* Dropdown Menu */}
+                                {showSyncIntervalMenu && (
+                                    <div className="absolute top-full mt-1 right-0 bg-gray-900 border border-white/20 rounded-lg shadow-xl z-50 min-w-[120px]">
+                                        {[
+                                            { val: 10, label: "10 detik" },
+                                            { val: 30, label: "30 detik" },
+                                            { val: 60, label: "1 menit" },
+                                            { val: 120, label: "2 menit" },
+                                            { val: 300, label: "5 menit" }
+                                        ].map((opt) => (
+                                            <button
+                                                key={opt.val}
+                                                onClick={() => {
+                                                    setSheetsSyncInterval(opt.val);
+                                                    setShowSyncIntervalMenu(false);
+                                                }}
+                                                className={`w-full px-4 py-2 text-left text-sm hover:bg-white/10 first:rounded-t-lg last:rounded-b-lg transition ${sheetsSyncInterval === opt.val ? "bg-blue-500/20 text-blue-300" : ""
+                                                    }`}
+                                            >
+                                                {opt.label} {opt.val === 30 && "(bawaan)"}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
 
                         {/* URL Status Check Toggle with Interval Dropdown */}
                         <div className="relative">
@@ -251,7 +259,7 @@ export function Navbar() {
                             </Link>
                         )}
 
-                        {isDashboard && (
+                        {isDashboard && hasRole(user?.role, "admin") && (
                             <Link
                                 href="/admin/urls"
                                 className="flex items-center gap-2 text-white/60 hover:text-white transition text-sm ml-2"
@@ -263,6 +271,23 @@ export function Navbar() {
 
                             </Link>
                         )}
+
+                        {/* Signed-in user */}
+                        {user && (
+                            <div className="flex items-center gap-2 ml-2 pl-4 border-l border-white/10">
+                                <span className="text-sm text-white/80">{user.name}</span>
+                                <span className="px-2 py-0.5 bg-white/5 border border-white/10 rounded-full text-xs text-white/60">
+                                    {user.role}
+                                </span>
+                                <button
+                                    onClick={() => signOut({ callbackUrl: "/login" })}
+                                    className="text-white/60 hover:text-white transition text-sm"
+                                    title="Keluar"
+                                >
+                                    Keluar
+                                </button>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -1,9 +1,10 @@
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { NodeData, NodeGroup, AuthConfig } from "@/types";
+import { NodeData, NodeGroup, AuthConfig, CheckPolicy, BlastRadiusData, CheckArtifactSet } from "@/types";
 import { useUIStore } from "@/lib/stores/uiStore";
 import { AuthConfigForm } from "../admin/AuthConfigForm";
+import { CheckPolicyForm } from "../admin/CheckPolicyForm";
 
 // UI Components
 import { Button } from "@/components/ui/button";
@@ -31,6 +32,24 @@ export function NodeModal() {
     });
     const [isSaving, setIsSaving] = useState(false);
 
+    // Content assertions are edited as JSON
+    const [assertionsText, setAssertionsText] = useState("");
+
+    // Synthetic transaction steps (BROWSER_LOGIN only), also edited as JSON
+    const [transactionText, setTransactionText] = useState("");
+
+    // Tags are edited as a comma-separated list
+    const [tagsText, setTagsText] = useState("");
+
+    // Nodes that depend on this one (directly or transitively)
+    const [blastRadius, setBlastRadius] = useState<BlastRadiusData | null>(null);
+
+    // Screenshots / HTML / HAR of recent failed browser checks
+    const [artifactSets, setArtifactSets] = useState<CheckArtifactSet[]>([]);
+
+    // Effective group policy, shown as placeholders in the check policy form
+    const [groupPolicy, setGroupPolicy] = useState<CheckPolicy | undefined>(undefined);
+
     // Fetch node details when modal opens
     useEffect(() => {
         if (!selectedNodeId) {
@@ -39,6 +58,11 @@ export function NodeModal() {
             setIsEditing(false);
             setIsChecking(false);
             setIsSaving(false);
+            setAssertionsText("");
+            setTransactionText("");
+            setTagsText("");
+            setBlastRadius(null);
+            setArtifactSets([]);
             setFormData({
                 name: "",
                 url: "",
@@ -65,8 +89,13 @@ export function NodeModal() {
                     url: node.url,
                     group: node.group,
                     authConfig: node.authConfig || { type: "NONE" },
+                    checkPolicy: node.checkPolicy || {},
+                    checkIntervalSeconds: node.checkIntervalSeconds,
                     description: node.description
                 });
+                setAssertionsText(node.assertions ? JSON.stringify(node.assertions, null, 2) : "");
+                setTransactionText(node.transaction ? JSON.stringify(node.transaction, null, 2) : "");
+                setTagsText((node.tags || []).join(", "));
                 setIsLoading(false);
             })
             .catch((err) => {
@@ -74,6 +103,20 @@ export function NodeModal() {
                 console.error("Failed to fetch node details:", err);
                 setIsLoading(false);
             });
+
+        fetch(`/api/nodes/${selectedNodeId}/blast-radius`, { signal: abortController.signal })
+            .then((res) => res.json())
+            .then((data) => {
+                if (data.success) setBlastRadius(data.data);
+            })
+            .catch(() => { /* the section is optional */ });
+
+        fetch(`/api/nodes/${selectedNodeId}/artifacts?limit=5`, { signal: abortController.signal })
+            .then((res) => res.json())
+            .then((data) => {
+                if (data.success) setArtifactSets(data.data);
+            })
+            .catch(() => { /* the section is optional */ });
             
         // Cleanup function
         return () => {
@@ -81,19 +124,65 @@ export function NodeModal() {
         };
     }, [selectedNodeId]);
 
+    // Load the group policy the node inherits from while editing
+    useEffect(() => {
+        if (!isEditing || !formData.group) return;
+
+        const abortController = new AbortController();
+
+        fetch(`/api/groups/${formData.group}/policy`, { signal: abortController.signal })
+            .then((res) => res.json())
+            .then((data) => {
+                if (data.success) setGroupPolicy(data.data.effective);
+            })
+            .catch(() => { /* placeholders fall back to defaults */ });
+
+        return () => {
+            abortController.abort();
+        };
+    }, [isEditing, formData.group]);
+
     const handleClose = () => {
         setSelectedNodeId(null);
     };
 
     const handleSave = async () => {
         if (!selectedNodeId) return;
+
+        let assertions = null;
+        if (assertionsText.trim()) {
+            try {
+                assertions = JSON.parse(assertionsText);
+            } catch {
+                alert("Asersi konten harus berupa JSON yang valid");
+                return;
+            }
+        }
+
+        // Switching away from BROWSER_LOGIN drops the transaction
+        let transaction = null;
+        if (formData.authConfig.type === "BROWSER_LOGIN" && transactionText.trim()) {
+            try {
+                transaction = JSON.parse(transactionText);
+            } catch {
+                alert("Transaksi sintetis harus berupa JSON yang valid");
+                return;
+            }
+        }
+
         setIsSaving(true);
 
         try {
             const res = await fetch(`/api/nodes/${selectedNodeId}`, {
                 method: "PUT",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(formData),
+                body: JSON.stringify({
+                    ...formData,
+                    checkIntervalSeconds: formData.checkIntervalSeconds ?? null,
+                    assertions,
+                    transaction,
+                    tags: tagsText.split(",").map(tag => tag.trim()).filter(Boolean),
+                }),
             });
 
             const data = await res.json();
@@ -119,7 +208,7 @@ export function NodeModal() {
                 <div className="flex items-center justify-between p-6 border-b border-white/10 sticky top-0 bg-[#0a0a0ab0] backdrop-blur-md z-10">
                     <h2 className="text-2xl font-bold text-white flex items-center gap-3">
                         <span className="text-3xl">
-                            {nodeData?.status === "STABLE" ? "✓" : nodeData?.status === "FRESH" ? "⚡" : nodeData?.status === "WARNING" ? "⚠️" : "✕"}
+                            {nodeData?.status === "STABLE" ? "✓" : nodeData?.status === "FRESH" ? "⚡" : nodeData?.status === "WARNING" ? "⚠️" : nodeData?.status === "FLAPPING" ? "⇅" : nodeData?.status === "MAINTENANCE" ? "🛠️" : nodeData?.status === "DEGRADED_BY_DEPENDENCY" ? "🔗" : "✕"}
                         </span>
                         {isEditing ? "Edit Node" : (nodeData?.name || "Memuat...")}
                     </h2>
@@ -171,6 +260,30 @@ export function NodeModal() {
                                         <option value="frontend" className="bg-gray-800 text-white">Frontend</option>
                                     </select>
                                 </div>
+                                <div className="grid gap-2">
+                                    <Label>Interval Cek (detik)</Label>
+                                    <Input
+                                        type="number"
+                                        min={10}
+                                        max={86400}
+                                        placeholder="Bawaan"
+                                        value={formData.checkIntervalSeconds ?? ""}
+                                        onChange={e => setFormData({
+                                            ...formData,
+                                            checkIntervalSeconds: e.target.value === "" ? undefined : parseInt(e.target.value, 10)
+                                        })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="grid gap-2">
+                                <Label>Tag</Label>
+                                <Input
+                                    value={tagsText}
+                                    onChange={e => setTagsText(e.target.value)}
+                                    placeholder="payments, eu-west"
+                                />
+                                <p className="text-xs text-white/40">Dipisahkan koma; dipakai untuk jadwal pemeliharaan</p>
                             </div>
 
                             <div className="bg-white/50 rounded-lg p-0">
@@ -180,6 +293,46 @@ export function NodeModal() {
                                 />
                             </div>
 
+                            <div className="p-4 bg-white/5 rounded-lg border border-white/10 space-y-3">
+                                <div>
+                                    <Label>Kebijakan Status</Label>
+                                    <p className="text-xs text-white/40 mt-1">Kosongkan untuk mengikuti kebijakan grup</p>
+                                </div>
+                                <CheckPolicyForm
+                                    policy={formData.checkPolicy || {}}
+                                    onChange={(checkPolicy) => setFormData({ ...formData, checkPolicy })}
+                                    inherited={groupPolicy}
+                                />
+                            </div>
+
+                            <div className="grid gap-2">
+                                <Label>Asersi Konten (JSON)</Label>
+                                <Textarea
+                                    value={assertionsText}
+                                    onChange={e => setAssertionsText(e.target.value)}
+                                    placeholder={'{ "bodyNotContains": ["Database connection error"], "requiredHeaders": [{ "name": "content-type" }] }'}
+                                    className="font-mono text-xs min-h-[100px]"
+                                />
+                                <p className="text-xs text-white/40">
+                                    bodyContains, bodyNotContains, bodyRegex, maxBodyBytes, requiredHeaders, failureStatus; jsonPath dan jsonSchema khusus grup API
+                                </p>
+                            </div>
+
+                            {formData.authConfig.type === "BROWSER_LOGIN" && (
+                                <div className="grid gap-2">
+                                    <Label>Transaksi Sintetis (JSON)</Label>
+                                    <Textarea
+                                        value={transactionText}
+                                        onChange={e => setTransactionText(e.target.value)}
+                                        placeholder={'{ "steps": [{ "action": "click", "selector": "#menu-reports" }, { "action": "fill", "selector": "input[name=q]", "value": "invoice" }, { "action": "assertText", "selector": "table tr", "text": "INV-" }] }'}
+                                        className="font-mono text-xs min-h-[120px]"
+                                    />
+                                    <p className="text-xs text-white/40">
+                                        Dijalankan setelah login. Aksi: goto (url), click (selector), fill (selector, value), waitForSelector (selector), assertText (text, selector opsional), assertUrl (url); opsional name, timeoutMs per langkah dan failureStatus. Nilai fill disimpan terenkripsi; gunakan {"{password}"} atau {"{env:HEARTBEAT_SECRET_NAMA}"} untuk rahasia
+                                    </p>
+                                </div>
+                            )}
+
                             <div className="grid gap-2">
                                 <Label>Deskripsi</Label>
                                 <Textarea
@@ -222,13 +375,58 @@ export function NodeModal() {
                                 {nodeData.status === "STABLE" ? "STABIL" :
                                     nodeData.status === "FRESH" ? "BARU" :
                                         nodeData.status === "WARNING" ? "PERINGATAN" :
-                                            "MATI"}
+                                            nodeData.status === "FLAPPING" ? "TIDAK STABIL" :
+                                                nodeData.status === "MAINTENANCE" ? "PEMELIHARAAN" :
+                                                    nodeData.status === "DEGRADED_BY_DEPENDENCY" ? "TERDAMPAK DEPENDENSI" :
+                                                        "MATI"}
                             </Badge>
                             <div className="text-white/60 text-sm">
                                 Terakhir diperiksa: {nodeData.lastChecked ? new Date(nodeData.lastChecked).toLocaleString() : "Belum pernah"}
+                                {nodeData.nextCheckAt && (
+                                    <> · Cek berikutnya: {new Date(nodeData.nextCheckAt).toLocaleString()}</>
+                                )}
+                                {nodeData.checkIntervalSeconds && (
+                                    <> · Setiap {nodeData.checkIntervalSeconds}d</>
+                                )}
                             </div>
                         </div>
 
+                        {nodeData.maintenance && (
+                            <div className="p-3 rounded-lg border border-status-maintenance/30 bg-status-maintenance/10 text-sm text-status-maintenance">
+                                🛠️ Dalam pemeliharaan: {nodeData.maintenance.name} · sampai {new Date(nodeData.maintenance.endsAt).toLocaleString()}
+                                <span className="text-white/50"> — pemeriksaan tetap berjalan, notifikasi ditahan</span>
+                            </div>
+                        )}
+
+                        {nodeData.rootCauses && nodeData.rootCauses.length > 0 && (
+                            <div className="p-3 rounded-lg border border-status-degraded/30 bg-status-degraded/10 text-sm text-status-degraded">
+                                🔗 Akar masalah: {nodeData.rootCauses.map(root => root.name).join(", ")}
+                                <span className="text-white/50"> — node ini mati karena dependensinya; notifikasi ditahan</span>
+                            </div>
+                        )}
+
+                        {blastRadius && blastRadius.total > 0 && (
+                            <Card className="bg-white/5 border-white/10">
+                                <CardContent className="p-4">
+                                    <h3 className="text-sm font-bold text-white/60 mb-2">
+                                        💥 Dampak jika node ini mati ({blastRadius.total} node)
+                                    </h3>
+                                    <div className="flex flex-wrap gap-2">
+                                        {blastRadius.dependents.map(dependent => (
+                                            <Badge
+                                                key={dependent.id}
+                                                status={dependent.status}
+                                                className="text-xs"
+                                                title={dependent.depth === 1 ? "Dependensi langsung" : `Dependensi tidak langsung (tingkat ${dependent.depth})`}
+                                            >
+                                                {dependent.name}
+                                            </Badge>
+                                        ))}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        )}
+
                         {/* URL Information */}
                         <Card className="bg-white/5 border-white/10 group relative">
                             <CardContent className="p-4">
@@ -287,6 +485,50 @@ export function NodeModal() {
                             </Card>
                         )}
 
+                        {/* Failure Artifacts (browser checks) */}
+                        {artifactSets.length > 0 && (
+                            <Card className="bg-white/5 border-white/10">
+                                <CardContent className="p-4 space-y-3">
+                                    <h3 className="text-sm font-bold text-white/60">📸 Bukti Kegagalan Terakhir</h3>
+                                    {artifactSets.map((set, index) => {
+                                        const screenshot = set.artifacts.find(artifact => artifact.kind === "screenshot");
+                                        return (
+                                            <div key={set.checkedAt} className={index > 0 ? "pt-3 border-t border-white/10" : ""}>
+                                                <div className="flex items-center justify-between gap-2 text-xs text-white/60">
+                                                    <span>{new Date(set.checkedAt).toLocaleString()}</span>
+                                                    <div className="flex gap-3">
+                                                        {set.artifacts.map(artifact => (
+                                                            <a
+                                                                key={artifact.id}
+                                                                href={`/api/artifacts/${artifact.id}`}
+                                                                target="_blank"
+                                                                rel="noopener noreferrer"
+                                                                className="text-status-fresh hover:underline"
+                                                                title={`${Math.ceil(artifact.size / 1024)} KB`}
+                                                            >
+                                                                {artifact.kind === "screenshot" ? "Screenshot" : artifact.kind === "html" ? "HTML" : "HAR"}
+                                                            </a>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                                {set.error && <p className="text-xs text-status-down mt-1">{set.error}</p>}
+                                                {index === 0 && screenshot && (
+                                                    <a href={`/api/artifacts/${screenshot.id}`} target="_blank" rel="noopener noreferrer">
+                                                        <img
+                                                            src={`/api/artifacts/${screenshot.id}`}
+                                                            alt={`Screenshot ${new Date(set.checkedAt).toLocaleString()}`}
+                                                            className="mt-2 w-full rounded border border-white/10"
+                                                            loading="lazy"
+                                                        />
+                                                    </a>
+                                                )}
+                                            </div>
+                                        );
+                                    })}
+                                </CardContent>
+                            </Card>
+                        )}
+
                         {/* Additional Info */}
                         <div className="grid grid-cols-2 gap-4">
                             <Card className="bg-white/5 border-white/10">
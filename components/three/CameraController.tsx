@@ -32,9 +32,9 @@ export function CameraController({ mode, focusTarget }: CameraControllerProps) {
         const effectiveHeight = size.height - VIEWPORT_MARGINS.TOP - VIEWPORT_MARGINS.BOTTOM;
         const effectiveAspect = effectiveWidth / effectiveHeight;
 
-        // For Atom mode, we want 1:1 pixel mapping, so frustum size is half height.
-        // For others, use config default.
-        const frustumSize = mode === 'Atom' ? size.height / 2 : config?.frustumSize || 400;
+        // For Atom and Topology modes (pixel-based layouts), we want 1:1 pixel mapping,
+        // so frustum size is half height. For others, use config default.
+        const frustumSize = mode === 'Atom' || mode === 'topology' ? size.height / 2 : config?.frustumSize || 400;
 
         return {
             size: frustumSize,
@@ -1,22 +1,35 @@
 "use client";
 
-import React from "react";
+import React, { useMemo, useRef } from "react";
 import { EdgeData } from "@/types";
 import * as THREE from "three";
+import { useFrame } from "@react-three/fiber";
 import { Line } from "@react-three/drei";
+import { EDGE_HEALTH_COLORS, EDGE_PROPAGATION } from "@/lib/constants";
 
 /**
  * Edge Renderer Component
- * Renders connections between nodes for Tree and Neuron modes
+ * Renders connections between nodes for Tree, Neuron and Topology modes
  * FRONTEND ONLY
+ *
+ * Topology: edges take the color of their upstream node's health; failing
+ * edges carry a pulse that travels downstream hop by hop (propagationDepth).
  */
 
+type EdgeMode = "tree" | "neuron" | "topology";
+
 interface EdgeRendererProps {
     edges: EdgeData[];
-    mode: "tree" | "neuron" | "none";
+    mode: EdgeMode | "none";
 }
 
 export function EdgeRenderer({ edges, mode }: EdgeRendererProps) {
+    // One propagation cycle covers the deepest failure path
+    const hops = useMemo(
+        () => Math.max(0, ...edges.map((edge) => edge.propagationDepth ?? 0)) + 1,
+        [edges]
+    );
+
     if (mode === "none" || edges.length === 0) {
         return null;
     }
@@ -24,7 +37,7 @@ export function EdgeRenderer({ edges, mode }: EdgeRendererProps) {
     return (
         <group>
             {edges.map((edge, index) => (
-                <EdgeLine key={`${edge.source}-${edge.target}-${index}`} edge={edge} mode={mode} />
+                <EdgeLine key={`${edge.source}-${edge.target}-${index}`} edge={edge} mode={mode} hops={hops} />
             ))}
         </group>
     );
@@ -32,10 +45,15 @@ export function EdgeRenderer({ edges, mode }: EdgeRendererProps) {
 
 interface EdgeLineProps {
     edge: EdgeData;
-    mode: "tree" | "neuron";
+    mode: EdgeMode;
+    hops: number;
 }
 
-function EdgeLine({ edge, mode }: EdgeLineProps) {
+function EdgeLine({ edge, mode, hops }: EdgeLineProps) {
+    if (mode === "topology") {
+        return <TopologyEdge edge={edge} hops={hops} />;
+    }
+
     // If edge has bezier path (from Tree layout), use it
     if (edge.path && edge.path.length > 0) {
         const points = edge.path.map((p) => new THREE.Vector3(p.x, p.y, p.z));
@@ -54,3 +72,71 @@ function EdgeLine({ edge, mode }: EdgeLineProps) {
     // Straight line (will be calculated from positions in parent)
     return null;
 }
+
+function TopologyEdge({ edge, hops }: { edge: EdgeData; hops: number }) {
+    const points = useMemo(
+        () => (edge.path || []).map((p) => new THREE.Vector3(p.x, p.y, p.z)),
+        [edge.path]
+    );
+
+    if (points.length < 2) {
+        return null;
+    }
+
+    const health = edge.health || "healthy";
+    const isFailing = health === "failing";
+
+    return (
+        <group>
+            <Line
+                points={points}
+                color={EDGE_HEALTH_COLORS[health]}
+                lineWidth={isFailing ? 2.5 : 1.5}
+                transparent
+                opacity={health === "healthy" ? 0.45 : 0.8}
+            />
+            {isFailing && (
+                <PropagationPulse points={points} depth={edge.propagationDepth ?? 0} hops={hops} />
+            )}
+        </group>
+    );
+}
+
+interface PropagationPulseProps {
+    points: THREE.Vector3[];
+    depth: number;
+    hops: number;
+}
+
+/**
+ * Dot moving from the upstream to the downstream end of a failing edge.
+ * Edges further down the failure path start later, so the pulse appears
+ * to spread from the root cause through its dependents.
+ */
+function PropagationPulse({ points, depth, hops }: PropagationPulseProps) {
+    const meshRef = useRef<THREE.Mesh>(null);
+    const curve = useMemo(() => new THREE.CatmullRomCurve3(points), [points]);
+
+    useFrame(({ clock }) => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+
+        const cycle = (clock.getElapsedTime() / EDGE_PROPAGATION.HOP_DURATION) % hops;
+        const progress = cycle - depth;
+
+        if (progress < 0 || progress > 1) {
+            mesh.visible = false;
+            return;
+        }
+
+        mesh.visible = true;
+        mesh.position.copy(curve.getPointAt(progress));
+    });
+
+    return (
+        <mesh ref={meshRef} visible={false}>
+            <circleGeometry args={[EDGE_PROPAGATION.PULSE_SIZE, 16]} />
+            <meshBasicMaterial color={EDGE_HEALTH_COLORS.failing} transparent opacity={0.9} />
+        </mesh>
+    );
+}
@@ -69,7 +69,10 @@ export function FuzzyParticleNode({
             case "DOWN":
                 return 1.5;  // 50% larger for critical attention
             case "WARNING":
+            case "FLAPPING":
                 return 1.3;  // 30% larger for warning attention
+            case "DEGRADED_BY_DEPENDENCY":
+                return 1.15; // Affected, but the root cause stands out more
             case "FRESH":
                 return 1.0;  // Normal size
             case "STABLE":
@@ -185,6 +188,20 @@ export function FuzzyParticleNode({
                 }
                 break;
 
+            case "MAINTENANCE":
+            case "DEGRADED_BY_DEPENDENCY":
+                // Slow, dimmed breathing - planned downtime or a downstream effect, not an outage of its own
+                {
+                    const { opacityRange } = ANIMATION_CONFIG.BREATHING;
+                    const breathe =
+                        (opacityRange[0] +
+                            (opacityRange[1] - opacityRange[0]) *
+                            (Math.sin(timeRef.current / (ANIMATION_CONFIG.BREATHING.duration * 2)) * 0.5 + 0.5)) * 0.5;
+
+                    (pointsRef.current.material as THREE.PointsMaterial).opacity = breathe;
+                }
+                break;
+
             case "FRESH":
                 // Expanding pulse
                 {
@@ -205,6 +222,7 @@ export function FuzzyParticleNode({
                 break;
 
             case "WARNING":
+            case "FLAPPING":
                 // High-frequency jitter (throttled to every 2nd frame for performance)
                 {
                     frameCountRef.current++;
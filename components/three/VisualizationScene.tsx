@@ -11,8 +11,10 @@ import { useNodeData } from "@/lib/hooks/useNodeData";
 import { useUIStore } from "@/lib/stores/uiStore";
 import { useVisualizationStore } from "@/lib/stores/visualizationStore";
 import { calculateAtomLayout, findAtomFocusTarget } from "@/lib/layouts/AtomLayout";
+import { calculateTopologyLayout } from "@/lib/layouts/TopologyLayout";
 import { ErrorCardFeed } from "../alerts/ErrorCardFeed";
-import { NodeData, NodePosition, NodeStatus } from "@/types";
+import { IncidentTimeline } from "../alerts/IncidentTimeline";
+import { EdgeData, NodeData, NodePosition, NodeStatus } from "@/types";
 import { ThreeJSErrorBoundary } from "../ErrorBoundary";
 import { UI_CONSTANTS } from "@/lib/constants";
 import { LoadingSpinnerInline } from "../ui/LoadingSpinner";
@@ -76,6 +78,12 @@ const TooltipContent = React.memo(({
                             ? "bg-status-fresh/20 text-status-fresh"
                             : status === "WARNING"
                             ? "bg-status-warning/20 text-status-warning"
+                            : status === "FLAPPING"
+                            ? "bg-status-flapping/20 text-status-flapping"
+                            : status === "MAINTENANCE"
+                            ? "bg-status-maintenance/20 text-status-maintenance"
+                            : status === "DEGRADED_BY_DEPENDENCY"
+                            ? "bg-status-degraded/20 text-status-degraded"
                             : "bg-status-down/20 text-status-down"
                     }`}
                 >
@@ -179,13 +187,20 @@ export function VisualizationScene() {
         // Defer heavy calculation to next tick (prevents UI freeze)
         const timeoutId = setTimeout(() => {
             let newPositions: Map<string, NodePosition>;
-            let newEdges: any[] = [];
+            let newEdges: EdgeData[] = [];
 
             switch (visualizationMode) {
                 case "Atom":
                     newPositions = calculateAtomLayout(nodes, dimensions.width, dimensions.height);
                     break;
 
+                case "topology": {
+                    const topology = calculateTopologyLayout(nodes, dimensions.width);
+                    newPositions = topology.positions;
+                    newEdges = topology.edges;
+                    break;
+                }
+
                 // Alerts mode is 2D HTML, no layout calculation needed here
                 case "alerts":
                     newPositions = new Map();
@@ -209,9 +224,9 @@ export function VisualizationScene() {
         [nodePositions]
     );
 
-    // Find focus target for DOWN nodes in Atom mode
+    // Find focus target for DOWN nodes in Atom and Topology modes
     const focusTarget = useMemo(() => {
-        if (visualizationMode === "Atom") {
+        if (visualizationMode === "Atom" || visualizationMode === "topology") {
             return findAtomFocusTarget(nodes, nodePositions);
         }
         return null;
@@ -357,8 +372,13 @@ export function VisualizationScene() {
     // Alerts Mode
     if (visualizationMode === "alerts") {
         return (
-            <div className="canvas-container relative bg-black/40 backdrop-blur-sm">
-                <ErrorCardFeed />
+            <div className="canvas-container relative bg-black/40 backdrop-blur-sm flex">
+                <div className="flex-1 min-w-0">
+                    <ErrorCardFeed />
+                </div>
+                <div className="hidden lg:block shrink-0">
+                    <IncidentTimeline />
+                </div>
             </div>
         );
     }
@@ -403,12 +423,10 @@ export function VisualizationScene() {
                     })}
                 </group>
 
-                {/* Render edges (Tree and Neuron modes) */}
+                {/* Render dependency edges (Topology mode only) */}
                 <EdgeRenderer
                     edges={edges}
-                    // Alerts/Vector don't use this. Only Atom uses 'none' which works. 
-                    // No neuron link anymore. 
-                    mode="none"
+                    mode={visualizationMode === "topology" ? "topology" : "none"}
                 />
 
                 </Canvas>
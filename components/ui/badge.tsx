@@ -32,6 +32,15 @@ export function Badge({
             case "DOWN":
                 variantStyles = "border-status-down/30 bg-status-down/20 text-status-down";
                 break;
+            case "FLAPPING":
+                variantStyles = "border-status-flapping/30 bg-status-flapping/20 text-status-flapping";
+                break;
+            case "MAINTENANCE":
+                variantStyles = "border-status-maintenance/30 bg-status-maintenance/20 text-status-maintenance";
+                break;
+            case "DEGRADED_BY_DEPENDENCY":
+                variantStyles = "border-status-degraded/30 bg-status-degraded/20 text-status-degraded";
+                break;
         }
     } else {
         switch (variant) {
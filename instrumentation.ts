@@ -2,7 +2,9 @@
  * ✅ TAHAP 7: Next.js Instrumentation Hook
  * 
  * File ini dipanggil otomatis oleh Next.js saat aplikasi start (baik dev maupun production).
- * Digunakan untuk validasi environment variables sebelum aplikasi berjalan.
+ * Digunakan untuk validasi environment variables sebelum aplikasi berjalan,
+ * dan (opsional) menjalankan scheduler health check in-process untuk self-hosted
+ * deployment (CHECK_SCHEDULER_ENABLED=true).
  * 
  * @see https://nextjs.org/docs/app/building-your-application/optimizing/instrumentation
  * @see lib/utils/check-env.ts
@@ -16,5 +18,18 @@ export async function register() {
         
         // Run validation
         checkEnvironmentOrExit();
+
+        // Self-hosted: check due nodes from this process instead of an external cron
+        if (process.env.CHECK_SCHEDULER_ENABLED === 'true') {
+            const { startCheckScheduler } = await import('./lib/monitoring/scheduler');
+            startCheckScheduler();
+        }
+
+        // CHECK_ON_READ=false without cron secret or scheduler: nothing would ever check
+        const { hasCheckRunner } = await import('./lib/monitoring/checkSchedule');
+        if (!hasCheckRunner()) {
+            const { logger } = await import('./lib/utils/logger');
+            logger.error('NO HEALTH CHECKS WILL RUN: set CRON_SECRET (cron), CHECK_SCHEDULER_ENABLED=true or CHECK_ON_READ=true');
+        }
     }
 }
@@ -0,0 +1,166 @@
+import AuditEventModel from "@/lib/db/models/AuditEvent";
+import { getSessionUser } from "@/lib/auth/session";
+import { SECRET_FIELDS } from "@/lib/security/credentials";
+import { redactTransaction } from "@/lib/monitoring/transactions";
+import { logger } from "@/lib/utils/logger";
+import { AuditChange, AuditEventData, AuditSource, IAuditEvent } from "@/types";
+
+/**
+ * Audit Log
+ * BACKEND ONLY - Records who changed which configuration and how
+ *
+ * Changes are stored as a flat list of dotted paths with before/after values.
+ * Secret auth fields never leave this module in clear text: they are reduced
+ * to "[redacted]" (set) or null (unset). Transaction fill values are redacted
+ * the same way inside the step list.
+ */
+
+export const REDACTED = "[redacted]";
+
+/**
+ * Node fields that count as configuration; status, latency and schedule
+ * are maintained by health checks and not audited
+ */
+export const AUDITED_NODE_FIELDS = [
+    "name",
+    "url",
+    "group",
+    "dependencies",
+    "authConfig",
+    "statusPolicy",
+    "checkPolicy",
+    "assertions",
+    "transaction",
+    "checkIntervalSeconds",
+    "tags",
+    "owner",
+];
+
+export interface AuditContext {
+    actor: string;
+    source: AuditSource;
+}
+
+export type AuditEventInput = Omit<IAuditEvent, "_id" | "createdAt" | "changes"> & {
+    changes?: AuditChange[];
+};
+
+/**
+ * Requests from the dashboard carry Sec-Fetch-Site: same-origin,
+ * scripts and other API clients do not
+ */
+export function getAuditSource(request: Request): AuditSource {
+    return request.headers.get("sec-fetch-site") === "same-origin" ? "ui" : "api";
+}
+
+/**
+ * Actor and source of a request, "anonymous" when auth is disabled
+ */
+export async function getAuditContext(request: Request): Promise<AuditContext> {
+    const user = await getSessionUser();
+    return { actor: user?.name ?? "anonymous", source: getAuditSource(request) };
+}
+
+/**
+ * Plain JSON copy of the audited fields (ObjectIds and dates become strings)
+ */
+export function toAuditSnapshot(doc: any, fields: string[] = AUDITED_NODE_FIELDS): Record<string, unknown> {
+    if (!doc) return {};
+    const source = typeof doc.toObject === "function" ? doc.toObject() : doc;
+
+    const snapshot: Record<string, unknown> = {};
+    for (const field of fields) {
+        if (source[field] !== undefined) {
+            snapshot[field] = JSON.parse(JSON.stringify(source[field]));
+        }
+    }
+    return snapshot;
+}
+
+function flatten(value: unknown, prefix: string, out: Map<string, unknown>): void {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+        for (const [key, child] of Object.entries(value)) {
+            flatten(child, prefix ? `${prefix}.${key}` : key, out);
+        }
+        return;
+    }
+    if (prefix) {
+        out.set(prefix, value ?? null);
+    }
+}
+
+function isSecretPath(path: string): boolean {
+    const field = path.slice(path.lastIndexOf(".") + 1);
+    return (SECRET_FIELDS as readonly string[]).includes(field);
+}
+
+function redactValue(path: string, value: unknown): unknown {
+    if (path === "transaction.steps" && Array.isArray(value)) {
+        return redactTransaction({ steps: value }).steps;
+    }
+    if (!isSecretPath(path)) return value;
+    return value === null || value === "" ? null : REDACTED;
+}
+
+/**
+ * Field-level diff of two snapshots, secrets redacted
+ * Secrets are compared before redaction, so a replaced password still shows up
+ */
+export function diffSnapshots(before: Record<string, unknown>, after: Record<string, unknown>): AuditChange[] {
+    const beforeFlat = new Map<string, unknown>();
+    const afterFlat = new Map<string, unknown>();
+    flatten(before, "", beforeFlat);
+    flatten(after, "", afterFlat);
+
+    const paths = Array.from(new Set([...beforeFlat.keys(), ...afterFlat.keys()])).sort();
+    const changes: AuditChange[] = [];
+
+    for (const path of paths) {
+        const oldValue = beforeFlat.has(path) ? beforeFlat.get(path) : null;
+        const newValue = afterFlat.has(path) ? afterFlat.get(path) : null;
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+
+        changes.push({
+            field: path,
+            before: redactValue(path, oldValue),
+            after: redactValue(path, newValue),
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Store an audit event
+ * Never throws: a failed audit write is logged and must not undo the change itself
+ */
+export async function recordAuditEvent(event: AuditEventInput): Promise<void> {
+    try {
+        await AuditEventModel.create({ ...event, changes: event.changes ?? [] });
+    } catch (error) {
+        logger.error('Failed to record audit event', error, {
+            action: event.action,
+            targetName: event.targetName,
+            actor: event.actor,
+        });
+    }
+}
+
+export function toAuditEventData(event: IAuditEvent): AuditEventData {
+    return {
+        id: event._id.toString(),
+        actor: event.actor,
+        action: event.action,
+        source: event.source,
+        targetType: event.targetType,
+        targetId: event.targetId,
+        targetName: event.targetName,
+        changes: (event.changes || []).map((change) => ({
+            field: change.field,
+            before: change.before,
+            after: change.after,
+        })),
+        message: event.message,
+        createdAt: new Date(event.createdAt).toISOString(),
+    };
+}
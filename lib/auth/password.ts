@@ -0,0 +1,48 @@
+import crypto from "crypto";
+import { promisify } from "util";
+
+/**
+ * Password Hashing
+ * BACKEND ONLY - scrypt hashes for the local user store
+ *
+ * Format: scrypt$<N>$<salt base64>$<hash base64>
+ */
+
+const scrypt = promisify(crypto.scrypt) as (
+    password: crypto.BinaryLike,
+    salt: crypto.BinaryLike,
+    keylen: number,
+    options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const COST = 16384;
+const KEY_LENGTH = 64;
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, KEY_LENGTH, { N: COST });
+    return `scrypt$${COST}$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, cost, salt, hash] = (stored || "").split("$");
+    if (scheme !== "scrypt" || !cost || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, "base64");
+    const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length, {
+        N: parseInt(cost, 10),
+    });
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Returns an error message or null
+ */
+export function validatePassword(password: unknown): string | null {
+    if (typeof password !== "string" || password.length < PASSWORD_MIN_LENGTH) {
+        return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+    }
+    return null;
+}
@@ -0,0 +1,86 @@
+import { UserRole } from "@/types";
+
+/**
+ * Roles & Access Policy
+ * Shared by middleware.ts (edge) and route handlers - no Node-only imports here
+ *
+ * Every page and /api/* request is matched against ACCESS_RULES (first match
+ * wins). Unlisted API routes need `viewer` for reads and `admin` for writes,
+ * unlisted pages need `viewer`.
+ */
+
+export const USER_ROLES: UserRole[] = ["viewer", "operator", "admin"];
+
+const ROLE_RANK: Record<UserRole, number> = {
+    viewer: 0,
+    operator: 1,
+    admin: 2,
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+    return typeof value === "string" && (USER_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether `role` includes the permissions of `required`
+ */
+export function hasRole(role: UserRole | undefined | null, required: UserRole): boolean {
+    if (!role || !isUserRole(role)) return false;
+    return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export type AccessRequirement = UserRole | "public";
+
+interface AccessRule {
+    pattern: RegExp;
+    methods?: string[];
+    access: AccessRequirement;
+}
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export const ACCESS_RULES: AccessRule[] = [
+    // Login and Auth.js endpoints
+    { pattern: /^\/login$/, access: "public" },
+    { pattern: /^\/api\/auth\//, access: "public" },
+    // Uptime probes; the cron endpoint checks CRON_SECRET itself
+    { pattern: /^\/api\/health$/, access: "public" },
+    { pattern: /^\/api\/cron\//, access: "public" },
+    // Session re-check from middleware, signed with the auth secret
+    { pattern: /^\/api\/internal\/users\/[^/]+$/, methods: ["GET"], access: "public" },
+
+    // Admin area
+    { pattern: /^\/admin(\/|$)/, access: "admin" },
+    { pattern: /^\/api\/users(\/|$)/, access: "admin" },
+    { pattern: /^\/api\/audit(\/|$)/, access: "admin" },
+    { pattern: /^\/api\/config(\/|$)/, access: "admin" },
+
+    // Operator actions (sheet syncs can delete nodes and stay admin)
+    { pattern: /^\/api\/nodes\/[^/]+\/check$/, methods: ["POST"], access: "operator" },
+    { pattern: /^\/api\/incidents\/[^/]+\/ack$/, methods: ["POST"], access: "operator" },
+];
+
+/**
+ * Access needed for a request
+ */
+export function requiredAccess(pathname: string, method: string = "GET"): AccessRequirement {
+    const upperMethod = method.toUpperCase();
+
+    const rule = ACCESS_RULES.find((candidate) =>
+        candidate.pattern.test(pathname) &&
+        (!candidate.methods || candidate.methods.includes(upperMethod))
+    );
+    if (rule) return rule.access;
+
+    if (pathname.startsWith("/api/")) {
+        return READ_METHODS.includes(upperMethod) ? "viewer" : "admin";
+    }
+    return "viewer";
+}
+
+/**
+ * Auth can be switched off for local development only
+ */
+export function isAuthDisabled(): boolean {
+    return process.env.AUTH_DISABLED === "true" && process.env.NODE_ENV !== "production";
+}
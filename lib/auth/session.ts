@@ -0,0 +1,15 @@
+import { auth } from "@/auth";
+import { isUserRole } from "./roles";
+import { SessionUser } from "./users";
+
+/**
+ * Current user inside a route handler (access itself is enforced by middleware.ts)
+ * Returns null without a session or when auth is disabled
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+    const session = await auth();
+    const user = session?.user;
+    if (!user?.id || !isUserRole(user.role)) return null;
+
+    return { id: user.id, name: user.name || user.id, role: user.role };
+}
@@ -0,0 +1,116 @@
+import type { JWT } from "next-auth/jwt";
+import { UserRole } from "@/types";
+import { isUserRole } from "./roles";
+
+/**
+ * Session Re-check
+ * Shared by auth.config.ts (edge) and auth.ts (Node) - Web Crypto only, no Node-only imports
+ *
+ * Session JWTs carry the role from login. At most every USER_RECHECK_MS the
+ * jwt callback loads the user again: disabled or deleted users lose their
+ * session, role changes apply to sessions that are already open.
+ * Middleware has no database access on the edge and asks the Node runtime
+ * through GET /api/internal/users/[id], signed with the auth secret.
+ */
+
+export const USER_RECHECK_MS = 5 * 60 * 1000;
+
+export const USER_CHECK_HEADER = "x-user-check";
+
+// Signed requests older than this are rejected (replay)
+const SIGNATURE_MAX_AGE_MS = 60 * 1000;
+
+/**
+ * Current role of a user: null when deleted or disabled, undefined when it
+ * cannot be checked right now (the token is kept and checked again on the next request)
+ */
+export type UserRoleLoader = (userId: string) => Promise<UserRole | null | undefined>;
+
+function getAuthSecret(): string | undefined {
+    return process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+        "raw",
+        encoder.encode(secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+    );
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+    return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Header value authorizing a lookup of `userId` ("<timestamp>.<hmac>"), null without a secret
+ */
+export async function signUserCheck(userId: string, now: number = Date.now()): Promise<string | null> {
+    const secret = getAuthSecret();
+    if (!secret) return null;
+    return `${now}.${await hmacHex(secret, `${userId}.${now}`)}`;
+}
+
+export async function verifyUserCheck(userId: string, header: string | null, now: number = Date.now()): Promise<boolean> {
+    const secret = getAuthSecret();
+    if (!secret || !header) return false;
+
+    const [timestamp, signature] = header.split(".");
+    const signedAt = Number(timestamp);
+    if (!Number.isFinite(signedAt) || !signature || Math.abs(now - signedAt) > SIGNATURE_MAX_AGE_MS) {
+        return false;
+    }
+
+    const expected = await hmacHex(secret, `${userId}.${signedAt}`);
+    if (expected.length !== signature.length) return false;
+
+    // Constant-time comparison
+    let difference = 0;
+    for (let i = 0; i < expected.length; i++) {
+        difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+    }
+    return difference === 0;
+}
+
+/**
+ * Edge loader: asks the Node runtime (needs AUTH_URL or NEXTAUTH_URL)
+ */
+export async function fetchUserRole(userId: string): Promise<UserRole | null | undefined> {
+    const baseUrl = process.env.AUTH_URL || process.env.NEXTAUTH_URL;
+    const signature = await signUserCheck(userId);
+    if (!baseUrl || !signature) return undefined;
+
+    try {
+        const response = await fetch(new URL(`/api/internal/users/${encodeURIComponent(userId)}`, baseUrl), {
+            headers: { [USER_CHECK_HEADER]: signature },
+            cache: "no-store",
+        });
+        if (response.status === 404) return null;
+        if (!response.ok) return undefined;
+
+        const body = await response.json();
+        return isUserRole(body?.data?.role) ? body.data.role : null;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * jwt callback body for existing sessions: reload the user once the last check is too old
+ * Returns null to end the session
+ */
+export async function refreshTokenUser(
+    token: JWT,
+    loadRole: UserRoleLoader,
+    now: number = Date.now()
+): Promise<JWT | null> {
+    if (!token.sub) return null;
+    if (token.checkedAt && now - token.checkedAt < USER_RECHECK_MS) return token;
+
+    const role = await loadRole(token.sub);
+    if (role === undefined) return token;
+    if (role === null) return null;
+
+    return { ...token, role, checkedAt: now };
+}
@@ -0,0 +1,100 @@
+import mongoose from "mongoose";
+import connectDB from "@/lib/db/mongoose";
+import UserModel from "@/lib/db/models/User";
+import { IUser, UserData, UserRole } from "@/types";
+import { hashPassword, verifyPassword } from "./password";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Local User Store
+ * BACKEND ONLY - Credential login against the users collection
+ *
+ * The first admin is created from AUTH_ADMIN_USERNAME / AUTH_ADMIN_PASSWORD
+ * while the collection is empty; more users are managed via /admin/users,
+ * /api/users or scripts/createUser.js.
+ */
+
+export interface SessionUser {
+    id: string;
+    name: string;
+    role: UserRole;
+}
+
+const USERNAME_PATTERN = /^[a-z0-9._@-]{3,64}$/;
+
+/**
+ * Returns an error message or null
+ */
+export function validateUsername(username: unknown): string | null {
+    if (typeof username !== "string" || !USERNAME_PATTERN.test(username.trim().toLowerCase())) {
+        return "Username must be 3-64 characters: letters, digits, . _ @ -";
+    }
+    return null;
+}
+
+/**
+ * Create the initial admin from env when no user exists yet
+ */
+export async function ensureBootstrapAdmin(): Promise<void> {
+    const username = process.env.AUTH_ADMIN_USERNAME;
+    const password = process.env.AUTH_ADMIN_PASSWORD;
+    if (!username || !password) return;
+
+    if ((await UserModel.estimatedDocumentCount()) > 0) return;
+
+    await UserModel.create({
+        username,
+        passwordHash: await hashPassword(password),
+        role: "admin",
+    });
+    logger.info('Bootstrap admin user created', { username });
+}
+
+/**
+ * Verify a login, returns the session user or null
+ */
+export async function authenticateUser(username: string, password: string): Promise<SessionUser | null> {
+    if (!username || !password) return null;
+
+    await connectDB();
+    await ensureBootstrapAdmin();
+
+    const user = await UserModel.findOne({ username: username.trim().toLowerCase() }).select("+passwordHash");
+    if (!user || user.disabled || !(await verifyPassword(password, user.passwordHash))) {
+        logger.warn('Failed login attempt', { username });
+        return null;
+    }
+
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    return { id: user._id.toString(), name: user.username, role: user.role };
+}
+
+/**
+ * Role of an enabled user, null when deleted or disabled, undefined on database errors
+ * (session re-check, see userCheck.ts)
+ */
+export async function loadUserRole(userId: string): Promise<UserRole | null | undefined> {
+    if (!mongoose.isValidObjectId(userId)) return null;
+
+    try {
+        await connectDB();
+        const user = await UserModel.findById(userId).select("role disabled").lean();
+        return user && !user.disabled ? user.role : null;
+    } catch (error: any) {
+        logger.error('Failed to re-check session user', error, { userId });
+        return undefined;
+    }
+}
+
+export function toUserData(user: Pick<IUser, "_id" | "username" | "role" | "disabled" | "lastLoginAt" | "createdAt">): UserData {
+    return {
+        id: user._id.toString(),
+        username: user.username,
+        role: user.role,
+        disabled: Boolean(user.disabled),
+        lastLoginAt: user.lastLoginAt ? new Date(user.lastLoginAt).toISOString() : undefined,
+        createdAt: new Date(user.createdAt).toISOString(),
+    };
+}
@@ -1,4 +1,4 @@
-import { NodeStatus, StatusVisualConfig } from "@/types";
+import { EdgeHealth, NodeStatus, StatusVisualConfig } from "@/types";
 
 /**
  * STATUS TO VISUAL MAPPING
@@ -10,6 +10,9 @@ export const STATUS_COLORS: Record<NodeStatus, string> = {
     FRESH: "#00FF94",    // Green
     WARNING: "#FFD600",  // Yellow
     DOWN: "#FF4842",     // Red
+    FLAPPING: "#FF8A00", // Orange
+    MAINTENANCE: "#A78BFA", // Violet
+    DEGRADED_BY_DEPENDENCY: "#FB7185", // Rose
 };
 
 export const STATUS_VISUAL_CONFIG: Record<NodeStatus, StatusVisualConfig> = {
@@ -33,6 +36,21 @@ export const STATUS_VISUAL_CONFIG: Record<NodeStatus, StatusVisualConfig> = {
         animation: "disperse",
         intensity: 1.2,
     },
+    FLAPPING: {
+        color: "#FF8A00",
+        animation: "jitter",
+        intensity: 1.1,
+    },
+    MAINTENANCE: {
+        color: "#A78BFA",
+        animation: "breathing",
+        intensity: 0.5,
+    },
+    DEGRADED_BY_DEPENDENCY: {
+        color: "#FB7185",
+        animation: "breathing",
+        intensity: 0.8,
+    },
 };
 
 /**
@@ -97,7 +115,30 @@ export const LAYOUT_CONFIG = {
         centerStrength: 0.1,
         collisionRadius: 1,
         linkDistance: 0,
-    }
+    },
+    TOPOLOGY: {
+        nodeSize: 30,          // dagre box per node (px)
+        nodeSep: 40,           // Horizontal gap between nodes of one rank
+        rankSep: 90,           // Vertical gap between upstream and downstream ranks
+        isolatedGap: 45,       // Grid spacing for nodes without dependencies
+        sectionGap: 80,        // Space between the graph and the isolated grid
+    },
+};
+
+/**
+ * Dependency Edge Colors (Topology mode)
+ * Keyed by the health of the upstream node
+ */
+export const EDGE_HEALTH_COLORS: Record<EdgeHealth, string> = {
+    healthy: "#00A3FF",
+    degraded: "#FFD600",
+    failing: "#FF4842",
+    maintenance: "#A78BFA",
+};
+
+export const EDGE_PROPAGATION = {
+    HOP_DURATION: 1.2,   // Seconds for a pulse to travel one edge
+    PULSE_SIZE: 4,
 };
 
 /**
@@ -138,6 +179,14 @@ export const CAMERA_CONFIG = {
         position: [0, 0, 100],
         frustumSize: 400,
     },
+    TOPOLOGY: {
+        type: "orthographic",
+        zoom: 1,
+        near: 0.1,
+        far: 1000,
+        position: [0, 0, 100],
+        frustumSize: 400,
+    },
     NEURON: {
         type: "orthographic",  // Changed to orthographic for consistent flat view
         zoom: 1,
@@ -177,6 +226,15 @@ export const POLLING_CONFIG = {
     FOCUS_REVALIDATION: true,
 };
 
+/**
+ * Live Updates (Server-Sent Events)
+ * Polling takes over while the stream is down
+ */
+export const STREAM_CONFIG = {
+    URL: "/api/stream",
+    RECONNECT_MS: 30000,  // Retry after the browser gives up on a stream
+};
+
 /**
  * UI Constants
  * ✅ TAHAP 3: Extracted magic numbers for maintainability
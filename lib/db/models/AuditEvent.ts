@@ -0,0 +1,82 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IAuditEvent } from "@/types";
+
+/**
+ * Audit Event Schema Definition
+ * Append-only record of configuration changes (nodes, group policies, users)
+ *
+ * BACKEND ONLY - Written by lib/audit/auditLog.ts, secrets are redacted before insert
+ */
+
+const AuditChangeSchema = new Schema(
+    {
+        field: { type: String, required: true },
+        before: { type: Schema.Types.Mixed },
+        after: { type: Schema.Types.Mixed },
+    },
+    { _id: false }
+);
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+    {
+        actor: {
+            type: String,
+            required: true,
+        },
+        action: {
+            type: String,
+            enum: [
+                "node.create",
+                "node.update",
+                "node.delete",
+                "node.bulk_auth",
+                "group_policy.update",
+                "group_policy.delete",
+                "maintenance.create",
+                "maintenance.update",
+                "maintenance.delete",
+                "user.create",
+                "user.update",
+                "user.delete",
+            ],
+            required: true,
+        },
+        source: {
+            type: String,
+            enum: ["ui", "api", "sheets_sync", "config"],
+            required: true,
+        },
+        targetType: {
+            type: String,
+            enum: ["node", "group", "user", "maintenance"],
+            required: true,
+        },
+        targetId: { type: String },
+        targetName: {
+            type: String,
+            required: true,
+        },
+        changes: {
+            type: [AuditChangeSchema],
+            default: [],
+        },
+        message: { type: String },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        collection: "audit_events",
+    }
+);
+
+// Indexes for the filterable /api/audit listing
+AuditEventSchema.index({ createdAt: -1 });
+AuditEventSchema.index({ targetId: 1, createdAt: -1 });
+AuditEventSchema.index({ actor: 1, createdAt: -1 });
+AuditEventSchema.index({ action: 1, createdAt: -1 });
+
+// Create and export model
+const AuditEventModel =
+    (mongoose.models.AuditEvent as Model<IAuditEvent>) ||
+    mongoose.model<IAuditEvent>("AuditEvent", AuditEventSchema);
+
+export default AuditEventModel;
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IBrowserSession } from "@/types";
+
+/**
+ * BrowserSession Schema Definition
+ * Saved login sessions of BROWSER_LOGIN checks, reused until they expire
+ * or the site no longer accepts them
+ *
+ * BACKEND ONLY - Managed by lib/monitoring/browserSessions.ts, the storage
+ * state is encrypted and never returned by an API
+ */
+
+const BrowserSessionSchema = new Schema<IBrowserSession>(
+    {
+        key: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        origin: {
+            type: String,
+            required: true,
+        },
+        fingerprint: {
+            type: String,
+            required: true,
+        },
+        storageState: {
+            type: String,
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        collection: "browser_sessions",
+        timestamps: true,
+        versionKey: false,
+    }
+);
+
+// TTL index: sessions are removed once expiresAt has passed
+BrowserSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export model
+const BrowserSessionModel =
+    (mongoose.models.BrowserSession as Model<IBrowserSession>) ||
+    mongoose.model<IBrowserSession>("BrowserSession", BrowserSessionSchema);
+
+export default BrowserSessionModel;
@@ -0,0 +1,101 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ICheckResult } from "@/types";
+
+/**
+ * CheckResult Schema Definition
+ * One document per health check (time-series history)
+ *
+ * BACKEND ONLY - Raw results expire via TTL index, long-term
+ * history lives in CheckRollup (hourly/daily buckets)
+ */
+
+/**
+ * Raw check result retention (days)
+ * NOTE: MongoDB does not update an existing TTL index when this changes,
+ * run `collMod` on check_results (or drop the index) after changing it
+ */
+export const CHECK_RESULT_RETENTION_DAYS = Number(process.env.CHECK_RESULT_RETENTION_DAYS) || 30;
+
+const CheckResultSchema = new Schema<ICheckResult>(
+    {
+        nodeId: {
+            type: Schema.Types.ObjectId,
+            ref: "Node",
+            required: [true, "Node ID is required"],
+        },
+        timestamp: {
+            type: Date,
+            required: true,
+            default: Date.now,
+        },
+        status: {
+            type: String,
+            enum: ["STABLE", "FRESH", "WARNING", "DOWN"],
+            required: true,
+        },
+        latency: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        httpStatus: {
+            type: Number,
+        },
+        error: {
+            type: String,
+        },
+        checker: {
+            type: String,
+            enum: ["http", "browser"],
+            default: "http",
+        },
+        // Per-step timings of a synthetic transaction (browser checks)
+        steps: {
+            type: [
+                {
+                    _id: false,
+                    step: Number,
+                    action: String,
+                    name: String,
+                    durationMs: Number,
+                    ok: Boolean,
+                    error: String,
+                },
+            ],
+            default: undefined,
+        },
+        // Failure artifacts in GridFS (lib/monitoring/checkArtifacts.ts)
+        artifacts: {
+            type: [
+                {
+                    _id: false,
+                    id: String,
+                    kind: { type: String, enum: ["screenshot", "html", "har"] },
+                    contentType: String,
+                    size: Number,
+                },
+            ],
+            default: undefined,
+        },
+    },
+    {
+        collection: "check_results",
+        versionKey: false,
+    }
+);
+
+// Indexes for per-node time range queries
+CheckResultSchema.index({ nodeId: 1, timestamp: -1 });
+
+// TTL index: raw results are removed after the retention period
+CheckResultSchema.index(
+    { timestamp: 1 },
+    { expireAfterSeconds: CHECK_RESULT_RETENTION_DAYS * 24 * 60 * 60 }
+);
+
+// Create and export model
+const CheckResultModel =
+    (mongoose.models.CheckResult as Model<ICheckResult>) ||
+    mongoose.model<ICheckResult>("CheckResult", CheckResultSchema);
+
+export default CheckResultModel;
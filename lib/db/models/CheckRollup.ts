@@ -0,0 +1,65 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ICheckRollup, RollupPeriod } from "@/types";
+
+/**
+ * CheckRollup Schema Definition
+ * Downsampled check history: one document per node per hour/day bucket
+ *
+ * BACKEND ONLY - Written by rollupCheckResults() via $merge
+ */
+
+/**
+ * Rollup retention (days) per period
+ * Stored as an absolute expiresAt so each period can have its own TTL
+ */
+export const ROLLUP_RETENTION_DAYS: Record<RollupPeriod, number> = {
+    hour: Number(process.env.CHECK_ROLLUP_HOURLY_RETENTION_DAYS) || 90,
+    day: Number(process.env.CHECK_ROLLUP_DAILY_RETENTION_DAYS) || 400,
+};
+
+const CheckRollupSchema = new Schema<ICheckRollup>(
+    {
+        nodeId: {
+            type: Schema.Types.ObjectId,
+            ref: "Node",
+            required: true,
+        },
+        period: {
+            type: String,
+            enum: ["hour", "day"],
+            required: true,
+        },
+        bucketStart: {
+            type: Date,
+            required: true,
+        },
+        total: { type: Number, default: 0 },
+        up: { type: Number, default: 0 },
+        warning: { type: Number, default: 0 },
+        down: { type: Number, default: 0 },
+        avgLatency: { type: Number, default: 0 },
+        minLatency: { type: Number, default: 0 },
+        maxLatency: { type: Number, default: 0 },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        collection: "check_rollups",
+        versionKey: false,
+    }
+);
+
+// Unique bucket per node/period (required by $merge "on" fields)
+CheckRollupSchema.index({ nodeId: 1, period: 1, bucketStart: 1 }, { unique: true });
+
+// TTL index: each document expires at its own expiresAt
+CheckRollupSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Create and export model
+const CheckRollupModel =
+    (mongoose.models.CheckRollup as Model<ICheckRollup>) ||
+    mongoose.model<ICheckRollup>("CheckRollup", CheckRollupSchema);
+
+export default CheckRollupModel;
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ICheckRunState } from "@/types";
+
+/**
+ * Check Run State Schema Definition
+ * Persists where a time-budgeted check run stopped so the next run resumes there
+ *
+ * BACKEND ONLY - Managed by lib/monitoring/checkRunner.ts
+ */
+
+const CheckRunStateSchema = new Schema<ICheckRunState>(
+    {
+        key: {
+            type: String,
+            required: [true, "Key is required"],
+            unique: true,
+        },
+        // Next node to check, or the rollup watermark (end of the last rolled-up bucket)
+        cursor: {
+            type: String,
+            default: null,
+        },
+        lastRunAt: {
+            type: Date,
+        },
+        lastRunComplete: {
+            type: Boolean,
+        },
+        // Throttled jobs (Sheets status write-back)
+        nextRunAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true, // Adds createdAt and updatedAt
+        collection: "check_run_state",
+    }
+);
+
+// Create and export model
+const CheckRunStateModel =
+    (mongoose.models.CheckRunState as Model<ICheckRunState>) ||
+    mongoose.model<ICheckRunState>("CheckRunState", CheckRunStateSchema);
+
+export default CheckRunStateModel;
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IGroupPolicy } from "@/types";
+
+/**
+ * Group Policy Schema Definition
+ * Check policy applied to every node of a NodeGroup (node-level values win)
+ *
+ * BACKEND ONLY - Resolved by lib/monitoring/statusEvaluation.ts
+ */
+
+const GroupPolicySchema = new Schema<IGroupPolicy>(
+    {
+        group: {
+            type: String,
+            enum: ["iframe", "video", "game", "webgl", "website", "backend", "frontend", "api", "database", "service"],
+            required: [true, "Group is required"],
+            unique: true,
+        },
+        checkPolicy: {
+            expectedStatusCodes: { type: [String], default: undefined },
+            warningLatencyMs: { type: Number, min: 1 },
+            downLatencyMs: { type: Number, min: 0 },
+            method: { type: String, enum: ["HEAD", "GET"] },
+        },
+    },
+    {
+        timestamps: true, // Adds createdAt and updatedAt
+        collection: "group_policies",
+    }
+);
+
+// Create and export model
+const GroupPolicyModel =
+    (mongoose.models.GroupPolicy as Model<IGroupPolicy>) ||
+    mongoose.model<IGroupPolicy>("GroupPolicy", GroupPolicySchema);
+
+export default GroupPolicyModel;
@@ -0,0 +1,92 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IIncident } from "@/types";
+
+/**
+ * Incident Schema Definition
+ * Tracks an outage of a node from its first failed check until recovery
+ *
+ * BACKEND ONLY - Lifecycle is driven by lib/monitoring/incidents.ts
+ */
+
+const IncidentEventSchema = new Schema(
+    {
+        type: {
+            type: String,
+            enum: ["opened", "failure", "acknowledged", "resolved"],
+            required: true,
+        },
+        at: { type: Date, required: true, default: Date.now },
+        message: { type: String },
+        actor: { type: String },
+    },
+    { _id: false }
+);
+
+const IncidentSchema = new Schema<IIncident>(
+    {
+        nodeId: {
+            type: Schema.Types.ObjectId,
+            ref: "Node",
+            required: [true, "Node ID is required"],
+        },
+        nodeName: {
+            type: String,
+            required: true,
+        },
+        group: {
+            type: String,
+            enum: ["iframe", "video", "game", "webgl", "website", "backend", "frontend", "api", "database", "service"],
+            default: "website",
+        },
+        status: {
+            type: String,
+            enum: ["OPEN", "ACKNOWLEDGED", "RESOLVED"],
+            default: "OPEN",
+            index: true,
+        },
+        startedAt: {
+            type: Date,
+            required: true,
+        },
+        lastFailureAt: {
+            type: Date,
+            required: true,
+        },
+        failureCount: {
+            type: Number,
+            default: 1,
+            min: 0,
+        },
+        error: { type: String },
+        lastError: { type: String },
+        httpStatus: { type: Number },
+        acknowledgedAt: { type: Date },
+        acknowledgedBy: { type: String },
+        ackNote: {
+            type: String,
+            trim: true,
+            maxlength: [1000, "Acknowledge note should not exceed 1000 characters"],
+        },
+        resolvedAt: { type: Date },
+        durationMs: { type: Number, min: 0 },
+        timeline: {
+            type: [IncidentEventSchema],
+            default: [],
+        },
+    },
+    {
+        timestamps: true, // Adds createdAt and updatedAt
+        collection: "incidents",
+    }
+);
+
+// Indexes for query performance
+IncidentSchema.index({ nodeId: 1, status: 1 });
+IncidentSchema.index({ startedAt: -1 });
+
+// Create and export model
+const IncidentModel =
+    (mongoose.models.Incident as Model<IIncident>) ||
+    mongoose.model<IIncident>("Incident", IncidentSchema);
+
+export default IncidentModel;
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IMaintenanceWindow } from "@/types";
+
+/**
+ * Maintenance Window Schema Definition
+ * Planned downtime: nodes in scope show MAINTENANCE and do not alert
+ *
+ * BACKEND ONLY - Evaluated by lib/monitoring/maintenance.ts
+ */
+
+const MaintenanceWindowSchema = new Schema<IMaintenanceWindow>(
+    {
+        name: {
+            type: String,
+            required: [true, "Name is required"],
+            trim: true,
+            maxlength: [100, "Name should not exceed 100 characters"],
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [1000, "Description should not exceed 1000 characters"],
+        },
+        enabled: {
+            type: Boolean,
+            default: true,
+            index: true,
+        },
+        // A node is in scope when it matches any of the lists
+        scope: {
+            nodeIds: { type: [String], default: [] },
+            groups: { type: [String], default: [] },
+            tags: { type: [String], default: [] },
+        },
+        schedule: {
+            type: String,
+            enum: ["once", "recurring"],
+            required: true,
+        },
+        // once
+        startsAt: { type: Date },
+        endsAt: { type: Date },
+        // recurring
+        cron: { type: String, trim: true },
+        durationMinutes: { type: Number, min: 1, max: 10080 },
+        timezone: {
+            type: String,
+            default: "UTC",
+        },
+        createdBy: { type: String },
+    },
+    {
+        timestamps: true, // Adds createdAt and updatedAt
+        collection: "maintenance_windows",
+    }
+);
+
+// Create and export model
+const MaintenanceWindowModel =
+    (mongoose.models.MaintenanceWindow as Model<IMaintenanceWindow>) ||
+    mongoose.model<IMaintenanceWindow>("MaintenanceWindow", MaintenanceWindowSchema);
+
+export default MaintenanceWindowModel;
@@ -1,5 +1,7 @@
 import mongoose, { Schema, Model, Types } from "mongoose";
 import { INode, NodeStatus, NodeGroup } from "@/types";
+import { encryptAuthSecrets, encryptSecret, SECRET_FIELDS } from "@/lib/security/credentials";
+import { encryptTransactionValues } from "@/lib/monitoring/transactions";
 
 /**
  * Node Schema Definition
@@ -80,10 +82,103 @@ const NodeSchema = new Schema<INode>(
         },
         status: {
             type: String,
-            enum: ["STABLE", "FRESH", "WARNING", "DOWN"],
+            enum: ["STABLE", "FRESH", "WARNING", "DOWN", "FLAPPING", "MAINTENANCE", "DEGRADED_BY_DEPENDENCY"],
             default: "FRESH",
             index: true,
         },
+        // Per-node overrides, unset fields fall back to global defaults
+        statusPolicy: {
+            failureThreshold: { type: Number, min: 1, max: 20 },
+            recoveryThreshold: { type: Number, min: 1, max: 20 },
+            flapWindow: { type: Number, min: 2, max: 50 },
+            flapThreshold: { type: Number, min: 0, max: 49 },
+        },
+        // Per-node response rules, unset fields fall back to the group policy / defaults
+        checkPolicy: {
+            expectedStatusCodes: { type: [String], default: undefined },
+            warningLatencyMs: { type: Number, min: 1 },
+            downLatencyMs: { type: Number, min: 0 },
+            method: { type: String, enum: ["HEAD", "GET"] },
+        },
+        // Optional response content assertions (validated by lib/monitoring/assertions.ts)
+        assertions: {
+            type: Schema.Types.Mixed,
+        },
+        // Optional synthetic transaction for BROWSER_LOGIN nodes (validated by lib/monitoring/transactions.ts)
+        transaction: {
+            type: Schema.Types.Mixed,
+        },
+        // Check cadence (validated by lib/monitoring/checkSchedule.ts)
+        checkIntervalSeconds: {
+            type: Number,
+            min: 10,
+            max: 86400,
+        },
+        // Maintained by checks, unset = due immediately
+        nextCheckAt: {
+            type: Date,
+            index: true,
+        },
+        // Free-form labels (validated by lib/utils/validation.ts)
+        tags: {
+            type: [String],
+            default: undefined,
+            index: true,
+        },
+        // Responsible person or team (free text)
+        owner: {
+            type: String,
+            trim: true,
+            maxlength: 100,
+        },
+        // Google Sheet row of the node (maintained by the sheets sync)
+        sheetRow: {
+            type: Number,
+            index: true,
+        },
+        // Created by hand, by the sheets sync or from the config file (each only syncs / deletes its own)
+        source: {
+            type: String,
+            enum: ["manual", "google_sheets", "config"],
+        },
+        // Sheet source of a google_sheets node (unset = GOOGLE_SPREADSHEET_ID)
+        sheetSourceId: {
+            type: Schema.Types.ObjectId,
+            ref: "SheetSource",
+            index: true,
+        },
+        // Confirmation / flap detection counters (maintained by checks)
+        checkState: {
+            consecutiveFailures: { type: Number, default: 0 },
+            consecutiveSuccesses: { type: Number, default: 0 },
+            recentStatuses: { type: [String], default: [] },
+            underlyingStatus: { type: String, enum: ["STABLE", "FRESH", "WARNING", "DOWN", "FLAPPING"] },
+        },
+        // Window the node is in while its status is MAINTENANCE (lib/monitoring/maintenance.ts)
+        maintenance: {
+            type: new Schema(
+                {
+                    windowId: { type: String, required: true },
+                    name: { type: String, required: true },
+                    endsAt: { type: Date, required: true },
+                },
+                { _id: false }
+            ),
+            default: undefined,
+        },
+        // Failing upstream nodes while status is DEGRADED_BY_DEPENDENCY (lib/monitoring/dependencies.ts)
+        rootCauses: {
+            type: [
+                new Schema(
+                    {
+                        nodeId: { type: String, required: true },
+                        name: { type: String, required: true },
+                    },
+                    { _id: false }
+                ),
+            ],
+            default: undefined,
+        },
         latency: {
             type: Number,
             default: 0,
@@ -129,6 +224,42 @@ NodeSchema.virtual("dependencyNodes", {
     foreignField: "_id",
 });
 
+// Credentials and transaction fill values are encrypted at rest (see lib/security/credentials.ts)
+NodeSchema.pre("save", function (next) {
+    SECRET_FIELDS.forEach((field) => {
+        const path = `authConfig.${field}`;
+        const value = this.get(path);
+        if (this.isModified(path) && typeof value === "string" && value) {
+            this.set(path, encryptSecret(value));
+        }
+    });
+    if (this.isModified("transaction") && this.get("transaction")) {
+        this.set("transaction", encryptTransactionValues(this.get("transaction")));
+    }
+    next();
+});
+
+NodeSchema.pre(["findOneAndUpdate", "updateOne", "updateMany"], function (next) {
+    const update = this.getUpdate() as Record<string, any> | null;
+    if (!update || Array.isArray(update)) return next();
+
+    // Top-level fields are an implicit $set
+    [update, update.$set].forEach((fields) => {
+        if (!fields) return;
+        encryptAuthSecrets(fields.authConfig);
+        if (fields.transaction) {
+            fields.transaction = encryptTransactionValues(fields.transaction);
+        }
+        SECRET_FIELDS.forEach((field) => {
+            const path = `authConfig.${field}`;
+            if (typeof fields[path] === "string" && fields[path]) {
+                fields[path] = encryptSecret(fields[path]);
+            }
+        });
+    });
+    next();
+});
+
 // Method to add latency to history (maintains last 20)
 NodeSchema.methods.addLatencyToHistory = function (newLatency: number) {
     this.history.push(newLatency);
@@ -196,6 +327,13 @@ NodeSchema.statics.validateDependencies = async function (
     return true; // Valid: no circular dependencies
 };
 
+/**
+ * Projection that re-includes the select:false credential fields
+ * Required by health checks that authenticate (BASIC, BEARER, API_KEY, BROWSER_LOGIN)
+ */
+export const AUTH_SECRET_SELECT =
+    "+authConfig.username +authConfig.password +authConfig.token +authConfig.headerValue";
+
 // Create and export model
 const NodeModel =
     (mongoose.models.Node as unknown as INodeModel) || mongoose.model<INode, INodeModel>("Node", NodeSchema);
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ISheetSource } from "@/types";
+
+/**
+ * SheetSource Schema Definition
+ * Spreadsheet tabs synced into nodes on a schedule
+ *
+ * BACKEND ONLY - Run by lib/services/sheetSources.ts from the scheduled check run
+ */
+
+const SheetSourceSchema = new Schema<ISheetSource>(
+    {
+        name: {
+            type: String,
+            required: [true, "Name is required"],
+            trim: true,
+            unique: true,
+        },
+        spreadsheetId: {
+            type: String,
+            required: [true, "Spreadsheet ID is required"],
+            trim: true,
+        },
+        sheetName: {
+            type: String,
+            required: [true, "Sheet name is required"],
+            trim: true,
+        },
+        // Validated by lib/services/sheetMapping.ts
+        columnMapping: {
+            type: Schema.Types.Mixed,
+            default: {},
+        },
+        defaultGroup: {
+            type: String,
+            enum: ["iframe", "video", "game", "webgl", "website", "backend", "frontend", "api", "database", "service"],
+            default: "website",
+        },
+        intervalMinutes: {
+            type: Number,
+            min: 5,
+            max: 1440,
+            default: 15,
+        },
+        enabled: {
+            type: Boolean,
+            default: true,
+        },
+        deleteOrphaned: {
+            type: Boolean,
+            default: false,
+        },
+        // Sync state (maintained by scheduled and manual syncs)
+        nextSyncAt: {
+            type: Date,
+            index: true,
+        },
+        lastSyncAt: Date,
+        lastStatus: {
+            type: String,
+            enum: ["success", "error", "blocked"],
+        },
+        lastError: String,
+        lastResult: {
+            added: Number,
+            updated: Number,
+            deleted: Number,
+            invalid: Number,
+        },
+        lastRowErrors: {
+            type: Schema.Types.Mixed,
+            default: [],
+        },
+        consecutiveFailures: {
+            type: Number,
+            default: 0,
+        },
+    },
+    {
+        timestamps: true, // Adds createdAt and updatedAt
+        collection: "sheet_sources",
+    }
+);
+
+// Create and export model
+const SheetSourceModel =
+    (mongoose.models.SheetSource as Model<ISheetSource>) ||
+    mongoose.model<ISheetSource>("SheetSource", SheetSourceSchema);
+
+export default SheetSourceModel;
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { ISheetsConfig } from "@/types";
+
+/**
+ * SheetsConfig Schema Definition
+ * Google Sheets import settings stored in the DB (single document, key "default")
+ *
+ * BACKEND ONLY - Read by lib/services/sheetMapping.ts, takes precedence over
+ * GOOGLE_SHEET_COLUMNS
+ */
+
+const SheetsConfigSchema = new Schema<ISheetsConfig>(
+    {
+        key: {
+            type: String,
+            required: true,
+            unique: true,
+            default: "default",
+        },
+        // Validated by lib/services/sheetMapping.ts
+        columnMapping: {
+            type: Schema.Types.Mixed,
+            default: {},
+        },
+    },
+    {
+        timestamps: true, // Adds createdAt and updatedAt
+        collection: "sheets_config",
+    }
+);
+
+// Create and export model
+const SheetsConfigModel =
+    (mongoose.models.SheetsConfig as Model<ISheetsConfig>) ||
+    mongoose.model<ISheetsConfig>("SheetsConfig", SheetsConfigSchema);
+
+export default SheetsConfigModel;
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Model } from "mongoose";
+import { IUser } from "@/types";
+
+/**
+ * User Schema Definition
+ * Local user store for dashboard login (no external IdP required)
+ *
+ * BACKEND ONLY - Passwords are hashed by lib/auth/password.ts
+ */
+
+const UserSchema = new Schema<IUser>(
+    {
+        username: {
+            type: String,
+            required: [true, "Username is required"],
+            trim: true,
+            lowercase: true,
+            unique: true,
+        },
+        passwordHash: {
+            type: String,
+            required: [true, "Password is required"],
+            select: false,
+        },
+        role: {
+            type: String,
+            enum: ["viewer", "operator", "admin"],
+            default: "viewer",
+        },
+        disabled: {
+            type: Boolean,
+            default: false,
+        },
+        lastLoginAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true, // Adds createdAt and updatedAt
+        collection: "users",
+    }
+);
+
+// Create and export model
+const UserModel =
+    (mongoose.models.User as Model<IUser>) ||
+    mongoose.model<IUser>("User", UserSchema);
+
+export default UserModel;
@@ -0,0 +1,68 @@
+import useSWR from "swr";
+import { IncidentData } from "@/types";
+import { APIError } from "@/types";
+import { useUIStore } from "@/lib/stores/uiStore";
+
+/**
+ * Hook to fetch incidents for the alerts view
+ * Follows the dashboard status check toggle for polling
+ */
+
+const incidentFetcher = async (url: string): Promise<IncidentData[]> => {
+    const res = await fetch(url);
+
+    if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new APIError(
+            errorData.error || `Failed to fetch incidents: ${res.statusText}`,
+            res.status,
+            errorData
+        );
+    }
+
+    const json = await res.json();
+    return json.data || [];
+};
+
+export function useIncidents(limit: number = 30) {
+    const { statusCheckEnabled, statusCheckInterval } = useUIStore();
+
+    const { data, error, isLoading, mutate } = useSWR<IncidentData[]>(
+        `/api/incidents?limit=${limit}`,
+        incidentFetcher,
+        {
+            refreshInterval: statusCheckEnabled && statusCheckInterval > 0
+                ? Math.max(statusCheckInterval, 10) * 1000
+                : 0,
+            revalidateOnFocus: true,
+            dedupingInterval: 2000,
+        }
+    );
+
+    /**
+     * Acknowledge an incident and refresh the list
+     */
+    const acknowledge = async (incidentId: string, note?: string) => {
+        const res = await fetch(`/api/incidents/${incidentId}/ack`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ note }),
+        });
+        const json = await res.json().catch(() => ({}));
+
+        if (!res.ok || !json.success) {
+            throw new APIError(json.error || "Failed to acknowledge incident", res.status, json);
+        }
+
+        await mutate();
+        return json.data as IncidentData;
+    };
+
+    return {
+        incidents: data || [],
+        isLoading,
+        isError: error,
+        mutate,
+        acknowledge,
+    };
+}
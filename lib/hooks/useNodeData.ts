@@ -1,23 +1,10 @@
-import useSWR, { type SWRConfiguration, type SWRResponse } from "swr";
-import { NodeData } from "@/types";
-import { POLLING_CONFIG } from "@/lib/constants";
+import { useEffect, useSyncExternalStore } from "react";
+import useSWR, { mutate as globalMutate, type SWRConfiguration, type SWRResponse } from "swr";
+import { APIError, NodeData, NodeStatusUpdate, StreamEvent } from "@/types";
+import { POLLING_CONFIG, STREAM_CONFIG } from "@/lib/constants";
 import { useUIStore } from "@/lib/stores/uiStore";
 
-/**
- * Custom API Error Class
- * ✅ TAHAP 3: Enhanced error handling with HTTP status codes
- */
-export class APIError extends Error {
-    constructor(
-        message: string,
-        public statusCode: number,
-        public response?: any
-    ) {
-        super(message);
-        this.name = 'APIError';
-        Object.setPrototypeOf(this, APIError.prototype);
-    }
-}
+export { APIError };
 
 /**
  * SWR Fetcher with AbortController support
@@ -70,11 +57,147 @@ const fetcher = async (url: string, signal?: AbortSignal) => {
     }
 };
 
+type NodeListResponse = {
+    data: NodeData[];
+    isConfigError: boolean;
+    message?: string;
+};
+
 /**
- * Hook to fetch and poll node data
- * Uses SWR for automatic revalidation and caching
- * Polling can be toggled on/off via UI store
+ * Shared live stream (/api/stream)
+ * One EventSource per tab, opened while any component uses useNodeData.
+ * Updates patch the SWR cache in place; incident events revalidate the
+ * incident lists.
  */
+interface StreamStatus {
+    connected: boolean;
+    scheduler: boolean;  // Server checks nodes without dashboard polling
+}
+
+const DISCONNECTED: StreamStatus = { connected: false, scheduler: false };
+
+let streamSource: EventSource | null = null;
+let streamSubscribers = 0;
+let streamReconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let streamStatus: StreamStatus = DISCONNECTED;
+const streamStatusListeners = new Set<() => void>();
+
+const setStreamStatus = (status: StreamStatus) => {
+    if (status.connected === streamStatus.connected && status.scheduler === streamStatus.scheduler) return;
+    streamStatus = status;
+    streamStatusListeners.forEach((listener) => listener());
+};
+
+const applyNodeUpdate = (update: NodeStatusUpdate) => {
+    let known = false;
+
+    globalMutate<NodeListResponse>(
+        "/api/nodes",
+        (current) => {
+            if (!current) return current;
+            known = current.data.some((node) => node.id === update.id);
+            return {
+                ...current,
+                // Overlay details are dropped from the JSON when cleared, so they are replaced, not merged
+                data: current.data.map((node) => node.id === update.id
+                    ? { ...node, ...update, maintenance: update.maintenance, rootCauses: update.rootCauses }
+                    : node),
+            };
+        },
+        { revalidate: false }
+    ).then(() => {
+        // A node we have not seen yet (e.g. just synced from Sheets): refetch the list
+        if (!known) globalMutate("/api/nodes");
+    });
+};
+
+const handleStreamEvent = (message: MessageEvent) => {
+    let event: StreamEvent;
+    try {
+        event = JSON.parse(message.data);
+    } catch {
+        return;
+    }
+
+    switch (event.type) {
+        case "ready":
+            setStreamStatus({ connected: true, scheduler: event.scheduler });
+            // Catch up on anything missed while disconnected
+            globalMutate("/api/nodes");
+            break;
+        case "node-updated":
+            applyNodeUpdate(event.node);
+            break;
+        case "incident-opened":
+        case "incident-resolved":
+            globalMutate((key) => typeof key === "string" && key.startsWith("/api/incidents"));
+            break;
+    }
+};
+
+const openStream = () => {
+    if (streamSource || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(STREAM_CONFIG.URL);
+    streamSource = source;
+
+    ["ready", "node-updated", "incident-opened", "incident-resolved"].forEach((type) =>
+        source.addEventListener(type, handleStreamEvent as EventListener)
+    );
+
+    source.onerror = () => {
+        // Fall back to polling while the browser retries
+        setStreamStatus(DISCONNECTED);
+
+        // The browser gives up on non-stream responses (e.g. 401), retry later ourselves
+        if (source.readyState === EventSource.CLOSED) {
+            closeStream();
+            if (streamSubscribers > 0 && !streamReconnectTimer) {
+                streamReconnectTimer = setTimeout(() => {
+                    streamReconnectTimer = null;
+                    if (streamSubscribers > 0) openStream();
+                }, STREAM_CONFIG.RECONNECT_MS);
+            }
+        }
+    };
+};
+
+const closeStream = () => {
+    streamSource?.close();
+    streamSource = null;
+    setStreamStatus(DISCONNECTED);
+};
+
+const subscribeStreamStatus = (listener: () => void) => {
+    streamStatusListeners.add(listener);
+    return () => {
+        streamStatusListeners.delete(listener);
+    };
+};
+
+/**
+ * Keep the shared stream open while the calling component is mounted
+ */
+function useNodeStream(): StreamStatus {
+    useEffect(() => {
+        streamSubscribers++;
+        openStream();
+
+        return () => {
+            streamSubscribers--;
+            if (streamSubscribers === 0) {
+                if (streamReconnectTimer) {
+                    clearTimeout(streamReconnectTimer);
+                    streamReconnectTimer = null;
+                }
+                closeStream();
+            }
+        };
+    }, []);
+
+    return useSyncExternalStore(subscribeStreamStatus, () => streamStatus, () => DISCONNECTED);
+}
+
 /**
  * Calculate delay in milliseconds until next 08:00, 09:00, or 10:00 WIB (UTC+7)
  */
@@ -114,15 +237,16 @@ const getNextScheduleDelay = () => {
  * Hook to fetch and poll node data
  * Uses SWR for automatic revalidation and caching
  * ✅ TAHAP 3: With AbortController for request cancellation
+ *
+ * Check results arrive over /api/stream. Polling continues while the stream
+ * is down, and also while it is up in check-on-read mode, where GET /api/nodes
+ * is what triggers checks (no cron secret, no in-process scheduler).
  */
 export function useNodeData() {
     const { statusCheckEnabled, statusCheckInterval } = useUIStore();
+    const stream = useNodeStream();
 
-    const { data, error, isLoading, mutate } = useSWR<{ 
-        data: NodeData[]; 
-        isConfigError: boolean; 
-        message?: string;
-    }>(
+    const { data, error, isLoading, mutate } = useSWR<NodeListResponse>(
         "/api/nodes",
         (url) => {
             // Create AbortController for this request
@@ -138,6 +262,8 @@ export function useNodeData() {
             refreshInterval: () => {
                 // Only poll if status check is enabled
                 if (!statusCheckEnabled) return 0;
+                // Server-side scheduler + live stream: updates are pushed
+                if (stream.connected && stream.scheduler) return 0;
                 if (statusCheckInterval === -1) {
                     return getNextScheduleDelay();
                 }
@@ -155,6 +281,7 @@ export function useNodeData() {
         isError: error,
         isConfigError: data?.isConfigError || false,
         configMessage: data?.message || null,
+        isLive: stream.connected,
         mutate,
     };
 }
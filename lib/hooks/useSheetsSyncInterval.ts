@@ -4,8 +4,11 @@ import { useUIStore } from "@/lib/stores/uiStore";
 /**
  * Custom hook to manage Google Sheets sync interval
  * Automatically syncs data from Google Sheets at regular intervals when enabled
+ * Only syncs the GOOGLE_SPREADSHEET_ID sheet while a tab is open; sheet sources
+ * (/admin/sheets) are synced by the server on their own schedule
+ * `allowed` is false for users without the admin role (the sync endpoint refuses them)
  */
-export function useSheetsSyncInterval() {
+export function useSheetsSyncInterval(allowed: boolean = true) {
     const { sheetsSyncEnabled, sheetsSyncInterval } = useUIStore();
     const [lastSync, setLastSync] = useState<Date | null>(null);
     const [isSyncing, setIsSyncing] = useState(false);
@@ -13,7 +16,7 @@ export function useSheetsSyncInterval() {
     const [consecutiveFailures, setConsecutiveFailures] = useState(0);
 
     useEffect(() => {
-        if (!sheetsSyncEnabled) {
+        if (!sheetsSyncEnabled || !allowed) {
             return;
         }
 
@@ -29,7 +32,7 @@ export function useSheetsSyncInterval() {
         return () => {
             clearInterval(intervalId);
         };
-    }, [sheetsSyncEnabled, sheetsSyncInterval, isSyncing]);
+    }, [sheetsSyncEnabled, sheetsSyncInterval, isSyncing, allowed]);
 
     const performSync = async () => {
         if (isSyncing) {
@@ -68,6 +71,9 @@ export function useSheetsSyncInterval() {
                 if (data.data.added > 0 || data.data.deleted > 0) {
                     console.log(`📊 Sync Summary: +${data.data.added} added, -${data.data.deleted} deleted`);
                 }
+                if (data.data.invalid > 0) {
+                    console.warn(`⚠️ ${data.data.invalid} sheet row(s) not imported:`, data.data.errors);
+                }
             } else {
                 setConsecutiveFailures(prev => prev + 1);
                 setSyncError(data.error || "Sync failed");
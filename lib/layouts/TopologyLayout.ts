@@ -0,0 +1,171 @@
+import dagre from "dagre";
+import { EdgeData, EdgeHealth, NodeData, NodePosition, NodeStatus } from "@/types";
+import { LAYOUT_CONFIG } from "@/lib/constants";
+
+/**
+ * Topology Layout Engine
+ * Hierarchical dependency layout via dagre: upstream dependencies on top,
+ * their dependents below (edge source = dependency, target = dependent)
+ * FRONTEND ONLY - Visual layout calculation
+ * Based on CONTOH/tree-map.html
+ *
+ * Nodes without any dependency link are placed in a grid under the graph
+ * so they do not stretch the first rank.
+ */
+
+export interface TopologyLayout {
+    positions: Map<string, NodePosition>;
+    edges: EdgeData[];
+}
+
+/**
+ * Edge color class from the upstream node's status
+ */
+export function getEdgeHealth(status: NodeStatus): EdgeHealth {
+    switch (status) {
+        case "DOWN":
+        case "DEGRADED_BY_DEPENDENCY":
+            return "failing";
+        case "WARNING":
+        case "FLAPPING":
+            return "degraded";
+        case "MAINTENANCE":
+            return "maintenance";
+        default:
+            return "healthy";
+    }
+}
+
+/**
+ * Failing hops above each failing node: 0 for a root cause (no failing
+ * upstream), 1 for its direct dependents, ... Cycles are cut at the first revisit.
+ */
+function calculatePropagationDepths(
+    nodesById: Map<string, NodeData>,
+    upstreams: Map<string, string[]>
+): Map<string, number> {
+    const depths = new Map<string, number>();
+
+    const visit = (id: string, path: Set<string>): number => {
+        const cached = depths.get(id);
+        if (cached !== undefined) return cached;
+
+        path.add(id);
+        let depth = 0;
+        for (const upstreamId of upstreams.get(id) || []) {
+            const upstream = nodesById.get(upstreamId);
+            if (!upstream || path.has(upstreamId) || getEdgeHealth(upstream.status) !== "failing") continue;
+            depth = Math.max(depth, visit(upstreamId, path) + 1);
+        }
+        path.delete(id);
+
+        depths.set(id, depth);
+        return depth;
+    };
+
+    nodesById.forEach((node, id) => {
+        if (getEdgeHealth(node.status) === "failing") visit(id, new Set());
+    });
+
+    return depths;
+}
+
+export function calculateTopologyLayout(
+    nodes: NodeData[],
+    width: number = 1920
+): TopologyLayout {
+    const positions = new Map<string, NodePosition>();
+    const edges: EdgeData[] = [];
+
+    if (nodes.length === 0) {
+        return { positions, edges };
+    }
+
+    const config = LAYOUT_CONFIG.TOPOLOGY;
+    const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+    // Dependency links between known nodes (unknown ids and self links are dropped)
+    const links: { source: string; target: string }[] = [];
+    const upstreams = new Map<string, string[]>();
+    nodes.forEach((node) => {
+        const dependencies = Array.from(new Set(node.dependencies || []));
+        dependencies.forEach((dependencyId) => {
+            if (dependencyId === node.id || !nodesById.has(dependencyId)) return;
+            links.push({ source: dependencyId, target: node.id });
+            upstreams.set(node.id, [...(upstreams.get(node.id) || []), dependencyId]);
+        });
+    });
+
+    const linked = new Set(links.flatMap((link) => [link.source, link.target]));
+    const isolated = nodes.filter((node) => !linked.has(node.id));
+
+    // Hierarchical part
+    let graphWidth = 0;
+    let graphHeight = 0;
+    const graph = new dagre.graphlib.Graph();
+
+    if (linked.size > 0) {
+        graph.setGraph({ rankdir: "TB", nodesep: config.nodeSep, ranksep: config.rankSep });
+        graph.setDefaultEdgeLabel(() => ({}));
+        nodes.forEach((node) => {
+            if (linked.has(node.id)) {
+                graph.setNode(node.id, { width: config.nodeSize, height: config.nodeSize });
+            }
+        });
+        links.forEach((link) => graph.setEdge(link.source, link.target));
+        dagre.layout(graph);
+
+        graphWidth = graph.graph().width || 0;
+        graphHeight = graph.graph().height || 0;
+    }
+
+    // Isolated grid, at least as wide as the graph or the viewport allows
+    const columns = Math.max(1, Math.floor(Math.max(graphWidth, width * 0.6) / config.isolatedGap));
+    const rows = Math.ceil(isolated.length / columns);
+    const gridHeight = rows > 0 ? (rows - 1) * config.isolatedGap : 0;
+    const sectionGap = linked.size > 0 && isolated.length > 0 ? config.sectionGap : 0;
+
+    // Center the whole drawing on (0, 0); dagre's y grows downward, scene y grows upward
+    const totalHeight = graphHeight + sectionGap + gridHeight;
+    const top = totalHeight / 2;
+    const toScene = (point: { x: number; y: number }) => ({
+        x: point.x - graphWidth / 2,
+        y: top - point.y,
+        z: 0,
+    });
+
+    graph.nodes().forEach((id) => {
+        const { x, y } = toScene(graph.node(id));
+        positions.set(id, { id, x, y, z: 0 });
+    });
+
+    const gridColumns = Math.min(columns, isolated.length);
+    isolated.forEach((node, index) => {
+        const column = index % columns;
+        const row = Math.floor(index / columns);
+        positions.set(node.id, {
+            id: node.id,
+            x: (column - (gridColumns - 1) / 2) * config.isolatedGap,
+            y: top - graphHeight - sectionGap - row * config.isolatedGap,
+            z: 0,
+        });
+    });
+
+    // Edges, colored by the upstream node and staggered along failure paths
+    const depths = calculatePropagationDepths(nodesById, upstreams);
+    links.forEach((link) => {
+        const health = getEdgeHealth(nodesById.get(link.source)!.status);
+        const points = graph.edge(link.source, link.target)?.points || [];
+
+        edges.push({
+            source: link.source,
+            target: link.target,
+            // Slightly behind the nodes
+            path: points.map((point) => ({ ...toScene(point), z: -1 })),
+            health,
+            propagationDepth: health === "failing" ? depths.get(link.source) ?? 0 : undefined,
+        });
+    });
+
+    return { positions, edges };
+}
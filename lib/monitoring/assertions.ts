@@ -0,0 +1,339 @@
+import Ajv, { ValidateFunction } from "ajv";
+import { ContentAssertions, NodeGroup } from "@/types";
+
+/**
+ * Content Assertions
+ * BACKEND ONLY - Checks on the response body and headers of a health check
+ * Evaluated by both the fetch-based checker and the Playwright checker
+ *
+ * A 200 response is only healthy when every configured assertion passes;
+ * the first failing assertion is reported as the check error (statusMessage).
+ */
+
+/**
+ * Upper bound on how much of a body is read when no maxBodyBytes is set
+ */
+export const BODY_READ_LIMIT = 5 * 1024 * 1024;
+
+export interface AssertionInput {
+    text: string;                        // Body used for keyword / regex checks
+    rawBody?: string;                    // Body used for JSON and size checks (defaults to text)
+    bodyBytes?: number;                  // Full body size when the body was truncated
+    headers: Record<string, string>;     // Lower-cased header names
+}
+
+export interface AssertionFailure {
+    assertion: string;
+    message: string;
+}
+
+const ajv = new Ajv({ allErrors: false, strict: false });
+const schemaCache = new Map<string, ValidateFunction>();
+
+function compileSchema(schema: Record<string, unknown>): ValidateFunction {
+    const key = JSON.stringify(schema);
+    let validate = schemaCache.get(key);
+    if (!validate) {
+        validate = ajv.compile(schema);
+        schemaCache.set(key, validate);
+    }
+    return validate;
+}
+
+/**
+ * Accepts "pattern" or "/pattern/flags"
+ */
+export function parseRegex(source: string): RegExp {
+    const literal = source.match(/^\/(.+)\/([dgimsuy]*)$/s);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(source);
+}
+
+/**
+ * Minimal JSONPath: $.a.b, $.list[0].name, $['key with space']
+ */
+export function queryJsonPath(data: unknown, path: string): { found: boolean; value?: unknown } {
+    if (!path.startsWith("$")) {
+        throw new Error(`JSONPath must start with $: ${path}`);
+    }
+
+    const tokens: (string | number)[] = [];
+    const pattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/g;
+    let consumed = 1;
+    let match: RegExpExecArray | null;
+
+    pattern.lastIndex = 1;
+    while ((match = pattern.exec(path)) !== null) {
+        if (match.index !== consumed) break;
+        tokens.push(match[1] ?? (match[2] !== undefined ? parseInt(match[2], 10) : match[3]));
+        consumed = pattern.lastIndex;
+    }
+
+    if (consumed !== path.length) {
+        throw new Error(`Unsupported JSONPath: ${path}`);
+    }
+
+    let current: any = data;
+    for (const token of tokens) {
+        if (current === null || typeof current !== "object" || !(token in current)) {
+            return { found: false };
+        }
+        current = current[token];
+    }
+
+    return { found: true, value: current };
+}
+
+/**
+ * Whether any assertion is configured
+ */
+export function hasAssertions(assertions?: ContentAssertions | null): assertions is ContentAssertions {
+    if (!assertions) return false;
+    return Boolean(
+        assertions.bodyContains?.length ||
+        assertions.bodyNotContains?.length ||
+        assertions.bodyRegex ||
+        assertions.jsonPath?.length ||
+        assertions.jsonSchema ||
+        assertions.maxBodyBytes ||
+        assertions.requiredHeaders?.length
+    );
+}
+
+/**
+ * Whether the body must be downloaded (HEAD is not enough)
+ */
+export function needsBody(assertions?: ContentAssertions | null): boolean {
+    return hasAssertions(assertions) && Boolean(
+        assertions.bodyContains?.length ||
+        assertions.bodyNotContains?.length ||
+        assertions.bodyRegex ||
+        assertions.jsonPath?.length ||
+        assertions.jsonSchema ||
+        assertions.maxBodyBytes
+    );
+}
+
+/**
+ * Validate an assertions payload from the API
+ * JSON assertions are only allowed for `api` group nodes
+ */
+export function validateAssertions(assertions: unknown, group?: NodeGroup | string): string | null {
+    if (assertions === undefined || assertions === null) {
+        return null;
+    }
+    if (typeof assertions !== "object" || Array.isArray(assertions)) {
+        return "assertions must be an object";
+    }
+
+    const a = assertions as ContentAssertions;
+    const isStringList = (value: unknown) =>
+        Array.isArray(value) && value.every((item) => typeof item === "string" && item.length > 0);
+
+    if (a.bodyContains !== undefined && !isStringList(a.bodyContains)) {
+        return "assertions.bodyContains must be a list of non-empty strings";
+    }
+    if (a.bodyNotContains !== undefined && !isStringList(a.bodyNotContains)) {
+        return "assertions.bodyNotContains must be a list of non-empty strings";
+    }
+    if (a.bodyRegex !== undefined) {
+        try {
+            parseRegex(a.bodyRegex);
+        } catch (error: any) {
+            return `assertions.bodyRegex is invalid: ${error.message}`;
+        }
+    }
+    if (a.maxBodyBytes !== undefined && (!Number.isInteger(a.maxBodyBytes) || a.maxBodyBytes < 1)) {
+        return "assertions.maxBodyBytes must be a positive integer";
+    }
+    if (a.requiredHeaders !== undefined) {
+        if (!Array.isArray(a.requiredHeaders) || a.requiredHeaders.some((h) => !h || typeof h.name !== "string" || !h.name)) {
+            return "assertions.requiredHeaders must be a list of { name, value? }";
+        }
+    }
+    if (a.failureStatus !== undefined && a.failureStatus !== "WARNING" && a.failureStatus !== "DOWN") {
+        return "assertions.failureStatus must be WARNING or DOWN";
+    }
+
+    if ((a.jsonPath?.length || a.jsonSchema) && group !== "api") {
+        return "JSON assertions (jsonPath, jsonSchema) are only supported for api group nodes";
+    }
+    if (a.jsonPath !== undefined) {
+        if (!Array.isArray(a.jsonPath)) {
+            return "assertions.jsonPath must be a list";
+        }
+        for (const entry of a.jsonPath) {
+            try {
+                queryJsonPath({}, entry?.path || "");
+            } catch (error: any) {
+                return `assertions.jsonPath: ${error.message}`;
+            }
+        }
+    }
+    if (a.jsonSchema !== undefined) {
+        try {
+            compileSchema(a.jsonSchema);
+        } catch (error: any) {
+            return `assertions.jsonSchema is invalid: ${error.message}`;
+        }
+    }
+
+    return null;
+}
+
+function truncate(value: unknown, length: number = 60): string {
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > length ? `${text.slice(0, length)}...` : text;
+}
+
+/**
+ * Evaluate assertions, returning the first failure (or null when all pass)
+ */
+export function evaluateAssertions(
+    assertions: ContentAssertions,
+    input: AssertionInput
+): AssertionFailure | null {
+    const rawBody = input.rawBody ?? input.text;
+
+    if (assertions.maxBodyBytes) {
+        const size = input.bodyBytes ?? Buffer.byteLength(rawBody, "utf8");
+        if (size > assertions.maxBodyBytes) {
+            return {
+                assertion: "maxBodyBytes",
+                message: `Body size ${size} bytes exceeds ${assertions.maxBodyBytes} bytes`,
+            };
+        }
+    }
+
+    for (const header of assertions.requiredHeaders || []) {
+        const actual = input.headers[header.name.toLowerCase()];
+        if (actual === undefined) {
+            return { assertion: "requiredHeaders", message: `Missing response header ${header.name}` };
+        }
+        if (header.value !== undefined && actual !== header.value) {
+            return {
+                assertion: "requiredHeaders",
+                message: `Header ${header.name} is "${truncate(actual)}", expected "${header.value}"`,
+            };
+        }
+    }
+
+    for (const keyword of assertions.bodyContains || []) {
+        if (!input.text.includes(keyword)) {
+            return { assertion: "bodyContains", message: `Body does not contain "${truncate(keyword)}"` };
+        }
+    }
+
+    for (const keyword of assertions.bodyNotContains || []) {
+        if (input.text.includes(keyword)) {
+            return { assertion: "bodyNotContains", message: `Body contains "${truncate(keyword)}"` };
+        }
+    }
+
+    if (assertions.bodyRegex && !parseRegex(assertions.bodyRegex).test(input.text)) {
+        return { assertion: "bodyRegex", message: `Body does not match ${truncate(assertions.bodyRegex)}` };
+    }
+
+    if (assertions.jsonPath?.length || assertions.jsonSchema) {
+        let json: unknown;
+        try {
+            json = JSON.parse(rawBody);
+        } catch {
+            return { assertion: "json", message: "Body is not valid JSON" };
+        }
+
+        for (const entry of assertions.jsonPath || []) {
+            const { found, value } = queryJsonPath(json, entry.path);
+            const mustExist = entry.exists !== false;
+
+            if (!mustExist) {
+                if (found) {
+                    return { assertion: "jsonPath", message: `${entry.path} should not exist` };
+                }
+                continue;
+            }
+            if (!found) {
+                return { assertion: "jsonPath", message: `${entry.path} does not exist` };
+            }
+            if (entry.equals !== undefined && value !== entry.equals) {
+                return {
+                    assertion: "jsonPath",
+                    message: `${entry.path} is ${truncate(value)}, expected ${truncate(entry.equals)}`,
+                };
+            }
+        }
+
+        if (assertions.jsonSchema) {
+            const validate = compileSchema(assertions.jsonSchema);
+            if (!validate(json)) {
+                const [first] = validate.errors || [];
+                const location = first?.instancePath || "/";
+                return {
+                    assertion: "jsonSchema",
+                    message: `Schema validation failed at ${location}: ${first?.message || "invalid"}`,
+                };
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Format a failure for HealthCheckResult.error / statusMessage
+ */
+export function formatAssertionFailure(failure: AssertionFailure): string {
+    return `Assertion failed (${failure.assertion}): ${failure.message}`;
+}
+
+/**
+ * Read a fetch Response body up to `limit` bytes
+ * Returns the text read and the total size seen (may exceed the limit by one chunk)
+ */
+export async function readBody(
+    response: Response,
+    limit: number = BODY_READ_LIMIT
+): Promise<{ text: string; bytes: number; truncated: boolean }> {
+    const reader = response.body?.getReader?.();
+
+    if (!reader) {
+        const text = typeof response.text === "function" ? await response.text() : "";
+        return { text, bytes: Buffer.byteLength(text, "utf8"), truncated: false };
+    }
+
+    const chunks: Uint8Array[] = [];
+    let bytes = 0;
+    let truncated = false;
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        bytes += value.byteLength;
+        if (bytes > limit) {
+            truncated = true;
+            await reader.cancel().catch(() => undefined);
+            break;
+        }
+    }
+
+    return { text: Buffer.concat(chunks).toString("utf8"), bytes, truncated };
+}
+
+/**
+ * Lower-case header map from a fetch Headers object (or a plain object)
+ */
+export function headersToRecord(headers?: Headers | Record<string, string> | null): Record<string, string> {
+    const record: Record<string, string> = {};
+    if (!headers) return record;
+
+    if (typeof (headers as Headers).forEach === "function") {
+        (headers as Headers).forEach((value, key) => {
+            record[key.toLowerCase()] = value;
+        });
+    } else {
+        Object.entries(headers).forEach(([key, value]) => {
+            record[key.toLowerCase()] = value;
+        });
+    }
+    return record;
+}
@@ -0,0 +1,113 @@
+import type { BrowserContext } from "playwright";
+import BrowserSessionModel from "@/lib/db/models/BrowserSession";
+import { decryptSecret, encryptSecret, fingerprintSecret, parseMasterKeys } from "@/lib/security/credentials";
+import { AuthConfig } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Browser Session Persistence
+ * BACKEND ONLY - Reuse BROWSER_LOGIN sessions across checks
+ *
+ * Every browser check runs in its own context. After a successful login
+ * the context's storage state (cookies, localStorage) is saved, encrypted,
+ * per node + login origin; the next check starts from it and only logs in
+ * again when the saved session is no longer accepted.
+ *
+ * Each session carries an HMAC fingerprint of the credentials (keyed with the
+ * master key), so changed credentials never reuse an old session. Sessions are
+ * only persisted when CREDENTIAL_ENCRYPTION_KEYS is set; rotating that key
+ * drops the saved sessions (one re-login).
+ */
+
+export type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+export interface SessionKey {
+    key: string;            // <nodeId>:<login origin>
+    origin: string;
+    fingerprint: string;    // HMAC of username + password
+}
+
+export const BROWSER_SESSION_TTL_HOURS = Number(process.env.BROWSER_SESSION_TTL_HOURS) || 24;
+
+export function isSessionPersistenceEnabled(): boolean {
+    return process.env.BROWSER_SESSION_PERSISTENCE !== "false" && parseMasterKeys().length > 0;
+}
+
+/**
+ * Session identity of a login: node + origin of the login page
+ * Null without a node (unsaved configs are tested without sessions), without
+ * credentials to log in with or without an encryption key
+ */
+export function getSessionKey(nodeId: string | undefined, authConfig: AuthConfig, url: string): SessionKey | null {
+    if (!nodeId || authConfig.type !== "BROWSER_LOGIN" || !authConfig.username || !authConfig.password) {
+        return null;
+    }
+
+    let origin: string;
+    try {
+        origin = new URL(authConfig.loginUrl || url).origin;
+    } catch {
+        return null;
+    }
+
+    try {
+        const fingerprint = fingerprintSecret([authConfig.username, authConfig.password].join("\n"));
+        return { key: `${nodeId}:${origin}`, origin, fingerprint };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Saved storage state, undefined when missing, expired, saved for other
+ * credentials or undecryptable
+ * Never throws - a check without a session simply logs in
+ */
+export async function loadBrowserSession(session: SessionKey, now: Date = new Date()): Promise<StorageState | undefined> {
+    try {
+        const saved = await BrowserSessionModel.findOne({ key: session.key, expiresAt: { $gt: now } }).lean();
+        // Changed credentials: the next successful login replaces the session
+        if (!saved || saved.fingerprint !== session.fingerprint) return undefined;
+
+        return JSON.parse(decryptSecret(saved.storageState)) as StorageState;
+    } catch (error: any) {
+        logger.warn('Discarding unusable browser session', { origin: session.origin, error: error.message });
+        await clearBrowserSession(session);
+        return undefined;
+    }
+}
+
+/**
+ * Save (or refresh) the session after a check that was logged in
+ * Never throws
+ */
+export async function saveBrowserSession(session: SessionKey, state: StorageState, now: Date = new Date()): Promise<void> {
+    try {
+        await BrowserSessionModel.updateOne(
+            { key: session.key },
+            {
+                $set: {
+                    origin: session.origin,
+                    fingerprint: session.fingerprint,
+                    storageState: encryptSecret(JSON.stringify(state)),
+                    expiresAt: new Date(now.getTime() + BROWSER_SESSION_TTL_HOURS * 60 * 60 * 1000),
+                },
+            },
+            { upsert: true }
+        );
+    } catch (error: any) {
+        logger.error('Failed to save browser session', error, { origin: session.origin });
+    }
+}
+
+/**
+ * Forget a session the site rejected
+ * Never throws
+ */
+export async function clearBrowserSession(session: SessionKey): Promise<void> {
+    try {
+        await BrowserSessionModel.deleteOne({ key: session.key });
+    } catch (error: any) {
+        logger.error('Failed to clear browser session', error, { origin: session.origin });
+    }
+}
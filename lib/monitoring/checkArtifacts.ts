@@ -0,0 +1,236 @@
+import mongoose, { ObjectId, Types } from "mongoose";
+import { CheckArtifact, CheckArtifactKind } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Check Artifacts
+ * BACKEND ONLY - Screenshot, page HTML and (optionally) HAR of failed
+ * browser checks, stored in GridFS (bucket check_artifacts)
+ *
+ * playwrightHealthCheck.ts captures them, recordCheckResult stores them and
+ * links them from the check result. Each file is capped at ARTIFACT_MAX_BYTES
+ * (HTML is truncated, other kinds are dropped) and deleted after
+ * ARTIFACT_RETENTION_DAYS by pruneCheckArtifacts (run with scheduled checks).
+ * HARs are stored without request bodies, cookies and auth headers, and only
+ * admins may download them.
+ */
+
+export const ARTIFACT_BUCKET = "check_artifacts";
+
+export const ARTIFACT_MAX_BYTES = Number(process.env.ARTIFACT_MAX_BYTES) || 2 * 1024 * 1024;
+
+export const ARTIFACT_RETENTION_DAYS = Number(process.env.ARTIFACT_RETENTION_DAYS) || 7;
+
+/**
+ * Raw capture, before it is stored
+ */
+export interface CapturedArtifact {
+    kind: CheckArtifactKind;
+    contentType: string;
+    data: Buffer;
+}
+
+const EXTENSIONS: Record<CheckArtifactKind, string> = {
+    screenshot: "jpg",
+    html: "html",
+    har: "har",
+};
+
+const TRUNCATION_MARKER = "\n<!-- truncated by heartbeat: size limit reached -->\n";
+
+const SENSITIVE_HAR_HEADERS = ["authorization", "proxy-authorization", "cookie", "set-cookie"];
+
+/**
+ * Screenshot + HTML capture on failed browser checks (default on)
+ */
+export function isArtifactCaptureEnabled(): boolean {
+    return process.env.BROWSER_ARTIFACTS !== "false";
+}
+
+/**
+ * HAR recording of every browser check, kept only on failure (default off)
+ */
+export function isHarCaptureEnabled(): boolean {
+    return isArtifactCaptureEnabled() && process.env.BROWSER_ARTIFACT_HAR === "true";
+}
+
+export function artifactFilename(kind: CheckArtifactKind, timestamp: Date): string {
+    return `${kind}-${timestamp.toISOString().replace(/[:.]/g, "-")}.${EXTENSIONS[kind]}`;
+}
+
+/**
+ * Apply the size cap: HTML is truncated, screenshots and HARs over the cap are dropped
+ */
+export function capArtifact(artifact: CapturedArtifact, maxBytes: number = ARTIFACT_MAX_BYTES): CapturedArtifact | null {
+    if (artifact.data.length <= maxBytes) {
+        return artifact;
+    }
+    if (artifact.kind !== "html") {
+        return null;
+    }
+
+    const marker = Buffer.from(TRUNCATION_MARKER);
+    return {
+        ...artifact,
+        data: Buffer.concat([artifact.data.subarray(0, Math.max(0, maxBytes - marker.length)), marker]),
+    };
+}
+
+function withoutSensitiveHeaders(headers: unknown): unknown {
+    if (!Array.isArray(headers)) return headers;
+    return headers.filter((header) => !SENSITIVE_HAR_HEADERS.includes(String(header?.name).toLowerCase()));
+}
+
+/**
+ * HAR without credentials: the login form posts the password and every
+ * request carries the session, so request bodies, cookies and auth headers are removed
+ * Null when the data is not a HAR
+ */
+export function sanitizeHar(data: Buffer): Buffer | null {
+    let har: any;
+    try {
+        har = JSON.parse(data.toString("utf8"));
+    } catch {
+        return null;
+    }
+    if (!Array.isArray(har?.log?.entries)) {
+        return null;
+    }
+
+    for (const entry of har.log.entries) {
+        const { request, response } = entry || {};
+        if (request) {
+            delete request.postData;
+            request.headers = withoutSensitiveHeaders(request.headers);
+            request.cookies = [];
+        }
+        if (response) {
+            response.headers = withoutSensitiveHeaders(response.headers);
+            response.cookies = [];
+        }
+    }
+
+    return Buffer.from(JSON.stringify(har), "utf8");
+}
+
+function getBucket() {
+    const db = mongoose.connection.db;
+    if (!db) {
+        throw new Error("MongoDB is not connected");
+    }
+    return new mongoose.mongo.GridFSBucket(db, { bucketName: ARTIFACT_BUCKET });
+}
+
+/**
+ * Store captures for a check result
+ * Never throws - a failed upload only loses the artifact, not the check result
+ */
+export async function saveCheckArtifacts(
+    nodeId: ObjectId | Types.ObjectId | string,
+    timestamp: Date,
+    captures: CapturedArtifact[]
+): Promise<CheckArtifact[]> {
+    const saved: CheckArtifact[] = [];
+
+    for (const capture of captures) {
+        const data = capture.kind === "har" ? sanitizeHar(capture.data) : capture.data;
+        if (!data) {
+            logger.warn('Check artifact is not a valid HAR, dropped', { nodeId: nodeId.toString(), kind: capture.kind });
+            continue;
+        }
+
+        const artifact = capArtifact({ ...capture, data });
+        if (!artifact) {
+            logger.warn('Check artifact exceeds size limit, dropped', {
+                nodeId: nodeId.toString(),
+                kind: capture.kind,
+                size: capture.data.length,
+                maxBytes: ARTIFACT_MAX_BYTES,
+            });
+            continue;
+        }
+
+        try {
+            const upload = getBucket().openUploadStream(artifactFilename(artifact.kind, timestamp), {
+                metadata: { nodeId: nodeId.toString(), kind: artifact.kind, contentType: artifact.contentType },
+            });
+            await new Promise<void>((resolve, reject) => {
+                upload.once("finish", () => resolve());
+                upload.once("error", reject);
+                upload.end(artifact.data);
+            });
+
+            saved.push({
+                id: upload.id.toString(),
+                kind: artifact.kind,
+                contentType: artifact.contentType,
+                size: artifact.data.length,
+            });
+        } catch (error: any) {
+            logger.error('Failed to store check artifact', error, { nodeId: nodeId.toString(), kind: artifact.kind });
+        }
+    }
+
+    return saved;
+}
+
+/**
+ * Load a stored artifact, null when it does not exist (or was pruned)
+ */
+export async function readCheckArtifact(
+    id: string
+): Promise<{ artifact: CheckArtifact; filename: string; data: Buffer } | null> {
+    if (!Types.ObjectId.isValid(id)) {
+        return null;
+    }
+
+    const bucket = getBucket();
+    const fileId = new Types.ObjectId(id);
+    const [file] = await bucket.find({ _id: fileId }).limit(1).toArray();
+    if (!file) {
+        return null;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of bucket.openDownloadStream(fileId)) {
+        chunks.push(chunk as Buffer);
+    }
+
+    return {
+        artifact: {
+            id,
+            kind: file.metadata?.kind,
+            contentType: file.metadata?.contentType || "application/octet-stream",
+            size: file.length,
+        },
+        filename: file.filename,
+        data: Buffer.concat(chunks),
+    };
+}
+
+/**
+ * Delete artifacts older than the retention period
+ *
+ * @returns number of files deleted
+ */
+export async function pruneCheckArtifacts(now: Date = new Date(), limit: number = 500): Promise<number> {
+    const bucket = getBucket();
+    const cutoff = new Date(now.getTime() - ARTIFACT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    const expired = await bucket
+        .find({ uploadDate: { $lt: cutoff } }, { projection: { _id: 1 } })
+        .limit(limit)
+        .toArray();
+
+    let deleted = 0;
+    for (const file of expired) {
+        try {
+            await bucket.delete(file._id);
+            deleted++;
+        } catch (error: any) {
+            logger.error('Failed to delete expired check artifact', error, { artifactId: file._id.toString() });
+        }
+    }
+
+    return deleted;
+}
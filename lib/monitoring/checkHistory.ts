@@ -0,0 +1,212 @@
+import { ObjectId, Types } from "mongoose";
+import CheckResultModel, { CHECK_RESULT_RETENTION_DAYS } from "@/lib/db/models/CheckResult";
+import CheckRollupModel, { ROLLUP_RETENTION_DAYS } from "@/lib/db/models/CheckRollup";
+import CheckRunStateModel from "@/lib/db/models/CheckRunState";
+import { HealthCheckResult } from "./healthCheck";
+import { saveCheckArtifacts } from "./checkArtifacts";
+import { RollupPeriod } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Check History Service
+ * BACKEND ONLY - Persists every health check as a time-series document
+ * and downsamples raw results into hourly/daily rollups
+ */
+
+const PERIOD_MS: Record<RollupPeriod, number> = {
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+};
+
+// Buckets are rolled up this long after they close, so in-flight checks are included
+const ROLLUP_GRACE_MS = 5 * 60 * 1000;
+
+export type HistoryResolution = "raw" | RollupPeriod;
+
+/**
+ * Persist a single check result
+ * Failure artifacts of browser checks are stored first and linked from it
+ * Never throws - history is best-effort and must not break the status update
+ */
+export async function recordCheckResult(
+    nodeId: ObjectId | Types.ObjectId | string,
+    result: HealthCheckResult,
+    timestamp: Date = new Date()
+): Promise<void> {
+    try {
+        const artifacts = result.captures?.length
+            ? await saveCheckArtifacts(nodeId, timestamp, result.captures)
+            : undefined;
+
+        await CheckResultModel.create({
+            nodeId,
+            timestamp,
+            status: result.status,
+            latency: result.latency,
+            httpStatus: result.httpStatus,
+            error: result.error,
+            checker: result.checker || "http",
+            steps: result.steps,
+            artifacts: artifacts?.length ? artifacts : undefined,
+        });
+    } catch (error: any) {
+        logger.error('Failed to record check result', error, { nodeId: nodeId.toString() });
+    }
+}
+
+/**
+ * Start of the bucket containing `date` (UTC aligned)
+ */
+export function getBucketStart(date: Date, period: RollupPeriod): Date {
+    const ms = PERIOD_MS[period];
+    return new Date(Math.floor(date.getTime() / ms) * ms);
+}
+
+function getWatermarkKey(period: RollupPeriod): string {
+    return `rollup-${period}`;
+}
+
+/**
+ * Downsample raw check results of closed buckets into rollup buckets
+ * Only buckets closed since the last rollup are aggregated (the watermark is
+ * kept in check_run_state); `since` re-aggregates from there, e.g. to backfill.
+ * Replacing buckets keeps it idempotent.
+ *
+ * @returns number of buckets written
+ */
+export async function rollupCheckResults(
+    period: RollupPeriod,
+    since?: Date,
+    now: Date = new Date()
+): Promise<number> {
+    const key = getWatermarkKey(period);
+    const until = getBucketStart(new Date(now.getTime() - ROLLUP_GRACE_MS), period);
+
+    let from: Date;
+    if (since) {
+        from = getBucketStart(since, period);
+    } else {
+        const state = await CheckRunStateModel.findOne({ key }).lean();
+        const watermark = state?.cursor ? new Date(state.cursor) : null;
+        from = watermark && !isNaN(watermark.getTime())
+            ? watermark
+            : new Date(until.getTime() - PERIOD_MS[period]);
+    }
+
+    if (from >= until) {
+        return 0;
+    }
+
+    const retentionMs = ROLLUP_RETENTION_DAYS[period] * PERIOD_MS.day;
+
+    await CheckResultModel.aggregate([
+        { $match: { timestamp: { $gte: from, $lt: until } } },
+        {
+            $group: {
+                _id: {
+                    nodeId: "$nodeId",
+                    bucketStart: { $dateTrunc: { date: "$timestamp", unit: period } },
+                },
+                total: { $sum: 1 },
+                up: { $sum: { $cond: [{ $in: ["$status", ["STABLE", "FRESH"]] }, 1, 0] } },
+                warning: { $sum: { $cond: [{ $eq: ["$status", "WARNING"] }, 1, 0] } },
+                down: { $sum: { $cond: [{ $eq: ["$status", "DOWN"] }, 1, 0] } },
+                avgLatency: { $avg: "$latency" },
+                minLatency: { $min: "$latency" },
+                maxLatency: { $max: "$latency" },
+            },
+        },
+        {
+            $project: {
+                _id: 0,
+                nodeId: "$_id.nodeId",
+                period: { $literal: period },
+                bucketStart: "$_id.bucketStart",
+                total: 1,
+                up: 1,
+                warning: 1,
+                down: 1,
+                avgLatency: { $round: ["$avgLatency", 0] },
+                minLatency: 1,
+                maxLatency: 1,
+                expiresAt: { $add: ["$_id.bucketStart", retentionMs] },
+            },
+        },
+        {
+            $merge: {
+                into: CheckRollupModel.collection.name,
+                on: ["nodeId", "period", "bucketStart"],
+                whenMatched: "replace",
+                whenNotMatched: "insert",
+            },
+        },
+    ]);
+
+    // $merge produces no output documents, count what was written instead
+    const written = await CheckRollupModel.countDocuments({
+        period,
+        bucketStart: { $gte: from, $lt: until },
+    });
+
+    // A backfill leaves the watermark alone
+    if (!since) {
+        await CheckRunStateModel.updateOne(
+            { key },
+            { $set: { cursor: until.toISOString(), lastRunAt: now } },
+            { upsert: true }
+        );
+    }
+
+    logger.debug('Check results rolled up', { period, from: from.toISOString(), until: until.toISOString(), buckets: written });
+    return written;
+}
+
+/**
+ * Run hourly and daily rollups
+ * Called after each check run; does nothing until a bucket closes
+ */
+export async function rollupAllPeriods(now: Date = new Date()): Promise<Record<RollupPeriod, number>> {
+    const [hour, day] = await Promise.all([
+        rollupCheckResults("hour", undefined, now),
+        rollupCheckResults("day", undefined, now),
+    ]);
+    return { hour, day };
+}
+
+/**
+ * Pick the finest resolution whose retention still covers `from`
+ */
+export function pickResolution(from: Date, now: Date = new Date()): HistoryResolution {
+    const ageDays = (now.getTime() - from.getTime()) / PERIOD_MS.day;
+
+    if (ageDays <= CHECK_RESULT_RETENTION_DAYS) return "raw";
+    if (ageDays <= ROLLUP_RETENTION_DAYS.hour) return "hour";
+    return "day";
+}
+
+/**
+ * Query check history for a node in a time range
+ */
+export async function getCheckHistory(
+    nodeId: ObjectId | Types.ObjectId | string,
+    from: Date,
+    to: Date,
+    resolution: HistoryResolution = pickResolution(from)
+) {
+    if (resolution === "raw") {
+        return CheckResultModel.find({
+            nodeId,
+            timestamp: { $gte: from, $lte: to },
+        })
+            .sort({ timestamp: 1 })
+            .lean();
+    }
+
+    return CheckRollupModel.find({
+        nodeId,
+        period: resolution,
+        bucketStart: { $gte: getBucketStart(from, resolution), $lte: to },
+    })
+        .sort({ bucketStart: 1 })
+        .lean();
+}
@@ -0,0 +1,155 @@
+import { HealthCheckResult, shouldTriggerAlert } from "./healthCheck";
+import { recordCheckResult } from "./checkHistory";
+import { syncIncident, toIncidentData, IncidentSyncResult } from "./incidents";
+import { evaluateStatus, getUnderlyingStatus, resolveStatusPolicy, StatusEvaluation } from "./statusConfirmation";
+import { computeNextCheckAt } from "./checkSchedule";
+import { applyMaintenanceStatus } from "./maintenance";
+import { applyDependencyStatus, getBlastRadius, loadDependencyGraph } from "./dependencies";
+import { notifyStatusChange, DeliveryResult } from "@/lib/notifications";
+import { publishStreamEvent, toNodeStatusUpdate } from "@/lib/realtime/streamEvents";
+import { ActiveMaintenance, DependencyRootCause, INode, NodeStatus } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Check Outcome Handler
+ * BACKEND ONLY - Side effects that run after a node's check result is saved
+ * Shared by /api/cron/check, /api/nodes/[id]/check and background checks
+ *
+ * - applyCheckResult: confirm the observed status (N-consecutive / flapping),
+ *   copy the result onto the node document and schedule its next check
+ *   before it is saved; nodes in a maintenance window show MAINTENANCE and
+ *   DOWN nodes with a failing dependency DEGRADED_BY_DEPENDENCY while their
+ *   confirmed status is tracked underneath
+ * - handleCheckOutcome: persist the raw result to check history, drive the
+ *   incident lifecycle, push the change to /api/stream and send outbound
+ *   notifications (suppressed for MAINTENANCE / DEGRADED_BY_DEPENDENCY;
+ *   alerts for a root cause list its downstream nodes)
+ */
+
+/**
+ * Context a caller loads once per run and passes per node
+ */
+export interface StatusOverlays {
+    maintenance?: ActiveMaintenance | null;   // Active window of the node (getNodeMaintenance)
+    rootCauses?: DependencyRootCause[];       // Failing upstream nodes (findRootCauses)
+}
+
+const SILENT_STATUSES: NodeStatus[] = ["FLAPPING", "MAINTENANCE", "DEGRADED_BY_DEPENDENCY"];
+
+export interface CheckOutcome {
+    alert: boolean;
+    incident: IncidentSyncResult;
+    notifications: DeliveryResult[];
+}
+
+type OutcomeNode = Pick<
+    INode,
+    "_id" | "name" | "group" | "url" | "status" | "latency" | "history" | "lastChecked" | "nextCheckAt" | "httpStatus" | "statusMessage"
+>;
+
+/**
+ * Apply a check result to a node document (does not save)
+ * The node's status becomes the confirmed status, not the raw result,
+ * or an overlay status (MAINTENANCE, DEGRADED_BY_DEPENDENCY) from `overlays`
+ */
+export function applyCheckResult(
+    node: INode,
+    result: HealthCheckResult,
+    checkedAt: Date = new Date(),
+    overlays: StatusOverlays = {}
+): StatusEvaluation {
+    const evaluation = evaluateStatus(
+        getUnderlyingStatus(node),
+        result.status,
+        node.checkState,
+        resolveStatusPolicy(node.statusPolicy)
+    );
+
+    node.status = evaluation.status;
+    node.checkState = evaluation.state;
+    applyDependencyStatus(node, overlays.rootCauses || []);
+    applyMaintenanceStatus(node, overlays.maintenance || null);
+    node.latency = result.latency;
+    node.httpStatus = result.httpStatus;
+    node.statusMessage = result.error || undefined;
+    node.lastChecked = checkedAt;
+    node.nextCheckAt = computeNextCheckAt(node, checkedAt);
+    (node as any).addLatencyToHistory(result.latency);
+
+    return evaluation;
+}
+
+/**
+ * Names of the nodes downstream of an alerting node (root cause grouping in notifications)
+ */
+async function loadAffectedNodeNames(node: OutcomeNode): Promise<string[] | undefined> {
+    try {
+        const dependents = getBlastRadius(await loadDependencyGraph(), node._id.toString());
+        return dependents.length > 0 ? dependents.map((dependent) => dependent.name) : undefined;
+    } catch (error: any) {
+        logger.error('Failed to load dependent nodes', error, { nodeId: node._id.toString(), nodeName: node.name });
+        return undefined;
+    }
+}
+
+/**
+ * Run side effects for a saved node
+ * `node.status` must already hold the confirmed status (see applyCheckResult)
+ */
+export async function handleCheckOutcome(
+    node: OutcomeNode,
+    oldStatus: NodeStatus,
+    result: HealthCheckResult,
+    checkedAt: Date = new Date()
+): Promise<CheckOutcome> {
+    const newStatus = node.status;
+
+    // History keeps the raw observed result
+    await recordCheckResult(node._id, result, checkedAt);
+
+    // A flapping node keeps its incident state until a streak confirms DOWN or recovery,
+    // a node in maintenance until its window ends, a degraded node until its root cause recovers
+    let incident: IncidentSyncResult = { change: null, incident: null };
+    if (!SILENT_STATUSES.includes(newStatus)) {
+        try {
+            incident = await syncIncident(node, newStatus, result, checkedAt);
+        } catch (error: any) {
+            logger.error('Failed to update incident', error, { nodeId: node._id.toString(), nodeName: node.name });
+        }
+    }
+
+    // Live dashboards get the saved node state and incident transitions
+    publishStreamEvent({ type: "node-updated", node: toNodeStatusUpdate(node) });
+    if (incident.incident && (incident.change === "opened" || incident.change === "resolved")) {
+        publishStreamEvent({
+            type: incident.change === "opened" ? "incident-opened" : "incident-resolved",
+            incident: toIncidentData(incident.incident),
+        });
+    }
+
+    // Flapping, maintenance and dependency transitions are silent; leaving one still alerts
+    // when it opens or resolves an incident (e.g. a node that stayed DOWN through a window)
+    const alert = SILENT_STATUSES.includes(oldStatus)
+        ? incident.change === "opened" || incident.change === "resolved"
+        : shouldTriggerAlert(oldStatus, newStatus) || incident.change === "opened";
+
+    let notifications: DeliveryResult[] = [];
+    if (alert) {
+        notifications = await notifyStatusChange({
+            nodeId: node._id.toString(),
+            nodeName: node.name,
+            url: node.url,
+            group: node.group,
+            oldStatus,
+            newStatus,
+            latency: result.latency,
+            httpStatus: result.httpStatus,
+            error: result.error,
+            incidentId: incident.incident?._id.toString(),
+            affectedNodes: await loadAffectedNodeNames(node),
+            timestamp: checkedAt.toISOString(),
+        });
+    }
+
+    return { alert, incident, notifications };
+}
@@ -0,0 +1,274 @@
+import CheckRunStateModel from "@/lib/db/models/CheckRunState";
+import { AuthConfig } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Check Runner
+ * BACKEND ONLY - Bounded-concurrency scheduler for the cron check run
+ *
+ * - HTTP and browser (BROWSER_LOGIN) checks run in separate pools
+ * - Checks against the same host are started at least `perHostIntervalMs` apart
+ * - No check is started once it could no longer finish inside the time budget;
+ *   the browser reserve is the browser check timeout plus failure capture time
+ * - Checks still running at the end of the budget are aborted and left for the
+ *   next run, like the checks that were never started
+ * - The first node that was not started is persisted as a cursor and the next
+ *   run starts there (then wraps around to the nodes before it)
+ */
+
+export type CheckKind = "http" | "browser";
+
+export interface CheckRunnerConfig {
+    concurrency: Record<CheckKind, number>;
+    reserveMs: Record<CheckKind, number>;   // Time a check may need; not started unless it fits the budget
+    perHostIntervalMs: number;
+    timeBudgetMs: number;
+    postRunReserveMs?: number;              // Kept free for the work after the checks (scheduler)
+    startedAt?: number;                     // Start of the run, when it began before the queue
+}
+
+// HTTP check timeout of scheduled runs
+export const HTTP_CHECK_TIMEOUT_MS = 15000;
+
+// Failure screenshot (10s cap), HTML and HAR after a browser check hit its timeout
+const BROWSER_CAPTURE_MS = 12000;
+
+function envInt(name: string, fallback: number, min: number = 0): number {
+    const value = parseInt(process.env[name] || "", 10);
+    return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+/**
+ * Total time of one browser check: login, navigation, stabilization wait
+ * and transaction steps all share it
+ */
+export function getBrowserCheckTimeoutMs(): number {
+    return envInt("CHECK_BROWSER_TIMEOUT_MS", 35000, 5000);
+}
+
+/**
+ * Runner settings from env
+ * The budget should stay below the platform's function time limit; reserves
+ * are never below the worst case of a check
+ */
+export function getCheckRunnerConfig(): CheckRunnerConfig {
+    return {
+        concurrency: {
+            http: envInt("CHECK_HTTP_CONCURRENCY", 10, 1),
+            browser: envInt("CHECK_BROWSER_CONCURRENCY", 2, 1),
+        },
+        reserveMs: {
+            http: Math.max(envInt("CHECK_HTTP_RESERVE_MS", 0), HTTP_CHECK_TIMEOUT_MS),
+            browser: Math.max(envInt("CHECK_BROWSER_RESERVE_MS", 0), getBrowserCheckTimeoutMs() + BROWSER_CAPTURE_MS),
+        },
+        perHostIntervalMs: envInt("CHECK_PER_HOST_INTERVAL_MS", 1000),
+        timeBudgetMs: envInt("CHECK_TIME_BUDGET_MS", 55000, 1),
+        postRunReserveMs: envInt("CHECK_POST_RUN_RESERVE_MS", 5000),
+    };
+}
+
+/**
+ * Browser checks are much slower and heavier, so they get their own pool
+ */
+export function getCheckKind(node: { authConfig?: Pick<AuthConfig, "type"> | null }): CheckKind {
+    return node.authConfig?.type === "BROWSER_LOGIN" ? "browser" : "http";
+}
+
+/**
+ * Rate limiting key for a URL (host incl. port)
+ */
+export function getCheckHost(url: string): string {
+    try {
+        return new URL(url).host.toLowerCase();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Rotate items so the run starts at the cursor
+ * Items are expected in a stable order (e.g. sorted by _id)
+ */
+export function orderFromCursor<T>(items: T[], cursor: string | null | undefined, getId: (item: T) => string): T[] {
+    if (!cursor) return items;
+
+    const start = items.findIndex((item) => getId(item) >= cursor);
+    if (start <= 0) return items;
+
+    return [...items.slice(start), ...items.slice(0, start)];
+}
+
+export interface CheckQueueOptions<T> extends CheckRunnerConfig {
+    getKind: (item: T) => CheckKind;
+    getHost: (item: T) => string;
+}
+
+export interface CheckQueueResult<T> {
+    completed: T[];
+    failed: T[];            // Worker threw
+    aborted: T[];           // Still running at the end of the budget
+    skipped: T[];           // Not started or aborted before the budget ran out (in run order)
+    budgetExhausted: boolean;
+    elapsedMs: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `worker` for every item within the pool, host and budget limits
+ * `signal` is aborted at the end of the budget; the worker must then not
+ * store its result (the item is checked again by the next run)
+ */
+export async function runCheckQueue<T>(
+    items: T[],
+    worker: (item: T, signal: AbortSignal) => Promise<void>,
+    options: CheckQueueOptions<T>
+): Promise<CheckQueueResult<T>> {
+    const startedAt = options.startedAt ?? Date.now();
+    const budgetMs = options.timeBudgetMs - (options.postRunReserveMs ?? 0);
+    const deadline = startedAt + budgetMs;
+    const controller = new AbortController();
+    let deadlineTimer: NodeJS.Timeout | undefined;
+    const deadlineReached = new Promise<void>((resolve) => {
+        deadlineTimer = setTimeout(resolve, Math.max(deadline - Date.now(), 0));
+    });
+    const pending = [...items];
+    const active: Record<CheckKind, number> = { http: 0, browser: 0 };
+    const hostReadyAt = new Map<string, number>();
+    const inFlight = new Map<Promise<void>, T>();
+    const completed: T[] = [];
+    const failed: T[] = [];
+    let budgetExhausted = false;
+
+    const fitsBudget = (item: T, elapsed: number) =>
+        elapsed + options.reserveMs[options.getKind(item)] <= budgetMs;
+
+    const launch = (item: T) => {
+        const kind = options.getKind(item);
+        active[kind]++;
+        hostReadyAt.set(options.getHost(item), Date.now() + options.perHostIntervalMs);
+
+        const task: Promise<void> = worker(item, controller.signal)
+            .then(() => {
+                if (!controller.signal.aborted) completed.push(item);
+            })
+            .catch((error: any) => {
+                if (controller.signal.aborted) return;
+                failed.push(item);
+                logger.error('Scheduled check failed', error);
+            })
+            .finally(() => {
+                active[kind]--;
+                inFlight.delete(task);
+            });
+        inFlight.set(task, item);
+    };
+
+    while (pending.length > 0) {
+        const now = Date.now();
+        const elapsed = now - startedAt;
+
+        if (!pending.some((item) => fitsBudget(item, elapsed))) {
+            budgetExhausted = true;
+            break;
+        }
+
+        const index = pending.findIndex((item) =>
+            active[options.getKind(item)] < options.concurrency[options.getKind(item)] &&
+            (hostReadyAt.get(options.getHost(item)) ?? 0) <= now &&
+            fitsBudget(item, elapsed)
+        );
+
+        if (index >= 0) {
+            launch(pending.splice(index, 1)[0]);
+            continue;
+        }
+
+        // Nothing can start yet: wait for a pool slot or for a host to become available
+        const hostWaits = pending
+            .filter((item) => active[options.getKind(item)] < options.concurrency[options.getKind(item)])
+            .map((item) => (hostReadyAt.get(options.getHost(item)) ?? 0) - now)
+            .filter((wait) => wait > 0);
+
+        const waits: Promise<void>[] = [...inFlight.keys(), deadlineReached];
+        if (hostWaits.length > 0) {
+            waits.push(sleep(Math.min(...hostWaits)));
+        }
+        if (inFlight.size === 0 && hostWaits.length === 0) {
+            waits.push(sleep(10));
+        }
+
+        await Promise.race(waits);
+    }
+
+    // Checks still running at the deadline are given up
+    if (inFlight.size > 0) {
+        await Promise.race([Promise.all([...inFlight.keys()]), deadlineReached]);
+    }
+    clearTimeout(deadlineTimer);
+    const aborted = [...inFlight.values()];
+    if (aborted.length > 0) {
+        budgetExhausted = true;
+        controller.abort();
+        logger.warn('Checks aborted at the end of the time budget', { count: aborted.length });
+    }
+
+    // Keep the skipped items in run order so the cursor points at the first one
+    const skipped = items.filter((item) => pending.includes(item) || aborted.includes(item));
+
+    return {
+        completed,
+        failed,
+        aborted,
+        skipped,
+        budgetExhausted,
+        elapsedMs: Date.now() - startedAt,
+    };
+}
+
+/**
+ * Cursor of the last run (null = start from the beginning)
+ */
+export async function loadRunCursor(key: string): Promise<string | null> {
+    try {
+        const state = await CheckRunStateModel.findOne({ key }).lean();
+        return state?.cursor ?? null;
+    } catch (error: any) {
+        logger.error('Failed to load check run cursor', error, { key });
+        return null;
+    }
+}
+
+/**
+ * Persist where the next run should start
+ */
+export async function saveRunCursor(key: string, cursor: string | null): Promise<void> {
+    try {
+        await CheckRunStateModel.updateOne(
+            { key },
+            { $set: { cursor, lastRunAt: new Date(), lastRunComplete: cursor === null } },
+            { upsert: true }
+        );
+    } catch (error: any) {
+        logger.error('Failed to save check run cursor', error, { key });
+    }
+}
+
+/**
+ * Claim the next slot of a throttled job; false while it is not due yet
+ * (or another instance claimed it first)
+ */
+export async function claimThrottledRun(key: string, now: Date, nextRunAt: Date): Promise<boolean> {
+    try {
+        const claimed = await CheckRunStateModel.findOneAndUpdate(
+            { key, $or: [{ nextRunAt: null }, { nextRunAt: { $lte: now } }] },
+            { $set: { nextRunAt, lastRunAt: now } },
+            { upsert: true, new: true }
+        ).lean();
+        return !!claimed;
+    } catch (error: any) {
+        // The upsert collides with the existing (not yet due) state
+        if (error.code === 11000) return false;
+        throw error;
+    }
+}
@@ -0,0 +1,84 @@
+import { INode } from "@/types";
+
+/**
+ * Check Schedule
+ * BACKEND ONLY - Per-node check cadence
+ *
+ * Every check stores `nextCheckAt = checkedAt + interval`; the cron endpoint,
+ * the in-process scheduler and background checks from GET /api/nodes only
+ * check nodes that are due. Nodes without `nextCheckAt` are due immediately.
+ *
+ * Background checks from GET /api/nodes are a mode of their own
+ * (CHECK_ON_READ=true) for deployments with neither cron nor scheduler;
+ * otherwise they would check nodes a second time next to the cron runs.
+ */
+
+export const CHECK_INTERVAL_LIMITS = { min: 10, max: 86400 } as const;
+
+/**
+ * Interval for nodes without their own checkIntervalSeconds
+ */
+export function getDefaultCheckInterval(): number {
+    const value = parseInt(process.env.CHECK_DEFAULT_INTERVAL_SECONDS || "", 10);
+    if (!Number.isFinite(value)) return 60;
+    return Math.min(CHECK_INTERVAL_LIMITS.max, Math.max(CHECK_INTERVAL_LIMITS.min, value));
+}
+
+/**
+ * Validate a checkIntervalSeconds payload from the API
+ * Returns an error message or null
+ */
+export function validateCheckInterval(interval: unknown): string | null {
+    if (interval === undefined || interval === null) {
+        return null;
+    }
+    if (
+        typeof interval !== "number" ||
+        !Number.isInteger(interval) ||
+        interval < CHECK_INTERVAL_LIMITS.min ||
+        interval > CHECK_INTERVAL_LIMITS.max
+    ) {
+        return `checkIntervalSeconds must be an integer between ${CHECK_INTERVAL_LIMITS.min} and ${CHECK_INTERVAL_LIMITS.max}`;
+    }
+    return null;
+}
+
+export function resolveCheckInterval(node: Pick<INode, "checkIntervalSeconds">): number {
+    return node.checkIntervalSeconds || getDefaultCheckInterval();
+}
+
+export function computeNextCheckAt(node: Pick<INode, "checkIntervalSeconds">, checkedAt: Date): Date {
+    return new Date(checkedAt.getTime() + resolveCheckInterval(node) * 1000);
+}
+
+/**
+ * Dashboard reads check due nodes themselves (no-scheduler mode)
+ * CHECK_ON_READ=true / false decides explicitly; unset, reads check unless
+ * CRON_SECRET shows that POST /api/cron/check runs them. Always off while
+ * the in-process scheduler runs.
+ */
+export function isCheckOnReadEnabled(): boolean {
+    if (process.env.CHECK_SCHEDULER_ENABLED === "true") return false;
+
+    const setting = process.env.CHECK_ON_READ;
+    if (setting === "true" || setting === "false") return setting === "true";
+    return !process.env.CRON_SECRET;
+}
+
+/**
+ * Whether anything runs health checks: in-process scheduler, cron or dashboard reads
+ */
+export function hasCheckRunner(): boolean {
+    return process.env.CHECK_SCHEDULER_ENABLED === "true" || Boolean(process.env.CRON_SECRET) || isCheckOnReadEnabled();
+}
+
+export function isCheckDue(node: Pick<INode, "nextCheckAt">, now: Date = new Date()): boolean {
+    return !node.nextCheckAt || new Date(node.nextCheckAt).getTime() <= now.getTime();
+}
+
+/**
+ * MongoDB filter for due nodes (null also matches a missing field)
+ */
+export function dueNodesFilter(now: Date = new Date()) {
+    return { $or: [{ nextCheckAt: null }, { nextCheckAt: { $lte: now } }] };
+}
@@ -0,0 +1,242 @@
+import NodeModel from "@/lib/db/models/Node";
+import { publishStreamEvent, toNodeStatusUpdate } from "@/lib/realtime/streamEvents";
+import { getUnderlyingStatus, setDisplayedStatus } from "./statusConfirmation";
+import { logger } from "@/lib/utils/logger";
+import { BlastRadiusEntry, DependencyRootCause, INode, NodeGroup, NodeStatus } from "@/types";
+
+/**
+ * Dependency-Aware Status
+ * BACKEND ONLY - Root-cause suppression over INode.dependencies
+ *
+ * A node whose confirmed status is DOWN while one of its (transitive)
+ * dependencies is DOWN shows DEGRADED_BY_DEPENDENCY instead: it opens no
+ * incident of its own and does not alert. The failing upstream nodes without
+ * failing dependencies of their own are its root causes; alerts for a root
+ * cause list the downstream nodes it takes with it (blast radius).
+ */
+
+export interface DependencyGraphNode {
+    id: string;
+    name: string;
+    group: NodeGroup;
+    status: NodeStatus;       // Displayed status
+    confirmed: NodeStatus;    // Confirmed status behind MAINTENANCE / DEGRADED_BY_DEPENDENCY
+    dependencies: string[];
+}
+
+export type DependencyGraph = Map<string, DependencyGraphNode>;
+
+type GraphSource = Pick<INode, "_id" | "name" | "group" | "status" | "checkState" | "dependencies">;
+
+export function buildDependencyGraph(nodes: GraphSource[]): DependencyGraph {
+    const graph: DependencyGraph = new Map();
+
+    for (const node of nodes) {
+        const id = node._id.toString();
+        graph.set(id, {
+            id,
+            name: node.name,
+            group: node.group,
+            status: node.status,
+            confirmed: getUnderlyingStatus(node),
+            dependencies: (node.dependencies || []).map((dep) => dep.toString()),
+        });
+    }
+
+    return graph;
+}
+
+/**
+ * Current graph of all nodes (one query, status fields only)
+ */
+export async function loadDependencyGraph(): Promise<DependencyGraph> {
+    const nodes = await NodeModel.find({})
+        .select("name group status checkState.underlyingStatus dependencies")
+        .lean();
+    return buildDependencyGraph(nodes);
+}
+
+/**
+ * Keep a graph current while a check run changes node statuses
+ */
+export function updateGraphNode(graph: DependencyGraph, node: GraphSource): void {
+    const id = node._id.toString();
+    const entry = graph.get(id);
+    if (!entry) return;
+
+    entry.status = node.status;
+    entry.confirmed = getUnderlyingStatus(node);
+}
+
+function isFailing(node: DependencyGraphNode | undefined): node is DependencyGraphNode {
+    return Boolean(node) && node!.confirmed === "DOWN";
+}
+
+/**
+ * Failing upstream nodes that have no failing dependencies themselves
+ * Empty when none of the node's dependencies is DOWN
+ */
+export function findRootCauses(graph: DependencyGraph, nodeId: string): DependencyRootCause[] {
+    const roots = new Map<string, DependencyRootCause>();
+    const visited = new Set<string>([nodeId]);
+    const queue = [...(graph.get(nodeId)?.dependencies || [])];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (visited.has(id)) continue;
+        visited.add(id);
+
+        const dependency = graph.get(id);
+        if (!isFailing(dependency)) continue;
+
+        const failingUpstream = dependency.dependencies.filter((dep) => isFailing(graph.get(dep)) && dep !== nodeId);
+        if (failingUpstream.length === 0) {
+            roots.set(id, { nodeId: id, name: dependency.name });
+        } else {
+            queue.push(...failingUpstream);
+        }
+    }
+
+    return Array.from(roots.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Whether any (transitive) dependency of a node is in `pending`
+ * (still to be checked in the current run)
+ */
+export function hasPendingUpstream(graph: DependencyGraph, nodeId: string, pending: Set<string>): boolean {
+    const visited = new Set<string>([nodeId]);
+    const queue = [...(graph.get(nodeId)?.dependencies || [])];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (visited.has(id)) continue;
+        visited.add(id);
+
+        if (pending.has(id)) return true;
+        queue.push(...(graph.get(id)?.dependencies || []));
+    }
+
+    return false;
+}
+
+/**
+ * Every node that depends on `nodeId`, directly or transitively, nearest first
+ */
+export function getBlastRadius(graph: DependencyGraph, nodeId: string): BlastRadiusEntry[] {
+    const dependents = new Map<string, string[]>();
+    graph.forEach((node) => {
+        node.dependencies.forEach((dep) => {
+            dependents.set(dep, [...(dependents.get(dep) || []), node.id]);
+        });
+    });
+
+    const entries: BlastRadiusEntry[] = [];
+    const visited = new Set<string>([nodeId]);
+    let frontier = [nodeId];
+
+    for (let depth = 1; frontier.length > 0; depth++) {
+        const next: string[] = [];
+
+        for (const id of frontier) {
+            for (const dependentId of dependents.get(id) || []) {
+                if (visited.has(dependentId)) continue;
+                visited.add(dependentId);
+
+                const node = graph.get(dependentId)!;
+                entries.push({ id: node.id, name: node.name, group: node.group, status: node.status, depth });
+                next.push(dependentId);
+            }
+        }
+
+        frontier = next;
+    }
+
+    return entries;
+}
+
+type DependentNode = Pick<INode, "status" | "checkState" | "rootCauses">;
+
+function sameRootCauses(a: DependencyRootCause[] = [], b: DependencyRootCause[] = []): boolean {
+    return a.length === b.length && a.every((root, index) => root.nodeId === b[index].nodeId);
+}
+
+/**
+ * Mark a node DEGRADED_BY_DEPENDENCY while it is DOWN with failing root causes (does not save)
+ * Maintenance takes precedence: the root causes are recorded but MAINTENANCE stays
+ * Returns true when anything changed
+ */
+export function applyDependencyStatus(node: DependentNode, rootCauses: DependencyRootCause[]): boolean {
+    const confirmed = getUnderlyingStatus(node);
+    const roots = confirmed === "DOWN" ? rootCauses : [];
+    const changed = !sameRootCauses(node.rootCauses, roots);
+
+    node.rootCauses = roots.length > 0 ? roots : undefined;
+
+    if (node.status === "MAINTENANCE") {
+        return changed;
+    }
+
+    const status = roots.length > 0 ? "DEGRADED_BY_DEPENDENCY" : confirmed;
+    if (status === node.status && !changed) {
+        return false;
+    }
+
+    setDisplayedStatus(node, confirmed, roots.length > 0 ? "DEGRADED_BY_DEPENDENCY" : null);
+    return true;
+}
+
+/**
+ * Re-evaluate dependency suppression for all DOWN nodes after a check run
+ * - DOWN nodes whose dependencies failed in the same run become DEGRADED_BY_DEPENDENCY
+ * - Degraded nodes whose root causes recovered are checked again right away; their
+ *   next check decides between recovery and a DOWN of their own (which then alerts)
+ */
+export async function syncDependencyStatuses(
+    now: Date = new Date(),
+    graph?: DependencyGraph
+): Promise<{ degraded: number; rechecked: number }> {
+    graph = graph || await loadDependencyGraph();
+    const counts = { degraded: 0, rechecked: 0 };
+
+    const nodes = await NodeModel.find({
+        $or: [
+            { status: { $in: ["DOWN", "DEGRADED_BY_DEPENDENCY"] } },
+            { "checkState.underlyingStatus": "DOWN" },
+        ],
+    });
+
+    for (const node of nodes) {
+        const rootCauses = findRootCauses(graph, node._id.toString());
+
+        if (node.status === "DEGRADED_BY_DEPENDENCY" && rootCauses.length === 0) {
+            // Keep the status (no alert for a recovery that never alerted) until the node is checked
+            if (!node.nextCheckAt || node.nextCheckAt > now) {
+                node.nextCheckAt = now;
+                counts.rechecked++;
+                await node.save().catch((error: any) => {
+                    logger.error('Failed to schedule dependency recheck', error, { nodeId: node._id.toString(), nodeName: node.name });
+                });
+            }
+            continue;
+        }
+
+        const wasDegraded = node.status === "DEGRADED_BY_DEPENDENCY";
+        if (!applyDependencyStatus(node, rootCauses)) continue;
+        if (!wasDegraded && node.status === "DEGRADED_BY_DEPENDENCY") counts.degraded++;
+
+        try {
+            await node.save();
+            updateGraphNode(graph, node);
+            publishStreamEvent({ type: "node-updated", node: toNodeStatusUpdate(node) });
+        } catch (error: any) {
+            logger.error('Failed to update dependency status', error, { nodeId: node._id.toString(), nodeName: node.name });
+        }
+    }
+
+    if (counts.degraded > 0 || counts.rechecked > 0) {
+        logger.info('Dependency statuses updated', counts);
+    }
+
+    return counts;
+}
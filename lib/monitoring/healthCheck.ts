@@ -1,5 +1,18 @@
-import { NodeStatus, AuthConfig } from "@/types";
+import { NodeStatus, AuthConfig, CheckerType, CheckPolicy, ContentAssertions, SyntheticTransaction, TransactionStepResult } from "@/types";
 import { performPlaywrightHealthCheck } from "./playwrightHealthCheck";
+import { DEFAULT_CHECK_POLICY, evaluateResponse } from "./statusEvaluation";
+import {
+    BODY_READ_LIMIT,
+    evaluateAssertions,
+    formatAssertionFailure,
+    hasAssertions,
+    headersToRecord,
+    needsBody,
+    readBody,
+} from "./assertions";
+import { CapturedArtifact } from "./checkArtifacts";
+import { getBrowserCheckTimeoutMs } from "./checkRunner";
+import { decryptAuthConfig } from "@/lib/security/credentials";
 import { logger } from "@/lib/utils/logger";
 
 /**
@@ -13,94 +26,184 @@ export interface HealthCheckResult {
     latency: number;
     httpStatus?: number;
     error?: string;
+    checker?: CheckerType;
+    steps?: TransactionStepResult[];  // Synthetic transaction timings (browser checks only)
+    captures?: CapturedArtifact[];    // Failure artifacts (browser checks only), stored by recordCheckResult
 }
 
 /**
  * Perform health check on a URL
  * Routes to appropriate check method based on auth requirement
+ * The check policy (see statusEvaluation.ts) decides how the response is graded,
+ * optional content assertions (see assertions.ts) can then fail a healthy response
+ * BROWSER_LOGIN nodes may also run a synthetic transaction (see transactions.ts)
+ * Stored credentials are decrypted here and never leave the check
+ * Browser checks have their own total timeout (CHECK_BROWSER_TIMEOUT_MS);
+ * `signal` gives up the check early (end of a scheduled run's budget);
+ * `nodeId` lets browser checks reuse the node's saved login session
  */
 export async function performHealthCheck(
     url: string,
     authConfig?: AuthConfig,
-    timeoutMs: number = 10000
+    timeoutMs: number = 10000,
+    checkPolicy: CheckPolicy = DEFAULT_CHECK_POLICY,
+    assertions?: ContentAssertions,
+    transaction?: SyntheticTransaction,
+    signal?: AbortSignal,
+    nodeId?: string
 ): Promise<HealthCheckResult> {
+    if (authConfig) {
+        try {
+            authConfig = decryptAuthConfig(authConfig);
+        } catch (error: any) {
+            logger.error('Failed to decrypt node credentials', error, { url });
+            return {
+                status: "DOWN",
+                latency: 0,
+                error: `Cannot decrypt credentials: ${error.message}`,
+                checker: authConfig.type === "BROWSER_LOGIN" ? "browser" : "http",
+            };
+        }
+    }
+
     // If URL requires auth, use Playwright-based check
     if (authConfig && authConfig.type === "BROWSER_LOGIN") {
         logger.info('Using Playwright health check for authenticated URL', {
             url,
             authType: authConfig.type
         });
-        // Use a longer timeout for browser checks (minimum 60s to allow for 30s stabilization)
-        return await performPlaywrightHealthCheck(url, authConfig, Math.max(timeoutMs, 60000));
+        // Login, stabilization and transaction steps all run within the browser check timeout
+        const result = await performPlaywrightHealthCheck(url, authConfig, getBrowserCheckTimeoutMs(), checkPolicy, assertions, transaction, signal, nodeId);
+        return { ...result, checker: "browser" };
     }
 
-    // Otherwise use simple HTTP check
-    return await performSimpleHealthCheck(url, timeoutMs);
+    // Otherwise use simple HTTP check (with header-based auth if configured)
+    const result = await performSimpleHealthCheck(url, timeoutMs, authConfig, checkPolicy, assertions, signal);
+    return { ...result, checker: "http" };
+}
+
+/**
+ * Build request headers for header-based auth types
+ * BASIC -> Authorization: Basic base64(username:password)
+ * BEARER -> Authorization: Bearer <token>
+ * API_KEY -> <headerName>: <headerValue>
+ * NONE / BROWSER_LOGIN / incomplete configs add no auth header
+ */
+export function buildAuthHeaders(authConfig?: AuthConfig): Record<string, string> {
+    const headers: Record<string, string> = {
+        "User-Agent": "Visual-Monitoring-Platform/1.0",
+    };
+
+    if (!authConfig) {
+        return headers;
+    }
+
+    switch (authConfig.type) {
+        case "BASIC":
+            if (authConfig.username) {
+                const credentials = `${authConfig.username}:${authConfig.password || ""}`;
+                headers["Authorization"] = `Basic ${Buffer.from(credentials).toString("base64")}`;
+            }
+            break;
+        case "BEARER":
+            if (authConfig.token) {
+                headers["Authorization"] = `Bearer ${authConfig.token}`;
+            }
+            break;
+        case "API_KEY":
+            if (authConfig.headerName && authConfig.headerValue) {
+                headers[authConfig.headerName] = authConfig.headerValue;
+            }
+            break;
+        default:
+            break;
+    }
+
+    return headers;
 }
 
 /**
  * Simple HTTP-based health check (existing logic)
- * For public URLs that don't require authentication
+ * For public URLs and header-based auth (BASIC, BEARER, API_KEY)
  */
 async function performSimpleHealthCheck(
     url: string,
-    timeoutMs: number = 10000
+    timeoutMs: number = 10000,
+    authConfig?: AuthConfig,
+    checkPolicy: CheckPolicy = DEFAULT_CHECK_POLICY,
+    assertions?: ContentAssertions,
+    signal?: AbortSignal
 ): Promise<HealthCheckResult> {
     const startTime = Date.now();
+    const headers = buildAuthHeaders(authConfig);
 
-    try {
-        // Create abort controller for timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    // Create abort controller for timeout; the run signal is shared, so its listener is removed again
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    const abortFromSignal = () => controller.abort();
+    signal?.addEventListener("abort", abortFromSignal, { once: true });
 
-        // Try HEAD request first (lighter)
-        let response = await fetch(url, {
-            method: "HEAD",
+    try {
+        const get = () => fetch(url, {
+            method: "GET",
             signal: controller.signal,
-            headers: {
-                "User-Agent": "Visual-Monitoring-Platform/1.0",
-            },
-        }).catch(async (headError) => {
-            // If HEAD fails, fallback to GET (some servers don't support HEAD)
-            logger.debug('HEAD request failed, trying GET', { url, error: headError.message });
-            return await fetch(url, {
-                method: "GET",
+            headers,
+        });
+
+        // Body assertions need a GET response
+        const bodyRequired = needsBody(assertions);
+
+        let response: Response;
+        if (checkPolicy.method === "GET" || bodyRequired) {
+            response = await get();
+        } else {
+            // Try HEAD request first (lighter)
+            response = await fetch(url, {
+                method: "HEAD",
                 signal: controller.signal,
-                headers: {
-                    "User-Agent": "Visual-Monitoring-Platform/1.0",
-                },
+                headers,
+            }).catch(async (headError) => {
+                // If HEAD fails, fallback to GET (some servers don't support HEAD)
+                logger.debug('HEAD request failed, trying GET', { url, error: headError.message });
+                return await get();
             });
-        });
 
-        clearTimeout(timeoutId);
+            // Servers that reject the method outright
+            if (response.status === 405 || response.status === 501) {
+                logger.debug('HEAD not allowed, trying GET', { url, httpStatus: response.status });
+                response = await get();
+            }
+        }
 
         const latency = Date.now() - startTime;
         const httpStatus = response.status;
 
-        // Determine node status based on response
-        let status: NodeStatus;
-
-        if (httpStatus >= 500) {
-            // 5xx errors = DOWN
-            status = "DOWN";
-        } else if (httpStatus >= 400) {
-            // 4xx errors = WARNING
-            status = "WARNING";
-        } else if (latency > 5000) {
-            // > 5s latency = WARNING (too slow)
-            status = "WARNING";
-        } else if (latency > 500) {
-            // 500ms-5s = STABLE but slower
-            status = "STABLE";
-        } else {
-            // < 500ms = STABLE (optimal)
-            status = "STABLE";
+        // Determine node status based on response and check policy
+        let { status, error } = evaluateResponse(httpStatus, latency, checkPolicy);
+
+        // Content assertions only run on responses that are not already DOWN
+        if (status !== "DOWN" && hasAssertions(assertions)) {
+            const body = bodyRequired
+                ? await readBody(response, assertions.maxBodyBytes ?? BODY_READ_LIMIT)
+                : { text: "", bytes: 0 };
+
+            const failure = evaluateAssertions(assertions, {
+                text: body.text,
+                bodyBytes: body.bytes,
+                headers: headersToRecord(response.headers),
+            });
+
+            if (failure) {
+                status = assertions.failureStatus || "DOWN";
+                error = formatAssertionFailure(failure);
+            }
         }
 
         return {
             status,
             latency,
             httpStatus,
+            error,
         };
     } catch (error: any) {
         const latency = Date.now() - startTime;
@@ -121,6 +224,9 @@ async function performSimpleHealthCheck(
             latency,
             error: error.message || "Health check failed",
         };
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", abortFromSignal);
     }
 }
 
@@ -131,6 +237,12 @@ export function shouldTriggerAlert(
     oldStatus: NodeStatus,
     newStatus: NodeStatus
 ): boolean {
+    // Alerts are suppressed while a node is flapping, in maintenance or down because of a dependency
+    const silent: NodeStatus[] = ["FLAPPING", "MAINTENANCE", "DEGRADED_BY_DEPENDENCY"];
+    if (silent.includes(oldStatus) || silent.includes(newStatus)) {
+        return false;
+    }
+
     // Trigger alert if status changes to/from DOWN or WARNING
     if (oldStatus === "DOWN" || newStatus === "DOWN") {
         return oldStatus !== newStatus;
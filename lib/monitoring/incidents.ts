@@ -0,0 +1,138 @@
+import { HydratedDocument } from "mongoose";
+import IncidentModel from "@/lib/db/models/Incident";
+import { HealthCheckResult } from "./healthCheck";
+import { IIncident, IncidentData, INode, NodeStatus } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Incident Lifecycle Service
+ * BACKEND ONLY - Opens, updates and resolves incidents from check results
+ *
+ * - Transition to DOWN with no active incident -> open
+ * - Still DOWN -> bump failure count (timeline only records changed errors)
+ * - Any non-DOWN status -> auto-resolve the active incident
+ * - Acknowledge is manual (operator) and does not stop auto-resolve
+ */
+
+const ACTIVE_STATUSES = ["OPEN", "ACKNOWLEDGED"];
+const MAX_TIMELINE_EVENTS = 50;
+
+export type IncidentChange = "opened" | "updated" | "resolved" | null;
+
+export interface IncidentSyncResult {
+    change: IncidentChange;
+    incident: IIncident | null;
+}
+
+type IncidentNode = Pick<INode, "_id" | "name" | "group">;
+
+/**
+ * Apply a check result to the node's incident lifecycle
+ */
+export async function syncIncident(
+    node: IncidentNode,
+    newStatus: NodeStatus,
+    result: HealthCheckResult,
+    checkedAt: Date = new Date()
+): Promise<IncidentSyncResult> {
+    const active = await IncidentModel.findOne({
+        nodeId: node._id,
+        status: { $in: ACTIVE_STATUSES },
+    });
+
+    if (newStatus === "DOWN") {
+        if (!active) {
+            const incident = await IncidentModel.create({
+                nodeId: node._id,
+                nodeName: node.name,
+                group: node.group,
+                status: "OPEN",
+                startedAt: checkedAt,
+                lastFailureAt: checkedAt,
+                failureCount: 1,
+                error: result.error,
+                lastError: result.error,
+                httpStatus: result.httpStatus,
+                timeline: [{ type: "opened", at: checkedAt, message: result.error }],
+            });
+
+            logger.warn('Incident opened', { incidentId: incident._id, nodeName: node.name, error: result.error });
+            return { change: "opened", incident };
+        }
+
+        active.failureCount += 1;
+        active.lastFailureAt = checkedAt;
+        if (result.error && result.error !== active.lastError && active.timeline.length < MAX_TIMELINE_EVENTS) {
+            active.timeline.push({ type: "failure", at: checkedAt, message: result.error });
+        }
+        active.lastError = result.error;
+        active.httpStatus = result.httpStatus ?? active.httpStatus;
+        await active.save();
+
+        return { change: "updated", incident: active };
+    }
+
+    if (active) {
+        active.status = "RESOLVED";
+        active.resolvedAt = checkedAt;
+        active.durationMs = Math.max(0, checkedAt.getTime() - active.startedAt.getTime());
+        active.timeline.push({ type: "resolved", at: checkedAt, message: `Recovered with status ${newStatus}` });
+        await active.save();
+
+        logger.info('Incident resolved', { incidentId: active._id, nodeName: node.name, durationMs: active.durationMs });
+        return { change: "resolved", incident: active };
+    }
+
+    return { change: null, incident: null };
+}
+
+/**
+ * Manually acknowledge an active incident
+ * Caller must reject RESOLVED incidents before calling
+ */
+export async function acknowledgeIncident(
+    incident: HydratedDocument<IIncident>,
+    note?: string,
+    actor?: string
+): Promise<HydratedDocument<IIncident>> {
+    const now = new Date();
+    incident.status = "ACKNOWLEDGED";
+    incident.acknowledgedAt = now;
+    incident.acknowledgedBy = actor;
+    incident.ackNote = note;
+    incident.timeline.push({ type: "acknowledged", at: now, message: note, actor });
+    await incident.save();
+
+    logger.info('Incident acknowledged', { incidentId: incident._id, actor });
+    return incident;
+}
+
+/**
+ * Transform incident document to frontend format
+ */
+export function toIncidentData(incident: IIncident): IncidentData {
+    return {
+        id: incident._id.toString(),
+        nodeId: incident.nodeId.toString(),
+        nodeName: incident.nodeName,
+        group: incident.group,
+        status: incident.status,
+        startedAt: new Date(incident.startedAt).toISOString(),
+        lastFailureAt: new Date(incident.lastFailureAt).toISOString(),
+        failureCount: incident.failureCount,
+        error: incident.error,
+        lastError: incident.lastError,
+        httpStatus: incident.httpStatus,
+        acknowledgedAt: incident.acknowledgedAt ? new Date(incident.acknowledgedAt).toISOString() : undefined,
+        acknowledgedBy: incident.acknowledgedBy,
+        ackNote: incident.ackNote,
+        resolvedAt: incident.resolvedAt ? new Date(incident.resolvedAt).toISOString() : undefined,
+        durationMs: incident.durationMs,
+        timeline: (incident.timeline || []).map((event) => ({
+            type: event.type,
+            at: new Date(event.at).toISOString(),
+            message: event.message,
+            actor: event.actor,
+        })),
+    };
+}
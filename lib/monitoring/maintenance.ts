@@ -0,0 +1,534 @@
+import MaintenanceWindowModel from "@/lib/db/models/MaintenanceWindow";
+import NodeModel from "@/lib/db/models/Node";
+import { publishStreamEvent, toNodeStatusUpdate } from "@/lib/realtime/streamEvents";
+import { normalizeTags, validateNodeGroup, validateTags } from "@/lib/utils/validation";
+import { getUnderlyingStatus, setDisplayedStatus } from "./statusConfirmation";
+import { logger } from "@/lib/utils/logger";
+import {
+    ActiveMaintenance,
+    IMaintenanceWindow,
+    INode,
+    MaintenanceWindowData,
+    NodeGroup,
+    NodeStatus,
+} from "@/types";
+
+/**
+ * Maintenance Windows
+ * BACKEND ONLY - Planned downtime for nodes, groups or tags
+ *
+ * Nodes in an active window keep being checked, but their status shows
+ * MAINTENANCE and transitions neither open incidents nor send alerts. The
+ * confirmed status is kept in checkState.underlyingStatus and restored when
+ * the window ends.
+ *
+ * Recurring windows use 5-field cron syntax (minute hour day-of-month month
+ * day-of-week, with * , - and / steps) evaluated in the window's timezone.
+ */
+
+export const MAINTENANCE_LIMITS = {
+    durationMinutes: { min: 1, max: 10080 }, // Up to 7 days
+} as const;
+
+export const MAINTENANCE_AUDIT_FIELDS = [
+    "name",
+    "description",
+    "enabled",
+    "scope",
+    "schedule",
+    "startsAt",
+    "endsAt",
+    "cron",
+    "durationMinutes",
+    "timezone",
+];
+
+// ============================================
+// Cron expressions
+// ============================================
+
+export interface CronFields {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+const CRON_FIELD_RANGES: [string, number, number][] = [
+    ["minute", 0, 59],
+    ["hour", 0, 23],
+    ["day of month", 1, 31],
+    ["month", 1, 12],
+    ["day of week", 0, 7],
+];
+
+function parseCronField(field: string, name: string, min: number, max: number): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(",")) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid cron ${name}: "${part}"`);
+        }
+
+        const start = match[1] === "*" ? min : parseInt(match[2], 10);
+        const end = match[1] === "*" ? max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : start;
+        const step = match[4] ? parseInt(match[4], 10) : 1;
+
+        if (start < min || end > max || start > end || step < 1) {
+            throw new Error(`Cron ${name} must be within ${min}-${max}: "${part}"`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a 5-field cron expression, throws with a readable message
+ */
+export function parseCron(expression: string): CronFields {
+    const fields = (expression || "").trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error("Cron expression must have 5 fields: minute hour day-of-month month day-of-week");
+    }
+
+    const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = fields.map((field, index) => {
+        const [name, min, max] = CRON_FIELD_RANGES[index];
+        return parseCronField(field, name, min, max);
+    });
+
+    // Both 0 and 7 mean Sunday
+    const daysOfWeek = new Set(Array.from(rawDaysOfWeek).map((day) => day % 7));
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOfMonthRestricted: fields[2] !== "*",
+        dayOfWeekRestricted: fields[4] !== "*",
+    };
+}
+
+export interface ZonedTime {
+    minute: number;
+    hour: number;
+    day: number;
+    month: number;
+    weekday: number; // 0 = Sunday
+}
+
+/**
+ * Month and day fields only
+ * Standard cron semantics: when both day fields are restricted either may match
+ */
+function cronDayMatches(cron: CronFields, time: ZonedTime): boolean {
+    if (!cron.months.has(time.month)) {
+        return false;
+    }
+
+    const dayOfMonth = cron.daysOfMonth.has(time.day);
+    const dayOfWeek = cron.daysOfWeek.has(time.weekday);
+
+    if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+export function cronMatches(cron: CronFields, time: ZonedTime): boolean {
+    return cron.minutes.has(time.minute) && cron.hours.has(time.hour) && cronDayMatches(cron, time);
+}
+
+// ============================================
+// Timezones
+// ============================================
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(timezone: unknown): boolean {
+    if (typeof timezone !== "string" || !timezone) return false;
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Wall-clock fields of `date` in `timezone`
+ */
+export function getZonedTime(date: Date, timezone: string): ZonedTime {
+    let formatter = formatters.get(timezone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone: timezone,
+            hourCycle: "h23",
+            weekday: "short",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+        });
+        formatters.set(timezone, formatter);
+    }
+
+    const parts: Record<string, string> = {};
+    formatter.formatToParts(date).forEach((part) => {
+        parts[part.type] = part.value;
+    });
+
+    return {
+        minute: parseInt(parts.minute, 10),
+        hour: parseInt(parts.hour, 10) % 24,
+        day: parseInt(parts.day, 10),
+        month: parseInt(parts.month, 10),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+    };
+}
+
+// ============================================
+// Window evaluation
+// ============================================
+
+type WindowSchedule = Pick<
+    IMaintenanceWindow,
+    "enabled" | "schedule" | "startsAt" | "endsAt" | "cron" | "durationMinutes" | "timezone"
+>;
+
+export interface MaintenanceOccurrence {
+    startsAt: Date;
+    endsAt: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Latest cron match at or before `now` (whole minutes) that is after `after`, or null
+ * Works back hour by hour: an hour whose day or hour does not match is skipped
+ * at once, a matching hour gives the match from the minute field directly
+ * (at most ~170 steps for a week-long window)
+ */
+export function findPreviousCronMatch(cron: CronFields, now: Date, after: Date, timezone: string): Date | null {
+    const minutes = Array.from(cron.minutes).sort((a, b) => b - a);
+    let candidate = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+
+    while (candidate > after.getTime()) {
+        const time = getZonedTime(new Date(candidate), timezone);
+        const minute = cron.hours.has(time.hour) && cronDayMatches(cron, time)
+            ? minutes.find((value) => value <= time.minute)
+            : undefined;
+
+        if (minute !== undefined) {
+            const match = candidate - (time.minute - minute) * MINUTE_MS;
+            return match > after.getTime() ? new Date(match) : null;
+        }
+
+        // Last minute of the previous hour
+        candidate -= (time.minute + 1) * MINUTE_MS;
+    }
+
+    return null;
+}
+
+/**
+ * The occurrence of a window that covers `now`, or null
+ * Recurring windows: the latest cron match within the last durationMinutes
+ */
+export function getActiveOccurrence(window: WindowSchedule, now: Date = new Date()): MaintenanceOccurrence | null {
+    if (!window.enabled) return null;
+
+    if (window.schedule === "once") {
+        if (!window.startsAt || !window.endsAt) return null;
+        const startsAt = new Date(window.startsAt);
+        const endsAt = new Date(window.endsAt);
+        return startsAt <= now && now < endsAt ? { startsAt, endsAt } : null;
+    }
+
+    if (!window.cron || !window.durationMinutes) return null;
+
+    let cron: CronFields;
+    try {
+        cron = parseCron(window.cron);
+    } catch {
+        return null;
+    }
+
+    const currentMinute = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+    const startsAt = findPreviousCronMatch(
+        cron,
+        now,
+        new Date(currentMinute - window.durationMinutes * MINUTE_MS),
+        window.timezone || "UTC"
+    );
+
+    return startsAt
+        ? { startsAt, endsAt: new Date(startsAt.getTime() + window.durationMinutes * MINUTE_MS) }
+        : null;
+}
+
+type ScopedNode = Pick<INode, "_id" | "group" | "tags">;
+
+export function isNodeInScope(window: Pick<IMaintenanceWindow, "scope">, node: ScopedNode): boolean {
+    const scope = window.scope || { nodeIds: [], groups: [], tags: [] };
+    const nodeId = node._id.toString();
+
+    return (
+        (scope.nodeIds || []).includes(nodeId) ||
+        (scope.groups || []).includes(node.group) ||
+        (node.tags || []).some((tag) => (scope.tags || []).includes(tag))
+    );
+}
+
+export interface ActiveMaintenanceWindow {
+    window: IMaintenanceWindow;
+    occurrence: MaintenanceOccurrence;
+}
+
+/**
+ * Windows in effect at `now` (one query per check run)
+ * A failed lookup logs and returns no windows, so checks alert as usual
+ */
+export async function loadActiveMaintenanceWindows(now: Date = new Date()): Promise<ActiveMaintenanceWindow[]> {
+    try {
+        const windows = await MaintenanceWindowModel.find({ enabled: true }).lean();
+
+        return windows.flatMap((window) => {
+            const occurrence = getActiveOccurrence(window, now);
+            return occurrence ? [{ window, occurrence }] : [];
+        });
+    } catch (error: any) {
+        logger.error('Failed to load maintenance windows', error);
+        return [];
+    }
+}
+
+/**
+ * The window a node is in; with overlapping windows the one ending last wins
+ */
+export function getNodeMaintenance(node: ScopedNode, active: ActiveMaintenanceWindow[]): ActiveMaintenance | null {
+    let match: ActiveMaintenanceWindow | null = null;
+
+    for (const candidate of active) {
+        if (!isNodeInScope(candidate.window, node)) continue;
+        if (!match || candidate.occurrence.endsAt > match.occurrence.endsAt) {
+            match = candidate;
+        }
+    }
+
+    return match
+        ? { windowId: match.window._id.toString(), name: match.window.name, endsAt: match.occurrence.endsAt }
+        : null;
+}
+
+// ============================================
+// Node status
+// ============================================
+
+type MaintainedNode = Pick<INode, "status" | "checkState" | "maintenance" | "rootCauses">;
+
+/**
+ * Put a node into or take it out of maintenance (does not save)
+ * Leaving maintenance shows DEGRADED_BY_DEPENDENCY again while root causes are recorded
+ * Returns true when anything changed
+ */
+export function applyMaintenanceStatus(node: MaintainedNode, maintenance: ActiveMaintenance | null): boolean {
+    const previous = node.maintenance;
+    if (!maintenance && node.status !== "MAINTENANCE" && !previous) {
+        return false;
+    }
+
+    const confirmed = getUnderlyingStatus(node);
+    const changed = maintenance
+        ? node.status !== "MAINTENANCE" ||
+          previous?.windowId !== maintenance.windowId ||
+          new Date(previous.endsAt).getTime() !== maintenance.endsAt.getTime()
+        : true;
+
+    const degraded = confirmed === "DOWN" && (node.rootCauses?.length || 0) > 0;
+    setDisplayedStatus(node, confirmed, maintenance ? "MAINTENANCE" : degraded ? "DEGRADED_BY_DEPENDENCY" : null);
+    node.maintenance = maintenance || undefined;
+
+    return changed;
+}
+
+/**
+ * Move nodes into / out of maintenance when windows start or end
+ * Runs with every scheduler pass and after window changes, so statuses
+ * flip without waiting for each node's next check
+ */
+export async function syncMaintenanceStatuses(
+    now: Date = new Date(),
+    active?: ActiveMaintenanceWindow[]
+): Promise<{ entered: number; exited: number }> {
+    active = active || await loadActiveMaintenanceWindows(now);
+    const counts = { entered: 0, exited: 0 };
+
+    const scopeFilters: Record<string, unknown>[] = [{ status: "MAINTENANCE" }];
+    const nodeIds = active.flatMap(({ window }) => window.scope?.nodeIds || []);
+    const groups = active.flatMap(({ window }) => window.scope?.groups || []);
+    const tags = active.flatMap(({ window }) => window.scope?.tags || []);
+    if (nodeIds.length > 0) scopeFilters.push({ _id: { $in: nodeIds } });
+    if (groups.length > 0) scopeFilters.push({ group: { $in: groups } });
+    if (tags.length > 0) scopeFilters.push({ tags: { $in: tags } });
+
+    const nodes = await NodeModel.find({ $or: scopeFilters });
+
+    for (const node of nodes) {
+        const wasInMaintenance = node.status === "MAINTENANCE";
+        const maintenance = getNodeMaintenance(node, active);
+
+        if (!applyMaintenanceStatus(node, maintenance)) continue;
+
+        if (maintenance && !wasInMaintenance) counts.entered++;
+        if (!maintenance && wasInMaintenance) {
+            counts.exited++;
+            // Confirm the restored status right away (incidents and alerts resume with that check)
+            node.nextCheckAt = now;
+        }
+
+        try {
+            await node.save();
+            publishStreamEvent({ type: "node-updated", node: toNodeStatusUpdate(node) });
+        } catch (error: any) {
+            logger.error('Failed to update maintenance status', error, { nodeId: node._id.toString(), nodeName: node.name });
+        }
+    }
+
+    if (counts.entered > 0 || counts.exited > 0) {
+        logger.info('Maintenance statuses updated', counts);
+    }
+
+    return counts;
+}
+
+// ============================================
+// API helpers
+// ============================================
+
+/**
+ * Validate a maintenance window payload from the API
+ * Returns an error message or null
+ */
+export function validateMaintenanceWindow(input: any): string | null {
+    if (!input || typeof input !== "object") {
+        return "Maintenance window must be an object";
+    }
+    if (typeof input.name !== "string" || !input.name.trim()) {
+        return "name is required";
+    }
+
+    if (input.schedule === "once") {
+        const startsAt = new Date(input.startsAt);
+        const endsAt = new Date(input.endsAt);
+        if (!input.startsAt || isNaN(startsAt.getTime()) || !input.endsAt || isNaN(endsAt.getTime())) {
+            return "startsAt and endsAt must be ISO dates";
+        }
+        if (endsAt <= startsAt) {
+            return "endsAt must be after startsAt";
+        }
+    } else if (input.schedule === "recurring") {
+        try {
+            parseCron(input.cron);
+        } catch (error: any) {
+            return error.message;
+        }
+        const { min, max } = MAINTENANCE_LIMITS.durationMinutes;
+        if (!Number.isInteger(input.durationMinutes) || input.durationMinutes < min || input.durationMinutes > max) {
+            return `durationMinutes must be an integer between ${min} and ${max}`;
+        }
+        if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+            return `Unknown timezone: ${input.timezone}`;
+        }
+    } else {
+        return "schedule must be once or recurring";
+    }
+
+    const scope = input.scope;
+    if (!scope || typeof scope !== "object") {
+        return "scope is required";
+    }
+    for (const key of ["nodeIds", "groups", "tags"]) {
+        if (scope[key] !== undefined && !Array.isArray(scope[key])) {
+            return `scope.${key} must be an array`;
+        }
+    }
+    for (const nodeId of scope.nodeIds || []) {
+        if (typeof nodeId !== "string" || !/^[a-fA-F0-9]{24}$/.test(nodeId)) {
+            return `Invalid node ID in scope: ${nodeId}`;
+        }
+    }
+    for (const group of scope.groups || []) {
+        const validation = validateNodeGroup(group);
+        if (typeof group !== "string" || !validation.valid) {
+            return validation.error || `Invalid group in scope: ${group}`;
+        }
+    }
+    const tagValidation = validateTags(scope.tags);
+    if (!tagValidation.valid) {
+        return tagValidation.error || "Invalid tags in scope";
+    }
+    if ((scope.nodeIds || []).length + (scope.groups || []).length + (scope.tags || []).length === 0) {
+        return "scope must include at least one node, group or tag";
+    }
+
+    return null;
+}
+
+/**
+ * Stored fields for a validated payload (fields of the other schedule type are cleared)
+ */
+export function normalizeMaintenanceWindow(input: any): Partial<IMaintenanceWindow> {
+    const once = input.schedule === "once";
+
+    return {
+        name: input.name.trim(),
+        description: typeof input.description === "string" && input.description.trim() ? input.description.trim() : undefined,
+        enabled: input.enabled !== false,
+        scope: {
+            nodeIds: Array.from(new Set<string>(input.scope.nodeIds || [])),
+            groups: Array.from(new Set<NodeGroup>(input.scope.groups || [])),
+            tags: normalizeTags(input.scope.tags || []),
+        },
+        schedule: input.schedule,
+        startsAt: once ? new Date(input.startsAt) : undefined,
+        endsAt: once ? new Date(input.endsAt) : undefined,
+        cron: once ? undefined : input.cron.trim(),
+        durationMinutes: once ? undefined : input.durationMinutes,
+        timezone: once ? "UTC" : input.timezone || "UTC",
+    };
+}
+
+export function toMaintenanceWindowData(window: IMaintenanceWindow, now: Date = new Date()): MaintenanceWindowData {
+    const occurrence = getActiveOccurrence(window, now);
+
+    return {
+        id: window._id.toString(),
+        name: window.name,
+        description: window.description,
+        enabled: window.enabled,
+        scope: {
+            nodeIds: [...(window.scope?.nodeIds || [])],
+            groups: [...(window.scope?.groups || [])],
+            tags: [...(window.scope?.tags || [])],
+        },
+        schedule: window.schedule,
+        startsAt: window.startsAt ? new Date(window.startsAt).toISOString() : undefined,
+        endsAt: window.endsAt ? new Date(window.endsAt).toISOString() : undefined,
+        cron: window.cron,
+        durationMinutes: window.durationMinutes,
+        timezone: window.timezone || "UTC",
+        createdBy: window.createdBy,
+        active: Boolean(occurrence),
+        activeUntil: occurrence?.endsAt.toISOString(),
+    };
+}
@@ -1,17 +1,61 @@
 import { chromium, Browser, BrowserContext, Page } from 'playwright';
-import { NodeStatus, AuthConfig } from '@/types';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthConfig, CheckPolicy, ContentAssertions, SyntheticTransaction, TransactionStepResult } from '@/types';
 import { HealthCheckResult } from './healthCheck';
+import { DEFAULT_CHECK_POLICY, evaluateLatency, evaluateResponse } from './statusEvaluation';
+import { evaluateAssertions, formatAssertionFailure, hasAssertions, headersToRecord, needsBody } from './assertions';
+import { hasTransaction, runTransaction } from './transactions';
+import { CapturedArtifact, isArtifactCaptureEnabled, isHarCaptureEnabled } from './checkArtifacts';
+import {
+    clearBrowserSession,
+    getSessionKey,
+    isSessionPersistenceEnabled,
+    loadBrowserSession,
+    saveBrowserSession,
+    SessionKey
+} from './browserSessions';
 
 /**
  * Playwright-based Health Check
  * For URLs that require authentication
  * Handles login process and performs actual health check after authentication
+ * Nodes with a synthetic transaction (see transactions.ts) run its steps
+ * instead of the fixed stabilization wait
+ * Failed checks capture a screenshot, the page HTML and optionally a HAR
+ * (see checkArtifacts.ts), returned as `captures` on the result
+ *
+ * The browser is shared, but every check gets its own context so cookies
+ * never leak between sites; logins are reused through saved sessions
+ * (see browserSessions.ts)
+ *
+ * `timeoutMs` is the total time of the check: login, navigation and the
+ * stabilization wait share it, and the check fails with a timeout once it runs out
  */
 
 let browser: Browser | null = null;
-let context: BrowserContext | null = null;
 let browserIdleTimeout: NodeJS.Timeout | null = null;
 
+// Left after the stabilization wait for assertions
+const STABILIZATION_MARGIN_MS = 5000;
+
+const CONTEXT_OPTIONS = {
+    viewport: { width: 1920, height: 1080 },
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+};
+
+/**
+ * Isolated context of one check
+ */
+interface CheckContext {
+    context: BrowserContext;
+    harPath?: string;           // HAR file written when the context closes
+    session: SessionKey | null; // Saved after the check when `loggedIn`
+    loggedIn: boolean;
+}
+
 /**
  * Initialize browser instance (singleton)
  */
@@ -27,11 +71,6 @@ async function initializeBrowser() {
             ]
         });
 
-        context = await browser.newContext({
-            viewport: { width: 1920, height: 1080 },
-            userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        });
-
         console.log('✅ Playwright browser initialized');
     }
     
@@ -46,7 +85,7 @@ async function initializeBrowser() {
         await closeBrowser();
     }, 300000); // 5 minutes
     
-    return { browser, context };
+    return browser;
 }
 
 /**
@@ -57,10 +96,6 @@ export async function closeBrowser() {
         clearTimeout(browserIdleTimeout);
         browserIdleTimeout = null;
     }
-    if (context) {
-        await context.close();
-        context = null;
-    }
     if (browser) {
         await browser.close();
         browser = null;
@@ -68,26 +103,77 @@ export async function closeBrowser() {
     }
 }
 
+/**
+ * Rejects once the check's deadline has passed or its caller gave it up
+ */
+function checkDeadline(deadline: number, signal?: AbortSignal): { expired: Promise<never>; clear: () => void } {
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const expired = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new Error('Browser check timeout exceeded');
+            error.name = 'TimeoutError';
+            reject(error);
+        }, Math.max(deadline - Date.now(), 0));
+
+        onAbort = () => {
+            const error = new Error('Browser check aborted');
+            error.name = 'AbortError';
+            reject(error);
+        };
+        if (signal?.aborted) onAbort();
+        else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return {
+        expired,
+        clear: () => {
+            clearTimeout(timer);
+            if (onAbort) signal?.removeEventListener('abort', onAbort);
+        }
+    };
+}
+
 /**
  * Perform health check with authentication
  */
 export async function performPlaywrightHealthCheck(
     url: string,
     authConfig: AuthConfig,
-    timeoutMs: number = 35000
+    timeoutMs: number = 35000,
+    checkPolicy: CheckPolicy = DEFAULT_CHECK_POLICY,
+    assertions?: ContentAssertions,
+    transaction?: SyntheticTransaction,
+    signal?: AbortSignal,
+    nodeId?: string
 ): Promise<HealthCheckResult> {
     const startTime = Date.now();
+    const deadline = startTime + timeoutMs;
+    const remaining = () => Math.max(deadline - Date.now(), 1);
+    const limit = checkDeadline(deadline, signal);
     let page: Page | null = null;
+    let check: CheckContext | null = null;
+    let settled = false;
+
+    const runCheck = async (): Promise<{ failed: boolean; result: HealthCheckResult }> => {
+        let steps: TransactionStepResult[] | undefined;
 
-    try {
         // Initialize browser
-        const { context: ctx } = await initializeBrowser();
-        if (!ctx) {
+        const activeBrowser = await initializeBrowser();
+        if (!activeBrowser) {
             throw new Error('Failed to initialize browser');
         }
 
-        // Create new page
-        page = await ctx.newPage();
+        // Create new page in a context of its own
+        const opened = await openCheckContext(activeBrowser, authConfig, url, nodeId);
+        if (settled) {
+            // Timed out while the context was opening, nobody closes it otherwise
+            await finishCheck(null, opened, false, { status: 'DOWN', latency: 0 });
+            throw new Error('Browser check timeout exceeded');
+        }
+        check = opened;
+        page = await check.context.newPage();
 
         // Check for console errors - set up listener BEFORE navigation
         const consoleErrors: string[] = [];
@@ -100,14 +186,21 @@ export async function performPlaywrightHealthCheck(
         // Perform login if required
         if (authConfig.type === 'BROWSER_LOGIN' && authConfig.username && authConfig.password) {
             console.log(`🔐 Attempting login for ${url}...`);
-            await performLogin(page, authConfig, timeoutMs, url);
+            try {
+                await performLogin(page, authConfig, remaining(), url);
+            } catch (error) {
+                // A rejected saved session must not be offered again
+                if (check.session) await clearBrowserSession(check.session);
+                throw error;
+            }
+            check.loggedIn = true;
             console.log(`✅ Login successful for ${url}`);
         }
 
         // Navigate to target URL
         console.log(`🌐 Navigating to ${url}...`);
         const response = await page.goto(url, {
-            timeout: timeoutMs,
+            timeout: remaining(),
             waitUntil: 'domcontentloaded'
         });
 
@@ -117,76 +210,227 @@ export async function performPlaywrightHealthCheck(
         // Check HTTP status
         const httpStatus = response?.status() || 0;
 
-        // Determine status (consistent with healthCheck.ts)
-        let status: NodeStatus;
-        if (httpStatus >= 500) {
-            status = 'DOWN';
-        } else if (httpStatus >= 400) {
-            status = 'WARNING';
-        } else if (latency > 5000) {
-            // > 5s latency = WARNING (consistent with simple health check)
-            status = 'WARNING';
+        // Determine status (shared rules with healthCheck.ts)
+        // Same-document navigations have no response, only latency applies
+        let { status, error: policyError } = response
+            ? evaluateResponse(httpStatus, latency, checkPolicy)
+            : evaluateLatency(latency, checkPolicy);
+        let assertionFailed = false;
+
+        if (hasTransaction(transaction)) {
+            // Scripted journey: the steps wait for what they need themselves
+            if (status !== 'DOWN') {
+                console.log(`🧭 Running ${transaction.steps.length} transaction steps for ${url}...`);
+                const run = await runTransaction(page, transaction, url, { authConfig, deadline });
+                steps = run.steps;
+
+                if (run.failure) {
+                    status = transaction.failureStatus || 'DOWN';
+                    policyError = run.failure;
+                }
+            }
         } else {
-            status = 'STABLE';
+            // Wait for page to stabilize (up to 30s, within what is left of the timeout)
+            try {
+                const stabilizeMs = Math.min(30000, Math.max(remaining() - STABILIZATION_MARGIN_MS, 0));
+                console.log(`⏳ Waiting ${Math.round(stabilizeMs / 1000)}s for page stabilization (User Requested)...`);
+                await page.waitForTimeout(stabilizeMs);
+                await page.waitForLoadState('networkidle', { timeout: Math.max(remaining() - STABILIZATION_MARGIN_MS, 1) });
+            } catch {
+                // Network idle timeout is not critical
+                console.log('⚠️ Network idle timeout (normal for dynamic pages)');
+            }
         }
 
-        // Wait for page to stabilize
-        try {
-            console.log('⏳ Waiting 30s for page stabilization (User Requested)...');
-            await page.waitForTimeout(30000); // Specific 30s wait request
-            await page.waitForLoadState('networkidle', { timeout: 30000 });
-        } catch {
-            // Network idle timeout is not critical
-            console.log('⚠️ Network idle timeout (normal for dynamic pages)');
+        // Content assertions: keywords / regex run against the rendered page,
+        // JSON and size checks against the raw response body
+        // (skipped when a transaction step already failed the check)
+        if (status !== 'DOWN' && !steps?.some((step) => !step.ok) && hasAssertions(assertions)) {
+            const bodyRequired = needsBody(assertions);
+            const rawBody = bodyRequired && response ? await response.text().catch(() => '') : '';
+            const text = bodyRequired ? await page.content() : '';
+
+            const failure = evaluateAssertions(assertions, {
+                text,
+                rawBody,
+                headers: headersToRecord(response?.headers()),
+            });
+
+            if (failure) {
+                status = assertions.failureStatus || 'DOWN';
+                policyError = formatAssertionFailure(failure);
+                assertionFailed = true;
+            }
         }
 
-        await page.close();
+        const failed = status === 'DOWN' || assertionFailed || Boolean(steps?.some((step) => !step.ok));
 
         return {
-            status,
-            latency,
-            httpStatus,
-            error: consoleErrors.length > 0 ? `Console errors: ${consoleErrors.length}` : undefined
+            failed,
+            result: {
+                status,
+                latency,
+                httpStatus,
+                error: policyError || (consoleErrors.length > 0 ? `Console errors: ${consoleErrors.length}` : undefined),
+                steps
+            }
         };
+    };
 
+    let outcome: { failed: boolean; result: HealthCheckResult };
+    try {
+        const work = runCheck();
+        work.catch(() => { /* settled by the deadline, page is closed below */ });
+        outcome = await Promise.race([work, limit.expired]);
     } catch (error: any) {
-        const latency = Date.now() - startTime;
+        // A check given up by its caller is not stored, skip the captures
+        outcome = { failed: !signal?.aborted, result: toErrorResult(error, Date.now() - startTime, timeoutMs) };
+    } finally {
+        settled = true;
+        limit.clear();
+    }
 
-        if (page) {
-            await page.close().catch(() => { /* ignore close errors */ });
-        }
+    return await finishCheck(page, check, outcome.failed, outcome.result);
+}
 
-        // Handle errors
-        if (error.message.includes('Timeout') || error.name === 'TimeoutError') {
-            return {
-                status: 'DOWN',
-                latency: timeoutMs,
-                error: 'Request timeout'
-            };
-        }
+/**
+ * Map a thrown check error to a DOWN result
+ */
+function toErrorResult(error: any, latency: number, timeoutMs: number): HealthCheckResult {
+    const message: string = error?.message || '';
 
-        if (error.message.includes('net::') || error.message.includes('DNS')) {
-            return {
-                status: 'DOWN',
-                latency,
-                error: 'Network error'
-            };
-        }
+    if (message.includes('Timeout') || error?.name === 'TimeoutError') {
+        return {
+            status: 'DOWN',
+            latency: timeoutMs,
+            error: 'Request timeout'
+        };
+    }
 
-        if (error.message.includes('Login') || error.message.includes('Authentication')) {
-            return {
-                status: 'DOWN',
-                latency,
-                error: `Authentication failed: ${error.message}`
-            };
-        }
+    if (message.includes('net::') || message.includes('DNS')) {
+        return {
+            status: 'DOWN',
+            latency,
+            error: 'Network error'
+        };
+    }
 
+    if (message.includes('Login') || message.includes('Authentication')) {
         return {
             status: 'DOWN',
             latency,
-            error: error.message || 'Health check failed'
+            error: `Authentication failed: ${message}`
         };
     }
+
+    return {
+        status: 'DOWN',
+        latency,
+        error: message || 'Health check failed'
+    };
+}
+
+/**
+ * New context for a check, starting from the saved session of its login
+ * and recording a HAR when enabled
+ */
+async function openCheckContext(
+    activeBrowser: Browser,
+    authConfig: AuthConfig,
+    url: string,
+    nodeId: string | undefined
+): Promise<CheckContext> {
+    const session = isSessionPersistenceEnabled() ? getSessionKey(nodeId, authConfig, url) : null;
+    const storageState = session ? await loadBrowserSession(session) : undefined;
+    const harPath = isHarCaptureEnabled()
+        ? path.join(os.tmpdir(), `heartbeat-${crypto.randomUUID()}.har`)
+        : undefined;
+
+    if (storageState) {
+        console.log(`🍪 Reusing saved session for ${session!.origin}`);
+    }
+
+    const context = await activeBrowser.newContext({
+        ...CONTEXT_OPTIONS,
+        storageState,
+        recordHar: harPath ? { path: harPath, content: 'omit' } : undefined
+    });
+
+    return { context, harPath, session, loggedIn: false };
+}
+
+/**
+ * Capture failure artifacts, save the session, then close page and context
+ */
+async function finishCheck(
+    page: Page | null,
+    check: CheckContext | null,
+    failed: boolean,
+    result: HealthCheckResult
+): Promise<HealthCheckResult> {
+    const captures = failed && page ? await capturePage(page) : [];
+
+    if (page) {
+        await page.close().catch(() => { /* ignore close errors */ });
+    }
+
+    if (check) {
+        // Keep cookies the site refreshed during the check
+        if (check.session && check.loggedIn) {
+            try {
+                await saveBrowserSession(check.session, await check.context.storageState());
+            } catch (error: any) {
+                console.warn('⚠️ Could not read browser session:', error.message);
+            }
+        }
+
+        await check.context.close().catch(() => { /* browser may be closing */ });
+
+        if (check.harPath) {
+            const har = await readHar(check.harPath, failed);
+            if (har) captures.push(har);
+        }
+    }
+
+    return captures.length > 0 ? { ...result, captures } : result;
+}
+
+/**
+ * Screenshot (viewport, JPEG) and rendered HTML of the page as it is now
+ */
+async function capturePage(page: Page): Promise<CapturedArtifact[]> {
+    if (!isArtifactCaptureEnabled()) return [];
+
+    const captures: CapturedArtifact[] = [];
+    try {
+        const screenshot = await page.screenshot({ type: 'jpeg', quality: 70, timeout: 10000 });
+        captures.push({ kind: 'screenshot', contentType: 'image/jpeg', data: screenshot });
+    } catch (error: any) {
+        console.warn('⚠️ Could not capture screenshot:', error.message);
+    }
+    try {
+        const html = await page.content();
+        captures.push({ kind: 'html', contentType: 'text/html; charset=utf-8', data: Buffer.from(html, 'utf8') });
+    } catch (error: any) {
+        console.warn('⚠️ Could not capture page HTML:', error.message);
+    }
+    return captures;
+}
+
+/**
+ * HAR of a closed context when the check failed; the temp file is always removed
+ */
+async function readHar(harPath: string, failed: boolean): Promise<CapturedArtifact | null> {
+    try {
+        if (!failed) return null;
+        const data = await fs.readFile(harPath);
+        return { kind: 'har', contentType: 'application/json', data };
+    } catch (error: any) {
+        console.warn('⚠️ Could not capture HAR:', error.message);
+        return null;
+    } finally {
+        await fs.unlink(harPath).catch(() => { /* not written */ });
+    }
 }
 
 /**
@@ -251,8 +495,8 @@ async function performLogin(page: Page, authConfig: AuthConfig, timeoutMs: numbe
         // If we are already at the dashboard/target, we don't need to fill credentials
         try {
             console.log('🔍 Checking if already logged in...');
-            // We reuse the verify function but catch errors so we don't fail the whole flow if not logged in
-            await verifyLoginSuccess(page, authConfig);
+            // Strict: only positive evidence counts, otherwise we log in again
+            await verifyLoginSuccess(page, authConfig, true);
             console.log('⚡ Session reused! Already logged in. Skipping credential entry.');
             return;
         } catch (e) {
@@ -381,8 +625,9 @@ async function performLogin(page: Page, authConfig: AuthConfig, timeoutMs: numbe
 
 /**
  * Verify login was successful
+ * `strict` (session reuse check) throws instead of continuing without evidence
  */
-async function verifyLoginSuccess(page: Page, authConfig: AuthConfig) {
+async function verifyLoginSuccess(page: Page, authConfig: AuthConfig, strict: boolean = false) {
     const currentUrl = page.url();
 
     // Custom Selector Check (User defined)
@@ -475,5 +720,9 @@ async function verifyLoginSuccess(page: Page, authConfig: AuthConfig) {
         return;
     }
 
+    if (strict) {
+        throw new Error('No logged-in indicators found');
+    }
+
     console.warn('⚠️ Warning: No logged-in indicators found, but continuing...');
 }
@@ -0,0 +1,355 @@
+import connectDB from "@/lib/db/mongoose";
+import NodeModel, { AUTH_SECRET_SELECT } from "@/lib/db/models/Node";
+import { HealthCheckResult, performHealthCheck } from "./healthCheck";
+import { rollupAllPeriods } from "./checkHistory";
+import { pruneCheckArtifacts } from "./checkArtifacts";
+import { applyCheckResult, handleCheckOutcome } from "./checkOutcome";
+import { getNodeCheckPolicy, loadGroupCheckPolicies } from "./statusEvaluation";
+import { getUnderlyingStatus, StatusEvaluation } from "./statusConfirmation";
+import { dueNodesFilter } from "./checkSchedule";
+import { getNodeMaintenance, loadActiveMaintenanceWindows, syncMaintenanceStatuses } from "./maintenance";
+import {
+    applyDependencyStatus,
+    findRootCauses,
+    hasPendingUpstream,
+    loadDependencyGraph,
+    syncDependencyStatuses,
+    updateGraphNode,
+} from "./dependencies";
+import {
+    claimThrottledRun,
+    getCheckHost,
+    getCheckKind,
+    getCheckRunnerConfig,
+    HTTP_CHECK_TIMEOUT_MS,
+    loadRunCursor,
+    orderFromCursor,
+    runCheckQueue,
+    saveRunCursor,
+} from "./checkRunner";
+import { SheetWritebackResult, writeStatusToSheet } from "@/lib/services/sheetWriteback";
+import { runDueSheetSyncs, SheetSourceRunSummary } from "@/lib/services/sheetSources";
+import { logger } from "@/lib/utils/logger";
+import { NodeStatus } from "@/types";
+
+/**
+ * Scheduled Checks
+ * BACKEND ONLY - Checks every due node once
+ *
+ * Used by POST /api/cron/check (serverless) and by the in-process scheduler
+ * started from instrumentation.ts (self-hosted, CHECK_SCHEDULER_ENABLED=true)
+ */
+
+const RUN_CURSOR_KEY = "cron-check";
+
+// Work after the checks runs far less often than every tick
+// (sheet write-back has its own GOOGLE_SHEET_WRITEBACK_INTERVAL_SECONDS)
+const HOUSEKEEPING_INTERVALS_MS = {
+    "sheet-syncs": 60 * 1000,
+    "rollups": 60 * 60 * 1000,
+    "prune-artifacts": 24 * 60 * 60 * 1000,
+};
+
+type HousekeepingJob = keyof typeof HOUSEKEEPING_INTERVALS_MS;
+
+/**
+ * True when a housekeeping job is due; claims it for this run
+ */
+async function claimHousekeeping(job: HousekeepingJob, now: Date): Promise<boolean> {
+    try {
+        return await claimThrottledRun(job, now, new Date(now.getTime() + HOUSEKEEPING_INTERVALS_MS[job]));
+    } catch (error: any) {
+        logger.error('Failed to claim housekeeping job', error, { job });
+        return false;
+    }
+}
+
+export interface ScheduledCheckResults {
+    checked: number;
+    updated: number;
+    errors: number;
+    alerts: { nodeId: string; name: string; oldStatus: string; newStatus: string }[];
+    incidents: { opened: number; resolved: number };
+    pending: number;
+    flapping: number;
+    maintenance: { entered: number; exited: number };
+    dependencies: { degraded: number; rechecked: number };
+    notifications: { sent: number; failed: number };
+}
+
+export interface ScheduledCheckRun {
+    results: ScheduledCheckResults;
+    run: {
+        due: number;
+        remaining: number;
+        budgetExhausted: boolean;
+        elapsedMs: number;
+        cursor: string | null;
+    };
+    rollups?: Record<string, number>;
+    sheetSyncs?: SheetSourceRunSummary;
+    sheetWriteback?: SheetWritebackResult;
+}
+
+/**
+ * Check all due nodes within the runner's concurrency and time budget
+ * Work after the checks (sheets, rollups, pruning) only runs while the budget lasts
+ */
+export async function runScheduledChecks(now: Date = new Date()): Promise<ScheduledCheckRun> {
+    const startedAt = Date.now();
+    const config = getCheckRunnerConfig();
+    const withinBudget = (task: string) => {
+        if (Date.now() - startedAt < config.timeBudgetMs) return true;
+        logger.warn('Time budget spent, skipped until the next run', { task });
+        return false;
+    };
+
+    const results: ScheduledCheckResults = {
+        checked: 0,
+        updated: 0,
+        errors: 0,
+        alerts: [],
+        incidents: { opened: 0, resolved: 0 },
+        pending: 0,
+        flapping: 0,
+        maintenance: { entered: 0, exited: 0 },
+        dependencies: { degraded: 0, rechecked: 0 },
+        notifications: { sent: 0, failed: 0 },
+    };
+
+    // Maintenance windows are loaded once per run; nodes enter/leave maintenance at window boundaries
+    const activeMaintenance = await loadActiveMaintenanceWindows(now);
+    try {
+        results.maintenance = await syncMaintenanceStatuses(now, activeMaintenance);
+    } catch (error: any) {
+        logger.error('Error syncing maintenance statuses', error);
+    }
+
+    // Due nodes in a stable order, including credentials needed for authenticated checks
+    const nodes = await NodeModel.find(dueNodesFilter(now)).select(AUTH_SECRET_SELECT).sort({ _id: 1 });
+
+    // Group policies are loaded once per run
+    const groupPolicies = nodes.length > 0 ? await loadGroupCheckPolicies() : new Map();
+
+    // Dependency graph for root-cause suppression, kept current as nodes are checked
+    const graph = nodes.length > 0 ? await loadDependencyGraph() : new Map();
+
+    // Resume where the previous run ran out of time
+    const cursor = await loadRunCursor(RUN_CURSOR_KEY);
+    const ordered = orderFromCursor(nodes, cursor, (node) => node._id.toString());
+
+    // Save a checked node and run its side effects (history, incidents, notifications)
+    const storeOutcome = async (node: typeof nodes[number], oldStatus: NodeStatus, healthResult: HealthCheckResult, evaluation: StatusEvaluation) => {
+        try {
+            const newStatus = node.status;
+
+            await node.save();
+            updateGraphNode(graph, node);
+
+            // Record history and update incident lifecycle
+            const outcome = await handleCheckOutcome(node, oldStatus, healthResult, node.lastChecked);
+
+            results.checked++;
+            results.updated++;
+            if (evaluation.pending) results.pending++;
+            if (evaluation.flapping) results.flapping++;
+
+            if (outcome.incident.change === "opened") results.incidents.opened++;
+            if (outcome.incident.change === "resolved") results.incidents.resolved++;
+            outcome.notifications.forEach((delivery) => {
+                if (delivery.success) results.notifications.sent++;
+                else results.notifications.failed++;
+            });
+
+            // Check if alert should be triggered
+            if (outcome.alert) {
+                results.alerts.push({
+                    nodeId: node._id.toString(),
+                    name: node.name,
+                    oldStatus,
+                    newStatus,
+                });
+            }
+        } catch (error: any) {
+            logger.error('Error checking node', error, { nodeId: node._id.toString(), nodeName: node.name });
+            results.errors++;
+        }
+    };
+
+    // DOWN nodes wait for upstream nodes still due in this run, so a failing
+    // dependency makes them DEGRADED_BY_DEPENDENCY before they could alert
+    const unchecked = new Set(nodes.map((node) => node._id.toString()));
+    const held: { node: typeof nodes[number]; oldStatus: NodeStatus; healthResult: HealthCheckResult; evaluation: StatusEvaluation }[] = [];
+
+    const run = await runCheckQueue(ordered, async (node, signal) => {
+        try {
+            // Perform health check with auth config if available
+            const healthResult = await performHealthCheck(
+                node.url,
+                node.authConfig, // Pass auth config if exists
+                HTTP_CHECK_TIMEOUT_MS,
+                await getNodeCheckPolicy(node, groupPolicies),
+                node.assertions,
+                node.transaction,
+                signal,
+                node._id.toString()
+            );
+
+            // Given up at the end of the budget, checked again by the next run
+            if (signal.aborted) return;
+
+            const nodeId = node._id.toString();
+            const oldStatus = node.status;
+            unchecked.delete(nodeId);
+
+            // Update node (status is confirmed against the node's status policy)
+            const evaluation = applyCheckResult(node, healthResult, new Date(), {
+                maintenance: getNodeMaintenance(node, activeMaintenance),
+                rootCauses: findRootCauses(graph, nodeId),
+            });
+            updateGraphNode(graph, node);
+
+            if (getUnderlyingStatus(node) === "DOWN" && hasPendingUpstream(graph, nodeId, unchecked)) {
+                held.push({ node, oldStatus, healthResult, evaluation });
+                return;
+            }
+
+            await storeOutcome(node, oldStatus, healthResult, evaluation);
+        } catch (error: any) {
+            logger.error('Error checking node', error, { nodeId: node._id.toString(), nodeName: node.name });
+            results.errors++;
+        }
+    }, {
+        ...config,
+        startedAt,
+        getKind: getCheckKind,
+        getHost: (node) => getCheckHost(node.url),
+    });
+
+    // Saved first so the next run resumes correctly even if this one is cut off
+    const nextCursor = run.skipped.length > 0 ? run.skipped[0]._id.toString() : null;
+    await saveRunCursor(RUN_CURSOR_KEY, nextCursor);
+
+    // Held nodes with the upstream results of this run
+    for (const { node, oldStatus, healthResult, evaluation } of held) {
+        applyDependencyStatus(node, findRootCauses(graph, node._id.toString()));
+        await storeOutcome(node, oldStatus, healthResult, evaluation);
+    }
+
+    // Nodes not checked in this run follow its upstream results (suppressed or rechecked)
+    if (nodes.length > 0) {
+        try {
+            results.dependencies = await syncDependencyStatuses(now, graph);
+        } catch (error: any) {
+            logger.error('Error syncing dependency statuses', error);
+        }
+    }
+
+    // Sheet sources that are due (new nodes are checked from the next run)
+    const sheetSyncs = withinBudget('sheetSyncs') && await claimHousekeeping("sheet-syncs", now)
+        ? await runDueSheetSyncs(now)
+        : undefined;
+
+    // Status board in the Google Sheet (GOOGLE_SHEET_WRITEBACK, throttled)
+    const sheetWriteback = withinBudget('sheetWriteback') ? await writeStatusToSheet(now) : undefined;
+
+    // Downsample raw check history into hourly/daily rollups (hourly)
+    let rollups: Record<string, number> | undefined;
+    if (withinBudget('rollups') && await claimHousekeeping("rollups", now)) {
+        try {
+            rollups = await rollupAllPeriods();
+        } catch (error: any) {
+            logger.error('Error rolling up check history', error);
+        }
+    }
+
+    // Failure screenshots / HTML / HARs past their retention (daily)
+    if (withinBudget('pruneArtifacts') && await claimHousekeeping("prune-artifacts", now)) {
+        try {
+            const pruned = await pruneCheckArtifacts(now);
+            if (pruned > 0) {
+                logger.info('Pruned expired check artifacts', { count: pruned });
+            }
+        } catch (error: any) {
+            logger.error('Error pruning check artifacts', error);
+        }
+    }
+
+    return {
+        results,
+        run: {
+            due: nodes.length,
+            remaining: run.skipped.length,
+            budgetExhausted: run.budgetExhausted,
+            elapsedMs: run.elapsedMs,
+            cursor: nextCursor,
+        },
+        rollups,
+        sheetSyncs,
+        sheetWriteback,
+    };
+}
+
+function getSchedulerTickMs(): number {
+    const value = parseInt(process.env.CHECK_SCHEDULER_TICK_MS || "", 10);
+    return Number.isFinite(value) && value >= 1000 ? value : 10000;
+}
+
+// Survives module reloads in dev so only one scheduler runs per process
+const globalScheduler = globalThis as unknown as {
+    checkScheduler?: { timer: NodeJS.Timeout; running: boolean };
+};
+
+/**
+ * Long-running scheduler for self-hosted deployments
+ * Ticks never overlap: a tick is skipped while the previous run is still going
+ */
+export function startCheckScheduler(): boolean {
+    if (globalScheduler.checkScheduler) {
+        return false;
+    }
+
+    const tickMs = getSchedulerTickMs();
+    const state = { timer: undefined as unknown as NodeJS.Timeout, running: false };
+
+    const tick = async () => {
+        if (state.running) return;
+        state.running = true;
+
+        try {
+            await connectDB();
+
+            const { results, run } = await runScheduledChecks();
+            if (run.due > 0) {
+                logger.info('Scheduled checks completed', {
+                    due: run.due,
+                    checked: results.checked,
+                    errors: results.errors,
+                    remaining: run.remaining,
+                    elapsedMs: run.elapsedMs,
+                });
+            }
+        } catch (error: any) {
+            logger.error('Scheduled check run failed', error);
+        } finally {
+            state.running = false;
+        }
+    };
+
+    state.timer = setInterval(tick, tickMs);
+    state.timer.unref?.();
+    globalScheduler.checkScheduler = state;
+
+    logger.info('Check scheduler started', { tickMs });
+    void tick();
+
+    return true;
+}
+
+export function stopCheckScheduler(): void {
+    const state = globalScheduler.checkScheduler;
+    if (!state) return;
+
+    clearInterval(state.timer);
+    delete globalScheduler.checkScheduler;
+}
@@ -0,0 +1,194 @@
+import { NodeStatus, StatusPolicy, StatusCheckState } from "@/types";
+
+/**
+ * Status Confirmation & Flap Detection
+ * BACKEND ONLY - Turns a single observed check result into the node's confirmed status
+ *
+ * - A node only goes DOWN after `failureThreshold` consecutive failed checks
+ * - A DOWN node only recovers after `recoveryThreshold` consecutive successful checks
+ * - When the up/down state changes `flapThreshold` times within the last
+ *   `flapWindow` checks the node is marked FLAPPING until a streak confirms
+ *   either DOWN or recovery
+ *
+ * Transitions between STABLE / FRESH / WARNING are applied immediately.
+ */
+
+function envInt(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || "", 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Global defaults (per-node statusPolicy overrides individual fields)
+ * Defaults keep the original behaviour: one check decides the status, no flap detection
+ */
+export function getDefaultStatusPolicy(): StatusPolicy {
+    return {
+        failureThreshold: Math.max(1, envInt("STATUS_FAILURE_THRESHOLD", 1)),
+        recoveryThreshold: Math.max(1, envInt("STATUS_RECOVERY_THRESHOLD", 1)),
+        flapWindow: Math.max(2, envInt("FLAP_DETECTION_WINDOW", 10)),
+        flapThreshold: envInt("FLAP_DETECTION_THRESHOLD", 0),
+    };
+}
+
+export const STATUS_POLICY_LIMITS = {
+    failureThreshold: { min: 1, max: 20 },
+    recoveryThreshold: { min: 1, max: 20 },
+    flapWindow: { min: 2, max: 50 },
+    flapThreshold: { min: 0, max: 49 },
+} as const;
+
+/**
+ * Merge per-node overrides over global defaults
+ */
+export function resolveStatusPolicy(policy?: Partial<StatusPolicy> | null): StatusPolicy {
+    const defaults = getDefaultStatusPolicy();
+    const resolved = { ...defaults };
+
+    if (policy) {
+        (Object.keys(STATUS_POLICY_LIMITS) as (keyof StatusPolicy)[]).forEach((key) => {
+            if (typeof policy[key] === "number") {
+                resolved[key] = policy[key] as number;
+            }
+        });
+    }
+
+    return resolved;
+}
+
+/**
+ * Validate a statusPolicy payload from the API
+ * Returns an error message or null
+ */
+export function validateStatusPolicy(policy: unknown): string | null {
+    if (policy === undefined || policy === null) {
+        return null;
+    }
+    if (typeof policy !== "object" || Array.isArray(policy)) {
+        return "statusPolicy must be an object";
+    }
+
+    for (const [key, value] of Object.entries(policy as Record<string, unknown>)) {
+        const limits = STATUS_POLICY_LIMITS[key as keyof StatusPolicy];
+        if (!limits) {
+            return `Unknown statusPolicy field: ${key}`;
+        }
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (typeof value !== "number" || !Number.isInteger(value) || value < limits.min || value > limits.max) {
+            return `statusPolicy.${key} must be an integer between ${limits.min} and ${limits.max}`;
+        }
+    }
+
+    const { flapWindow, flapThreshold } = policy as Partial<StatusPolicy>;
+    if (typeof flapWindow === "number" && typeof flapThreshold === "number" && flapThreshold >= flapWindow) {
+        return "statusPolicy.flapThreshold must be lower than flapWindow";
+    }
+
+    return null;
+}
+
+export const EMPTY_CHECK_STATE: StatusCheckState = {
+    consecutiveFailures: 0,
+    consecutiveSuccesses: 0,
+    recentStatuses: [],
+};
+
+function isFailure(status: NodeStatus): boolean {
+    return status === "DOWN";
+}
+
+/**
+ * Number of up <-> down changes between consecutive observed results
+ */
+export function countStateChanges(statuses: NodeStatus[]): number {
+    let changes = 0;
+    for (let i = 1; i < statuses.length; i++) {
+        if (isFailure(statuses[i]) !== isFailure(statuses[i - 1])) {
+            changes++;
+        }
+    }
+    return changes;
+}
+
+export interface StatusEvaluation {
+    status: NodeStatus;          // Confirmed status to store on the node
+    observed: NodeStatus;        // Raw result of this check
+    state: StatusCheckState;     // Updated counters to store on the node
+    flapping: boolean;
+    pending: boolean;            // Observed change not yet confirmed
+    stateChanges: number;        // up <-> down changes within the flap window
+}
+
+/**
+ * Evaluate one observed check result against the node's current status and counters
+ */
+export function evaluateStatus(
+    currentStatus: NodeStatus,
+    observed: NodeStatus,
+    previousState: Partial<StatusCheckState> | null | undefined,
+    policy: StatusPolicy
+): StatusEvaluation {
+    const failed = isFailure(observed);
+    const consecutiveFailures = failed ? (previousState?.consecutiveFailures || 0) + 1 : 0;
+    const consecutiveSuccesses = failed ? 0 : (previousState?.consecutiveSuccesses || 0) + 1;
+    const recentStatuses = [...(previousState?.recentStatuses || []), observed].slice(-policy.flapWindow);
+
+    const stateChanges = countStateChanges(recentStatuses);
+    const flapping = policy.flapThreshold > 0 && stateChanges >= policy.flapThreshold;
+
+    let status: NodeStatus;
+    if (flapping) {
+        status = "FLAPPING";
+    } else if (failed) {
+        status = currentStatus === "DOWN" || consecutiveFailures >= policy.failureThreshold
+            ? "DOWN"
+            : currentStatus;
+    } else {
+        const heldDown = currentStatus === "DOWN" || currentStatus === "FLAPPING";
+        status = !heldDown || consecutiveSuccesses >= policy.recoveryThreshold
+            ? observed
+            : currentStatus;
+    }
+
+    return {
+        status,
+        observed,
+        state: { consecutiveFailures, consecutiveSuccesses, recentStatuses },
+        flapping,
+        pending: !flapping && status !== observed,
+        stateChanges,
+    };
+}
+
+/**
+ * Statuses shown instead of the confirmed status (maintenance windows,
+ * failing dependencies); the confirmed status is kept in checkState.underlyingStatus
+ */
+export const OVERLAY_STATUSES: NodeStatus[] = ["MAINTENANCE", "DEGRADED_BY_DEPENDENCY"];
+
+type StatusNode = { status: NodeStatus; checkState?: StatusCheckState };
+
+/**
+ * Confirmed status behind an overlay status (the status itself otherwise)
+ */
+export function getUnderlyingStatus(node: StatusNode): NodeStatus {
+    if (!OVERLAY_STATUSES.includes(node.status)) return node.status;
+    return node.checkState?.underlyingStatus || "FRESH";
+}
+
+/**
+ * Show `overlay` (or the confirmed status when null) and keep the confirmed status underneath
+ */
+export function setDisplayedStatus(node: StatusNode, confirmed: NodeStatus, overlay: NodeStatus | null): void {
+    const state = node.checkState;
+
+    node.status = overlay || confirmed;
+    node.checkState = {
+        consecutiveFailures: state?.consecutiveFailures || 0,
+        consecutiveSuccesses: state?.consecutiveSuccesses || 0,
+        recentStatuses: [...(state?.recentStatuses || [])],
+        underlyingStatus: overlay ? confirmed : undefined,
+    };
+}
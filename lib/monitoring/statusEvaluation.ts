@@ -0,0 +1,192 @@
+import GroupPolicyModel from "@/lib/db/models/GroupPolicy";
+import { CheckPolicy, INode, NodeGroup, NodeStatus } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Status Evaluation
+ * BACKEND ONLY - Single place that maps an HTTP response to a NodeStatus
+ * Used by both the simple HTTP check and the Playwright check
+ *
+ * Policy precedence: node checkPolicy > group policy > defaults
+ */
+
+/**
+ * Defaults match the original hardcoded rules:
+ * 5xx = DOWN, 4xx = WARNING, > 5s = WARNING, HEAD with GET fallback
+ */
+export const DEFAULT_CHECK_POLICY: CheckPolicy = {
+    expectedStatusCodes: ["200-399"],
+    warningLatencyMs: 5000,
+    downLatencyMs: 0,
+    method: "HEAD",
+};
+
+const STATUS_CODE_PATTERN = /^([1-5]\d\d)(?:-([1-5]\d\d))?$|^([1-5])xx$/i;
+
+/**
+ * Whether an HTTP status code matches one of "200", "200-299" or "2xx"
+ */
+export function matchesStatusCode(httpStatus: number, patterns: string[]): boolean {
+    return patterns.some((pattern) => {
+        const match = pattern.trim().match(STATUS_CODE_PATTERN);
+        if (!match) return false;
+        if (match[3]) {
+            return Math.floor(httpStatus / 100) === parseInt(match[3], 10);
+        }
+        const from = parseInt(match[1], 10);
+        const to = match[2] ? parseInt(match[2], 10) : from;
+        return httpStatus >= from && httpStatus <= to;
+    });
+}
+
+/**
+ * Merge policy layers, later layers win (unset fields are skipped)
+ */
+export function resolveCheckPolicy(
+    ...layers: (Partial<CheckPolicy> | null | undefined)[]
+): CheckPolicy {
+    const resolved: CheckPolicy = { ...DEFAULT_CHECK_POLICY };
+
+    for (const layer of layers) {
+        if (!layer) continue;
+        if (Array.isArray(layer.expectedStatusCodes) && layer.expectedStatusCodes.length > 0) {
+            resolved.expectedStatusCodes = layer.expectedStatusCodes;
+        }
+        if (typeof layer.warningLatencyMs === "number") resolved.warningLatencyMs = layer.warningLatencyMs;
+        if (typeof layer.downLatencyMs === "number") resolved.downLatencyMs = layer.downLatencyMs;
+        if (layer.method) resolved.method = layer.method;
+    }
+
+    return resolved;
+}
+
+/**
+ * Validate a checkPolicy payload from the API
+ * Returns an error message or null
+ */
+export function validateCheckPolicy(policy: unknown): string | null {
+    if (policy === undefined || policy === null) {
+        return null;
+    }
+    if (typeof policy !== "object" || Array.isArray(policy)) {
+        return "checkPolicy must be an object";
+    }
+
+    const { expectedStatusCodes, warningLatencyMs, downLatencyMs, method, ...rest } = policy as Record<string, any>;
+
+    const unknown = Object.keys(rest);
+    if (unknown.length > 0) {
+        return `Unknown checkPolicy field: ${unknown[0]}`;
+    }
+
+    if (expectedStatusCodes !== undefined) {
+        if (!Array.isArray(expectedStatusCodes)) {
+            return "checkPolicy.expectedStatusCodes must be an array";
+        }
+        const invalid = expectedStatusCodes.find(
+            (code) => typeof code !== "string" || !STATUS_CODE_PATTERN.test(code.trim())
+        );
+        if (invalid !== undefined) {
+            return `Invalid status code pattern: ${invalid} (use 200, 200-299 or 2xx)`;
+        }
+    }
+
+    if (warningLatencyMs !== undefined && (!Number.isInteger(warningLatencyMs) || warningLatencyMs < 1)) {
+        return "checkPolicy.warningLatencyMs must be a positive integer";
+    }
+    if (downLatencyMs !== undefined && (!Number.isInteger(downLatencyMs) || downLatencyMs < 0)) {
+        return "checkPolicy.downLatencyMs must be 0 (disabled) or a positive integer";
+    }
+    if (
+        typeof warningLatencyMs === "number" &&
+        typeof downLatencyMs === "number" &&
+        downLatencyMs > 0 &&
+        downLatencyMs <= warningLatencyMs
+    ) {
+        return "checkPolicy.downLatencyMs must be greater than warningLatencyMs";
+    }
+    if (method !== undefined && method !== "HEAD" && method !== "GET") {
+        return "checkPolicy.method must be HEAD or GET";
+    }
+
+    return null;
+}
+
+export interface ResponseEvaluation {
+    status: NodeStatus;
+    error?: string;
+}
+
+/**
+ * Grade a healthy response by latency
+ */
+export function evaluateLatency(
+    latency: number,
+    policy: CheckPolicy = DEFAULT_CHECK_POLICY
+): ResponseEvaluation {
+    if (policy.downLatencyMs > 0 && latency > policy.downLatencyMs) {
+        return { status: "DOWN", error: `Response time ${latency}ms exceeds ${policy.downLatencyMs}ms` };
+    }
+
+    if (latency > policy.warningLatencyMs) {
+        return { status: "WARNING" };
+    }
+
+    return { status: "STABLE" };
+}
+
+/**
+ * Map an HTTP response to a status
+ * - Unexpected 5xx = DOWN, any other unexpected code = WARNING
+ * - Expected codes are then graded by latency
+ */
+export function evaluateResponse(
+    httpStatus: number,
+    latency: number,
+    policy: CheckPolicy = DEFAULT_CHECK_POLICY
+): ResponseEvaluation {
+    if (!matchesStatusCode(httpStatus, policy.expectedStatusCodes)) {
+        return { status: httpStatus >= 500 ? "DOWN" : "WARNING" };
+    }
+
+    return evaluateLatency(latency, policy);
+}
+
+/**
+ * Load all group policies (one query per check run)
+ */
+export async function loadGroupCheckPolicies(): Promise<Map<NodeGroup, Partial<CheckPolicy>>> {
+    const policies = new Map<NodeGroup, Partial<CheckPolicy>>();
+
+    try {
+        const docs = await GroupPolicyModel.find({}).lean();
+        docs.forEach((doc) => policies.set(doc.group, doc.checkPolicy || {}));
+    } catch (error: any) {
+        logger.error('Failed to load group check policies', error);
+    }
+
+    return policies;
+}
+
+/**
+ * Resolve the effective policy for a single node
+ */
+export async function getNodeCheckPolicy(
+    node: Pick<INode, "group" | "checkPolicy">,
+    groupPolicies?: Map<NodeGroup, Partial<CheckPolicy>>
+): Promise<CheckPolicy> {
+    let groupPolicy: Partial<CheckPolicy> | undefined;
+
+    if (groupPolicies) {
+        groupPolicy = groupPolicies.get(node.group);
+    } else {
+        try {
+            const doc = await GroupPolicyModel.findOne({ group: node.group }).lean();
+            groupPolicy = doc?.checkPolicy;
+        } catch (error: any) {
+            logger.error('Failed to load group check policy', error, { group: node.group });
+        }
+    }
+
+    return resolveCheckPolicy(groupPolicy, node.checkPolicy);
+}
@@ -0,0 +1,294 @@
+import type { Page } from "playwright";
+import { AuthConfig, SyntheticTransaction, TransactionAction, TransactionStep, TransactionStepResult } from "@/types";
+import { decryptSecret, encryptSecret, isSecretEnvName, SECRET_ENV_PREFIX } from "@/lib/security/credentials";
+import { parseRegex } from "./assertions";
+
+/**
+ * Synthetic Transactions
+ * BACKEND ONLY - Scripted user journeys for BROWSER_LOGIN nodes
+ * Run by playwrightHealthCheck.ts on the logged-in page after the node URL loaded
+ *
+ * Steps are declarative actions (goto, click, fill, waitForSelector,
+ * assertText, assertUrl) with their own timeout. Every step is timed; the
+ * first failing step stops the run and is named in the check error. The whole
+ * run is clamped to what is left of the browser check timeout.
+ *
+ * fill values are treated as secrets: literal values are encrypted at rest
+ * (Node model hooks) and redacted for non-admin readers. A value can instead
+ * reference a secret that is read when the check runs:
+ *   {username} {password} {token} {headerValue}   the node's own credentials
+ *   {env:HEARTBEAT_SECRET_NAME}                   an environment variable
+ * Only HEARTBEAT_SECRET_* variables can be referenced (see isSecretEnvName).
+ */
+
+export const TRANSACTION_LIMITS = {
+    MAX_STEPS: 25,
+    DEFAULT_STEP_TIMEOUT_MS: 10000,
+    MAX_STEP_TIMEOUT_MS: 60000,
+};
+
+export const TRANSACTION_ACTIONS: TransactionAction[] = ["goto", "click", "fill", "waitForSelector", "assertText", "assertUrl"];
+
+const REQUIRED_FIELDS: Record<TransactionAction, (keyof TransactionStep)[]> = {
+    goto: ["url"],
+    click: ["selector"],
+    fill: ["selector", "value"],
+    waitForSelector: ["selector"],
+    assertText: ["text"],
+    assertUrl: ["url"],
+};
+
+export const REDACTED_FILL_VALUE = "[redacted]";
+
+const VALUE_REFERENCE = /^\{(?:(username|password|token|headerValue)|env:([A-Za-z_][A-Za-z0-9_]*))\}$/;
+
+export interface TransactionRun {
+    steps: TransactionStepResult[];
+    failure?: string;                    // Check error for the failing step
+}
+
+export function hasTransaction(transaction?: SyntheticTransaction | null): transaction is SyntheticTransaction {
+    return Boolean(transaction && Array.isArray(transaction.steps) && transaction.steps.length > 0);
+}
+
+/**
+ * Returns an error message or null
+ * `authType` is the node's auth type; only the browser checker runs transactions
+ */
+export function validateTransaction(transaction: unknown, authType?: AuthConfig["type"]): string | null {
+    if (transaction === undefined || transaction === null) {
+        return null;
+    }
+    if (typeof transaction !== "object" || Array.isArray(transaction)) {
+        return "transaction must be an object";
+    }
+
+    const t = transaction as SyntheticTransaction;
+    if (!Array.isArray(t.steps) || t.steps.length === 0) {
+        return "transaction.steps must be a non-empty list";
+    }
+    if (t.steps.length > TRANSACTION_LIMITS.MAX_STEPS) {
+        return `transaction.steps allows at most ${TRANSACTION_LIMITS.MAX_STEPS} steps`;
+    }
+    if (t.failureStatus !== undefined && t.failureStatus !== "WARNING" && t.failureStatus !== "DOWN") {
+        return "transaction.failureStatus must be WARNING or DOWN";
+    }
+    if (authType !== "BROWSER_LOGIN") {
+        return "Synthetic transactions are only supported for BROWSER_LOGIN nodes";
+    }
+
+    for (let i = 0; i < t.steps.length; i++) {
+        const step = t.steps[i];
+        const label = `transaction.steps[${i}]`;
+
+        if (!step || typeof step !== "object" || !TRANSACTION_ACTIONS.includes(step.action)) {
+            return `${label}.action must be one of ${TRANSACTION_ACTIONS.join(", ")}`;
+        }
+        for (const field of REQUIRED_FIELDS[step.action]) {
+            const value = step[field];
+            // fill may type an empty string (clear a field)
+            const allowEmpty = step.action === "fill" && field === "value";
+            if (typeof value !== "string" || (!allowEmpty && !value.trim())) {
+                return `${label}.${field} is required for ${step.action}`;
+            }
+        }
+        if (step.name !== undefined && typeof step.name !== "string") {
+            return `${label}.name must be a string`;
+        }
+        if (step.timeoutMs !== undefined &&
+            (!Number.isInteger(step.timeoutMs) || step.timeoutMs < 1 || step.timeoutMs > TRANSACTION_LIMITS.MAX_STEP_TIMEOUT_MS)) {
+            return `${label}.timeoutMs must be an integer between 1 and ${TRANSACTION_LIMITS.MAX_STEP_TIMEOUT_MS}`;
+        }
+        const envName = step.action === "fill" ? VALUE_REFERENCE.exec(step.value!)?.[2] : undefined;
+        if (envName && !isSecretEnvName(envName)) {
+            return `${label}.value can only reference environment variables starting with ${SECRET_ENV_PREFIX}`;
+        }
+        if (step.action === "goto" && !/^(https?:\/\/|\/)/i.test(step.url!.trim())) {
+            return `${label}.url must be an http(s) URL or a path starting with /`;
+        }
+        if (step.action === "assertUrl") {
+            try {
+                matchesUrlPattern("", step.url!);
+            } catch (error: any) {
+                return `${label}.url is an invalid pattern: ${error.message}`;
+            }
+        }
+    }
+
+    return null;
+}
+
+export function isFillValueReference(value: unknown): boolean {
+    return typeof value === "string" && VALUE_REFERENCE.test(value);
+}
+
+// Literal fill values are the stored secrets; references and empty values are not
+function isLiteralFillValue(step: TransactionStep): boolean {
+    return step?.action === "fill" && typeof step.value === "string" && step.value !== "" && !isFillValueReference(step.value);
+}
+
+function mapFillValues(
+    transaction: SyntheticTransaction | null | undefined,
+    map: (value: string) => string
+): SyntheticTransaction | null | undefined {
+    if (!hasTransaction(transaction)) return transaction;
+
+    return {
+        ...transaction,
+        steps: transaction.steps.map((step) => (isLiteralFillValue(step) ? { ...step, value: map(step.value!) } : step)),
+    };
+}
+
+/**
+ * Copy of a transaction with literal fill values encrypted (already encrypted values are kept)
+ */
+export function encryptTransactionValues<T extends SyntheticTransaction | null | undefined>(transaction: T): T {
+    return mapFillValues(transaction, (value) => encryptSecret(value)) as T;
+}
+
+/**
+ * API response shape for non-admin readers: literal fill values are replaced,
+ * references stay visible
+ */
+export function redactTransaction<T extends SyntheticTransaction | null | undefined>(transaction: T): T {
+    return mapFillValues(transaction, () => REDACTED_FILL_VALUE) as T;
+}
+
+/**
+ * Value to type for a fill step, for the check only
+ * Throws when a referenced secret is not available
+ */
+export function resolveFillValue(
+    value: string,
+    authConfig?: Partial<AuthConfig> | null,
+    env: Record<string, string | undefined> = process.env
+): string {
+    const match = VALUE_REFERENCE.exec(value);
+    if (!match) {
+        return decryptSecret(value);
+    }
+
+    const [, field, envName] = match;
+    if (envName && !isSecretEnvName(envName)) {
+        throw new Error(`Only ${SECRET_ENV_PREFIX}* environment variables can be referenced`);
+    }
+    const resolved = field ? authConfig?.[field as keyof AuthConfig] : env[envName];
+    if (typeof resolved !== "string" || !resolved) {
+        throw new Error(field ? `Node has no ${field} for ${value}` : `Environment variable ${envName} is not set`);
+    }
+    return resolved;
+}
+
+/**
+ * "Step 3 "Open menu"" or "Step 3 (click #menu)"
+ */
+export function describeStep(step: TransactionStep, index: number): string {
+    if (step.name) {
+        return `Step ${index + 1} "${step.name}"`;
+    }
+    const target = step.selector || step.url || step.text;
+    return `Step ${index + 1} (${step.action}${target ? ` ${target}` : ""})`;
+}
+
+/**
+ * assertUrl pattern: "/regex/flags" or a plain substring
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+    return /^\/.+\/[dgimsuy]*$/s.test(pattern) ? parseRegex(pattern).test(url) : url.includes(pattern);
+}
+
+/**
+ * Playwright errors carry a call log after the first line
+ */
+function firstLine(message: string): string {
+    return (message || "Step failed").split("\n")[0].trim();
+}
+
+export interface TransactionRunOptions {
+    authConfig?: AuthConfig;   // Decrypted credentials for {password}-style fill values
+    deadline?: number;         // End of the browser check (epoch ms)
+}
+
+async function runStep(page: Page, step: TransactionStep, baseUrl: string, options: TransactionRunOptions): Promise<void> {
+    const stepTimeout = step.timeoutMs || TRANSACTION_LIMITS.DEFAULT_STEP_TIMEOUT_MS;
+    const timeout = options.deadline === undefined
+        ? stepTimeout
+        : Math.max(Math.min(stepTimeout, options.deadline - Date.now()), 1);
+
+    switch (step.action) {
+        case "goto": {
+            const response = await page.goto(new URL(step.url!, baseUrl).toString(), {
+                timeout,
+                waitUntil: "domcontentloaded",
+            });
+            if (response && response.status() >= 400) {
+                throw new Error(`HTTP ${response.status()}`);
+            }
+            return;
+        }
+        case "click":
+            await page.click(step.selector!, { timeout });
+            return;
+        case "fill":
+            await page.fill(step.selector!, resolveFillValue(step.value!, options.authConfig), { timeout });
+            return;
+        case "waitForSelector":
+            await page.waitForSelector(step.selector!, { state: "visible", timeout });
+            return;
+        case "assertText":
+            try {
+                await page
+                    .locator(step.selector || "body", { hasText: step.text })
+                    .first()
+                    .waitFor({ state: "visible", timeout });
+            } catch {
+                throw new Error(`Text "${step.text}" not found in ${step.selector || "page"}`);
+            }
+            return;
+        case "assertUrl":
+            try {
+                await page.waitForURL((url) => matchesUrlPattern(url.toString(), step.url!), { timeout });
+            } catch {
+                throw new Error(`URL ${page.url()} does not match ${step.url}`);
+            }
+            return;
+    }
+}
+
+/**
+ * Run every step in order, stopping at the first failure or at the deadline
+ */
+export async function runTransaction(
+    page: Page,
+    transaction: SyntheticTransaction,
+    baseUrl: string,
+    options: TransactionRunOptions = {}
+): Promise<TransactionRun> {
+    const steps: TransactionStepResult[] = [];
+
+    for (let i = 0; i < transaction.steps.length; i++) {
+        const step = transaction.steps[i];
+        const startTime = Date.now();
+
+        try {
+            if (options.deadline !== undefined && startTime >= options.deadline) {
+                throw new Error("Check timeout reached");
+            }
+            await runStep(page, step, baseUrl, options);
+            steps.push({ step: i + 1, action: step.action, name: step.name, durationMs: Date.now() - startTime, ok: true });
+        } catch (error: any) {
+            const message = firstLine(error?.message);
+            steps.push({
+                step: i + 1,
+                action: step.action,
+                name: step.name,
+                durationMs: Date.now() - startTime,
+                ok: false,
+                error: message,
+            });
+            return { steps, failure: `${describeStep(step, i)} failed: ${message}` };
+        }
+    }
+
+    return { steps };
+}
@@ -0,0 +1,229 @@
+import { ObjectId, Types } from "mongoose";
+import CheckResultModel from "@/lib/db/models/CheckResult";
+import CheckRollupModel from "@/lib/db/models/CheckRollup";
+import { pickResolution } from "./checkHistory";
+import { NodeStatus, RollupPeriod } from "@/types";
+
+/**
+ * Uptime / SLA Computation
+ * BACKEND ONLY - Derives uptime, downtime, MTTR and MTBF from check history
+ *
+ * Only DOWN counts as downtime; WARNING is degraded but up.
+ * Each check result covers the time until the next check, capped at
+ * MAX_SAMPLE_GAP_MS so missing data is not counted as up or down.
+ */
+
+export type UptimeWindow = "24h" | "7d" | "30d" | "90d";
+
+export const UPTIME_WINDOWS: Record<UptimeWindow, number> = {
+    "24h": 24 * 60 * 60 * 1000,
+    "7d": 7 * 24 * 60 * 60 * 1000,
+    "30d": 30 * 24 * 60 * 60 * 1000,
+    "90d": 90 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Own keys only, so "toString" or "constructor" are not windows
+ */
+export function isUptimeWindow(value: unknown): value is UptimeWindow {
+    return typeof value === "string" && Object.prototype.hasOwnProperty.call(UPTIME_WINDOWS, value);
+}
+
+const MAX_SAMPLE_GAP_MS = 60 * 60 * 1000; // 1 hour
+
+const PERIOD_MS: Record<RollupPeriod, number> = {
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+};
+
+export interface UptimeStats {
+    window: { from: string; to: string };
+    uptimePercent: number | null;   // null when there is no data in the window
+    totalDowntimeMs: number;
+    monitoredMs: number;            // time covered by check data
+    incidents: number;              // transitions into DOWN
+    mttrMs: number | null;          // mean time to recovery
+    mtbfMs: number | null;          // mean time between failures
+    checks: number;
+    source: "raw" | RollupPeriod;
+}
+
+interface StatusSample {
+    timestamp: Date;
+    status: NodeStatus;
+}
+
+interface RollupSample {
+    bucketStart: Date;
+    total: number;
+    down: number;
+}
+
+/**
+ * Build final stats from accumulated totals
+ */
+function buildStats(
+    from: Date,
+    to: Date,
+    monitoredMs: number,
+    downtimeMs: number,
+    incidents: number,
+    checks: number,
+    source: UptimeStats["source"]
+): UptimeStats {
+    const uptimeMs = monitoredMs - downtimeMs;
+    return {
+        window: { from: from.toISOString(), to: to.toISOString() },
+        uptimePercent: monitoredMs > 0 ? Math.round((uptimeMs / monitoredMs) * 100000) / 1000 : null,
+        totalDowntimeMs: Math.round(downtimeMs),
+        monitoredMs: Math.round(monitoredMs),
+        incidents,
+        mttrMs: incidents > 0 ? Math.round(downtimeMs / incidents) : null,
+        mtbfMs: incidents > 0 ? Math.round(uptimeMs / incidents) : null,
+        checks,
+        source,
+    };
+}
+
+/**
+ * Compute uptime from raw check results (sorted by timestamp ascending)
+ * A sample taken before `from` sets the state at the start of the window
+ */
+export function computeUptimeFromResults(
+    samples: StatusSample[],
+    from: Date,
+    to: Date
+): UptimeStats {
+    let monitoredMs = 0;
+    let downtimeMs = 0;
+    let incidents = 0;
+    let checks = 0;
+    let previousDown = false;
+
+    for (let i = 0; i < samples.length; i++) {
+        const sample = samples[i];
+        const sampleTime = sample.timestamp.getTime();
+        const nextTime = i + 1 < samples.length ? samples[i + 1].timestamp.getTime() : to.getTime();
+
+        const start = Math.max(sampleTime, from.getTime());
+        const end = Math.min(nextTime, sampleTime + MAX_SAMPLE_GAP_MS, to.getTime());
+        const isDown = sample.status === "DOWN";
+
+        if (sampleTime >= from.getTime()) {
+            checks++;
+            if (isDown && !previousDown) {
+                incidents++;
+            }
+        }
+        previousDown = isDown;
+
+        if (end > start) {
+            monitoredMs += end - start;
+            if (isDown) {
+                downtimeMs += end - start;
+            }
+        }
+    }
+
+    return buildStats(from, to, monitoredMs, downtimeMs, incidents, checks, "raw");
+}
+
+/**
+ * Compute approximate uptime from rollup buckets (sorted by bucketStart ascending)
+ * Downtime is estimated as the DOWN share of each bucket; consecutive buckets
+ * with DOWN checks are counted as one incident
+ */
+export function computeUptimeFromRollups(
+    buckets: RollupSample[],
+    period: RollupPeriod,
+    from: Date,
+    to: Date
+): UptimeStats {
+    let monitoredMs = 0;
+    let downtimeMs = 0;
+    let incidents = 0;
+    let checks = 0;
+    let previousDown = false;
+    let previousBucket = 0;
+
+    for (const bucket of buckets) {
+        const bucketStart = bucket.bucketStart.getTime();
+        const start = Math.max(bucketStart, from.getTime());
+        const end = Math.min(bucketStart + PERIOD_MS[period], to.getTime());
+        if (end <= start || bucket.total === 0) continue;
+
+        const span = end - start;
+        const hasDown = bucket.down > 0;
+        const contiguous = bucketStart - previousBucket === PERIOD_MS[period];
+
+        monitoredMs += span;
+        downtimeMs += span * (bucket.down / bucket.total);
+        checks += bucket.total;
+
+        if (hasDown && !(previousDown && contiguous)) {
+            incidents++;
+        }
+        previousDown = hasDown;
+        previousBucket = bucketStart;
+    }
+
+    return buildStats(from, to, monitoredMs, downtimeMs, incidents, checks, period);
+}
+
+/**
+ * Merge per-node stats into a single aggregate (e.g. a NodeGroup)
+ */
+export function mergeUptimeStats(stats: UptimeStats[], from: Date, to: Date): UptimeStats {
+    const source = stats[0]?.source || "raw";
+    const totals = stats.reduce(
+        (acc, s) => ({
+            monitoredMs: acc.monitoredMs + s.monitoredMs,
+            downtimeMs: acc.downtimeMs + s.totalDowntimeMs,
+            incidents: acc.incidents + s.incidents,
+            checks: acc.checks + s.checks,
+        }),
+        { monitoredMs: 0, downtimeMs: 0, incidents: 0, checks: 0 }
+    );
+
+    return buildStats(from, to, totals.monitoredMs, totals.downtimeMs, totals.incidents, totals.checks, source);
+}
+
+/**
+ * Compute uptime stats for a node over a window ending now
+ */
+export async function getNodeUptime(
+    nodeId: ObjectId | Types.ObjectId | string,
+    window: UptimeWindow,
+    now: Date = new Date()
+): Promise<UptimeStats> {
+    const from = new Date(now.getTime() - UPTIME_WINDOWS[window]);
+    const resolution = pickResolution(from, now);
+
+    if (resolution === "raw") {
+        // Last result before the window defines the state at `from`
+        const [before, inWindow] = await Promise.all([
+            CheckResultModel.findOne({ nodeId, timestamp: { $lt: from } })
+                .sort({ timestamp: -1 })
+                .select("timestamp status")
+                .lean(),
+            CheckResultModel.find({ nodeId, timestamp: { $gte: from, $lte: now } })
+                .sort({ timestamp: 1 })
+                .select("timestamp status")
+                .lean(),
+        ]);
+
+        const samples = before ? [before, ...inWindow] : inWindow;
+        return computeUptimeFromResults(samples, from, now);
+    }
+
+    const buckets = await CheckRollupModel.find({
+        nodeId,
+        period: resolution,
+        bucketStart: { $gte: new Date(from.getTime() - PERIOD_MS[resolution]), $lte: now },
+    })
+        .sort({ bucketStart: 1 })
+        .select("bucketStart total down")
+        .lean();
+
+    return computeUptimeFromRollups(buckets, resolution, from, now);
+}
@@ -0,0 +1,78 @@
+import {
+    DiscordChannelConfig,
+    NotificationEvent,
+    SlackChannelConfig,
+    TelegramChannelConfig,
+} from "../types";
+import { formatMessage, formatTitle, STATUS_COLOR_INT } from "../templates";
+import { postJson } from "./http";
+
+/**
+ * Chat Channels
+ * Slack / Discord incoming webhooks and the Telegram Bot API
+ */
+
+/**
+ * Slack incoming webhook payload
+ */
+export function buildSlackPayload(event: NotificationEvent) {
+    return {
+        text: formatTitle(event),
+        attachments: [
+            {
+                color: `#${STATUS_COLOR_INT[event.newStatus].toString(16).padStart(6, "0")}`,
+                text: formatMessage(event),
+            },
+        ],
+    };
+}
+
+/**
+ * Discord webhook payload
+ */
+export function buildDiscordPayload(event: NotificationEvent) {
+    return {
+        content: formatTitle(event),
+        embeds: [
+            {
+                title: event.nodeName,
+                url: event.url,
+                description: formatMessage(event),
+                color: STATUS_COLOR_INT[event.newStatus],
+                timestamp: event.timestamp,
+            },
+        ],
+    };
+}
+
+/**
+ * Telegram sendMessage payload
+ */
+export function buildTelegramPayload(config: TelegramChannelConfig, event: NotificationEvent) {
+    return {
+        chat_id: config.chatId,
+        text: formatMessage(event),
+        disable_web_page_preview: true,
+    };
+}
+
+export async function sendSlack(config: SlackChannelConfig, event: NotificationEvent): Promise<void> {
+    await postJson(config.webhookUrl, JSON.stringify(buildSlackPayload(event)), {
+        timeoutMs: config.timeoutMs,
+    });
+}
+
+export async function sendDiscord(config: DiscordChannelConfig, event: NotificationEvent): Promise<void> {
+    await postJson(config.webhookUrl, JSON.stringify(buildDiscordPayload(event)), {
+        timeoutMs: config.timeoutMs,
+    });
+}
+
+export async function sendTelegram(config: TelegramChannelConfig, event: NotificationEvent): Promise<void> {
+    const baseUrl = (config.apiBaseUrl || "https://api.telegram.org").replace(/\/$/, "");
+    await postJson(
+        `${baseUrl}/bot${config.botToken}/sendMessage`,
+        JSON.stringify(buildTelegramPayload(config, event)),
+        { timeoutMs: config.timeoutMs }
+    );
+}
@@ -0,0 +1,35 @@
+import nodemailer from "nodemailer";
+import { EmailChannelConfig, NotificationEvent } from "../types";
+import { formatMessage, formatTitle } from "../templates";
+
+/**
+ * Email Channel (SMTP via nodemailer)
+ * Credentials are only sent over TLS (implicit or STARTTLS) unless
+ * allowInsecureAuth is set for a local relay.
+ */
+export async function sendEmail(config: EmailChannelConfig, event: NotificationEvent): Promise<void> {
+    const timeoutMs = config.timeoutMs ?? 10000;
+    const hasAuth = Boolean(config.username);
+
+    const transport = nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure ?? false,
+        requireTLS: hasAuth && !config.secure && !config.allowInsecureAuth,
+        auth: hasAuth ? { user: config.username!, pass: config.password || "" } : undefined,
+        connectionTimeout: timeoutMs,
+        greetingTimeout: timeoutMs,
+        socketTimeout: timeoutMs,
+    });
+
+    try {
+        await transport.sendMail({
+            from: config.from,
+            to: config.to,
+            subject: `[Monitoring] ${formatTitle(event)}`,
+            text: formatMessage(event),
+        });
+    } finally {
+        transport.close();
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * HTTP helper for webhook-style channels
+ * Throws on network errors, timeouts and non-2xx responses
+ */
+export async function postJson(
+    url: string,
+    body: string,
+    options: { method?: string; headers?: Record<string, string>; timeoutMs?: number } = {}
+): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? 10000);
+
+    try {
+        const response = await fetch(url, {
+            method: options.method || "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "Visual-Monitoring-Platform/1.0",
+                ...options.headers,
+            },
+            body,
+            signal: controller.signal,
+        });
+
+        if (!response.ok) {
+            const text = await response.text().catch(() => "");
+            throw new Error(`HTTP ${response.status}${text ? `: ${text.substring(0, 200)}` : ""}`);
+        }
+    } catch (error: any) {
+        if (error.name === "AbortError") {
+            throw new Error("Request timeout");
+        }
+        throw error;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
@@ -0,0 +1,22 @@
+import { NotificationEvent, WebhookChannelConfig } from "../types";
+import { renderTemplate } from "../templates";
+import { postJson } from "./http";
+
+/**
+ * Generic Webhook Channel
+ * Sends the event as JSON, or a rendered bodyTemplate if configured
+ */
+export async function sendWebhook(config: WebhookChannelConfig, event: NotificationEvent): Promise<void> {
+    const body = config.bodyTemplate
+        ? renderTemplate(config.bodyTemplate, event, { json: true })
+        : JSON.stringify(event);
+
+    // Fail fast on a broken template instead of sending invalid JSON
+    JSON.parse(body);
+
+    await postJson(config.url, body, {
+        method: config.method,
+        headers: config.headers,
+        timeoutMs: config.timeoutMs,
+    });
+}
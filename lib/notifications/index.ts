@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { ChannelConfig, DeliveryResult, NotificationEvent } from "./types";
+import { sendWebhook } from "./channels/webhook";
+import { sendSlack, sendDiscord, sendTelegram } from "./channels/chat";
+import { sendEmail } from "./channels/email";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Notifier
+ * BACKEND ONLY - Dispatches status transition events to outbound channels
+ *
+ * Channels are configured as a JSON array in NOTIFICATION_CHANNELS
+ * or in config/notifications.json (see config/notifications.json.template).
+ * Each channel can be routed by NodeGroup and by target status.
+ */
+
+export type { ChannelConfig, DeliveryResult, NotificationEvent } from "./types";
+
+const CHANNEL_TYPES = ["webhook", "slack", "discord", "telegram", "email"];
+const CONFIG_FILE = path.join(process.cwd(), "config", "notifications.json");
+
+// Parsed channels are reused for a minute (or until NOTIFICATION_CHANNELS changes)
+const CHANNEL_CACHE_TTL_MS = 60 * 1000;
+
+let channelCache: { env: string | undefined; channels: ChannelConfig[]; loadedAt: number } | null = null;
+
+/**
+ * Load channel configuration (env first, then config file), cached
+ * Invalid entries are skipped with a warning
+ */
+export function loadChannels(now: number = Date.now()): ChannelConfig[] {
+    const env = process.env.NOTIFICATION_CHANNELS;
+    if (channelCache && channelCache.env === env && now - channelCache.loadedAt < CHANNEL_CACHE_TTL_MS) {
+        return channelCache.channels;
+    }
+
+    const channels = parseChannels(env);
+    channelCache = { env, channels, loadedAt: now };
+    return channels;
+}
+
+function parseChannels(env: string | undefined): ChannelConfig[] {
+    let raw: string | undefined = env;
+
+    if (!raw && fs.existsSync(CONFIG_FILE)) {
+        raw = fs.readFileSync(CONFIG_FILE, "utf8");
+    }
+
+    if (!raw || !raw.trim()) {
+        return [];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error: any) {
+        logger.error('Invalid notification channel config (JSON parse failed)', error);
+        return [];
+    }
+
+    if (!Array.isArray(parsed)) {
+        logger.warn('Notification channel config must be a JSON array');
+        return [];
+    }
+
+    return parsed.filter((channel: any, index: number) => {
+        if (!channel || typeof channel !== "object" || !CHANNEL_TYPES.includes(channel.type)) {
+            logger.warn('Skipping notification channel with unknown type', { index, type: channel?.type });
+            return false;
+        }
+        if (!channel.name) {
+            channel.name = `${channel.type}-${index + 1}`;
+        }
+        return true;
+    }) as ChannelConfig[];
+}
+
+/**
+ * Whether a channel should receive the event
+ */
+export function channelMatches(channel: ChannelConfig, event: NotificationEvent): boolean {
+    if (channel.enabled === false) return false;
+    if (channel.groups && channel.groups.length > 0 && !channel.groups.includes(event.group)) return false;
+    if (channel.statuses && channel.statuses.length > 0 && !channel.statuses.includes(event.newStatus)) return false;
+    return true;
+}
+
+/**
+ * Send one event to one channel
+ */
+export async function sendToChannel(channel: ChannelConfig, event: NotificationEvent): Promise<void> {
+    switch (channel.type) {
+        case "webhook":
+            return sendWebhook(channel, event);
+        case "slack":
+            return sendSlack(channel, event);
+        case "discord":
+            return sendDiscord(channel, event);
+        case "telegram":
+            return sendTelegram(channel, event);
+        case "email":
+            return sendEmail(channel, event);
+    }
+}
+
+/**
+ * Dispatch a status transition to every matching channel
+ * Never throws - failures are logged and reported per channel
+ */
+export async function notifyStatusChange(
+    event: NotificationEvent,
+    channels: ChannelConfig[] = loadChannels()
+): Promise<DeliveryResult[]> {
+    const targets = channels.filter((channel) => channelMatches(channel, event));
+
+    if (targets.length === 0) {
+        return [];
+    }
+
+    const settled = await Promise.allSettled(targets.map((channel) => sendToChannel(channel, event)));
+
+    return settled.map((outcome, index) => {
+        const channel = targets[index];
+        if (outcome.status === "fulfilled") {
+            logger.info('Notification sent', { channel: channel.name, type: channel.type, nodeName: event.nodeName });
+            return { channel: channel.name, type: channel.type, success: true };
+        }
+
+        const error = outcome.reason?.message || String(outcome.reason);
+        logger.warn('Notification failed', { channel: channel.name, type: channel.type, nodeName: event.nodeName, error });
+        return { channel: channel.name, type: channel.type, success: false, error };
+    });
+}
@@ -0,0 +1,83 @@
+import { NodeStatus } from "@/types";
+import { NotificationEvent } from "./types";
+
+/**
+ * Notification Templates
+ * BACKEND ONLY - Message text and {{placeholder}} rendering
+ */
+
+const STATUS_EMOJI: Record<NodeStatus, string> = {
+    STABLE: "✅",
+    FRESH: "🟢",
+    WARNING: "⚠️",
+    DOWN: "🔴",
+    FLAPPING: "🟠",
+    MAINTENANCE: "🛠️",
+    DEGRADED_BY_DEPENDENCY: "🔗",
+};
+
+/**
+ * Embed colors (decimal RGB) matching STATUS_COLORS
+ */
+export const STATUS_COLOR_INT: Record<NodeStatus, number> = {
+    STABLE: 0x00a3ff,
+    FRESH: 0x00ff94,
+    WARNING: 0xffd600,
+    DOWN: 0xff4842,
+    FLAPPING: 0xff8a00,
+    MAINTENANCE: 0xa78bfa,
+    DEGRADED_BY_DEPENDENCY: 0xfb7185,
+};
+
+/**
+ * Replace {{field}} placeholders with event values
+ * In JSON mode values are escaped so the result stays valid JSON
+ * when placeholders are used inside string literals
+ */
+export function renderTemplate(
+    template: string,
+    event: NotificationEvent,
+    options: { json?: boolean } = {}
+): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+        const value = (event as unknown as Record<string, unknown>)[key];
+        if (value === undefined || value === null) {
+            return "";
+        }
+        const text = String(value);
+        return options.json ? JSON.stringify(text).slice(1, -1) : text;
+    });
+}
+
+/**
+ * One-line title, e.g. "🔴 Payment API is DOWN"
+ */
+export function formatTitle(event: NotificationEvent): string {
+    const recovered = event.oldStatus === "DOWN" || event.oldStatus === "WARNING";
+    const verb = recovered && (event.newStatus === "STABLE" || event.newStatus === "FRESH")
+        ? "recovered"
+        : `is ${event.newStatus}`;
+    return `${STATUS_EMOJI[event.newStatus]} ${event.nodeName} ${verb}`;
+}
+
+/**
+ * Multi-line plain text body
+ */
+export function formatMessage(event: NotificationEvent): string {
+    const lines = [
+        formatTitle(event),
+        `URL: ${event.url}`,
+        `Group: ${event.group}`,
+        `Status: ${event.oldStatus} → ${event.newStatus}`,
+        `Latency: ${event.latency}ms`,
+    ];
+
+    if (event.httpStatus) lines.push(`HTTP: ${event.httpStatus}`);
+    if (event.error) lines.push(`Error: ${event.error}`);
+    if (event.affectedNodes && event.affectedNodes.length > 0) {
+        lines.push(`Dependents (${event.affectedNodes.length}): ${event.affectedNodes.join(", ")}`);
+    }
+    lines.push(`Time: ${event.timestamp}`);
+
+    return lines.join("\n");
+}
@@ -0,0 +1,92 @@
+import { NodeGroup, NodeStatus } from "@/types";
+
+/**
+ * Notification Types
+ * BACKEND ONLY - Shared by all outbound notification channels
+ */
+
+/**
+ * Status transition event sent to channels
+ */
+export interface NotificationEvent {
+    nodeId: string;
+    nodeName: string;
+    url: string;
+    group: NodeGroup;
+    oldStatus: NodeStatus;
+    newStatus: NodeStatus;
+    latency: number;
+    httpStatus?: number;
+    error?: string;
+    incidentId?: string;
+    affectedNodes?: string[];   // Downstream nodes of a root cause (dependency graph)
+    timestamp: string;
+}
+
+interface BaseChannelConfig {
+    name: string;
+    enabled?: boolean;          // default true
+    groups?: NodeGroup[];       // route only these groups (default: all)
+    statuses?: NodeStatus[];    // route only transitions INTO these statuses (default: all)
+    timeoutMs?: number;         // default 10000
+}
+
+/**
+ * Generic webhook with templated JSON body
+ * Template placeholders: {{nodeName}}, {{newStatus}}, ... (any NotificationEvent field)
+ */
+export interface WebhookChannelConfig extends BaseChannelConfig {
+    type: "webhook";
+    url: string;
+    method?: "POST" | "PUT";
+    headers?: Record<string, string>;
+    bodyTemplate?: string;
+}
+
+export interface SlackChannelConfig extends BaseChannelConfig {
+    type: "slack";
+    webhookUrl: string;
+}
+
+export interface DiscordChannelConfig extends BaseChannelConfig {
+    type: "discord";
+    webhookUrl: string;
+}
+
+export interface TelegramChannelConfig extends BaseChannelConfig {
+    type: "telegram";
+    botToken: string;
+    chatId: string;
+    apiBaseUrl?: string;        // default https://api.telegram.org
+}
+
+export interface EmailChannelConfig extends BaseChannelConfig {
+    type: "email";
+    host: string;
+    port?: number;              // default 587 (465 when secure)
+    secure?: boolean;           // implicit TLS
+    username?: string;
+    password?: string;
+    allowInsecureAuth?: boolean; // send credentials without TLS (local relays only)
+    from: string;
+    to: string[];
+}
+
+export type ChannelConfig =
+    | WebhookChannelConfig
+    | SlackChannelConfig
+    | DiscordChannelConfig
+    | TelegramChannelConfig
+    | EmailChannelConfig;
+
+export type ChannelType = ChannelConfig["type"];
+
+/**
+ * Delivery result per channel
+ */
+export interface DeliveryResult {
+    channel: string;
+    type: ChannelType;
+    success: boolean;
+    error?: string;
+}
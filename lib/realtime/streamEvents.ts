@@ -0,0 +1,85 @@
+import { EventEmitter } from "events";
+import { INode, StreamEvent, NodeStatusUpdate } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Stream Event Bus
+ * BACKEND ONLY - In-process pub/sub between check handlers and /api/stream
+ *
+ * Events only reach clients connected to the same server process. Checks
+ * run by the in-process scheduler or by dashboard-triggered background checks
+ * are pushed; checks run elsewhere (e.g. a serverless cron) are picked up by
+ * the client's polling fallback.
+ */
+
+type StreamListener = (event: StreamEvent) => void;
+
+const STREAM_CHANNEL = "stream-event";
+
+// Survives Next.js dev hot reloads, so route modules share one bus
+const globalForStream = globalThis as unknown as { streamEventBus?: EventEmitter };
+
+function getBus(): EventEmitter {
+    if (!globalForStream.streamEventBus) {
+        const bus = new EventEmitter();
+        bus.setMaxListeners(0); // One listener per connected dashboard
+        globalForStream.streamEventBus = bus;
+    }
+    return globalForStream.streamEventBus;
+}
+
+/**
+ * Broadcast an event to all connected streams
+ * Never throws: a broken subscriber must not fail the check that published
+ */
+export function publishStreamEvent(event: StreamEvent): void {
+    try {
+        getBus().emit(STREAM_CHANNEL, event);
+    } catch (error) {
+        logger.error('Failed to publish stream event', error, { type: event.type });
+    }
+}
+
+/**
+ * Returns an unsubscribe function
+ */
+export function subscribeStreamEvents(listener: StreamListener): () => void {
+    const bus = getBus();
+    bus.on(STREAM_CHANNEL, listener);
+    return () => {
+        bus.off(STREAM_CHANNEL, listener);
+    };
+}
+
+export function getStreamSubscriberCount(): number {
+    return getBus().listenerCount(STREAM_CHANNEL);
+}
+
+type StatusNode = Pick<
+    INode,
+    "_id" | "status" | "latency" | "history" | "lastChecked" | "nextCheckAt" | "httpStatus" | "statusMessage" | "maintenance" | "rootCauses"
+>;
+
+export function toNodeStatusUpdate(node: StatusNode): NodeStatusUpdate {
+    return {
+        id: node._id.toString(),
+        status: node.status,
+        latency: node.latency,
+        history: [...(node.history || [])],
+        lastChecked: new Date(node.lastChecked).toISOString(),
+        nextCheckAt: node.nextCheckAt ? new Date(node.nextCheckAt).toISOString() : undefined,
+        httpStatus: node.httpStatus,
+        statusMessage: node.statusMessage,
+        maintenance: node.maintenance
+            ? { ...node.maintenance, endsAt: new Date(node.maintenance.endsAt).toISOString() }
+            : undefined,
+        rootCauses: node.rootCauses?.length ? node.rootCauses.map(({ nodeId, name }) => ({ nodeId, name })) : undefined,
+    };
+}
+
+/**
+ * Serialize one event in text/event-stream format
+ */
+export function formatServerSentEvent(event: StreamEvent): string {
+    return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
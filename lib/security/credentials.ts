@@ -0,0 +1,242 @@
+import crypto from "crypto";
+import { AuthConfig } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Credential Encryption
+ * BACKEND ONLY - Envelope encryption for node secrets at rest
+ *
+ * Every secret gets its own random data key (AES-256-GCM). The data key is
+ * wrapped with a master key from CREDENTIAL_ENCRYPTION_KEYS, so rotating the
+ * master key only re-wraps data keys (scripts/encryptCredentials.js --rotate).
+ *
+ * Stored format: enc:v1:<keyId>:<wrapped data key>:<ciphertext>
+ * (both parts base64 of iv | auth tag | encrypted bytes)
+ *
+ * Secrets are encrypted by Node model hooks and only decrypted inside the
+ * health-check path (see decryptAuthConfig). Values without the enc: prefix
+ * are legacy plaintext and are passed through unchanged.
+ */
+
+export const SECRET_FIELDS = ["password", "token", "headerValue"] as const;
+export type SecretField = typeof SECRET_FIELDS[number];
+
+/**
+ * Only environment variables with this prefix can be referenced as node secrets
+ * ({env:NAME} fill values, { env: NAME } in monitoring config), so server
+ * settings like MONGODB_URI or CREDENTIAL_ENCRYPTION_KEYS stay out of reach
+ */
+export const SECRET_ENV_PREFIX = "HEARTBEAT_SECRET_";
+
+export function isSecretEnvName(name: string): boolean {
+    return name.startsWith(SECRET_ENV_PREFIX) && /^[A-Za-z0-9_]+$/.test(name.slice(SECRET_ENV_PREFIX.length));
+}
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class CredentialEncryptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CredentialEncryptionError";
+    }
+}
+
+export interface MasterKey {
+    id: string;
+    key: Buffer;
+}
+
+function decodeKey(value: string): Buffer | null {
+    const trimmed = value.trim();
+    const key = /^[0-9a-f]{64}$/i.test(trimmed)
+        ? Buffer.from(trimmed, "hex")
+        : Buffer.from(trimmed, "base64");
+    return key.length === 32 ? key : null;
+}
+
+/**
+ * Master keys from env, active (encrypting) key first
+ * CREDENTIAL_ENCRYPTION_KEYS="v2:<base64>,v1:<base64>" (a single key may omit the id)
+ */
+export function parseMasterKeys(value: string | undefined = process.env.CREDENTIAL_ENCRYPTION_KEYS): MasterKey[] {
+    if (!value || !value.trim()) return [];
+
+    return value.split(",").map((entry, index) => {
+        const separator = entry.indexOf(":");
+        const id = separator > 0 ? entry.slice(0, separator).trim() : "default";
+        const key = decodeKey(separator > 0 ? entry.slice(separator + 1) : entry);
+
+        if (!key) {
+            throw new CredentialEncryptionError(
+                `CREDENTIAL_ENCRYPTION_KEYS entry ${index + 1} must be 32 bytes (base64 or 64 hex characters)`
+            );
+        }
+        if (!/^[\w-]+$/.test(id)) {
+            throw new CredentialEncryptionError(`Invalid key id "${id}" in CREDENTIAL_ENCRYPTION_KEYS`);
+        }
+        return { id, key };
+    });
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+    const data = Buffer.from(sealed, "base64");
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+    decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncrypted(value: unknown): value is string {
+    return typeof value === "string" && value.startsWith(PREFIX);
+}
+
+let warnedMissingKey = false;
+
+/**
+ * Encrypt a secret with the active master key
+ * Without a configured key the value is stored as-is (a warning is logged once)
+ */
+export function encryptSecret(value: string, keys: MasterKey[] = parseMasterKeys()): string {
+    if (!value || isEncrypted(value)) return value;
+
+    const [active] = keys;
+    if (!active) {
+        if (!warnedMissingKey) {
+            warnedMissingKey = true;
+            logger.warn('CREDENTIAL_ENCRYPTION_KEYS is not set, node credentials are stored unencrypted');
+        }
+        return value;
+    }
+
+    const dataKey = crypto.randomBytes(32);
+    const wrappedKey = seal(active.key, dataKey);
+    const ciphertext = seal(dataKey, Buffer.from(value, "utf8"));
+
+    return `${PREFIX}${active.id}:${wrappedKey}:${ciphertext}`;
+}
+
+function splitEncrypted(value: string): { keyId: string; wrappedKey: string; ciphertext: string } {
+    const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+    if (!keyId || !wrappedKey || !ciphertext) {
+        throw new CredentialEncryptionError("Malformed encrypted credential");
+    }
+    return { keyId, wrappedKey, ciphertext };
+}
+
+function unwrapDataKey(keyId: string, wrappedKey: string, keys: MasterKey[]): Buffer {
+    const master = keys.find((key) => key.id === keyId);
+    if (!master) {
+        throw new CredentialEncryptionError(`Master key "${keyId}" is not configured`);
+    }
+    try {
+        return open(master.key, wrappedKey);
+    } catch {
+        throw new CredentialEncryptionError(`Master key "${keyId}" cannot unwrap the credential`);
+    }
+}
+
+/**
+ * Decrypt a stored secret (legacy plaintext is returned unchanged)
+ */
+export function decryptSecret(value: string, keys: MasterKey[] = parseMasterKeys()): string {
+    if (!isEncrypted(value)) return value;
+
+    const { keyId, wrappedKey, ciphertext } = splitEncrypted(value);
+    const dataKey = unwrapDataKey(keyId, wrappedKey, keys);
+
+    try {
+        return open(dataKey, ciphertext).toString("utf8");
+    } catch {
+        throw new CredentialEncryptionError("Encrypted credential is corrupted");
+    }
+}
+
+/**
+ * Re-wrap the data key with the active master key (ciphertext is unchanged)
+ * Plaintext values are encrypted
+ */
+export function rewrapSecret(value: string, keys: MasterKey[] = parseMasterKeys()): string {
+    if (!isEncrypted(value)) return encryptSecret(value, keys);
+
+    const [active] = keys;
+    if (!active) {
+        throw new CredentialEncryptionError("CREDENTIAL_ENCRYPTION_KEYS is not set");
+    }
+
+    const { keyId, wrappedKey, ciphertext } = splitEncrypted(value);
+    if (keyId === active.id) return value;
+
+    const dataKey = unwrapDataKey(keyId, wrappedKey, keys);
+    return `${PREFIX}${active.id}:${seal(active.key, dataKey)}:${ciphertext}`;
+}
+
+/**
+ * Keyed fingerprint of a secret (HMAC-SHA256 with the active master key)
+ * Tells whether a secret changed without storing anything that can be guessed offline
+ */
+export function fingerprintSecret(value: string, keys: MasterKey[] = parseMasterKeys()): string {
+    const [active] = keys;
+    if (!active) {
+        throw new CredentialEncryptionError("CREDENTIAL_ENCRYPTION_KEYS is not set");
+    }
+    return `${active.id}:${crypto.createHmac("sha256", active.key).update(value, "utf8").digest("hex")}`;
+}
+
+/**
+ * Encrypt the secret fields of an authConfig-like object in place
+ */
+export function encryptAuthSecrets<T extends Partial<Record<SecretField, unknown>>>(authConfig: T | null | undefined): T | null | undefined {
+    if (!authConfig || typeof authConfig !== "object") return authConfig;
+
+    SECRET_FIELDS.forEach((field) => {
+        const value = authConfig[field];
+        if (typeof value === "string" && value) {
+            (authConfig as Record<string, unknown>)[field] = encryptSecret(value);
+        }
+    });
+    return authConfig;
+}
+
+/**
+ * Copy of an authConfig with plaintext secrets, for the health-check path only
+ */
+export function decryptAuthConfig(authConfig: AuthConfig): AuthConfig {
+    // Hydrated documents pass a mongoose subdocument
+    const source: AuthConfig = typeof (authConfig as any).toObject === "function"
+        ? (authConfig as any).toObject()
+        : authConfig;
+    const decrypted: AuthConfig = { ...source };
+
+    SECRET_FIELDS.forEach((field) => {
+        const value = source[field];
+        if (typeof value === "string" && value) {
+            decrypted[field] = decryptSecret(value);
+        }
+    });
+    return decrypted;
+}
+
+/**
+ * API response shape: secrets replaced by presence flags
+ */
+export function redactAuthConfig(authConfig?: Partial<AuthConfig> | null): AuthConfig | undefined {
+    if (!authConfig) return undefined;
+
+    const { password, token, headerValue, ...rest } = authConfig;
+    return {
+        ...rest,
+        type: rest.type || "NONE",
+        hasPassword: Boolean(password),
+        hasToken: Boolean(token),
+        hasHeaderValue: Boolean(headerValue),
+    };
+}
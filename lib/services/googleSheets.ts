@@ -1,28 +1,44 @@
 import { google } from 'googleapis';
+import { DEFAULT_SHEET_COLUMN_MAPPING, parseSheetRows, SheetNodeRow } from './sheetMapping';
+import { NodeGroup, SheetColumnMapping, SheetRowError } from '@/types';
 
 /**
  * Google Sheets Service
  * Adapted from CONTOH/googleSheetsService.js for Next.js
  * Fetches monitoring URLs from Google Spreadsheet
+ * With GOOGLE_SHEET_WRITEBACK=true the service account gets write access
+ * for the status write-back (see sheetWriteback.ts)
+ *
+ * The singleton reads GOOGLE_SPREADSHEET_ID / GOOGLE_SHEET_NAME; sheet sources
+ * (see sheetSources.ts) get their own instance with the same credentials
  */
 
-interface SheetUrlData {
-    url: string;
-    name: string;
+export interface SheetUrlData extends SheetNodeRow {
     description: string;
-    group: string;
     source: 'google_sheets';
-    sheetRow: number;
 }
 
-class GoogleSheetsService {
+/**
+ * The Sheets API rejected a request for quota / rate limits
+ */
+export function isQuotaError(error: any): boolean {
+    return error?.code === 429 || error?.response?.status === 429 || /quota/i.test(error?.message || '');
+}
+
+export interface SpreadsheetTarget {
+    spreadsheetId: string;
+    sheetName: string;
+}
+
+export class GoogleSheetsService {
     private sheets: any = null;
+    private writable = false;
     private spreadsheetId: string;
     private sheetName: string;
 
-    constructor() {
-        this.spreadsheetId = process.env.GOOGLE_SPREADSHEET_ID || '1_yFrfNIlwRXPHBsmWo_gBuYxudstnOQeBfyk-YHWd1U';
-        this.sheetName = process.env.GOOGLE_SHEET_NAME || 'Hasil';
+    constructor(target?: SpreadsheetTarget) {
+        this.spreadsheetId = target?.spreadsheetId || process.env.GOOGLE_SPREADSHEET_ID || '1_yFrfNIlwRXPHBsmWo_gBuYxudstnOQeBfyk-YHWd1U';
+        this.sheetName = target?.sheetName || process.env.GOOGLE_SHEET_NAME || 'Hasil';
     }
 
     /**
@@ -30,8 +46,12 @@ class GoogleSheetsService {
      */
     async initialize() {
         try {
+            const hasServiceAccount = !!(process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL && process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY);
+            // API keys can only read, so write-back prefers the service account
+            const writable = process.env.GOOGLE_SHEET_WRITEBACK === 'true' && hasServiceAccount;
+
             // Priority 1: Use API Key (for public spreadsheets)
-            if (process.env.GOOGLE_API_KEY) {
+            if (process.env.GOOGLE_API_KEY && !writable) {
                 this.sheets = google.sheets({
                     version: 'v4',
                     auth: process.env.GOOGLE_API_KEY
@@ -41,17 +61,20 @@ class GoogleSheetsService {
             }
 
             // Priority 2: Use Service Account (for private spreadsheets)
-            if (process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL && process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY) {
+            if (hasServiceAccount) {
                 const auth = new google.auth.GoogleAuth({
                     credentials: {
                         client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
-                        private_key: process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY.replace(/\\n/g, '\n'),
+                        private_key: process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY!.replace(/\\n/g, '\n'),
                     },
-                    scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
+                    scopes: [writable
+                        ? 'https://www.googleapis.com/auth/spreadsheets'
+                        : 'https://www.googleapis.com/auth/spreadsheets.readonly'],
                 });
 
                 this.sheets = google.sheets({ version: 'v4', auth });
-                console.log('Google Sheets initialized with Service Account');
+                this.writable = writable;
+                console.log(`Google Sheets initialized with Service Account${writable ? ' (write-back enabled)' : ''}`);
                 return;
             }
 
@@ -64,9 +87,14 @@ class GoogleSheetsService {
 
     /**
      * Fetch monitoring URLs from spreadsheet
-     * Column mapping: C = URL, J = Name
+     * Columns are resolved from the header row with `mapping` (see sheetMapping.ts);
+     * rows that fail validation are returned in `errors` with their row number;
+     * rows without a group get `defaultGroup`
      */
-    async fetchMonitoringUrls(): Promise<SheetUrlData[]> {
+    async fetchMonitoringUrls(
+        mapping: SheetColumnMapping = DEFAULT_SHEET_COLUMN_MAPPING,
+        defaultGroup: NodeGroup = 'website'
+    ): Promise<{ urls: SheetUrlData[]; errors: SheetRowError[] }> {
         try {
             if (!this.sheets) {
                 await this.initialize();
@@ -74,8 +102,8 @@ class GoogleSheetsService {
 
             console.log('Fetching URLs from Google Spreadsheet:', this.spreadsheetId);
 
-            // Fetch columns A and B (Name and URL) from row 2 onwards
-            const range = `${this.sheetName}!A2:B`;
+            // Header row plus data rows
+            const range = `${this.sheetName}!A1:ZZ`;
             console.log(`Fetching range: ${range}`);
 
             const response = await this.sheets.spreadsheets.values.get({
@@ -83,43 +111,26 @@ class GoogleSheetsService {
                 range: range,
             });
 
-            const rows = response.data.values;
+            const values: string[][] = response.data.values || [];
 
-            if (!rows || rows.length === 0) {
+            if (values.length < 2) {
                 console.warn('No data found in spreadsheet');
-                return [];
+                return { urls: [], errors: [] };
             }
 
-            const urls: SheetUrlData[] = [];
-
-            for (let i = 0; i < rows.length; i++) {
-                const row = rows[i];
-                const name = row[0]; // Column A
-                const url = row[1]; // Column B
-
-                // Skip if URL is empty
-                if (!url || url.trim() === '') {
-                    continue;
-                }
-
-                // Validate URL format
-                if (!this.isValidUrl(url.trim())) {
-                    console.warn(`Invalid URL at row ${i + 2}:`, url.trim());
-                    continue;
-                }
-
-                urls.push({
-                    url: url.trim(),
-                    name: name && name.trim() !== '' ? name.trim() : `URL from Sheet Row ${i + 2}`,
-                    description: `Imported from Google Spreadsheet row ${i + 2}`,
-                    group: 'website', // Default group
-                    source: 'google_sheets',
-                    sheetRow: i + 2
-                });
-            }
+            const { rows, errors } = parseSheetRows(values, mapping, defaultGroup);
 
+            const urls: SheetUrlData[] = rows.map((row) => ({
+                ...row,
+                description: `Imported from Google Spreadsheet row ${row.sheetRow}`,
+                source: 'google_sheets',
+            }));
+
+            if (errors.length > 0) {
+                console.warn(`Skipped ${errors.length} invalid value(s) in spreadsheet`);
+            }
             console.log(`Fetched ${urls.length} URLs from spreadsheet`);
-            return urls;
+            return { urls, errors };
 
         } catch (error: any) {
             console.error('Failed to fetch from Google Spreadsheet:', error.message);
@@ -128,15 +139,42 @@ class GoogleSheetsService {
     }
 
     /**
-     * Validate URL format
+     * Read ranges of the sheet (A1 notation without the sheet name), one value grid per range
      */
-    private isValidUrl(string: string): boolean {
-        try {
-            const url = new URL(string);
-            return url.protocol === 'http:' || url.protocol === 'https:';
-        } catch {
-            return false;
+    async readRanges(ranges: string[]): Promise<string[][][]> {
+        if (!this.sheets) {
+            await this.initialize();
         }
+
+        const response = await this.sheets.spreadsheets.values.batchGet({
+            spreadsheetId: this.spreadsheetId,
+            ranges: ranges.map((range) => `${this.sheetName}!${range}`),
+        });
+
+        return (response.data.valueRanges || []).map((valueRange: any) => valueRange.values || []);
+    }
+
+    /**
+     * Write cells in a single values.batchUpdate request
+     * Values are RAW: text from monitored sites is never evaluated as a formula
+     */
+    async writeRanges(data: { range: string; values: (string | number)[][] }[]): Promise<number> {
+        if (!this.sheets) {
+            await this.initialize();
+        }
+        if (!this.writable) {
+            throw new Error('Sheet write-back needs Service Account credentials and GOOGLE_SHEET_WRITEBACK=true');
+        }
+
+        const response = await this.sheets.spreadsheets.values.batchUpdate({
+            spreadsheetId: this.spreadsheetId,
+            requestBody: {
+                valueInputOption: 'RAW',
+                data: data.map(({ range, values }) => ({ range: `${this.sheetName}!${range}`, values })),
+            },
+        });
+
+        return response.data.totalUpdatedCells || 0;
     }
 
     /**
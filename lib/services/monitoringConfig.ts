@@ -0,0 +1,827 @@
+import { Types } from "mongoose";
+import YAML from "yaml";
+import NodeModel, { AUTH_SECRET_SELECT } from "@/lib/db/models/Node";
+import GroupPolicyModel from "@/lib/db/models/GroupPolicy";
+import { AuditContext, diffSnapshots, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import { decryptAuthConfig, isSecretEnvName, SECRET_ENV_PREFIX, SECRET_FIELDS } from "@/lib/security/credentials";
+import { validateCheckInterval } from "@/lib/monitoring/checkSchedule";
+import { validateCheckPolicy } from "@/lib/monitoring/statusEvaluation";
+import { validateStatusPolicy } from "@/lib/monitoring/statusConfirmation";
+import { normalizeTags, validateNodeGroup, validateNodeName, validateOwner, validateTags, validateURL } from "@/lib/utils/validation";
+import {
+    AuditChange,
+    AuthConfig,
+    CheckPolicy,
+    ConfigAuth,
+    ConfigError,
+    ConfigNode,
+    ConfigPlan,
+    INode,
+    MonitoringConfig,
+    NodeGroup,
+    SecretRef,
+    StatusPolicy,
+} from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Monitoring Configuration File
+ * BACKEND ONLY - Nodes and group policies as a YAML / JSON file kept in git
+ *
+ *   version: 1
+ *   groups:
+ *     api: { checkPolicy: { warningLatencyMs: 800 } }
+ *   nodes:
+ *     - name: Payments API
+ *       url: https://pay.example.com/health
+ *       group: api
+ *       dependsOn: [Core DB]
+ *       statusPolicy: { failureThreshold: 3 }
+ *       auth: { type: BEARER, token: { env: HEARTBEAT_SECRET_PAYMENTS_API_TOKEN } }
+ *
+ * Nodes are matched by name. Applying a file makes the listed nodes match it
+ * (fields left out are cleared) and marks them source "config"; other nodes
+ * are left alone, except that with `prune` config nodes and group policies
+ * missing from the file are deleted. Nodes owned by the Google Sheets sync
+ * cannot be managed from the file.
+ *
+ * Secrets (password, token, headerValue) are only accepted as { env: NAME }
+ * and read from the environment of the process that applies the file. Only
+ * HEARTBEAT_SECRET_* variables can be referenced (see isSecretEnvName).
+ * Nothing is applied while the plan has errors.
+ */
+
+export const CONFIG_VERSION = 1;
+
+const NODE_KEYS = ["name", "url", "group", "owner", "tags", "checkIntervalSeconds", "dependsOn", "checkPolicy", "statusPolicy", "auth"];
+
+const AUTH_KEYS = [
+    "type",
+    "username",
+    "password",
+    "token",
+    "headerName",
+    "headerValue",
+    "loginUrl",
+    "loginType",
+    "modalTriggerSelector",
+    "usernameSelector",
+    "passwordSelector",
+    "submitSelector",
+    "loginSuccessSelector",
+];
+
+const AUTH_TYPES: AuthConfig["type"][] = ["NONE", "BASIC", "BEARER", "API_KEY", "BROWSER_LOGIN"];
+
+// Fields that may reference the environment; the secret ones must
+const REF_FIELDS = ["username", ...SECRET_FIELDS] as const;
+
+// Managed node fields, as stored on the node (dependencies by name)
+const STATE_FIELDS = [
+    "name",
+    "url",
+    "group",
+    "owner",
+    "tags",
+    "checkIntervalSeconds",
+    "dependencies",
+    "checkPolicy",
+    "statusPolicy",
+    "authConfig",
+];
+
+/**
+ * The file is not valid YAML / JSON
+ */
+export class ConfigFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfigFormatError";
+    }
+}
+
+// ============================================
+// File format
+// ============================================
+
+/**
+ * Parse a configuration file (JSON is valid YAML)
+ */
+export function parseMonitoringConfig(text: string): unknown {
+    try {
+        return YAML.parse(text);
+    } catch (error: any) {
+        throw new ConfigFormatError(`Configuration is not valid YAML or JSON: ${error.message}`);
+    }
+}
+
+export function stringifyMonitoringConfig(config: MonitoringConfig, format: "yaml" | "json" = "yaml"): string {
+    if (format === "json") {
+        return JSON.stringify(config, null, 2) + "\n";
+    }
+    return "# Monitoring configuration - secrets are { env: NAME } references\n" + YAML.stringify(config);
+}
+
+function isSecretRef(value: unknown): value is SecretRef {
+    return !!value && typeof value === "object" && !Array.isArray(value)
+        && Object.keys(value).length === 1 && typeof (value as SecretRef).env === "string";
+}
+
+function validateConfigAuth(auth: any, path: string, errors: ConfigError[]): void {
+    if (!auth || typeof auth !== "object" || Array.isArray(auth)) {
+        errors.push({ path, message: "auth must be an object" });
+        return;
+    }
+
+    for (const key of Object.keys(auth)) {
+        if (!AUTH_KEYS.includes(key)) {
+            errors.push({ path: `${path}.${key}`, message: `Unknown auth field: ${key}` });
+        }
+    }
+    if (!AUTH_TYPES.includes(auth.type)) {
+        errors.push({ path: `${path}.type`, message: `Auth type must be one of: ${AUTH_TYPES.join(", ")}` });
+    }
+    if (auth.loginType !== undefined && auth.loginType !== "page" && auth.loginType !== "modal") {
+        errors.push({ path: `${path}.loginType`, message: "loginType must be page or modal" });
+    }
+
+    for (const field of REF_FIELDS) {
+        const value = auth[field];
+        if (value === undefined) continue;
+
+        if (isSecretRef(value)) {
+            // Same message for every refused name, so a file cannot probe the server environment
+            if (!isSecretEnvName(value.env)) {
+                errors.push({ path: `${path}.${field}`, message: `Environment variable references must start with ${SECRET_ENV_PREFIX}` });
+            }
+        } else if (field === "username" && typeof value === "string") {
+            continue;
+        } else {
+            errors.push({
+                path: `${path}.${field}`,
+                message: `${field} must be a reference like { env: NAME }; secrets are never stored in the file`,
+            });
+        }
+    }
+
+    for (const key of AUTH_KEYS) {
+        if (key === "type" || key === "loginType" || (REF_FIELDS as readonly string[]).includes(key)) continue;
+        if (auth[key] !== undefined && typeof auth[key] !== "string") {
+            errors.push({ path: `${path}.${key}`, message: `${key} must be a string` });
+        }
+    }
+}
+
+function validateConfigNode(input: any, path: string, errors: ConfigError[]): ConfigNode | null {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+        errors.push({ path, message: "Node must be an object" });
+        return null;
+    }
+
+    const count = errors.length;
+    const fail = (field: string, message?: string) => errors.push({ path: `${path}.${field}`, message: message || `Invalid ${field}` });
+
+    for (const key of Object.keys(input)) {
+        if (!NODE_KEYS.includes(key)) fail(key, `Unknown node field: ${key}`);
+    }
+
+    const name = typeof input.name === "string" ? input.name.trim() : "";
+    const nameValidation = validateNodeName(name);
+    if (!nameValidation.valid) fail("name", nameValidation.error);
+
+    const url = typeof input.url === "string" ? input.url.trim() : "";
+    const urlValidation = validateURL(url);
+    if (!urlValidation.valid) fail("url", urlValidation.error);
+
+    if (input.group !== undefined) {
+        const groupValidation = validateNodeGroup(input.group);
+        if (typeof input.group !== "string" || !groupValidation.valid) fail("group", groupValidation.error);
+    }
+
+    const ownerValidation = validateOwner(input.owner);
+    if (!ownerValidation.valid) fail("owner", ownerValidation.error);
+
+    const tagsValidation = validateTags(input.tags);
+    if (!tagsValidation.valid) fail("tags", tagsValidation.error);
+
+    const intervalError = validateCheckInterval(input.checkIntervalSeconds);
+    if (intervalError) fail("checkIntervalSeconds", intervalError);
+
+    if (input.dependsOn !== undefined
+        && (!Array.isArray(input.dependsOn) || input.dependsOn.some((dependency: unknown) => typeof dependency !== "string"))) {
+        fail("dependsOn", "dependsOn must be a list of node names");
+    }
+
+    const checkPolicyError = validateCheckPolicy(input.checkPolicy);
+    if (checkPolicyError) fail("checkPolicy", checkPolicyError);
+
+    const statusPolicyError = validateStatusPolicy(input.statusPolicy);
+    if (statusPolicyError) fail("statusPolicy", statusPolicyError);
+
+    if (input.auth !== undefined) {
+        validateConfigAuth(input.auth, `${path}.auth`, errors);
+    }
+
+    if (errors.length > count) return null;
+
+    return {
+        ...input,
+        name,
+        url,
+        group: input.group?.toLowerCase(),
+        owner: input.owner?.trim() || undefined,
+        tags: input.tags ? normalizeTags(input.tags) : undefined,
+        dependsOn: input.dependsOn?.map((dependency: string) => dependency.trim()),
+    };
+}
+
+/**
+ * Check the structure of a parsed file
+ * Invalid nodes are left out of `config` and reported in `errors`
+ */
+export function validateMonitoringConfig(raw: unknown): { config: MonitoringConfig; errors: ConfigError[] } {
+    const errors: ConfigError[] = [];
+    const config: MonitoringConfig = { version: CONFIG_VERSION, groups: {}, nodes: [] };
+
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+        errors.push({ path: "", message: "Configuration must be an object with version and nodes" });
+        return { config, errors };
+    }
+
+    const input = raw as Record<string, any>;
+    for (const key of Object.keys(input)) {
+        if (!["version", "groups", "nodes"].includes(key)) {
+            errors.push({ path: key, message: `Unknown field: ${key}` });
+        }
+    }
+    if (input.version !== CONFIG_VERSION) {
+        errors.push({ path: "version", message: `version must be ${CONFIG_VERSION}` });
+    }
+
+    if (input.groups !== undefined && input.groups !== null) {
+        if (typeof input.groups !== "object" || Array.isArray(input.groups)) {
+            errors.push({ path: "groups", message: "groups must map group names to { checkPolicy }" });
+        } else {
+            for (const [group, value] of Object.entries(input.groups as Record<string, any>)) {
+                const groupValidation = validateNodeGroup(group);
+                if (!groupValidation.valid) {
+                    errors.push({ path: `groups.${group}`, message: groupValidation.error || "Invalid group" });
+                    continue;
+                }
+                const unknown = value && typeof value === "object" ? Object.keys(value).filter((key) => key !== "checkPolicy") : [];
+                if (!value || typeof value !== "object" || unknown.length > 0) {
+                    errors.push({ path: `groups.${group}`, message: "A group must be { checkPolicy: {...} }" });
+                    continue;
+                }
+                const policyError = validateCheckPolicy(value.checkPolicy);
+                if (policyError) {
+                    errors.push({ path: `groups.${group}.checkPolicy`, message: policyError });
+                    continue;
+                }
+                config.groups![group as NodeGroup] = { checkPolicy: value.checkPolicy || {} };
+            }
+        }
+    }
+
+    if (!Array.isArray(input.nodes)) {
+        errors.push({ path: "nodes", message: "nodes must be a list" });
+        return { config, errors };
+    }
+
+    const seen = new Map<string, number>();
+    input.nodes.forEach((item: unknown, index: number) => {
+        const node = validateConfigNode(item, `nodes[${index}]`, errors);
+        if (!node) return;
+
+        const key = node.name.toLowerCase();
+        if (seen.has(key)) {
+            errors.push({ path: `nodes[${index}].name`, message: `Duplicate name, already used by nodes[${seen.get(key)}]` });
+            return;
+        }
+        seen.set(key, index);
+        config.nodes.push(node);
+    });
+
+    return { config, errors };
+}
+
+// ============================================
+// Export
+// ============================================
+
+export type ConfigStateNode = Pick<
+    INode,
+    "_id" | "name" | "url" | "group" | "owner" | "tags" | "checkIntervalSeconds" | "dependencies" | "checkPolicy" | "statusPolicy" | "authConfig" | "source"
+>;
+
+export interface ConfigState {
+    nodes: ConfigStateNode[];                                        // authConfig with plaintext secrets
+    groupPolicies: { group: NodeGroup; checkPolicy: Partial<CheckPolicy> }[];
+}
+
+/**
+ * Environment variable name suggested for a node secret, e.g. HEARTBEAT_SECRET_PAYMENTS_API_TOKEN
+ */
+export function secretEnvName(nodeName: string, field: string): string {
+    const node = nodeName.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "NODE";
+    const suffix = field.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase();
+    return `${SECRET_ENV_PREFIX}${node}_${suffix}`;
+}
+
+function compact<T extends Record<string, any>>(value: T | undefined | null): T | undefined {
+    if (!value || typeof value !== "object") return undefined;
+    const result = Object.fromEntries(
+        Object.entries(value).filter(([, child]) => child !== undefined && child !== null && child !== "")
+    ) as T;
+    return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Non-secret auth fields; NONE and the default loginType are left out
+ */
+function authSettings(authConfig: Partial<AuthConfig> | undefined): Partial<AuthConfig> | undefined {
+    if (!authConfig || !authConfig.type || authConfig.type === "NONE") return undefined;
+
+    const { hasPassword, hasToken, hasHeaderValue, ...rest } = authConfig as AuthConfig;
+    const settings = compact({ ...rest, loginType: rest.loginType === "page" ? undefined : rest.loginType });
+    return settings;
+}
+
+/**
+ * Configuration file of the live nodes and group policies
+ * Secrets become { env } references; Google Sheets nodes are left out (the sync owns them)
+ */
+export function toMonitoringConfig(
+    nodes: ConfigStateNode[],
+    groupPolicies: ConfigState["groupPolicies"]
+): MonitoringConfig {
+    const nameById = new Map(nodes.map((node) => [node._id.toString(), node.name]));
+
+    const groups: MonitoringConfig["groups"] = {};
+    [...groupPolicies]
+        .sort((a, b) => a.group.localeCompare(b.group))
+        .forEach((policy) => {
+            const checkPolicy = compact(policy.checkPolicy);
+            if (checkPolicy) groups[policy.group] = { checkPolicy };
+        });
+
+    const configNodes = nodes
+        .filter((node) => node.source !== "google_sheets")
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((node) => {
+            const configNode: ConfigNode = { name: node.name, url: node.url, group: node.group };
+
+            if (node.owner) configNode.owner = node.owner;
+            if (node.tags?.length) configNode.tags = [...node.tags];
+            if (node.checkIntervalSeconds) configNode.checkIntervalSeconds = node.checkIntervalSeconds;
+
+            const dependsOn = (node.dependencies || [])
+                .map((id) => nameById.get(id.toString()))
+                .filter(Boolean) as string[];
+            if (dependsOn.length) configNode.dependsOn = dependsOn.sort();
+
+            const checkPolicy = compact(node.checkPolicy);
+            if (checkPolicy) configNode.checkPolicy = checkPolicy;
+            const statusPolicy = compact(node.statusPolicy);
+            if (statusPolicy) configNode.statusPolicy = statusPolicy;
+
+            const settings = authSettings(node.authConfig);
+            if (settings) {
+                const auth = { ...settings } as Record<string, unknown>;
+                for (const field of REF_FIELDS) {
+                    if (auth[field]) auth[field] = { env: secretEnvName(node.name, field) };
+                }
+                configNode.auth = auth as unknown as ConfigAuth;
+            }
+
+            return configNode;
+        });
+
+    return { version: CONFIG_VERSION, groups, nodes: configNodes };
+}
+
+// ============================================
+// Plan
+// ============================================
+
+/**
+ * Managed fields of a node in comparable form (dependencies by name, sorted)
+ */
+interface NodeState {
+    name: string;
+    url: string;
+    group: NodeGroup;
+    owner?: string;
+    tags?: string[];
+    checkIntervalSeconds?: number;
+    dependencies?: string[];
+    checkPolicy?: Partial<CheckPolicy>;
+    statusPolicy?: Partial<StatusPolicy>;
+    authConfig?: Partial<AuthConfig>;
+}
+
+export interface ConfigActions {
+    creates: NodeState[];
+    updates: { node: ConfigStateNode; state: NodeState; changes: AuditChange[] }[];
+    claims: ConfigStateNode[];      // Unchanged nodes that become source "config"
+    deletes: ConfigStateNode[];
+    groupUpdates: { group: NodeGroup; checkPolicy: Partial<CheckPolicy>; changes: AuditChange[] }[];
+    groupDeletes: ConfigState["groupPolicies"];
+}
+
+function sortNames(names: string[] | undefined): string[] | undefined {
+    return names?.length ? [...names].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase())) : undefined;
+}
+
+function currentState(node: ConfigStateNode, nameById: Map<string, string>): NodeState {
+    const authConfig = authSettings(node.authConfig);
+    if (authConfig) {
+        for (const field of REF_FIELDS) {
+            if (node.authConfig?.[field]) authConfig[field] = node.authConfig[field];
+        }
+    }
+
+    return {
+        name: node.name,
+        url: node.url,
+        group: node.group,
+        owner: node.owner || undefined,
+        tags: sortNames(node.tags),
+        checkIntervalSeconds: node.checkIntervalSeconds || undefined,
+        dependencies: sortNames((node.dependencies || []).map((id) => nameById.get(id.toString()) || id.toString())),
+        checkPolicy: compact(node.checkPolicy),
+        statusPolicy: compact(node.statusPolicy),
+        authConfig,
+    };
+}
+
+/**
+ * Compare a validated file with the DB
+ * Pure - secret references are resolved from `env`
+ */
+export function planMonitoringConfig(
+    config: MonitoringConfig,
+    state: ConfigState,
+    options: { prune?: boolean; env?: Record<string, string | undefined>; errors?: ConfigError[] } = {}
+): { plan: ConfigPlan; actions: ConfigActions } {
+    const env = options.env ?? process.env;
+    const errors: ConfigError[] = [...(options.errors || [])];
+    const actions: ConfigActions = { creates: [], updates: [], claims: [], deletes: [], groupUpdates: [], groupDeletes: [] };
+    let unchanged = 0;
+
+    const byName = new Map(state.nodes.map((node) => [node.name.toLowerCase(), node]));
+    const nameById = new Map(state.nodes.map((node) => [node._id.toString(), node.name]));
+    const inFile = new Set(config.nodes.map((node) => node.name.toLowerCase()));
+
+    if (options.prune) {
+        actions.deletes = state.nodes.filter((node) => node.source === "config" && !inFile.has(node.name.toLowerCase()));
+    }
+    const deleted = new Set(actions.deletes.map((node) => node.name.toLowerCase()));
+
+    // Canonical names of the nodes that exist after applying
+    const canonical = new Map<string, string>();
+    state.nodes.forEach((node) => {
+        if (!deleted.has(node.name.toLowerCase())) canonical.set(node.name.toLowerCase(), node.name);
+    });
+    config.nodes.forEach((node) => canonical.set(node.name.toLowerCase(), node.name));
+
+    // Dependency graph after applying, by lowercase name
+    const graph = new Map<string, string[]>();
+    state.nodes.forEach((node) => {
+        const key = node.name.toLowerCase();
+        if (deleted.has(key) || inFile.has(key)) return;
+        graph.set(key, (node.dependencies || []).map((id) => (nameById.get(id.toString()) || "").toLowerCase()).filter(Boolean));
+    });
+
+    config.nodes.forEach((configNode, index) => {
+        const path = `nodes[${index}]`;
+        const existing = byName.get(configNode.name.toLowerCase());
+
+        if (existing?.source === "google_sheets") {
+            errors.push({ path: `${path}.name`, message: "Node is managed by the Google Sheets sync" });
+            return;
+        }
+
+        const dependsOn = configNode.dependsOn || [];
+        graph.set(configNode.name.toLowerCase(), dependsOn.map((name) => name.toLowerCase()));
+        const unknown = dependsOn.filter((name) => !canonical.has(name.toLowerCase()));
+        if (unknown.length > 0) {
+            errors.push({ path: `${path}.dependsOn`, message: `Unknown node: ${unknown.join(", ")}` });
+        }
+        if (dependsOn.some((name) => name.toLowerCase() === configNode.name.toLowerCase())) {
+            errors.push({ path: `${path}.dependsOn`, message: "A node cannot depend on itself" });
+        }
+
+        let authConfig: Partial<AuthConfig> | undefined;
+        if (configNode.auth && configNode.auth.type !== "NONE") {
+            authConfig = compact({ ...configNode.auth, loginType: configNode.auth.loginType === "page" ? undefined : configNode.auth.loginType }) as Partial<AuthConfig>;
+            for (const field of REF_FIELDS) {
+                const ref = configNode.auth[field];
+                if (!isSecretRef(ref)) continue;
+                // Refused names are reported by validateMonitoringConfig and never read
+                const allowed = isSecretEnvName(ref.env);
+                const value = allowed ? env[ref.env] : undefined;
+                if (allowed && !value) {
+                    errors.push({ path: `${path}.auth.${field}`, message: `Environment variable ${ref.env} is not set` });
+                }
+                authConfig[field] = value;
+            }
+        }
+
+        const desired: NodeState = {
+            name: configNode.name,
+            url: configNode.url,
+            group: configNode.group || "website",
+            owner: configNode.owner,
+            tags: sortNames(configNode.tags),
+            checkIntervalSeconds: configNode.checkIntervalSeconds,
+            dependencies: sortNames(dependsOn.map((name) => canonical.get(name.toLowerCase()) || name)),
+            checkPolicy: compact(configNode.checkPolicy),
+            statusPolicy: compact(configNode.statusPolicy),
+            authConfig,
+        };
+
+        if (!existing) {
+            actions.creates.push(desired);
+            return;
+        }
+
+        const changes = diffSnapshots(
+            toAuditSnapshot(currentState(existing, nameById), STATE_FIELDS),
+            toAuditSnapshot(desired, STATE_FIELDS)
+        );
+        if (changes.length > 0) {
+            actions.updates.push({ node: existing, state: desired, changes });
+        } else {
+            unchanged++;
+            if (existing.source !== "config") actions.claims.push(existing);
+        }
+    });
+
+    // Nodes left in the DB must not depend on pruned ones
+    state.nodes.forEach((node) => {
+        const key = node.name.toLowerCase();
+        if (deleted.has(key) || inFile.has(key)) return;
+        const removed = (graph.get(key) || []).filter((dependency) => deleted.has(dependency));
+        if (removed.length > 0) {
+            errors.push({ path: "nodes", message: `${node.name} depends on ${removed.join(", ")}, which would be pruned` });
+        }
+    });
+
+    // Circular dependencies among the nodes after applying
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const findCycle = (key: string, trail: string[]): string[] | null => {
+        if (visiting.has(key)) return [...trail.slice(trail.indexOf(key)), key];
+        if (done.has(key)) return null;
+        visiting.add(key);
+        for (const dependency of graph.get(key) || []) {
+            const cycle = findCycle(dependency, [...trail, key]);
+            if (cycle) return cycle;
+        }
+        visiting.delete(key);
+        done.add(key);
+        return null;
+    };
+    config.nodes.forEach((configNode, index) => {
+        visiting.clear();
+        const cycle = findCycle(configNode.name.toLowerCase(), []);
+        if (cycle && cycle[0] === configNode.name.toLowerCase()) {
+            errors.push({
+                path: `nodes[${index}].dependsOn`,
+                message: `Circular dependency: ${cycle.map((key) => canonical.get(key) || key).join(" → ")}`,
+            });
+        }
+    });
+
+    // Group policies
+    const policies = new Map(state.groupPolicies.map((policy) => [policy.group, policy]));
+    for (const [group, value] of Object.entries(config.groups || {}) as [NodeGroup, { checkPolicy: Partial<CheckPolicy> }][]) {
+        const checkPolicy = compact(value.checkPolicy) || {};
+        const changes = diffSnapshots(
+            toAuditSnapshot({ checkPolicy: compact(policies.get(group)?.checkPolicy) || {} }, ["checkPolicy"]),
+            toAuditSnapshot({ checkPolicy }, ["checkPolicy"])
+        );
+        if (changes.length > 0 || !policies.has(group)) {
+            actions.groupUpdates.push({ group, checkPolicy, changes });
+        }
+    }
+    if (options.prune) {
+        actions.groupDeletes = state.groupPolicies.filter((policy) => !config.groups?.[policy.group]);
+    }
+
+    const plan: ConfigPlan = {
+        creates: actions.creates.map((node) => ({ name: node.name, url: node.url, group: node.group })),
+        updates: actions.updates.map(({ node, changes }) => ({ nodeId: node._id.toString(), name: node.name, changes })),
+        deletes: actions.deletes.map((node) => ({ nodeId: node._id.toString(), name: node.name, url: node.url })),
+        groupUpdates: actions.groupUpdates.map(({ group, changes }) => ({ group, changes })),
+        groupDeletes: actions.groupDeletes.map(({ group }) => ({ group })),
+        unchanged,
+        errors,
+    };
+
+    return { plan, actions };
+}
+
+// ============================================
+// DB access
+// ============================================
+
+/**
+ * Nodes (with decrypted secrets, for comparison only) and group policies
+ * Requires a DB connection
+ */
+export async function loadConfigState(): Promise<ConfigState> {
+    const nodes = await NodeModel.find({})
+        .select(`name url group owner tags checkIntervalSeconds dependencies checkPolicy statusPolicy authConfig source ${AUTH_SECRET_SELECT}`)
+        .lean();
+    const groupPolicies = await GroupPolicyModel.find({}).lean();
+
+    return {
+        nodes: nodes.map((node) => {
+            if (!node.authConfig) return node;
+            try {
+                return { ...node, authConfig: decryptAuthConfig(node.authConfig) };
+            } catch (error: any) {
+                // Shows up as a changed secret, so applying the file replaces it
+                logger.warn('Cannot decrypt node credentials for config plan', { nodeName: node.name, error: error.message });
+                return { ...node, authConfig: { ...node.authConfig, password: undefined, token: undefined, headerValue: undefined } };
+            }
+        }),
+        groupPolicies: groupPolicies.map((policy) => ({ group: policy.group, checkPolicy: policy.checkPolicy || {} })),
+    };
+}
+
+/**
+ * Live configuration in the file format
+ * Requires a DB connection
+ */
+export async function exportMonitoringConfig(): Promise<MonitoringConfig> {
+    const nodes = await NodeModel.find({})
+        .select(`name url group owner tags checkIntervalSeconds dependencies checkPolicy statusPolicy authConfig source ${AUTH_SECRET_SELECT}`)
+        .lean();
+    const groupPolicies = await GroupPolicyModel.find({}).lean();
+
+    return toMonitoringConfig(nodes, groupPolicies);
+}
+
+export interface ConfigApplyResult {
+    created: number;
+    updated: number;
+    deleted: number;
+    groupsUpdated: number;
+    groupsDeleted: number;
+    errors: ConfigError[];
+}
+
+/**
+ * Apply a plan without errors, recording an audit event per change
+ * Failures of single nodes are added to `errors`; the rest still applies
+ */
+export async function applyMonitoringConfig(
+    plan: ConfigPlan,
+    actions: ConfigActions,
+    context: AuditContext
+): Promise<ConfigApplyResult> {
+    if (plan.errors.length > 0) {
+        throw new Error("Configuration plan has errors, nothing was applied");
+    }
+
+    const result: ConfigApplyResult = { created: 0, updated: 0, deleted: 0, groupsUpdated: 0, groupsDeleted: 0, errors: [] };
+    const audit = { ...context, message: "Applied from configuration file" };
+
+    // Group policies first, so new nodes are checked with them
+    for (const { group, checkPolicy, changes } of actions.groupUpdates) {
+        await GroupPolicyModel.findOneAndUpdate(
+            { group },
+            { group, checkPolicy },
+            { upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+        result.groupsUpdated++;
+        await recordAuditEvent({ ...audit, action: "group_policy.update", targetType: "group", targetId: group, targetName: group, changes });
+    }
+
+    // STEP 1: Create, dependencies are linked once every node exists
+    const created: { node: any; state: NodeState }[] = [];
+    for (const state of actions.creates) {
+        try {
+            const node = await NodeModel.create({
+                name: state.name,
+                url: state.url,
+                group: state.group,
+                owner: state.owner,
+                tags: state.tags,
+                checkIntervalSeconds: state.checkIntervalSeconds,
+                checkPolicy: state.checkPolicy,
+                statusPolicy: state.statusPolicy,
+                authConfig: state.authConfig,
+                dependencies: [],
+                source: "config",
+                status: "FRESH",
+                latency: 0,
+                history: [],
+            });
+            created.push({ node, state });
+            result.created++;
+        } catch (error: any) {
+            logger.error('Failed to create node from config', error, { nodeName: state.name });
+            result.errors.push({ path: state.name, message: `Failed to create: ${error.message}` });
+        }
+    }
+
+    const idByName = new Map<string, Types.ObjectId>();
+    (await NodeModel.find({}).select("name").lean<{ _id: Types.ObjectId; name: string }[]>()).forEach((node) => idByName.set(node.name.toLowerCase(), node._id));
+    const dependencyIds = (state: NodeState) =>
+        (state.dependencies || []).map((name) => idByName.get(name.toLowerCase())).filter(Boolean) as Types.ObjectId[];
+
+    for (const { node, state } of created) {
+        if (state.dependencies?.length) {
+            node.dependencies = dependencyIds(state);
+            await NodeModel.updateOne({ _id: node._id }, { dependencies: node.dependencies });
+        }
+        await recordAuditEvent({
+            ...audit,
+            action: "node.create",
+            targetType: "node",
+            targetId: node._id.toString(),
+            targetName: node.name,
+            changes: diffSnapshots({}, toAuditSnapshot(node)),
+        });
+    }
+
+    // STEP 2: Update changed fields (whole field, so removed keys are cleared)
+    for (const { node, state, changes } of actions.updates) {
+        try {
+            const $set: Record<string, unknown> = { source: "config" };
+            const $unset: Record<string, 1> = {};
+
+            const fields = new Set(changes.map((change) => change.field.split(".")[0]));
+            fields.forEach((field) => {
+                const value = field === "dependencies" ? dependencyIds(state) : state[field as keyof NodeState];
+                if (value === undefined && field !== "dependencies") {
+                    $unset[field] = 1;
+                } else {
+                    $set[field] = value;
+                }
+            });
+            if (fields.has("checkIntervalSeconds")) {
+                $set.nextCheckAt = null;
+            }
+
+            await NodeModel.updateOne({ _id: node._id }, Object.keys($unset).length > 0 ? { $set, $unset } : { $set });
+            result.updated++;
+
+            await recordAuditEvent({
+                ...audit,
+                action: "node.update",
+                targetType: "node",
+                targetId: node._id.toString(),
+                targetName: state.name,
+                changes,
+            });
+        } catch (error: any) {
+            logger.error('Failed to update node from config', error, { nodeId: node._id.toString() });
+            result.errors.push({ path: node.name, message: `Failed to update: ${error.message}` });
+        }
+    }
+
+    // Provenance bookkeeping, not audited
+    for (const node of actions.claims) {
+        await NodeModel.updateOne({ _id: node._id }, { $set: { source: "config" } });
+    }
+
+    // STEP 3: Prune
+    for (const node of actions.deletes) {
+        try {
+            await NodeModel.findByIdAndDelete(node._id);
+            result.deleted++;
+            await recordAuditEvent({
+                ...audit,
+                action: "node.delete",
+                targetType: "node",
+                targetId: node._id.toString(),
+                targetName: node.name,
+                changes: diffSnapshots(toAuditSnapshot(node), {}),
+            });
+        } catch (error: any) {
+            logger.error('Failed to delete node from config', error, { nodeId: node._id.toString() });
+            result.errors.push({ path: node.name, message: `Failed to delete: ${error.message}` });
+        }
+    }
+
+    for (const policy of actions.groupDeletes) {
+        await GroupPolicyModel.deleteOne({ group: policy.group });
+        result.groupsDeleted++;
+        await recordAuditEvent({
+            ...audit,
+            action: "group_policy.delete",
+            targetType: "group",
+            targetId: policy.group,
+            targetName: policy.group,
+            changes: diffSnapshots(toAuditSnapshot(policy, ["checkPolicy"]), {}),
+        });
+    }
+
+    logger.info('Monitoring configuration applied', { ...result, errors: result.errors.length });
+    return result;
+}
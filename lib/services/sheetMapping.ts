@@ -0,0 +1,300 @@
+import SheetsConfigModel from "@/lib/db/models/SheetsConfig";
+import { validateCheckInterval } from "@/lib/monitoring/checkSchedule";
+import { normalizeTags, validateNodeGroup, validateNodeName, validateOwner, validateTags, validateURL } from "@/lib/utils/validation";
+import { AuthConfig, NodeGroup, SheetColumnField, SheetColumnMapping, SheetRowError } from "@/types";
+
+/**
+ * Google Sheets Column Mapping
+ * BACKEND ONLY - Turns spreadsheet rows into node fields
+ *
+ * Row 1 holds the headers. Each mapped field names its column by header
+ * (case-insensitive) or by column letter. The mapping comes from the DB
+ * (SheetsConfig, PUT /api/google-sheets/config), else GOOGLE_SHEET_COLUMNS
+ * (JSON), else the legacy layout: A = name, B = URL.
+ *
+ * Invalid rows are returned as SheetRowError with their sheet row number
+ * instead of being imported. Status fields are only written (sheetWriteback.ts).
+ */
+
+export const SHEET_INPUT_FIELDS: SheetColumnField[] = [
+    "name",
+    "url",
+    "group",
+    "owner",
+    "authType",
+    "checkIntervalSeconds",
+    "tags",
+    "dependencies",
+];
+
+export const SHEET_STATUS_FIELDS: SheetColumnField[] = ["status", "lastChecked", "latency", "lastError"];
+
+export const SHEET_COLUMN_FIELDS: SheetColumnField[] = [...SHEET_INPUT_FIELDS, ...SHEET_STATUS_FIELDS];
+
+export const DEFAULT_SHEET_COLUMN_MAPPING: SheetColumnMapping = { name: "A", url: "B" };
+
+const AUTH_TYPES: AuthConfig["type"][] = ["NONE", "BASIC", "BEARER", "API_KEY", "BROWSER_LOGIN"];
+
+const COLUMN_LETTER_PATTERN = /^[A-Z]{1,2}$/;
+
+/**
+ * Node fields of one valid sheet row
+ */
+export interface SheetNodeRow {
+    sheetRow: number;
+    name: string;
+    url: string;
+    group: NodeGroup;
+    owner?: string;
+    authType?: AuthConfig["type"];
+    checkIntervalSeconds?: number;
+    tags?: string[];
+    dependencies: string[];     // Node names, resolved by the sync
+}
+
+export type SheetMappingSource = "db" | "env" | "default";
+
+/**
+ * The configured mapping does not fit the sheet (or is malformed)
+ */
+export class SheetMappingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SheetMappingError";
+    }
+}
+
+/**
+ * Validate a column mapping payload
+ * Returns an error message or null
+ */
+export function validateColumnMapping(mapping: unknown): string | null {
+    if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+        return "columnMapping must be an object of field -> column";
+    }
+
+    const seen = new Map<string, string>();
+    for (const [field, column] of Object.entries(mapping)) {
+        if (!SHEET_COLUMN_FIELDS.includes(field as SheetColumnField)) {
+            return `Unknown field "${field}". Must be one of: ${SHEET_COLUMN_FIELDS.join(", ")}`;
+        }
+        if (typeof column !== "string" || column.trim() === "") {
+            return `Column for "${field}" must be a header name or column letter`;
+        }
+
+        const key = column.trim().toLowerCase();
+        if (seen.has(key)) {
+            return `"${seen.get(key)}" and "${field}" are mapped to the same column "${column.trim()}"`;
+        }
+        seen.set(key, field);
+    }
+
+    if (!("url" in mapping)) {
+        return "columnMapping must map the url field";
+    }
+    return null;
+}
+
+/**
+ * Mapping from GOOGLE_SHEET_COLUMNS, null when unset
+ */
+export function parseEnvColumnMapping(value: string | undefined = process.env.GOOGLE_SHEET_COLUMNS): SheetColumnMapping | null {
+    if (!value || !value.trim()) return null;
+
+    let mapping: unknown;
+    try {
+        mapping = JSON.parse(value);
+    } catch {
+        throw new SheetMappingError("GOOGLE_SHEET_COLUMNS must be JSON, e.g. {\"name\":\"Name\",\"url\":\"URL\"}");
+    }
+
+    const error = validateColumnMapping(mapping);
+    if (error) {
+        throw new SheetMappingError(`GOOGLE_SHEET_COLUMNS: ${error}`);
+    }
+    return mapping as SheetColumnMapping;
+}
+
+/**
+ * Mapping in effect: DB, then env, then the legacy layout
+ * Requires a DB connection
+ */
+export async function loadColumnMapping(): Promise<{ mapping: SheetColumnMapping; source: SheetMappingSource }> {
+    const config = await SheetsConfigModel.findOne({ key: "default" }).lean();
+    if (config?.columnMapping && Object.keys(config.columnMapping).length > 0) {
+        return { mapping: config.columnMapping, source: "db" };
+    }
+
+    const envMapping = parseEnvColumnMapping();
+    if (envMapping) {
+        return { mapping: envMapping, source: "env" };
+    }
+
+    return { mapping: DEFAULT_SHEET_COLUMN_MAPPING, source: "default" };
+}
+
+/**
+ * Zero-based index of a column letter (A = 0, Z = 25, AA = 26)
+ */
+export function columnLetterToIndex(letter: string): number {
+    let index = 0;
+    for (const char of letter.toUpperCase()) {
+        index = index * 26 + (char.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
+
+/**
+ * Column letter of a zero-based index (0 = A, 27 = AB)
+ */
+export function columnIndexToLetter(index: number): string {
+    let letter = "";
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    }
+    return letter;
+}
+
+/**
+ * Column index of every mapped field; headers win over column letters
+ * Throws SheetMappingError when a mapped column is not in the sheet
+ */
+export function resolveColumns(
+    headers: string[],
+    mapping: SheetColumnMapping
+): Partial<Record<SheetColumnField, number>> {
+    const headerIndex = new Map<string, number>();
+    headers.forEach((header, index) => {
+        const key = String(header ?? "").trim().toLowerCase();
+        if (key && !headerIndex.has(key)) headerIndex.set(key, index);
+    });
+
+    const columns: Partial<Record<SheetColumnField, number>> = {};
+    const missing: string[] = [];
+
+    for (const [field, column] of Object.entries(mapping) as [SheetColumnField, string][]) {
+        const name = column.trim();
+        const index = headerIndex.get(name.toLowerCase());
+
+        if (index !== undefined) {
+            columns[field] = index;
+        } else if (COLUMN_LETTER_PATTERN.test(name)) {
+            columns[field] = columnLetterToIndex(name);
+        } else {
+            missing.push(`${field} ("${name}")`);
+        }
+    }
+
+    if (missing.length > 0) {
+        throw new SheetMappingError(`Columns not found in sheet header: ${missing.join(", ")}`);
+    }
+    return columns;
+}
+
+/**
+ * Split a list cell ("a, b; c") into trimmed, unique values
+ */
+export function splitListCell(value: string): string[] {
+    return Array.from(new Set(value.split(/[,;\n]/).map((item) => item.trim()).filter(Boolean)));
+}
+
+/**
+ * Parse sheet values (row 1 = headers) into node rows and per-row errors
+ * Blank rows are skipped silently; rows without a group get `defaultGroup`
+ */
+export function parseSheetRows(
+    values: string[][],
+    mapping: SheetColumnMapping,
+    defaultGroup: NodeGroup = "website"
+): { rows: SheetNodeRow[]; errors: SheetRowError[] } {
+    const [headers = [], ...dataRows] = values;
+    const columns = resolveColumns(headers, mapping);
+
+    const rows: SheetNodeRow[] = [];
+    const errors: SheetRowError[] = [];
+
+    dataRows.forEach((cells, i) => {
+        const sheetRow = i + 2;
+        const cell = (field: SheetColumnField): string => {
+            const index = columns[field];
+            return index === undefined ? "" : String(cells[index] ?? "").trim();
+        };
+
+        if (SHEET_INPUT_FIELDS.every((field) => cell(field) === "")) {
+            return;
+        }
+
+        const rowErrors: SheetRowError[] = [];
+        const fail = (field: SheetColumnField, message: string) => {
+            rowErrors.push({ row: sheetRow, field, value: cell(field) || undefined, message });
+        };
+
+        const url = cell("url");
+        const urlValidation = validateURL(url);
+        if (!urlValidation.valid) {
+            fail("url", urlValidation.error || "Invalid URL");
+        }
+
+        const name = cell("name") || `URL from Sheet Row ${sheetRow}`;
+        const nameValidation = validateNodeName(name);
+        if (!nameValidation.valid) {
+            fail("name", nameValidation.error || "Invalid name");
+        }
+
+        const group = (cell("group") || defaultGroup).toLowerCase();
+        const groupValidation = validateNodeGroup(group);
+        if (!groupValidation.valid) {
+            fail("group", groupValidation.error || "Invalid group");
+        }
+
+        const owner = cell("owner") || undefined;
+        const ownerValidation = validateOwner(owner);
+        if (!ownerValidation.valid) {
+            fail("owner", ownerValidation.error || "Invalid owner");
+        }
+
+        const authType = cell("authType") ? cell("authType").toUpperCase() as AuthConfig["type"] : undefined;
+        if (authType && !AUTH_TYPES.includes(authType)) {
+            fail("authType", `Invalid auth type. Must be one of: ${AUTH_TYPES.join(", ")}`);
+        }
+
+        let checkIntervalSeconds: number | undefined;
+        if (cell("checkIntervalSeconds")) {
+            checkIntervalSeconds = Number(cell("checkIntervalSeconds"));
+            const intervalError = validateCheckInterval(checkIntervalSeconds);
+            if (intervalError) {
+                fail("checkIntervalSeconds", intervalError);
+            }
+        }
+
+        const tags = cell("tags") ? splitListCell(cell("tags")) : undefined;
+        const tagsValidation = validateTags(tags);
+        if (!tagsValidation.valid) {
+            fail("tags", tagsValidation.error || "Invalid tags");
+        }
+
+        const dependencies = splitListCell(cell("dependencies"));
+        if (dependencies.some((dependency) => dependency.toLowerCase() === name.toLowerCase())) {
+            fail("dependencies", "A node cannot depend on itself");
+        }
+
+        if (rowErrors.length > 0) {
+            errors.push(...rowErrors);
+            return;
+        }
+
+        rows.push({
+            sheetRow,
+            name,
+            url,
+            group: group as NodeGroup,
+            owner,
+            authType,
+            checkIntervalSeconds,
+            tags: tags ? normalizeTags(tags) : undefined,
+            dependencies,
+        });
+    });
+
+    return { rows, errors };
+}
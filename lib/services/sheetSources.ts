@@ -0,0 +1,303 @@
+import SheetSourceModel from "@/lib/db/models/SheetSource";
+import { GoogleSheetsService, isQuotaError } from "./googleSheets";
+import { DEFAULT_SHEET_COLUMN_MAPPING, SheetMappingError, validateColumnMapping } from "./sheetMapping";
+import { runSheetSync, SheetSyncResult } from "./sheetSync";
+import { validateNodeGroup } from "@/lib/utils/validation";
+import { ISheetSource, SheetSourceData, SheetSyncPlan, SheetSyncStatus } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Google Sheets Sync Sources
+ * BACKEND ONLY - Spreadsheet tabs the server syncs into nodes on a schedule
+ *
+ * Each source has its own spreadsheet, sheet, column mapping, default group
+ * and interval; all use the GOOGLE_API_KEY / service account credentials.
+ * Due sources are synced from the scheduled check run (runDueSheetSyncs):
+ * - A source is claimed by moving its nextSyncAt (a lease), so instances
+ *   running the scheduler at the same time never sync it twice
+ * - Scheduled syncs never force: a sync over the delete limit is recorded
+ *   as "blocked" and waits for a manual sync with force
+ * - Quota errors back off exponentially (up to 6 hours), other errors retry
+ *   after one interval
+ * The outcome of every sync is kept on the source (lastStatus, lastError, lastResult).
+ */
+
+export const SHEET_SOURCE_LIMITS = {
+    intervalMinutes: { min: 5, max: 1440, default: 15 },
+};
+
+export const SHEET_SOURCE_AUDIT_FIELDS = [
+    "name",
+    "spreadsheetId",
+    "sheetName",
+    "columnMapping",
+    "defaultGroup",
+    "intervalMinutes",
+    "enabled",
+    "deleteOrphaned",
+];
+
+// Sources synced per scheduled run; the rest wait for the next run
+const MAX_SYNCS_PER_RUN = 3;
+
+// A claimed source is retried after this when its sync never records an outcome
+const SYNC_LEASE_MS = 10 * 60 * 1000;
+
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+const MAX_STORED_ROW_ERRORS = 50;
+
+const SYNC_ACTOR = "system";
+
+const SPREADSHEET_ID_PATTERN = /^[a-zA-Z0-9_-]{20,}$/;
+
+// ============================================
+// API helpers
+// ============================================
+
+/**
+ * Validate a sheet source payload from the API
+ * Returns an error message or null
+ */
+export function validateSheetSource(input: any): string | null {
+    if (!input || typeof input !== "object") {
+        return "Sheet source must be an object";
+    }
+    if (typeof input.name !== "string" || !input.name.trim()) {
+        return "name is required";
+    }
+    if (typeof input.spreadsheetId !== "string" || !SPREADSHEET_ID_PATTERN.test(input.spreadsheetId.trim())) {
+        return "spreadsheetId must be the ID from the spreadsheet URL";
+    }
+    if (typeof input.sheetName !== "string" || !input.sheetName.trim()) {
+        return "sheetName is required";
+    }
+
+    if (input.columnMapping !== undefined && input.columnMapping !== null
+        && !(typeof input.columnMapping === "object" && Object.keys(input.columnMapping).length === 0)) {
+        const mappingError = validateColumnMapping(input.columnMapping);
+        if (mappingError) return mappingError;
+    }
+
+    if (input.defaultGroup !== undefined) {
+        const validation = validateNodeGroup(input.defaultGroup);
+        if (typeof input.defaultGroup !== "string" || !validation.valid) {
+            return validation.error || "Invalid defaultGroup";
+        }
+    }
+
+    const { min, max } = SHEET_SOURCE_LIMITS.intervalMinutes;
+    if (input.intervalMinutes !== undefined
+        && (!Number.isInteger(input.intervalMinutes) || input.intervalMinutes < min || input.intervalMinutes > max)) {
+        return `intervalMinutes must be an integer between ${min} and ${max}`;
+    }
+
+    for (const key of ["enabled", "deleteOrphaned"]) {
+        if (input[key] !== undefined && typeof input[key] !== "boolean") {
+            return `${key} must be a boolean`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Stored fields for a validated payload
+ */
+export function normalizeSheetSource(input: any): Partial<ISheetSource> {
+    const columnMapping = Object.fromEntries(
+        Object.entries(input.columnMapping || {}).map(([field, column]) => [field, String(column).trim()])
+    );
+
+    return {
+        name: input.name.trim(),
+        spreadsheetId: input.spreadsheetId.trim(),
+        sheetName: input.sheetName.trim(),
+        columnMapping,
+        defaultGroup: input.defaultGroup || "website",
+        intervalMinutes: input.intervalMinutes ?? SHEET_SOURCE_LIMITS.intervalMinutes.default,
+        enabled: input.enabled !== false,
+        deleteOrphaned: input.deleteOrphaned === true,
+    };
+}
+
+export function toSheetSourceData(source: ISheetSource): SheetSourceData {
+    return {
+        id: source._id.toString(),
+        name: source.name,
+        spreadsheetId: source.spreadsheetId,
+        sheetName: source.sheetName,
+        columnMapping: { ...(source.columnMapping || {}) },
+        defaultGroup: source.defaultGroup,
+        intervalMinutes: source.intervalMinutes,
+        enabled: source.enabled,
+        deleteOrphaned: source.deleteOrphaned,
+        nextSyncAt: source.nextSyncAt ? new Date(source.nextSyncAt).toISOString() : undefined,
+        lastSyncAt: source.lastSyncAt ? new Date(source.lastSyncAt).toISOString() : undefined,
+        lastStatus: source.lastStatus,
+        lastError: source.lastError,
+        lastResult: source.lastResult,
+        lastRowErrors: source.lastRowErrors || [],
+        consecutiveFailures: source.consecutiveFailures || 0,
+    };
+}
+
+// ============================================
+// Syncing
+// ============================================
+
+export type SyncableSheetSource = Pick<
+    ISheetSource,
+    "_id" | "name" | "spreadsheetId" | "sheetName" | "columnMapping" | "defaultGroup" | "intervalMinutes" | "deleteOrphaned" | "consecutiveFailures"
+>;
+
+/**
+ * When a source syncs next
+ * After a quota error the interval doubles per consecutive failure, up to 6 hours
+ */
+export function getNextSyncAt(
+    source: Pick<ISheetSource, "intervalMinutes" | "consecutiveFailures">,
+    now: Date,
+    quotaError = false
+): Date {
+    const intervalMs = source.intervalMinutes * 60 * 1000;
+    if (!quotaError) {
+        return new Date(now.getTime() + intervalMs);
+    }
+
+    const backoffMs = Math.min(intervalMs * 2 ** ((source.consecutiveFailures || 0) + 1), MAX_BACKOFF_MS);
+    return new Date(now.getTime() + Math.max(backoffMs, intervalMs));
+}
+
+export interface SheetSourceSyncOutcome {
+    status: SheetSyncStatus;
+    plan?: SheetSyncPlan;
+    result?: SheetSyncResult;
+    error?: string;
+}
+
+/**
+ * Sync one source and record the outcome on it
+ * Never throws - failures are returned and stored as lastStatus "error"
+ */
+export async function runSheetSource(
+    source: SyncableSheetSource,
+    options: { dryRun?: boolean; force?: boolean; deleteOrphaned?: boolean; actor?: string } = {},
+    now: Date = new Date()
+): Promise<SheetSourceSyncOutcome> {
+    const mapping = source.columnMapping && Object.keys(source.columnMapping).length > 0
+        ? source.columnMapping
+        : DEFAULT_SHEET_COLUMN_MAPPING;
+
+    let outcome: SheetSourceSyncOutcome;
+    let quotaError = false;
+
+    try {
+        const { plan, result, blocked } = await runSheetSync(
+            {
+                sheets: new GoogleSheetsService({ spreadsheetId: source.spreadsheetId, sheetName: source.sheetName }),
+                mapping,
+                defaultGroup: source.defaultGroup,
+                sourceId: source._id.toString(),
+            },
+            {
+                deleteOrphaned: options.deleteOrphaned ?? source.deleteOrphaned,
+                dryRun: options.dryRun,
+                force: options.force,
+                actor: options.actor || SYNC_ACTOR,
+            }
+        );
+
+        if (options.dryRun) {
+            return { status: "success", plan };
+        }
+
+        outcome = blocked
+            ? {
+                status: "blocked",
+                plan,
+                error: `Sync would delete ${plan.deletes.length} node(s) (${plan.deletePercent}% of sheet nodes, limit ${plan.maxDeletePercent}%)`,
+            }
+            : { status: "success", plan, result };
+    } catch (error: any) {
+        quotaError = isQuotaError(error);
+        if (quotaError) {
+            logger.warn('Sheets API quota reached, backing off sheet source', { sourceId: source._id.toString(), name: source.name });
+        } else if (!(error instanceof SheetMappingError)) {
+            logger.error('Sheet source sync failed', error, { sourceId: source._id.toString(), name: source.name });
+        }
+        if (options.dryRun) {
+            return { status: "error", error: error.message };
+        }
+        outcome = { status: "error", error: error.message };
+    }
+
+    const failed = outcome.status === "error";
+    const rowErrors = outcome.result?.errors ?? outcome.plan?.errors ?? [];
+
+    try {
+        await SheetSourceModel.updateOne(
+            { _id: source._id },
+            {
+                $set: {
+                    lastSyncAt: now,
+                    lastStatus: outcome.status,
+                    lastError: outcome.error ?? null,
+                    lastResult: outcome.result
+                        ? {
+                            added: outcome.result.added,
+                            updated: outcome.result.updated,
+                            deleted: outcome.result.deleted,
+                            invalid: new Set(outcome.result.errors.map((rowError) => rowError.row)).size,
+                        }
+                        : null,
+                    lastRowErrors: failed ? [] : rowErrors.slice(0, MAX_STORED_ROW_ERRORS),
+                    consecutiveFailures: failed ? (source.consecutiveFailures || 0) + 1 : 0,
+                    nextSyncAt: getNextSyncAt(source, now, quotaError),
+                },
+            }
+        );
+    } catch (error: any) {
+        logger.error('Failed to record sheet source sync', error, { sourceId: source._id.toString() });
+    }
+
+    return outcome;
+}
+
+export interface SheetSourceRunSummary {
+    synced: number;
+    failed: number;
+    blocked: number;
+}
+
+/**
+ * Sync the enabled sources that are due, a few per run
+ * Never throws - the check run must not fail because of a sheet
+ */
+export async function runDueSheetSyncs(now: Date = new Date()): Promise<SheetSourceRunSummary> {
+    const summary: SheetSourceRunSummary = { synced: 0, failed: 0, blocked: 0 };
+
+    try {
+        for (let i = 0; i < MAX_SYNCS_PER_RUN; i++) {
+            // Claim the most overdue source by moving its nextSyncAt past the lease
+            const source = await SheetSourceModel.findOneAndUpdate(
+                { enabled: true, $or: [{ nextSyncAt: null }, { nextSyncAt: { $lte: now } }] },
+                { $set: { nextSyncAt: new Date(now.getTime() + SYNC_LEASE_MS) } },
+                { sort: { nextSyncAt: 1 }, new: true }
+            ).lean();
+            if (!source) break;
+
+            const outcome = await runSheetSource(source, {}, now);
+            if (outcome.status === "success") summary.synced++;
+            else if (outcome.status === "blocked") summary.blocked++;
+            else summary.failed++;
+        }
+    } catch (error: any) {
+        logger.error('Error running sheet source syncs', error);
+    }
+
+    if (summary.blocked > 0) {
+        logger.warn('Sheet source syncs blocked by the delete limit, review them in /admin/sheets', { blocked: summary.blocked });
+    }
+    return summary;
+}
@@ -0,0 +1,446 @@
+import { Types } from "mongoose";
+import NodeModel from "@/lib/db/models/Node";
+import type { GoogleSheetsService } from "./googleSheets";
+import { SheetNodeRow } from "./sheetMapping";
+import { diffSnapshots, recordAuditEvent, toAuditSnapshot } from "@/lib/audit/auditLog";
+import { normalizeURL } from "@/lib/utils/validation";
+import {
+    AuditChange,
+    INode,
+    NodeGroup,
+    SheetColumnField,
+    SheetColumnMapping,
+    SheetRowError,
+    SheetSyncPlan,
+} from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Google Sheets Sync
+ * BACKEND ONLY - Plans and applies the changes that bring the DB in line with the sheet
+ *
+ * Rows are matched to nodes by normalized URL.
+ * - New URLs are added as source "google_sheets"
+ * - Sheet nodes get the mapped fields of their row (name, group, owner,
+ *   interval, tags, dependencies); auth settings are only set on create
+ * - Nodes created by hand or from the config file (source "manual" / "config") are
+ *   never changed or deleted; nodes from before sources were recorded are claimed
+ *   when their URL is in the sheet
+ * - Each sheet only owns the nodes it created: `sheetSourceId` is the sheet
+ *   source (see sheetSources.ts), unset for the GOOGLE_SPREADSHEET_ID sheet
+ * - With deleteOrphaned, sheet nodes missing from the sheet are deleted, unless
+ *   that is more than GOOGLE_SHEET_SYNC_MAX_DELETE_PERCENT of them (needs force)
+ */
+
+export type SyncedNode = Pick<
+    INode,
+    "_id" | "name" | "url" | "group" | "owner" | "checkIntervalSeconds" | "tags" | "dependencies" | "source" | "sheetRow" | "sheetSourceId"
+>;
+
+const SYNCED_FIELDS = ["name", "group", "owner", "checkIntervalSeconds", "tags", "dependencies"] as const satisfies readonly SheetColumnField[];
+
+export function getMaxDeletePercent(): number {
+    const raw = process.env.GOOGLE_SHEET_SYNC_MAX_DELETE_PERCENT;
+    const value = raw ? Number(raw) : NaN;
+    return Number.isFinite(value) && value >= 0 && value <= 100 ? value : 20;
+}
+
+/**
+ * Everything needed to apply a plan (the plan itself is what a dry run returns)
+ */
+export interface SheetSyncActions {
+    creates: SheetNodeRow[];
+    updates: { node: SyncedNode; row: SheetNodeRow; changes: AuditChange[] }[];
+    relinks: { node: SyncedNode; sheetRow: number }[];
+    deletes: SyncedNode[];
+    sourceId?: string;          // Sheet source the nodes are synced for
+}
+
+export interface SheetSyncOptions {
+    deleteOrphaned: boolean;
+    maxDeletePercent?: number;
+    sourceId?: string;          // Unset = GOOGLE_SPREADSHEET_ID sheet
+}
+
+function sortedKey(values: string[] | undefined): string {
+    return JSON.stringify([...(values || [])].map((value) => value.toLowerCase()).sort());
+}
+
+/**
+ * Field changes that bring a node in line with its row (mapped fields only)
+ * Dependencies are compared by node name
+ */
+function diffRow(
+    node: SyncedNode,
+    row: SheetNodeRow,
+    mapping: SheetColumnMapping,
+    nameById: Map<string, string>
+): AuditChange[] {
+    const changes: AuditChange[] = [];
+
+    for (const field of SYNCED_FIELDS) {
+        if (!mapping[field]) continue;
+
+        let before: unknown;
+        let after: unknown;
+        let same: boolean;
+
+        if (field === "tags") {
+            before = node.tags?.length ? node.tags : undefined;
+            after = row.tags?.length ? row.tags : undefined;
+            same = sortedKey(before as string[]) === sortedKey(after as string[]);
+        } else if (field === "dependencies") {
+            const names = (node.dependencies || []).map((id) => nameById.get(id.toString()) || id.toString());
+            before = names.length ? names : undefined;
+            after = row.dependencies.length ? row.dependencies : undefined;
+            same = sortedKey(before as string[]) === sortedKey(after as string[]);
+        } else {
+            before = node[field] ?? undefined;
+            after = row[field] ?? undefined;
+            same = before === after;
+        }
+
+        if (!same) {
+            changes.push({ field, before: before ?? null, after: after ?? null });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Compare sheet rows with the DB
+ * Pure - `errors` holds parse errors from the sheet plus conflicts found here
+ */
+export function planSheetSync(
+    rows: SheetNodeRow[],
+    existingNodes: SyncedNode[],
+    mapping: SheetColumnMapping,
+    parseErrors: SheetRowError[],
+    options: SheetSyncOptions
+): { plan: SheetSyncPlan; actions: SheetSyncActions } {
+    const maxDeletePercent = options.maxDeletePercent ?? getMaxDeletePercent();
+    const errors: SheetRowError[] = [...parseErrors];
+    const actions: SheetSyncActions = { creates: [], updates: [], relinks: [], deletes: [], sourceId: options.sourceId };
+
+    // Sheet nodes of this sheet (nodes of other sheets are left alone like manual ones)
+    const isOwned = (node: SyncedNode) =>
+        node.source === "google_sheets" && node.sheetSourceId?.toString() === options.sourceId;
+
+    const byUrl = new Map(existingNodes.map((node) => [normalizeURL(node.url), node]));
+    const nameById = new Map(existingNodes.map((node) => [node._id.toString(), node.name]));
+    const takenNames = new Map(existingNodes.map((node) => [node.name.toLowerCase(), node._id.toString()]));
+    const rowByUrl = new Map<string, number>();
+    const matched = new Set<string>();
+    let unchanged = 0;
+    let manual = 0;
+
+    // Names rows may depend on: existing nodes and rows being added
+    const knownNames = new Set(existingNodes.map((node) => node.name.toLowerCase()));
+    rows.forEach((row) => {
+        if (!byUrl.has(normalizeURL(row.url))) knownNames.add(row.name.toLowerCase());
+    });
+
+    for (const sheetRow of rows) {
+        const url = normalizeURL(sheetRow.url);
+        if (rowByUrl.has(url)) {
+            errors.push({ row: sheetRow.sheetRow, field: "url", value: sheetRow.url, message: `Duplicate URL, already in row ${rowByUrl.get(url)}` });
+            continue;
+        }
+        rowByUrl.set(url, sheetRow.sheetRow);
+
+        let row = sheetRow;
+        const unknown = row.dependencies.filter((name) => !knownNames.has(name.toLowerCase()));
+        if (unknown.length > 0) {
+            errors.push({
+                row: row.sheetRow,
+                field: "dependencies",
+                value: unknown.join(", "),
+                message: `Unknown dependency: ${unknown.join(", ")} (dependencies left unchanged)`,
+            });
+        }
+
+        const node = byUrl.get(url);
+        if (!node) {
+            if (takenNames.has(row.name.toLowerCase())) {
+                errors.push({ row: row.sheetRow, field: "name", value: row.name, message: "A node with this name already exists" });
+                continue;
+            }
+            takenNames.set(row.name.toLowerCase(), `row-${row.sheetRow}`);
+            actions.creates.push(unknown.length > 0 ? { ...row, dependencies: [] } : row);
+            continue;
+        }
+
+        matched.add(node._id.toString());
+        if (node.source && !isOwned(node)) {
+            // Manual nodes keep their row in the GOOGLE_SPREADSHEET_ID sheet only
+            if (node.source === "manual" && !options.sourceId && node.sheetRow !== row.sheetRow) {
+                actions.relinks.push({ node, sheetRow: row.sheetRow });
+            }
+            manual++;
+            continue;
+        }
+        if (node.sheetRow !== row.sheetRow || !node.source) {
+            actions.relinks.push({ node, sheetRow: row.sheetRow });
+        }
+
+        if (unknown.length > 0) {
+            row = { ...row, dependencies: (node.dependencies || []).map((id) => nameById.get(id.toString()) || id.toString()) };
+        }
+        const nameOwner = takenNames.get(row.name.toLowerCase());
+        if (nameOwner && nameOwner !== node._id.toString()) {
+            errors.push({ row: row.sheetRow, field: "name", value: row.name, message: "A node with this name already exists (name left unchanged)" });
+            row = { ...row, name: node.name };
+        }
+
+        const changes = diffRow(node, row, mapping, nameById);
+        if (changes.length === 0) {
+            unchanged++;
+            continue;
+        }
+        if (row.name !== node.name) {
+            takenNames.delete(node.name.toLowerCase());
+            takenNames.set(row.name.toLowerCase(), node._id.toString());
+        }
+        actions.updates.push({ node, row, changes });
+    }
+
+    const sheetNodes = existingNodes.filter(isOwned);
+    if (options.deleteOrphaned) {
+        actions.deletes = sheetNodes.filter((node) => !matched.has(node._id.toString()));
+    }
+
+    const deletePercent = sheetNodes.length > 0
+        ? Math.round((actions.deletes.length / sheetNodes.length) * 1000) / 10
+        : 0;
+
+    const plan: SheetSyncPlan = {
+        totalInSheet: rows.length,
+        totalInDatabase: existingNodes.length,
+        adds: actions.creates.map((row) => ({ row: row.sheetRow, name: row.name, url: row.url, group: row.group })),
+        updates: actions.updates.map(({ node, row, changes }) => ({
+            nodeId: node._id.toString(),
+            name: node.name,
+            row: row.sheetRow,
+            changes,
+        })),
+        deletes: actions.deletes.map((node) => ({ nodeId: node._id.toString(), name: node.name, url: node.url })),
+        unchanged,
+        manual,
+        errors: errors.sort((a, b) => a.row - b.row),
+        deletePercent,
+        maxDeletePercent,
+        deleteBlocked: actions.deletes.length > 0 && deletePercent > maxDeletePercent,
+    };
+
+    return { plan, actions };
+}
+
+export interface SheetSyncResult {
+    added: number;
+    updated: number;
+    deleted: number;
+    errors: SheetRowError[];
+    addedUrls: { name: string; url: string; row: number }[];
+    deletedUrls: { name: string; url: string }[];
+}
+
+/**
+ * Apply a plan, recording an audit event per changed node
+ * Row-level failures are added to `errors`; the rest of the plan still applies
+ */
+export async function applySheetSync(
+    plan: SheetSyncPlan,
+    actions: SheetSyncActions,
+    actor: string
+): Promise<SheetSyncResult> {
+    const result: SheetSyncResult = {
+        added: 0,
+        updated: 0,
+        deleted: 0,
+        errors: [...plan.errors],
+        addedUrls: [],
+        deletedUrls: [],
+    };
+
+    // Provenance bookkeeping, not audited
+    for (const { node, sheetRow } of actions.relinks) {
+        const $set: Record<string, unknown> = { sheetRow, source: node.source || "google_sheets" };
+        if (!node.source && actions.sourceId) {
+            $set.sheetSourceId = actions.sourceId;
+        }
+        await NodeModel.updateOne({ _id: node._id }, { $set });
+    }
+
+    // STEP 1: Add new URLs from sheet
+    const created: { node: any; row: SheetNodeRow }[] = [];
+    for (const row of actions.creates) {
+        try {
+            const newNode = await NodeModel.create({
+                name: row.name,
+                url: row.url,
+                group: row.group,
+                dependencies: [],
+                authConfig: row.authType ? { type: row.authType } : undefined,
+                checkIntervalSeconds: row.checkIntervalSeconds,
+                tags: row.tags,
+                owner: row.owner,
+                source: "google_sheets",
+                sheetSourceId: actions.sourceId,
+                sheetRow: row.sheetRow,
+                status: "FRESH",
+                latency: 0,
+                history: [],
+            });
+            created.push({ node: newNode, row });
+            result.added++;
+            result.addedUrls.push({ name: row.name, url: row.url, row: row.sheetRow });
+            console.log(`✅ Added URL from sheet:`, row.url);
+        } catch (error: any) {
+            console.error(`❌ Failed to add URL:`, row.url, error.message);
+            result.errors.push({ row: row.sheetRow, message: `Failed to add: ${error.message}` });
+        }
+    }
+
+    // Dependencies are resolved by name once every row exists (rows may depend on later rows)
+    const idByName = new Map<string, Types.ObjectId>();
+    (await NodeModel.find({}).select("name").lean<{ _id: Types.ObjectId; name: string }[]>()).forEach((node) => idByName.set(node.name.toLowerCase(), node._id));
+
+    const resolveDependencies = async (nodeId: Types.ObjectId, row: SheetNodeRow): Promise<Types.ObjectId[] | null> => {
+        const ids = row.dependencies.map((name) => idByName.get(name.toLowerCase())).filter(Boolean) as Types.ObjectId[];
+        if (ids.length > 0 && !(await NodeModel.validateDependencies(nodeId, ids))) {
+            result.errors.push({
+                row: row.sheetRow,
+                field: "dependencies",
+                value: row.dependencies.join(", "),
+                message: "Circular dependency (dependencies left unchanged)",
+            });
+            return null;
+        }
+        return ids;
+    };
+
+    for (const { node, row } of created) {
+        if (row.dependencies.length === 0) continue;
+        const ids = await resolveDependencies(node._id, row);
+        if (ids) {
+            await NodeModel.updateOne({ _id: node._id }, { dependencies: ids });
+            node.dependencies = ids;
+        }
+    }
+
+    for (const { node, row } of created) {
+        await recordAuditEvent({
+            actor,
+            source: "sheets_sync",
+            action: "node.create",
+            targetType: "node",
+            targetId: node._id.toString(),
+            targetName: node.name,
+            changes: diffSnapshots({}, toAuditSnapshot(node)),
+            message: `Added from sheet row ${row.sheetRow}`,
+        });
+    }
+
+    // STEP 2: Bring sheet nodes in line with their rows
+    for (const { node, row, changes } of actions.updates) {
+        try {
+            const $set: Record<string, unknown> = {};
+            const $unset: Record<string, 1> = {};
+
+            for (const change of changes) {
+                if (change.field === "dependencies") {
+                    const ids = await resolveDependencies(new Types.ObjectId(node._id.toString()), row);
+                    if (ids) $set.dependencies = ids;
+                    continue;
+                }
+                const value = row[change.field as keyof SheetNodeRow];
+                if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+                    $unset[change.field] = 1;
+                } else {
+                    $set[change.field] = value;
+                }
+            }
+            if ("checkIntervalSeconds" in $set || "checkIntervalSeconds" in $unset) {
+                $set.nextCheckAt = null;
+            }
+
+            await NodeModel.updateOne({ _id: node._id }, { $set, $unset });
+            result.updated++;
+
+            await recordAuditEvent({
+                actor,
+                source: "sheets_sync",
+                action: "node.update",
+                targetType: "node",
+                targetId: node._id.toString(),
+                targetName: row.name,
+                changes,
+                message: `Updated from sheet row ${row.sheetRow}`,
+            });
+        } catch (error: any) {
+            logger.error('Failed to update node from sheet', error, { nodeId: node._id.toString(), row: row.sheetRow });
+            result.errors.push({ row: row.sheetRow, message: `Failed to update: ${error.message}` });
+        }
+    }
+
+    // STEP 3: Delete sheet nodes no longer in the sheet
+    for (const node of actions.deletes) {
+        try {
+            await NodeModel.findByIdAndDelete(node._id);
+            result.deleted++;
+            result.deletedUrls.push({ name: node.name, url: node.url });
+            console.log(`🗑️ Deleted URL not in sheet:`, node.url);
+
+            await recordAuditEvent({
+                actor,
+                source: "sheets_sync",
+                action: "node.delete",
+                targetType: "node",
+                targetId: node._id.toString(),
+                targetName: node.name,
+                changes: diffSnapshots(toAuditSnapshot(node), {}),
+                message: "URL no longer in sheet (deleteOrphaned)",
+            });
+        } catch (error: any) {
+            console.error(`❌ Failed to delete URL:`, node.url, error.message);
+        }
+    }
+
+    result.errors.sort((a, b) => a.row - b.row);
+    return result;
+}
+
+export interface SheetSyncRunOptions {
+    deleteOrphaned: boolean;
+    dryRun?: boolean;
+    force?: boolean;            // Apply even when deleteBlocked
+    actor: string;
+}
+
+/**
+ * Fetch, plan and (unless dryRun or blocked) apply a sync of one sheet
+ * Requires a DB connection; `result` is unset when nothing was applied
+ */
+export async function runSheetSync(
+    target: { sheets: GoogleSheetsService; mapping: SheetColumnMapping; defaultGroup?: NodeGroup; sourceId?: string },
+    options: SheetSyncRunOptions
+): Promise<{ plan: SheetSyncPlan; result?: SheetSyncResult; blocked: boolean }> {
+    const { urls, errors } = await target.sheets.fetchMonitoringUrls(target.mapping, target.defaultGroup);
+    const existingNodes = await NodeModel.find({}).lean();
+
+    const { plan, actions } = planSheetSync(urls, existingNodes, target.mapping, errors, {
+        deleteOrphaned: options.deleteOrphaned,
+        sourceId: target.sourceId,
+    });
+
+    if (options.dryRun) {
+        return { plan, blocked: false };
+    }
+    if (plan.deleteBlocked && !options.force) {
+        return { plan, blocked: true };
+    }
+
+    const result = await applySheetSync(plan, actions, options.actor);
+    return { plan, result, blocked: false };
+}
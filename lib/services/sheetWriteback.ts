@@ -0,0 +1,220 @@
+import CheckRunStateModel from "@/lib/db/models/CheckRunState";
+import { claimThrottledRun } from "@/lib/monitoring/checkRunner";
+import NodeModel from "@/lib/db/models/Node";
+import SheetSourceModel from "@/lib/db/models/SheetSource";
+import { GoogleSheetsService, googleSheetsService, isQuotaError } from "./googleSheets";
+import {
+    columnIndexToLetter,
+    DEFAULT_SHEET_COLUMN_MAPPING,
+    loadColumnMapping,
+    resolveColumns,
+    SHEET_STATUS_FIELDS,
+} from "./sheetMapping";
+import { normalizeURL } from "@/lib/utils/validation";
+import { INode, SheetColumnField, SheetColumnMapping } from "@/types";
+import { logger } from "@/lib/utils/logger";
+
+/**
+ * Google Sheets Status Write-back
+ * BACKEND ONLY - Writes node status into the sheet the nodes came from
+ *
+ * After a check run, the status columns of the mapping (status, lastChecked,
+ * latency, lastError) are written on each node's `sheetRow` in one
+ * values.batchUpdate. A row is only written while its URL cell still matches
+ * the node, so moved rows wait for the next sync to update `sheetRow`.
+ * Nodes are written to the sheet they were synced from: the GOOGLE_SPREADSHEET_ID
+ * sheet, or their enabled sheet source (`sheetSourceId`, see sheetSources.ts).
+ *
+ * Runs at most every GOOGLE_SHEET_WRITEBACK_INTERVAL_SECONDS (shared through
+ * check_run_state, so serverless instances do not each write) and backs off
+ * when the Sheets API reports a quota error.
+ */
+
+const RUN_KEY = "sheets-writeback";
+
+const QUOTA_BACKOFF_MS = 5 * 60 * 1000;
+
+export type StatusNode = Pick<INode, "url" | "status" | "lastChecked" | "latency" | "statusMessage" | "sheetRow">;
+
+interface WritebackTarget {
+    label: string;
+    sheets: GoogleSheetsService;
+    mapping: SheetColumnMapping;
+    sheetSourceId: unknown;     // null = GOOGLE_SPREADSHEET_ID sheet
+}
+
+export interface SheetWritebackResult {
+    written: number;        // Rows written
+    mismatched: number;     // Rows skipped because the URL cell no longer matches
+    skipped?: "disabled" | "throttled" | "no_columns" | "no_rows" | "error";
+}
+
+export function isSheetWritebackEnabled(): boolean {
+    return process.env.GOOGLE_SHEET_WRITEBACK === "true";
+}
+
+export function getWritebackIntervalMs(): number {
+    const value = parseInt(process.env.GOOGLE_SHEET_WRITEBACK_INTERVAL_SECONDS || "", 10);
+    return (Number.isFinite(value) && value >= 10 ? value : 60) * 1000;
+}
+
+/**
+ * Cell value of a status field
+ */
+export function formatStatusValue(node: StatusNode, field: SheetColumnField): string | number {
+    switch (field) {
+        case "status":
+            return node.status;
+        case "lastChecked":
+            return node.lastChecked ? new Date(node.lastChecked).toISOString() : "";
+        case "latency":
+            return node.latency ?? "";
+        case "lastError":
+            return node.status === "STABLE" || node.status === "FRESH" ? "" : node.statusMessage || "";
+        default:
+            return "";
+    }
+}
+
+/**
+ * Ranges to write for the nodes whose sheet row still holds their URL
+ *
+ * @param columns - Column index of the status fields (and url)
+ * @param urlCells - URL column of the sheet, index 0 = row 1
+ */
+export function buildStatusUpdates(
+    nodes: StatusNode[],
+    columns: Partial<Record<SheetColumnField, number>>,
+    urlCells: string[]
+): { data: { range: string; values: (string | number)[][] }[]; rows: number; mismatched: number } {
+    const statusColumns = SHEET_STATUS_FIELDS.filter((field) => columns[field] !== undefined);
+    const data: { range: string; values: (string | number)[][] }[] = [];
+    let rows = 0;
+    let mismatched = 0;
+
+    for (const node of nodes) {
+        if (!node.sheetRow) continue;
+
+        const urlCell = String(urlCells[node.sheetRow - 1] ?? "").trim();
+        if (!urlCell || normalizeURL(urlCell) !== normalizeURL(node.url)) {
+            mismatched++;
+            continue;
+        }
+
+        for (const field of statusColumns) {
+            data.push({
+                range: `${columnIndexToLetter(columns[field]!)}${node.sheetRow}`,
+                values: [[formatStatusValue(node, field)]],
+            });
+        }
+        rows++;
+    }
+
+    return { data, rows, mismatched };
+}
+
+/**
+ * The GOOGLE_SPREADSHEET_ID sheet and every enabled sheet source
+ */
+async function loadWritebackTargets(): Promise<WritebackTarget[]> {
+    const { mapping } = await loadColumnMapping();
+    const sources = await SheetSourceModel.find({ enabled: true }).lean();
+
+    return [
+        { label: "GOOGLE_SPREADSHEET_ID", sheets: googleSheetsService, mapping, sheetSourceId: null },
+        ...sources.map((source) => ({
+            label: source.name,
+            sheets: new GoogleSheetsService({ spreadsheetId: source.spreadsheetId, sheetName: source.sheetName }),
+            mapping: Object.keys(source.columnMapping || {}).length > 0 ? source.columnMapping : DEFAULT_SHEET_COLUMN_MAPPING,
+            sheetSourceId: source._id,
+        })),
+    ];
+}
+
+/**
+ * Write the nodes of one sheet, or the reason there was nothing to write
+ */
+async function writeTarget(target: WritebackTarget): Promise<{ rows: number; mismatched: number } | "no_rows" | "no_columns"> {
+    const nodes = await NodeModel.find({ sheetSourceId: target.sheetSourceId, sheetRow: { $gt: 1 } })
+        .select("url status lastChecked latency statusMessage sheetRow")
+        .lean();
+    if (nodes.length === 0) {
+        return "no_rows";
+    }
+
+    if (!SHEET_STATUS_FIELDS.some((field) => target.mapping[field])) {
+        logger.warn('Sheet write-back is enabled but no status columns are mapped', { sheet: target.label });
+        return "no_columns";
+    }
+
+    // One read for headers and URL cells, one write for all rows
+    const [values] = await target.sheets.readRanges(["A1:ZZ"]);
+    const columns = resolveColumns(values[0] || [], target.mapping);
+    const urlCells = values.map((row) => row[columns.url!]);
+
+    const { data, rows, mismatched } = buildStatusUpdates(nodes, columns, urlCells);
+    if (mismatched > 0) {
+        logger.warn('Sheet rows no longer match their nodes, run a sync to update them', { sheet: target.label, mismatched });
+    }
+    if (data.length > 0) {
+        await target.sheets.writeRanges(data);
+    }
+
+    return { rows, mismatched };
+}
+
+/**
+ * Write the current status of sheet nodes back to their sheets
+ * Never throws - the check run must not fail because of a sheet
+ */
+export async function writeStatusToSheet(now: Date = new Date()): Promise<SheetWritebackResult> {
+    if (!isSheetWritebackEnabled()) {
+        return { written: 0, mismatched: 0, skipped: "disabled" };
+    }
+
+    try {
+        if (!(await claimThrottledRun(RUN_KEY, now, new Date(now.getTime() + getWritebackIntervalMs())))) {
+            return { written: 0, mismatched: 0, skipped: "throttled" };
+        }
+
+        const result: SheetWritebackResult = { written: 0, mismatched: 0 };
+        const skipped = new Set<string>();
+        let failed = 0;
+
+        for (const target of await loadWritebackTargets()) {
+            try {
+                const written = await writeTarget(target);
+                if (typeof written === "string") {
+                    skipped.add(written);
+                    continue;
+                }
+                result.written += written.rows;
+                result.mismatched += written.mismatched;
+            } catch (error: any) {
+                // Quota is per project, so a quota error pauses every sheet
+                if (isQuotaError(error)) throw error;
+                logger.error('Failed to write status to sheet', error, { sheet: target.label });
+                failed++;
+            }
+        }
+
+        if (failed > 0 && result.written === 0) {
+            return { ...result, skipped: "error" };
+        }
+        if (result.written === 0 && result.mismatched === 0 && skipped.size > 0) {
+            return { ...result, skipped: skipped.has("no_columns") ? "no_columns" : "no_rows" };
+        }
+        return result;
+    } catch (error: any) {
+        if (isQuotaError(error)) {
+            logger.warn('Sheets API quota reached, pausing status write-back', { backoffMs: QUOTA_BACKOFF_MS });
+            await CheckRunStateModel.updateOne(
+                { key: RUN_KEY },
+                { $set: { nextRunAt: new Date(now.getTime() + QUOTA_BACKOFF_MS) } }
+            ).catch(() => { /* retried on the next run */ });
+        } else {
+            logger.error('Failed to write status to sheet', error);
+        }
+        return { written: 0, mismatched: 0, skipped: "error" };
+    }
+}
@@ -8,7 +8,7 @@
 
 import { NextResponse } from 'next/server';
 import { logger } from './logger';
-import { APIError } from '@/lib/hooks/useNodeData';
+import { APIError } from '@/types';
 
 /**
  * Standard API Response Format
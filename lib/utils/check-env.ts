@@ -17,6 +17,8 @@
  * @see .env.example
  */
 
+import { parseMasterKeys } from '../security/credentials';
+
 /**
  * Environment Variable Configuration
  * Defines required and optional variables with validation rules
@@ -49,8 +51,8 @@ const ENV_CONFIG: EnvVarConfig[] = [
     },
     {
         name: 'NEXTAUTH_SECRET',
-        required: false, // Only required if auth is enabled
-        description: 'NextAuth secret key for JWT signing',
+        required: false, // AUTH_SECRET is accepted as an alias
+        description: 'NextAuth secret key for signing login sessions',
         validator: (value) => {
             if (value && value.length < 32) {
                 return {
@@ -75,6 +77,45 @@ const ENV_CONFIG: EnvVarConfig[] = [
             return { valid: true };
         },
     },
+    {
+        name: 'CREDENTIAL_ENCRYPTION_KEYS',
+        required: false, // Credentials are stored in plaintext without it
+        description: 'Master keys for encrypting node credentials (id:key, active first)',
+        validator: (value) => {
+            try {
+                parseMasterKeys(value);
+                return { valid: true };
+            } catch (error: any) {
+                return { valid: false, error: error.message };
+            }
+        },
+    },
+
+    {
+        name: 'AUTH_ADMIN_USERNAME',
+        required: false,
+        description: 'Initial admin username, created while no user exists',
+    },
+    {
+        name: 'AUTH_ADMIN_PASSWORD',
+        required: false,
+        description: 'Initial admin password',
+        validator: (value) => {
+            if (value && value.length < 8) {
+                return {
+                    valid: false,
+                    error: 'Must be at least 8 characters',
+                };
+            }
+            return { valid: true };
+        },
+    },
+    {
+        name: 'AUTH_DISABLED',
+        required: false,
+        description: 'Skip login and role checks (development only)',
+        default: 'false',
+    },
 
     // ============================================
     // 🟡 RECOMMENDED VARIABLES (WARNING IF MISSING)
@@ -153,6 +194,139 @@ const ENV_CONFIG: EnvVarConfig[] = [
         description: 'Health check timeout in milliseconds',
         default: '10000',
     },
+    {
+        name: 'CHECK_RESULT_RETENTION_DAYS',
+        required: false,
+        description: 'Retention of raw check results in days',
+        default: '30',
+    },
+    {
+        name: 'CHECK_ROLLUP_HOURLY_RETENTION_DAYS',
+        required: false,
+        description: 'Retention of hourly check rollups in days',
+        default: '90',
+    },
+    {
+        name: 'CHECK_ROLLUP_DAILY_RETENTION_DAYS',
+        required: false,
+        description: 'Retention of daily check rollups in days',
+        default: '400',
+    },
+    {
+        name: 'STATUS_FAILURE_THRESHOLD',
+        required: false,
+        description: 'Consecutive failed checks before a node goes DOWN',
+        default: '1',
+    },
+    {
+        name: 'STATUS_RECOVERY_THRESHOLD',
+        required: false,
+        description: 'Consecutive successful checks before a DOWN node recovers',
+        default: '1',
+    },
+    {
+        name: 'FLAP_DETECTION_WINDOW',
+        required: false,
+        description: 'Number of recent checks used for flap detection',
+        default: '10',
+    },
+    {
+        name: 'FLAP_DETECTION_THRESHOLD',
+        required: false,
+        description: 'Up/down changes within the window that mark a node FLAPPING (0 = disabled)',
+        default: '0',
+    },
+    {
+        name: 'CRON_SECRET',
+        required: false, // POST /api/cron/check refuses every request without it
+        description: 'Bearer token of the cron job calling POST /api/cron/check',
+    },
+    {
+        name: 'CHECK_HTTP_CONCURRENCY',
+        required: false,
+        description: 'Parallel HTTP checks per scheduled run',
+        default: '10',
+    },
+    {
+        name: 'CHECK_BROWSER_CONCURRENCY',
+        required: false,
+        description: 'Parallel browser (BROWSER_LOGIN) checks per scheduled run',
+        default: '2',
+    },
+    {
+        name: 'CHECK_PER_HOST_INTERVAL_MS',
+        required: false,
+        description: 'Minimum delay between checks against the same host',
+        default: '1000',
+    },
+    {
+        name: 'CHECK_TIME_BUDGET_MS',
+        required: false,
+        description: 'Time budget of a scheduled run before it stops and resumes on the next run',
+        default: '55000',
+    },
+    {
+        name: 'CHECK_POST_RUN_RESERVE_MS',
+        required: false,
+        description: 'Part of the budget kept for sheet syncs, rollups and pruning after the checks',
+        default: '5000',
+    },
+    {
+        name: 'CHECK_BROWSER_TIMEOUT_MS',
+        required: false,
+        description: 'Total time of one browser check (login, stabilization wait, transaction)',
+        default: '35000',
+    },
+    {
+        name: 'CHECK_HTTP_RESERVE_MS',
+        required: false,
+        description: 'Budget an HTTP check must still fit in before it is started (at least its 15s timeout)',
+        default: '15000',
+    },
+    {
+        name: 'CHECK_BROWSER_RESERVE_MS',
+        required: false,
+        description: 'Budget a browser check must still fit in before it is started (at least its timeout plus 12s for failure captures)',
+        default: '47000',
+    },
+    {
+        name: 'CHECK_DEFAULT_INTERVAL_SECONDS',
+        required: false,
+        description: 'Default interval between checks of a node (overridable per node)',
+        default: '60',
+    },
+    {
+        name: 'CHECK_SCHEDULER_ENABLED',
+        required: false,
+        description: 'Run the in-process check scheduler (self-hosted deployments)',
+        default: 'false',
+    },
+    {
+        name: 'CHECK_SCHEDULER_TICK_MS',
+        required: false,
+        description: 'How often the in-process scheduler looks for due nodes',
+        default: '10000',
+    },
+    {
+        name: 'CHECK_ON_READ',
+        required: false,
+        description: 'Check due nodes from dashboard reads (never with the in-process scheduler)',
+        default: 'on without CRON_SECRET',
+    },
+    {
+        name: 'NOTIFICATION_CHANNELS',
+        required: false,
+        description: 'Outbound notification channels as JSON array (optional feature)',
+        validator: (value) => {
+            try {
+                return Array.isArray(JSON.parse(value))
+                    ? { valid: true }
+                    : { valid: false, error: 'Must be a JSON array' };
+            } catch {
+                return { valid: false, error: 'Must be valid JSON' };
+            }
+        },
+    },
     {
         name: 'PORT',
         required: false,
@@ -12,6 +12,22 @@ export function formatLatency(ms: number): string {
     return `${(ms / 1000).toFixed(2)}s`;
 }
 
+/**
+ * Format a duration (ms) for display, e.g. "2h 15m"
+ */
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+}
+
 /**
  * Format timestamp for display
  */
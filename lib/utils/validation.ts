@@ -197,6 +197,78 @@ export function validateDependencies(dependencies?: string[]): ValidationResult
     return { valid: true };
 }
 
+/**
+ * Tag format: lowercase letters, digits, dot, dash, underscore
+ */
+export const TAG_PATTERN = /^[a-z0-9][a-z0-9._-]{0,31}$/;
+export const MAX_TAGS = 20;
+
+/**
+ * Validate node tags (case-insensitive, stored lowercase)
+ * 
+ * @param tags - Array of tag strings
+ * @returns Validation result
+ * 
+ * @example
+ * validateTags(['payments', 'eu-west']) // { valid: true }
+ * validateTags(['has space']) // { valid: false, error: 'Invalid tag: has space' }
+ */
+export function validateTags(tags?: unknown): ValidationResult {
+    if (tags === undefined || tags === null) {
+        return { valid: true };
+    }
+
+    if (!Array.isArray(tags)) {
+        return { valid: false, error: 'Tags must be an array of strings' };
+    }
+
+    if (tags.length > MAX_TAGS) {
+        return { valid: false, error: `At most ${MAX_TAGS} tags are allowed` };
+    }
+
+    for (const tag of tags) {
+        if (typeof tag !== 'string' || !TAG_PATTERN.test(tag.trim().toLowerCase())) {
+            return {
+                valid: false,
+                error: `Invalid tag: ${tag} (use letters, digits, . _ -, max 32 characters)`
+            };
+        }
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Normalize tags for storage (trimmed, lowercase, unique)
+ */
+export function normalizeTags(tags: string[]): string[] {
+    return Array.from(new Set(tags.map((tag) => tag.trim().toLowerCase())));
+}
+
+export const MAX_OWNER_LENGTH = 100;
+
+/**
+ * Validate node owner (free text, e.g. a person or team)
+ * 
+ * @param owner - Owner string
+ * @returns Validation result
+ */
+export function validateOwner(owner?: unknown): ValidationResult {
+    if (owner === undefined || owner === null || owner === '') {
+        return { valid: true };
+    }
+
+    if (typeof owner !== 'string') {
+        return { valid: false, error: 'Owner must be a string' };
+    }
+
+    if (owner.trim().length > MAX_OWNER_LENGTH) {
+        return { valid: false, error: `Owner must be at most ${MAX_OWNER_LENGTH} characters` };
+    }
+
+    return { valid: true };
+}
+
 /**
  * Comprehensive node validation
  * Validates all fields of a node creation request
@@ -209,6 +281,8 @@ export function validateNodeData(data: {
     url?: string;
     group?: string;
     dependencies?: string[];
+    tags?: unknown;
+    owner?: unknown;
 }): ValidationResult {
     // Validate name
     const nameValidation = validateNodeName(data.name || '');
@@ -234,6 +308,18 @@ export function validateNodeData(data: {
         return depsValidation;
     }
 
+    // Validate tags
+    const tagsValidation = validateTags(data.tags);
+    if (!tagsValidation.valid) {
+        return tagsValidation;
+    }
+
+    // Validate owner
+    const ownerValidation = validateOwner(data.owner);
+    if (!ownerValidation.valid) {
+        return ownerValidation;
+    }
+
     return { valid: true };
 }
 
@@ -0,0 +1,56 @@
+import NextAuth from "next-auth";
+import { NextResponse } from "next/server";
+import { authConfig } from "./auth.config";
+import { hasRole, isAuthDisabled, requiredAccess } from "@/lib/auth/roles";
+
+/**
+ * Route Guard
+ * Enforces login and roles for every page and /api/* route
+ * (access rules: lib/auth/roles.ts)
+ *
+ * - API: 401 without a session, 403 with an insufficient role
+ * - Pages: redirect to /login, or to the dashboard when the role is insufficient
+ */
+
+const { auth } = NextAuth(authConfig);
+
+export default auth((request) => {
+    if (isAuthDisabled()) {
+        return NextResponse.next();
+    }
+
+    const { pathname } = request.nextUrl;
+    const access = requiredAccess(pathname, request.method);
+    if (access === "public") {
+        return NextResponse.next();
+    }
+
+    const user = request.auth?.user;
+    const isApi = pathname.startsWith("/api/");
+
+    if (!user) {
+        if (isApi) {
+            return NextResponse.json({ success: false, error: "Authentication required" }, { status: 401 });
+        }
+        const loginUrl = new URL("/login", request.nextUrl);
+        loginUrl.searchParams.set("callbackUrl", `${pathname}${request.nextUrl.search}`);
+        return NextResponse.redirect(loginUrl);
+    }
+
+    if (!hasRole(user.role, access)) {
+        if (isApi) {
+            return NextResponse.json(
+                { success: false, error: `Requires ${access} role` },
+                { status: 403 }
+            );
+        }
+        return NextResponse.redirect(new URL("/dashboard", request.nextUrl));
+    }
+
+    return NextResponse.next();
+});
+
+export const config = {
+    // Everything except Next.js assets and static files
+    matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|ico|webp|glb|gltf|hdr|mp3|wav)$).*)"],
+};
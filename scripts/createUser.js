@@ -0,0 +1,94 @@
+/* eslint-disable no-console */
+/**
+ * Create or update a dashboard user
+ *
+ * Usage:
+ *   node scripts/createUser.js <username> <password> [viewer|operator|admin]
+ *
+ * An existing user gets the new password and role. The hash format must
+ * match lib/auth/password.ts
+ */
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const mongoose = require("mongoose");
+
+const ROLES = ["viewer", "operator", "admin"];
+const COST = 16384;
+const KEY_LENGTH = 64;
+const PASSWORD_MIN_LENGTH = 8;
+
+function parseEnvFile(envPath) {
+    const content = fs.readFileSync(envPath, "utf8");
+    const lines = content.split(/\r?\n/);
+    const env = {};
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith("#")) continue;
+        const eqIndex = trimmed.indexOf("=");
+        if (eqIndex === -1) continue;
+        const key = trimmed.slice(0, eqIndex).trim();
+        let value = trimmed.slice(eqIndex + 1).trim();
+        if ((value.startsWith("\"") && value.endsWith("\"")) || (value.startsWith("'") && value.endsWith("'"))) {
+            value = value.slice(1, -1);
+        }
+        env[key] = value;
+    }
+
+    return env;
+}
+
+function hashPassword(password) {
+    const salt = crypto.randomBytes(16);
+    const hash = crypto.scryptSync(password, salt, KEY_LENGTH, { N: COST });
+    return `scrypt$${COST}$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+async function main() {
+    const [rawUsername, password, role = "viewer"] = process.argv.slice(2);
+    const username = (rawUsername || "").trim().toLowerCase();
+
+    if (!username || !password) {
+        throw new Error("Usage: node scripts/createUser.js <username> <password> [viewer|operator|admin]");
+    }
+    if (!/^[a-z0-9._@-]{3,64}$/.test(username)) {
+        throw new Error("Username must be 3-64 characters: letters, digits, . _ @ -");
+    }
+    if (password.length < PASSWORD_MIN_LENGTH) {
+        throw new Error(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+    }
+    if (!ROLES.includes(role)) {
+        throw new Error(`Role must be one of: ${ROLES.join(", ")}`);
+    }
+
+    const root = path.join(__dirname, "..");
+    const envPath = path.join(root, ".env.local");
+    const env = fs.existsSync(envPath) ? parseEnvFile(envPath) : {};
+
+    const uri = env.MONGODB_URI || process.env.MONGODB_URI;
+    if (!uri) {
+        throw new Error("MONGODB_URI is missing. Please set it in .env.local");
+    }
+
+    await mongoose.connect(uri, { bufferCommands: false });
+
+    const now = new Date();
+    const result = await mongoose.connection.collection("users").updateOne(
+        { username },
+        {
+            $set: { passwordHash: hashPassword(password), role, disabled: false, updatedAt: now },
+            $setOnInsert: { username, createdAt: now },
+        },
+        { upsert: true }
+    );
+
+    console.log(`${result.upsertedCount > 0 ? "Created" : "Updated"} user "${username}" (${role})`);
+
+    await mongoose.disconnect();
+}
+
+main().catch((err) => {
+    console.error("Create user failed:", err.message);
+    process.exit(1);
+});
@@ -0,0 +1,180 @@
+/* eslint-disable no-console */
+/**
+ * Encrypt node credentials (and transaction fill values) at rest
+ *
+ * Usage:
+ *   node scripts/encryptCredentials.js             # encrypt plaintext secrets
+ *   node scripts/encryptCredentials.js --rotate    # also re-wrap secrets under the active key
+ *   node scripts/encryptCredentials.js --dry-run   # only report what would change
+ *
+ * Keys come from CREDENTIAL_ENCRYPTION_KEYS (.env.local or environment),
+ * active key first: "v2:<base64>,v1:<base64>". When rotating, keep the old
+ * key in the list until this script has run, then it can be removed.
+ *
+ * The envelope format must match lib/security/credentials.ts, the fill value
+ * references must match lib/monitoring/transactions.ts
+ */
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const mongoose = require("mongoose");
+
+const SECRET_FIELDS = ["password", "token", "headerValue"];
+const FILL_VALUE_REFERENCE = /^\{(?:(username|password|token|headerValue)|env:([A-Za-z_][A-Za-z0-9_]*))\}$/;
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function parseEnvFile(envPath) {
+    const content = fs.readFileSync(envPath, "utf8");
+    const lines = content.split(/\r?\n/);
+    const env = {};
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith("#")) continue;
+        const eqIndex = trimmed.indexOf("=");
+        if (eqIndex === -1) continue;
+        const key = trimmed.slice(0, eqIndex).trim();
+        let value = trimmed.slice(eqIndex + 1).trim();
+        if ((value.startsWith("\"") && value.endsWith("\"")) || (value.startsWith("'") && value.endsWith("'"))) {
+            value = value.slice(1, -1);
+        }
+        env[key] = value;
+    }
+
+    return env;
+}
+
+function parseMasterKeys(value) {
+    if (!value || !value.trim()) return [];
+
+    return value.split(",").map((entry, index) => {
+        const separator = entry.indexOf(":");
+        const id = separator > 0 ? entry.slice(0, separator).trim() : "default";
+        const raw = (separator > 0 ? entry.slice(separator + 1) : entry).trim();
+        const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+
+        if (key.length !== 32) {
+            throw new Error(`CREDENTIAL_ENCRYPTION_KEYS entry ${index + 1} must be 32 bytes (base64 or 64 hex characters)`);
+        }
+        return { id, key };
+    });
+}
+
+function seal(key, plaintext) {
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+}
+
+function open(key, sealed) {
+    const data = Buffer.from(sealed, "base64");
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_BYTES));
+    decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function encrypt(value, active) {
+    const dataKey = crypto.randomBytes(32);
+    return `${PREFIX}${active.id}:${seal(active.key, dataKey)}:${seal(dataKey, Buffer.from(value, "utf8"))}`;
+}
+
+function rewrap(value, keys) {
+    const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+    const master = keys.find((key) => key.id === keyId);
+    if (!master) {
+        throw new Error(`Master key "${keyId}" is not configured`);
+    }
+    const dataKey = open(master.key, wrappedKey);
+    return `${PREFIX}${keys[0].id}:${seal(keys[0].key, dataKey)}:${ciphertext}`;
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const dryRun = args.includes("--dry-run");
+    const rotate = args.includes("--rotate");
+
+    const root = path.join(__dirname, "..");
+    const envPath = path.join(root, ".env.local");
+    const env = fs.existsSync(envPath) ? parseEnvFile(envPath) : {};
+
+    const uri = env.MONGODB_URI || process.env.MONGODB_URI;
+    if (!uri) {
+        throw new Error("MONGODB_URI is missing. Please set it in .env.local");
+    }
+
+    const keys = parseMasterKeys(env.CREDENTIAL_ENCRYPTION_KEYS || process.env.CREDENTIAL_ENCRYPTION_KEYS);
+    if (keys.length === 0) {
+        throw new Error("CREDENTIAL_ENCRYPTION_KEYS is missing. Generate a key with: node -e \"console.log(require('crypto').randomBytes(32).toString('base64'))\"");
+    }
+
+    await mongoose.connect(uri, { bufferCommands: false });
+
+    const collection = mongoose.connection.collection("nodes");
+    const nodes = await collection.find({
+        $or: [{ authConfig: { $exists: true } }, { "transaction.steps": { $exists: true } }],
+    }).toArray();
+    const counts = { nodes: 0, encrypted: 0, rewrapped: 0, failed: 0 };
+
+    // Encrypted or re-wrapped value, undefined when it stays as it is
+    const secure = (value, label) => {
+        try {
+            if (!value.startsWith(PREFIX)) {
+                counts.encrypted++;
+                return encrypt(value, keys[0]);
+            }
+            if (rotate && !value.startsWith(`${PREFIX}${keys[0].id}:`)) {
+                counts.rewrapped++;
+                return rewrap(value, keys);
+            }
+        } catch (err) {
+            counts.failed++;
+            console.error(`✗ ${label}: ${err.message}`);
+        }
+        return undefined;
+    };
+
+    for (const node of nodes) {
+        const update = {};
+
+        for (const field of SECRET_FIELDS) {
+            const value = node.authConfig && node.authConfig[field];
+            if (typeof value !== "string" || !value) continue;
+
+            const next = secure(value, `${node.name} (${field})`);
+            if (next !== undefined) update[`authConfig.${field}`] = next;
+        }
+
+        const steps = (node.transaction && node.transaction.steps) || [];
+        steps.forEach((step, index) => {
+            const value = step && step.action === "fill" ? step.value : undefined;
+            if (typeof value !== "string" || !value || FILL_VALUE_REFERENCE.test(value)) return;
+
+            const next = secure(value, `${node.name} (transaction step ${index + 1})`);
+            if (next !== undefined) update[`transaction.steps.${index}.value`] = next;
+        });
+
+        if (Object.keys(update).length === 0) continue;
+
+        counts.nodes++;
+        console.log(`${dryRun ? "[dry-run] " : ""}${node.name}: ${Object.keys(update).join(", ")}`);
+        if (!dryRun) {
+            await collection.updateOne({ _id: node._id }, { $set: update });
+        }
+    }
+
+    console.log(`\n${dryRun ? "Would update" : "Updated"} ${counts.nodes} node(s): ${counts.encrypted} encrypted, ${counts.rewrapped} re-wrapped, ${counts.failed} failed`);
+
+    await mongoose.disconnect();
+
+    if (counts.failed > 0) {
+        process.exit(1);
+    }
+}
+
+main().catch((err) => {
+    console.error("Credential encryption failed:", err.message);
+    process.exit(1);
+});
@@ -0,0 +1,146 @@
+/* eslint-disable no-console */
+/**
+ * Monitoring configuration file: plan / apply / export
+ *
+ * Usage (tsx is a devDependency):
+ *   npm run config:plan -- config/monitoring.yaml [--prune]
+ *   npm run config:apply -- config/monitoring.yaml [--prune] [--yes]
+ *   npm run config:export -- config/monitoring.yaml [--format json]
+ *
+ * MONGODB_URI and the { env: NAME } secrets come from .env.local or the
+ * environment. Changes are recorded in the audit log with source "config"
+ * and the OS user as actor. See lib/services/monitoringConfig.ts for the format.
+ */
+import fs from "fs";
+import os from "os";
+import readline from "readline";
+import mongoose from "mongoose";
+import { loadEnvConfig } from "@next/env";
+import { connectDB } from "../lib/db/mongoose";
+import {
+    applyMonitoringConfig,
+    exportMonitoringConfig,
+    loadConfigState,
+    parseMonitoringConfig,
+    planMonitoringConfig,
+    stringifyMonitoringConfig,
+    validateMonitoringConfig,
+} from "../lib/services/monitoringConfig";
+import { AuditChange, ConfigPlan } from "../types";
+
+const USAGE = "Usage: npm run config:<plan|apply|export> -- <file> [--prune] [--yes] [--format json]";
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) return "-";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function printChanges(changes: AuditChange[]) {
+    for (const change of changes) {
+        console.log(`      ${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+    }
+}
+
+function printPlan(plan: ConfigPlan) {
+    for (const node of plan.creates) {
+        console.log(`  + ${node.name} (${node.group}) ${node.url}`);
+    }
+    for (const node of plan.updates) {
+        console.log(`  ~ ${node.name}`);
+        printChanges(node.changes);
+    }
+    for (const node of plan.deletes) {
+        console.log(`  - ${node.name} ${node.url}`);
+    }
+    for (const group of plan.groupUpdates) {
+        console.log(`  ~ group ${group.group}`);
+        printChanges(group.changes);
+    }
+    for (const group of plan.groupDeletes) {
+        console.log(`  - group ${group.group}`);
+    }
+
+    console.log(
+        `\nPlan: ${plan.creates.length} to create, ${plan.updates.length} to update, ${plan.deletes.length} to delete, ` +
+        `${plan.groupUpdates.length + plan.groupDeletes.length} group change(s), ${plan.unchanged} unchanged`
+    );
+
+    if (plan.errors.length > 0) {
+        console.log(`\n❌ ${plan.errors.length} error(s):`);
+        for (const error of plan.errors) {
+            console.log(`  ${error.path || "(file)"}: ${error.message}`);
+        }
+    }
+}
+
+function confirm(question: string): Promise<boolean> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    return new Promise((resolve) => {
+        rl.question(question, (answer) => {
+            rl.close();
+            resolve(answer.trim().toLowerCase() === "yes");
+        });
+    });
+}
+
+async function main(): Promise<number> {
+    const [command, file] = process.argv.slice(2);
+    const flags = process.argv.slice(2);
+    const prune = flags.includes("--prune");
+    const format = flags.includes("--format") && flags[flags.indexOf("--format") + 1] === "json" ? "json" : "yaml";
+
+    if (!["plan", "apply", "export"].includes(command) || !file) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    loadEnvConfig(process.cwd());
+    await connectDB();
+
+    if (command === "export") {
+        fs.writeFileSync(file, stringifyMonitoringConfig(await exportMonitoringConfig(), format));
+        console.log(`📤 Exported configuration to ${file}`);
+        console.log("   Set the { env: NAME } variables it references before applying it elsewhere.");
+        return 0;
+    }
+
+    const { config, errors } = validateMonitoringConfig(parseMonitoringConfig(fs.readFileSync(file, "utf8")));
+    const { plan, actions } = planMonitoringConfig(config, await loadConfigState(), { prune, errors });
+
+    console.log(`📋 ${file}${prune ? " (prune)" : ""}\n`);
+    printPlan(plan);
+
+    if (plan.errors.length > 0) {
+        return 1;
+    }
+    const total = plan.creates.length + plan.updates.length + plan.deletes.length
+        + plan.groupUpdates.length + plan.groupDeletes.length;
+    if (command === "plan" || total === 0) {
+        return 0;
+    }
+
+    if (!flags.includes("--yes") && !(await confirm("\nApply these changes? Type 'yes' to continue: "))) {
+        console.log("Cancelled, nothing was applied");
+        return 1;
+    }
+
+    const result = await applyMonitoringConfig(plan, actions, { actor: os.userInfo().username, source: "config" });
+    console.log(
+        `\n✅ Created ${result.created}, updated ${result.updated}, deleted ${result.deleted} node(s), ` +
+        `${result.groupsUpdated + result.groupsDeleted} group change(s)`
+    );
+    for (const error of result.errors) {
+        console.log(`  ❌ ${error.path}: ${error.message}`);
+    }
+    return result.errors.length > 0 ? 1 : 0;
+}
+
+main()
+    .then((code) => {
+        process.exitCode = code;
+    })
+    .catch((error) => {
+        console.error(`❌ ${error.message}`);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -19,6 +19,9 @@ const config: Config = {
                     fresh: "#00FF94",
                     warning: "#FFD600",
                     down: "#FF4842",
+                    flapping: "#FF8A00",
+                    maintenance: "#A78BFA",
+                    degraded: "#FB7185",
                 },
             },
             animation: {
@@ -3,14 +3,141 @@ import { ObjectId } from "mongoose";
 /**
  * Node Status Types
  * Backend-determined status based on health checks
+ * MAINTENANCE: inside a maintenance window, checks run but do not alert
  */
-export type NodeStatus = "STABLE" | "FRESH" | "WARNING" | "DOWN";
+export type NodeStatus =
+    | "STABLE"
+    | "FRESH"
+    | "WARNING"
+    | "DOWN"
+    | "FLAPPING"
+    | "MAINTENANCE"
+    | "DEGRADED_BY_DEPENDENCY";
+
+/**
+ * Status Policy
+ * Per-node confirmation and flap detection settings
+ */
+export interface StatusPolicy {
+    failureThreshold: number;   // Consecutive failed checks before DOWN
+    recoveryThreshold: number;  // Consecutive successful checks before leaving DOWN
+    flapWindow: number;         // Number of recent checks considered for flap detection
+    flapThreshold: number;      // Up/down changes within the window that mark FLAPPING (0 = disabled)
+}
+
+/**
+ * Check Policy
+ * Rules that turn an HTTP response into a status (per node, per group, or defaults)
+ */
+export type CheckMethod = "HEAD" | "GET";
+
+export interface CheckPolicy {
+    expectedStatusCodes: string[];  // Healthy codes: "200", "200-299" or "2xx"
+    warningLatencyMs: number;       // Slower than this = WARNING
+    downLatencyMs: number;          // Slower than this = DOWN (0 = disabled)
+    method: CheckMethod;            // HEAD falls back to GET when the server rejects it
+}
+
+/**
+ * Content Assertions
+ * Optional per-node checks on the response body and headers
+ * Any failure marks the check with `failureStatus` (default DOWN)
+ */
+export interface JsonPathAssertion {
+    path: string;                                  // e.g. $.status or $.checks[0].ok
+    exists?: boolean;                              // Default true
+    equals?: string | number | boolean | null;
+}
+
+export interface HeaderAssertion {
+    name: string;
+    value?: string;                                // Exact match (omit to only require presence)
+}
+
+export interface ContentAssertions {
+    bodyContains?: string[];
+    bodyNotContains?: string[];
+    bodyRegex?: string;                            // "pattern" or "/pattern/flags"
+    jsonPath?: JsonPathAssertion[];                // api group only
+    jsonSchema?: Record<string, unknown>;          // api group only
+    maxBodyBytes?: number;
+    requiredHeaders?: HeaderAssertion[];
+    failureStatus?: "WARNING" | "DOWN";
+}
+
+/**
+ * Synthetic Transaction
+ * Scripted user journey the browser checker runs after login (BROWSER_LOGIN nodes)
+ * Steps run in order, the first failing step fails the check with `failureStatus` (default DOWN)
+ */
+export type TransactionAction = "goto" | "click" | "fill" | "waitForSelector" | "assertText" | "assertUrl";
+
+export interface TransactionStep {
+    action: TransactionAction;
+    name?: string;                                 // Shown in failure messages
+    selector?: string;                             // click / fill / waitForSelector / assertText (default body)
+    url?: string;                                  // goto: absolute or relative to the node URL; assertUrl: "substring" or "/regex/flags"
+    value?: string;                                // fill
+    text?: string;                                 // assertText
+    timeoutMs?: number;                            // Default 10s
+}
+
+export interface SyntheticTransaction {
+    steps: TransactionStep[];
+    failureStatus?: "WARNING" | "DOWN";
+}
+
+export interface TransactionStepResult {
+    step: number;                                  // 1-based
+    action: TransactionAction;
+    name?: string;
+    durationMs: number;
+    ok: boolean;
+    error?: string;
+}
+
+/**
+ * Group Policy Document
+ * Check policy shared by every node in a NodeGroup
+ */
+export interface IGroupPolicy {
+    _id: ObjectId;
+    group: NodeGroup;
+    checkPolicy: Partial<CheckPolicy>;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Check Run State Document
+ * Resume cursor of the scheduled check run (one document per runner key)
+ */
+export interface ICheckRunState {
+    key: string;
+    cursor: string | null;          // Node _id to resume from (null = start from the beginning), or rollup watermark (ISO date)
+    lastRunAt?: Date;
+    lastRunComplete?: boolean;
+    nextRunAt?: Date;               // Throttled jobs: earliest next run
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Status Check State
+ * Counters maintained on the node between checks
+ */
+export interface StatusCheckState {
+    consecutiveFailures: number;
+    consecutiveSuccesses: number;
+    recentStatuses: NodeStatus[];   // Observed (unconfirmed) results, newest last
+    underlyingStatus?: NodeStatus;  // Confirmed status while the node shows MAINTENANCE / DEGRADED_BY_DEPENDENCY
+}
 
 /**
  * Visualization Mode Types
  * Frontend visualization layout modes
  */
-export type VisualizationMode = "Atom" | "vector" | "alerts";
+export type VisualizationMode = "Atom" | "vector" | "alerts" | "topology";
 
 /**
  * Node Group Types
@@ -51,6 +178,10 @@ export interface AuthConfig {
     passwordSelector?: string;
     submitSelector?: string;
     loginSuccessSelector?: string;
+    // Set on API responses instead of the (encrypted) secrets
+    hasPassword?: boolean;
+    hasToken?: boolean;
+    hasHeaderValue?: boolean;
 }
 
 export interface INode {
@@ -61,6 +192,20 @@ export interface INode {
     dependencies: ObjectId[];  // Array for many-to-many relationships (Neuron mode)
     authConfig?: AuthConfig;
     status: NodeStatus;
+    statusPolicy?: Partial<StatusPolicy>;
+    checkPolicy?: Partial<CheckPolicy>;
+    assertions?: ContentAssertions;
+    transaction?: SyntheticTransaction;
+    checkState?: StatusCheckState;
+    checkIntervalSeconds?: number;  // Unset = CHECK_DEFAULT_INTERVAL_SECONDS
+    nextCheckAt?: Date;             // When the scheduler checks this node next
+    tags?: string[];                // Free-form labels, e.g. for maintenance scopes
+    owner?: string;                 // Responsible person or team
+    sheetRow?: number;              // Row in the Google Sheet, set by the sync (status write-back)
+    source?: NodeSource;            // Unset on nodes created before sources were recorded
+    sheetSourceId?: ObjectId;       // Sheet source that created the node (unset = GOOGLE_SPREADSHEET_ID)
+    maintenance?: ActiveMaintenance; // Set while status is MAINTENANCE
+    rootCauses?: DependencyRootCause[]; // Failing upstream nodes while DOWN because of a dependency
     latency: number;          // in milliseconds
     history: number[];        // Last 20 latency measurements
     lastChecked: Date;
@@ -82,6 +227,19 @@ export interface NodeData {
     dependencies: string[];
     authConfig?: AuthConfig;
     status: NodeStatus;
+    statusPolicy?: Partial<StatusPolicy>;
+    checkPolicy?: Partial<CheckPolicy>;
+    assertions?: ContentAssertions;
+    transaction?: SyntheticTransaction;
+    checkIntervalSeconds?: number;
+    nextCheckAt?: string;
+    tags?: string[];
+    owner?: string;
+    source?: NodeSource;
+    sheetSourceId?: string;
+    sheetRow?: number;
+    maintenance?: { windowId: string; name: string; endsAt: string };
+    rootCauses?: DependencyRootCause[];
     latency: number;
     history: number[];
     lastChecked: string;
@@ -105,12 +263,20 @@ export interface NodePosition {
 }
 
 /**
- * Edge Connection (for Tree and Neuron modes)
+ * Health of an edge's upstream (source) node in Topology mode
+ */
+export type EdgeHealth = "healthy" | "degraded" | "failing" | "maintenance";
+
+/**
+ * Edge Connection (for Tree, Neuron and Topology modes)
+ * In Topology mode `source` is the dependency (upstream) and `target` the dependent
  */
 export interface EdgeData {
     source: string;
     target: string;
     path?: { x: number; y: number; z: number }[];  // Bezier curve points
+    health?: EdgeHealth;
+    propagationDepth?: number;  // Failing hops above this edge (0 = leaves the root cause)
 }
 
 /**
@@ -125,6 +291,587 @@ export interface HealthCheckResult {
     error?: string;
 }
 
+/**
+ * Checker Type
+ * Which health check implementation produced a result
+ */
+export type CheckerType = "http" | "browser";
+
+/**
+ * Check Result Document
+ * One document per health check (time-series history)
+ */
+export interface ICheckResult {
+    _id: ObjectId;
+    nodeId: ObjectId;
+    timestamp: Date;
+    status: NodeStatus;
+    latency: number;
+    httpStatus?: number;
+    error?: string;
+    checker: CheckerType;
+    steps?: TransactionStepResult[];  // Synthetic transaction timings (browser checks)
+    artifacts?: CheckArtifact[];      // Captured by failed browser checks
+}
+
+/**
+ * Check Artifact
+ * Screenshot / page HTML / HAR captured when a browser check fails,
+ * stored in GridFS and served by /api/artifacts/[id]
+ */
+export type CheckArtifactKind = "screenshot" | "html" | "har";
+
+export interface CheckArtifact {
+    id: string;
+    kind: CheckArtifactKind;
+    contentType: string;
+    size: number;                     // Bytes
+}
+
+/**
+ * Saved Browser Session
+ * Playwright storage state (cookies, localStorage) of a BROWSER_LOGIN login,
+ * one per login origin + credentials, encrypted at rest
+ */
+export interface IBrowserSession {
+    _id: ObjectId;
+    key: string;                      // <nodeId>:<login origin>
+    origin: string;                   // Login origin, for operators
+    fingerprint: string;              // HMAC of the credentials (master key), see fingerprintSecret
+    storageState: string;             // Encrypted JSON (lib/security/credentials.ts)
+    expiresAt: Date;                  // TTL
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Google Sheets Column Mapping
+ * Node field -> sheet header (case-insensitive) or column letter,
+ * e.g. { name: "Nama", url: "URL", group: "D" }
+ */
+export type SheetColumnField =
+    | "name"
+    | "url"
+    | "group"
+    | "owner"
+    | "authType"
+    | "checkIntervalSeconds"
+    | "tags"
+    | "dependencies"    // Node names, comma separated
+    // Written by the status write-back (GOOGLE_SHEET_WRITEBACK), never imported
+    | "status"
+    | "lastChecked"
+    | "latency"
+    | "lastError";
+
+export type SheetColumnMapping = Partial<Record<SheetColumnField, string>>;
+
+/**
+ * Stored Google Sheets settings (single document, key "default")
+ */
+export interface ISheetsConfig {
+    _id: ObjectId;
+    key: string;
+    columnMapping: SheetColumnMapping;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Sheet row that could not be imported, reported by the sync
+ */
+export interface SheetRowError {
+    row: number;                // Sheet row number (1 = header)
+    field?: SheetColumnField;
+    value?: string;
+    message: string;
+}
+
+/**
+ * Where a node was created: by hand (UI / API) or by the Sheets sync
+ * Only google_sheets nodes are updated and deleted by the sync
+ */
+export type NodeSource = "manual" | "google_sheets" | "config";
+
+/**
+ * Planned Sheets sync changes (POST /api/google-sheets/sync, dryRun returns the plan)
+ * Dependencies are listed by node name
+ */
+export interface SheetSyncAdd {
+    row: number;
+    name: string;
+    url: string;
+    group: NodeGroup;
+}
+
+export interface SheetSyncUpdate {
+    nodeId: string;
+    name: string;
+    row: number;
+    changes: AuditChange[];
+}
+
+export interface SheetSyncDelete {
+    nodeId: string;
+    name: string;
+    url: string;
+}
+
+export interface SheetSyncPlan {
+    totalInSheet: number;
+    totalInDatabase: number;
+    adds: SheetSyncAdd[];
+    updates: SheetSyncUpdate[];
+    deletes: SheetSyncDelete[];
+    unchanged: number;
+    manual: number;             // Sheet rows matching nodes this sync does not own (left alone)
+    errors: SheetRowError[];
+    deletePercent: number;      // Deletes / sheet-sourced nodes
+    maxDeletePercent: number;
+    deleteBlocked: boolean;     // Above maxDeletePercent, needs force
+}
+
+/**
+ * Sheet Sync Source
+ * A spreadsheet tab synced by the server on a schedule (lib/services/sheetSources.ts)
+ * Nodes it creates carry its id in `sheetSourceId`
+ */
+export type SheetSyncStatus = "success" | "error" | "blocked";
+
+export interface SheetSyncCounts {
+    added: number;
+    updated: number;
+    deleted: number;
+    invalid: number;
+}
+
+export interface ISheetSource {
+    _id: ObjectId;
+    name: string;
+    spreadsheetId: string;
+    sheetName: string;
+    columnMapping: SheetColumnMapping;   // Empty = legacy layout (A = name, B = URL)
+    defaultGroup: NodeGroup;             // For rows without a group
+    intervalMinutes: number;
+    enabled: boolean;
+    deleteOrphaned: boolean;             // Scheduled syncs never force past the delete limit
+    nextSyncAt?: Date;
+    lastSyncAt?: Date;
+    lastStatus?: SheetSyncStatus;
+    lastError?: string;
+    lastResult?: SheetSyncCounts;
+    lastRowErrors?: SheetRowError[];     // Capped
+    consecutiveFailures: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Frontend Sheet Source Data
+ */
+export interface SheetSourceData {
+    id: string;
+    name: string;
+    spreadsheetId: string;
+    sheetName: string;
+    columnMapping: SheetColumnMapping;
+    defaultGroup: NodeGroup;
+    intervalMinutes: number;
+    enabled: boolean;
+    deleteOrphaned: boolean;
+    nextSyncAt?: string;
+    lastSyncAt?: string;
+    lastStatus?: SheetSyncStatus;
+    lastError?: string;
+    lastResult?: SheetSyncCounts;
+    lastRowErrors: SheetRowError[];
+    consecutiveFailures: number;
+}
+
+/**
+ * Monitoring Configuration File
+ * Declarative nodes and group policies kept in git (lib/services/monitoringConfig.ts)
+ * Secrets are never written inline, only as references to environment variables
+ */
+export interface SecretRef {
+    env: string;
+}
+
+export interface ConfigAuth {
+    type: AuthConfig["type"];
+    username?: string | SecretRef;
+    password?: SecretRef;
+    token?: SecretRef;
+    headerName?: string;
+    headerValue?: SecretRef;
+    loginUrl?: string;
+    loginType?: "page" | "modal";
+    modalTriggerSelector?: string;
+    usernameSelector?: string;
+    passwordSelector?: string;
+    submitSelector?: string;
+    loginSuccessSelector?: string;
+}
+
+export interface ConfigNode {
+    name: string;
+    url: string;
+    group?: NodeGroup;                  // Default: website
+    owner?: string;
+    tags?: string[];
+    checkIntervalSeconds?: number;
+    dependsOn?: string[];               // Node names
+    checkPolicy?: Partial<CheckPolicy>;
+    statusPolicy?: Partial<StatusPolicy>;
+    auth?: ConfigAuth;
+}
+
+export interface MonitoringConfig {
+    version: 1;
+    groups?: Partial<Record<NodeGroup, { checkPolicy: Partial<CheckPolicy> }>>;
+    nodes: ConfigNode[];
+}
+
+export interface ConfigError {
+    path: string;               // e.g. nodes[3].auth.token
+    message: string;
+}
+
+/**
+ * What applying a configuration file would change
+ */
+export interface ConfigPlan {
+    creates: { name: string; url: string; group: NodeGroup }[];
+    updates: { nodeId: string; name: string; changes: AuditChange[] }[];
+    deletes: { nodeId: string; name: string; url: string }[];          // Config nodes missing from the file (prune)
+    groupUpdates: { group: NodeGroup; changes: AuditChange[] }[];
+    groupDeletes: { group: NodeGroup }[];                              // Group policies missing from the file (prune)
+    unchanged: number;
+    errors: ConfigError[];      // Nothing is applied while there are errors
+}
+
+/**
+ * Artifacts of one failed check (GET /api/nodes/[id]/artifacts)
+ */
+export interface CheckArtifactSet {
+    checkedAt: string;
+    status: NodeStatus;
+    error?: string;
+    artifacts: CheckArtifact[];
+}
+
+/**
+ * Rollup Period for downsampled check history
+ */
+export type RollupPeriod = "hour" | "day";
+
+/**
+ * Check Rollup Document
+ * Aggregated check results per node per hour/day bucket
+ */
+export interface ICheckRollup {
+    _id: ObjectId;
+    nodeId: ObjectId;
+    period: RollupPeriod;
+    bucketStart: Date;
+    total: number;
+    up: number;               // STABLE + FRESH
+    warning: number;
+    down: number;
+    avgLatency: number;
+    minLatency: number;
+    maxLatency: number;
+    expiresAt: Date;          // TTL per period retention
+}
+
+/**
+ * Incident Lifecycle Status
+ * OPEN -> ACKNOWLEDGED (manual) -> RESOLVED (automatic on recovery)
+ */
+export type IncidentStatus = "OPEN" | "ACKNOWLEDGED" | "RESOLVED";
+
+/**
+ * Incident Timeline Event
+ */
+export interface IncidentEvent {
+    type: "opened" | "failure" | "acknowledged" | "resolved";
+    at: Date;
+    message?: string;
+    actor?: string;
+}
+
+/**
+ * Incident Document
+ * Opened when a node transitions to DOWN, resolved when it recovers
+ */
+export interface IIncident {
+    _id: ObjectId;
+    nodeId: ObjectId;
+    nodeName: string;
+    group: NodeGroup;
+    status: IncidentStatus;
+    startedAt: Date;          // First failed check
+    lastFailureAt: Date;
+    failureCount: number;
+    error?: string;           // Error text of the first failure
+    lastError?: string;
+    httpStatus?: number;
+    acknowledgedAt?: Date;
+    acknowledgedBy?: string;
+    ackNote?: string;
+    resolvedAt?: Date;
+    durationMs?: number;
+    timeline: IncidentEvent[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Frontend Incident Data
+ */
+export interface IncidentData {
+    id: string;
+    nodeId: string;
+    nodeName: string;
+    group: NodeGroup;
+    status: IncidentStatus;
+    startedAt: string;
+    lastFailureAt: string;
+    failureCount: number;
+    error?: string;
+    lastError?: string;
+    httpStatus?: number;
+    acknowledgedAt?: string;
+    acknowledgedBy?: string;
+    ackNote?: string;
+    resolvedAt?: string;
+    durationMs?: number;
+    timeline: { type: IncidentEvent["type"]; at: string; message?: string; actor?: string }[];
+}
+
+/**
+ * Maintenance Windows
+ * once: fixed startsAt..endsAt | recurring: starts whenever `cron` matches
+ * (minute hour day-of-month month day-of-week, in `timezone`) and lasts
+ * durationMinutes
+ */
+export type MaintenanceScheduleType = "once" | "recurring";
+
+export interface MaintenanceScope {
+    nodeIds: string[];
+    groups: NodeGroup[];
+    tags: string[];
+}
+
+export interface IMaintenanceWindow {
+    _id: ObjectId;
+    name: string;
+    description?: string;
+    enabled: boolean;
+    scope: MaintenanceScope;
+    schedule: MaintenanceScheduleType;
+    startsAt?: Date;
+    endsAt?: Date;
+    cron?: string;
+    durationMinutes?: number;
+    timezone: string;
+    createdBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Frontend Maintenance Window Data
+ */
+export interface MaintenanceWindowData {
+    id: string;
+    name: string;
+    description?: string;
+    enabled: boolean;
+    scope: MaintenanceScope;
+    schedule: MaintenanceScheduleType;
+    startsAt?: string;
+    endsAt?: string;
+    cron?: string;
+    durationMinutes?: number;
+    timezone: string;
+    createdBy?: string;
+    active: boolean;              // In effect right now
+    activeUntil?: string;
+}
+
+/**
+ * Dependency Graph
+ * A node whose confirmed status is DOWN while an upstream dependency is DOWN
+ * shows DEGRADED_BY_DEPENDENCY and points at the failing root(s)
+ */
+export interface DependencyRootCause {
+    nodeId: string;
+    name: string;
+}
+
+/**
+ * Downstream node reached from a failing node (GET /api/nodes/[id]/blast-radius)
+ */
+export interface BlastRadiusEntry {
+    id: string;
+    name: string;
+    group: NodeGroup;
+    status: NodeStatus;
+    depth: number;          // 1 = depends on the node directly
+}
+
+export interface BlastRadiusData {
+    node: { id: string; name: string; status: NodeStatus };
+    dependents: BlastRadiusEntry[];
+    total: number;
+}
+
+/**
+ * Window a node is currently in
+ */
+export interface ActiveMaintenance {
+    windowId: string;
+    name: string;
+    endsAt: Date;
+}
+
+/**
+ * Live Status Update
+ * Check-driven fields of a node, pushed over /api/stream
+ */
+export type NodeStatusUpdate = Pick<
+    NodeData,
+    "id" | "status" | "latency" | "history" | "lastChecked" | "nextCheckAt" | "httpStatus" | "statusMessage" | "maintenance" | "rootCauses"
+>;
+
+/**
+ * Server-Sent Event payloads of /api/stream (event name = type)
+ * "ready" is sent once per connection; scheduler tells the client
+ * whether checks run without dashboard polling (cron or in-process scheduler)
+ */
+export type StreamEvent =
+    | { type: "ready"; scheduler: boolean }
+    | { type: "node-updated"; node: NodeStatusUpdate }
+    | { type: "incident-opened"; incident: IncidentData }
+    | { type: "incident-resolved"; incident: IncidentData };
+
+/**
+ * User Roles
+ * viewer: read-only dashboard | operator: + trigger checks, acknowledge incidents, sync sheets
+ * admin: + node CRUD, credentials, policies, users
+ */
+export type UserRole = "viewer" | "operator" | "admin";
+
+/**
+ * User Document (local user store)
+ */
+export interface IUser {
+    _id: ObjectId;
+    username: string;
+    passwordHash: string;
+    role: UserRole;
+    disabled: boolean;
+    lastLoginAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Frontend User Data
+ */
+export interface UserData {
+    id: string;
+    username: string;
+    role: UserRole;
+    disabled: boolean;
+    lastLoginAt?: string;
+    createdAt: string;
+}
+
+/**
+ * Audit Log
+ * Who changed which configuration, from where
+ */
+export type AuditAction =
+    | "node.create"
+    | "node.update"
+    | "node.delete"
+    | "node.bulk_auth"
+    | "group_policy.update"
+    | "group_policy.delete"
+    | "maintenance.create"
+    | "maintenance.update"
+    | "maintenance.delete"
+    | "user.create"
+    | "user.update"
+    | "user.delete"
+    | "sheets_config.update"
+    | "sheet_source.create"
+    | "sheet_source.update"
+    | "sheet_source.delete";
+
+export type AuditSource = "ui" | "api" | "sheets_sync" | "config";
+
+export type AuditTargetType = "node" | "group" | "user" | "maintenance" | "sheets";
+
+/**
+ * One changed field, dotted path (e.g. "authConfig.password")
+ * Secret values are replaced with "[redacted]"
+ */
+export interface AuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface IAuditEvent {
+    _id: ObjectId;
+    actor: string;            // Username, or "system" for unattended jobs
+    action: AuditAction;
+    source: AuditSource;
+    targetType: AuditTargetType;
+    targetId?: string;
+    targetName: string;
+    changes: AuditChange[];
+    message?: string;
+    createdAt: Date;
+}
+
+/**
+ * Frontend Audit Event Data
+ */
+export interface AuditEventData {
+    id: string;
+    actor: string;
+    action: AuditAction;
+    source: AuditSource;
+    targetType: AuditTargetType;
+    targetId?: string;
+    targetName: string;
+    changes: AuditChange[];
+    message?: string;
+    createdAt: string;
+}
+
+/**
+ * Custom API Error Class
+ * ✅ TAHAP 3: Enhanced error handling with HTTP status codes
+ * Shared by the client hooks and lib/utils/api-helpers.ts (server), so it
+ * lives here rather than in a hook module
+ */
+export class APIError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number,
+        public response?: any
+    ) {
+        super(message);
+        this.name = 'APIError';
+        Object.setPrototypeOf(this, APIError.prototype);
+    }
+}
+
 /**
  * Visual Mapping Configuration
  * Frontend-only structure for status visualization
@@ -0,0 +1,25 @@
+import { DefaultSession } from "next-auth";
+import { UserRole } from "@/types";
+
+/**
+ * Auth.js type augmentation: sessions carry the user's id and role
+ */
+declare module "next-auth" {
+    interface User {
+        role?: UserRole;
+    }
+
+    interface Session {
+        user: {
+            id: string;
+            role: UserRole;
+        } & DefaultSession["user"];
+    }
+}
+
+declare module "next-auth/jwt" {
+    interface JWT {
+        role?: UserRole;
+        checkedAt?: number;     // Last time the user was loaded again (lib/auth/userCheck.ts)
+    }
+}